@@ -0,0 +1,297 @@
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { JsonFileStore } from '../common/JsonFileStore';
+import { CompiledExpression, compileExpression } from './AlertExpression';
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  // See AlertExpression, e.g. `deltaZ > 3`
+  expression: string;
+  // Re-arms the rule once true; defaults to the expression turning false.
+  clearExpression: string | null;
+  // Empty applies to every symbol.
+  symbols: string[];
+  severity: AlertSeverity;
+  // The expression must hold this long before the rule fires.
+  forMs: number;
+  // Minimum time between two firings for the same symbol.
+  cooldownMs: number;
+  enabled: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AlertRuleInput = Partial<Omit<AlertRule, 'id' | 'createdAt' | 'updatedAt'>>;
+
+export interface FiredAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  symbol: string;
+  severity: AlertSeverity;
+  expression: string;
+  // Values of the fields the expression read
+  values: Record<string, unknown>;
+  firedAt: number;
+}
+
+export interface AlertEngineConfig {
+  // Rules file; null keeps rules in memory only.
+  file: string | null;
+  maxHistory: number;
+  now?: () => number;
+  onError?: (error: Error) => void;
+}
+
+export type AlertListener = (alert: FiredAlert) => void;
+
+type CompiledRule = {
+  rule: AlertRule;
+  expression: CompiledExpression;
+  clear: CompiledExpression | null;
+};
+
+type RuleState = {
+  armed: boolean;
+  trueSince: number | null;
+  lastFiredAt: number;
+};
+
+const SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+/**
+ * Evaluates alert rules against every metrics payload.
+ *
+ * Each rule keeps one state per symbol.  An armed rule fires when its
+ * expression has held for forMs and the cooldown has passed, then stays
+ * disarmed until its clear expression (or, without one, the negated
+ * expression) is true: `deltaZ > 3` cleared by `deltaZ < 2` does not fire
+ * again while deltaZ hovers around 3.
+ *
+ * Rules are saved to a JSON file on every change.  Fired alerts go to
+ * listeners and into a bounded in-memory history, newest last.
+ */
+export class AlertEngine {
+  private readonly rules = new Map<string, CompiledRule>();
+  private readonly states = new Map<string, RuleState>();
+  // Rules whose last evaluation threw, so each failure is reported once
+  private readonly failingRules = new Set<string>();
+  private readonly listeners = new Set<AlertListener>();
+  private readonly now: () => number;
+  private history: FiredAlert[] = [];
+  private readonly store: JsonFileStore<{ rules: AlertRule[] }> | null;
+
+  constructor(private readonly config: AlertEngineConfig) {
+    this.now = config.now || (() => Date.now());
+    this.store = config.file ? new JsonFileStore({ file: config.file, onError: (e) => this.reportError(e) }) : null;
+  }
+
+  onAlert(listener: AlertListener) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  listRules(): AlertRule[] {
+    return [...this.rules.values()].map((r) => ({ ...r.rule }));
+  }
+
+  getRule(id: string): AlertRule | null {
+    const compiled = this.rules.get(id);
+    return compiled ? { ...compiled.rule } : null;
+  }
+
+  /**
+   * Throws on an invalid rule; nothing is stored then.
+   */
+  createRule(input: AlertRuleInput): AlertRule {
+    const now = this.now();
+    const compiled = compileRule({
+      name: '',
+      expression: '',
+      clearExpression: null,
+      symbols: [],
+      severity: 'warning',
+      forMs: 0,
+      cooldownMs: 60_000,
+      enabled: true,
+      ...input,
+      id: randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.rules.set(compiled.rule.id, compiled);
+    this.save();
+    return { ...compiled.rule };
+  }
+
+  updateRule(id: string, patch: AlertRuleInput): AlertRule | null {
+    const current = this.rules.get(id);
+    if (!current) return null;
+    const compiled = compileRule({ ...current.rule, ...patch, id, createdAt: current.rule.createdAt, updatedAt: this.now() });
+    this.rules.set(id, compiled);
+    this.resetState(id);
+    this.save();
+    return { ...compiled.rule };
+  }
+
+  deleteRule(id: string): boolean {
+    if (!this.rules.delete(id)) return false;
+    this.resetState(id);
+    this.save();
+    return true;
+  }
+
+  getHistory(limit: number, symbol?: string): FiredAlert[] {
+    const matching = symbol ? this.history.filter((a) => a.symbol === symbol) : this.history;
+    return matching.slice(-Math.max(0, limit));
+  }
+
+  /**
+   * Runs inline with the metrics broadcast, so a rule that throws is
+   * reported (once until it recovers) and skipped instead of propagating.
+   */
+  evaluate(symbol: string, payload: Record<string, any>) {
+    const now = this.now();
+    for (const compiled of this.rules.values()) {
+      try {
+        this.evaluateRule(compiled, symbol, payload, now);
+        this.failingRules.delete(compiled.rule.id);
+      } catch (e: any) {
+        if (!this.failingRules.has(compiled.rule.id)) {
+          this.failingRules.add(compiled.rule.id);
+          this.reportError(new Error(`alert_rule_failed:${compiled.rule.id}:${e?.message || e}`));
+        }
+      }
+    }
+  }
+
+  /**
+   * Reads the rules file.  A missing file means no rules yet.
+   */
+  async load() {
+    const stored = this.store ? await this.store.read() : null;
+    if (!stored) return;
+    for (const rule of Array.isArray(stored?.rules) ? stored.rules : []) {
+      try {
+        const compiled = compileRule(rule);
+        this.rules.set(compiled.rule.id, compiled);
+      } catch (e: any) {
+        this.reportError(new Error(`alert_rule_skipped:${rule?.id}:${e.message}`));
+      }
+    }
+  }
+
+  flush(): Promise<void> {
+    return this.store ? this.store.flush() : Promise.resolve();
+  }
+
+  private evaluateRule({ rule, expression, clear }: CompiledRule, symbol: string, payload: Record<string, any>, now: number) {
+    if (!rule.enabled || (rule.symbols.length > 0 && !rule.symbols.includes(symbol))) {
+      return;
+    }
+    const key = `${rule.id}|${symbol}`;
+    let state = this.states.get(key);
+    if (!state) {
+      state = { armed: true, trueSince: null, lastFiredAt: -Infinity };
+      this.states.set(key, state);
+    }
+
+    const active = expression.evaluate(payload);
+    state.trueSince = active ? (state.trueSince ?? now) : null;
+    if (!state.armed) {
+      if (clear ? clear.evaluate(payload) : !active) state.armed = true;
+      return;
+    }
+    if (!active || now - state.trueSince! < rule.forMs || now - state.lastFiredAt < rule.cooldownMs) {
+      return;
+    }
+
+    state.armed = false;
+    state.lastFiredAt = now;
+    this.fire({
+      id: randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      symbol,
+      severity: rule.severity,
+      expression: rule.expression,
+      values: expression.values(payload),
+      firedAt: now,
+    });
+  }
+
+  private fire(alert: FiredAlert) {
+    this.history.push(alert);
+    if (this.history.length > this.config.maxHistory) {
+      this.history = this.history.slice(-this.config.maxHistory);
+    }
+    for (const listener of this.listeners) {
+      try {
+        listener(alert);
+      } catch (e: any) {
+        this.reportError(e);
+      }
+    }
+  }
+
+  private resetState(id: string) {
+    this.failingRules.delete(id);
+    for (const key of [...this.states.keys()]) {
+      if (key.startsWith(`${id}|`)) this.states.delete(key);
+    }
+  }
+
+  private save() {
+    this.store?.save({ rules: this.listRules() });
+  }
+
+  private reportError(error: Error) {
+    if (this.config.onError) {
+      this.config.onError(error);
+    }
+  }
+}
+
+function compileRule(rule: AlertRule): CompiledRule {
+  const name = String(rule.name || '').trim();
+  if (!name) throw new Error('name is required');
+  if (!SEVERITIES.includes(rule.severity)) throw new Error(`severity must be one of ${SEVERITIES.join(', ')}`);
+  if (!Array.isArray(rule.symbols)) throw new Error('symbols must be an array');
+  const forMs = Number(rule.forMs);
+  const cooldownMs = Number(rule.cooldownMs);
+  if (!(forMs >= 0) || !(cooldownMs >= 0)) throw new Error('forMs and cooldownMs must be >= 0');
+
+  let expression: CompiledExpression;
+  let clear: CompiledExpression | null = null;
+  try {
+    expression = compileExpression(String(rule.expression || ''));
+    if (rule.clearExpression) clear = compileExpression(String(rule.clearExpression));
+  } catch (e: any) {
+    throw new Error(`invalid expression: ${e.message}`);
+  }
+  return {
+    rule: {
+      ...rule,
+      name,
+      expression: expression.source,
+      clearExpression: clear ? clear.source : null,
+      symbols: rule.symbols.map((s) => String(s).toUpperCase()),
+      forMs,
+      cooldownMs,
+      enabled: rule.enabled !== false,
+    },
+    expression,
+    clear,
+  };
+}
+
+export function createAlertEngineFromEnv(onError?: (error: Error) => void): AlertEngine {
+  return new AlertEngine({
+    file: process.env.ALERT_RULES_FILE || path.resolve(__dirname, '../logs/alert-rules.json'),
+    maxHistory: Number(process.env.ALERT_HISTORY_SIZE || 500),
+    onError,
+  });
+}
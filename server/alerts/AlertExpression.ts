@@ -0,0 +1,230 @@
+/**
+ * Small expression language for alert rules, evaluated against a metrics
+ * payload without eval:
+ *
+ *   deltaZ > 3 && cvd.tf5m.exhaustion
+ *   absorption === 1 || abs(openInterest.deltaPercent) >= 2
+ *   openInterest.signal == 'bearish'
+ *
+ * Identifiers are dotted paths into the payload.  A path whose first
+ * segment is not a payload key is looked up under `legacyMetrics`, so
+ * `deltaZ` reads `legacyMetrics.deltaZ`.  Missing values are undefined
+ * and make every comparison false.  `==` / `!=` compare strictly, like
+ * `===` / `!==`.
+ */
+
+type Node =
+  | { kind: 'literal'; value: number | string | boolean | null }
+  | { kind: 'path'; path: string[] }
+  | { kind: 'unary'; op: '!' | '-'; arg: Node }
+  | { kind: 'binary'; op: string; left: Node; right: Node }
+  | { kind: 'call'; fn: string; args: Node[] };
+
+type Token = { type: 'num' | 'str' | 'ident' | 'op' | 'end'; value: string; pos: number };
+
+// A Map, so inherited object keys like 'constructor' are not functions
+const FUNCTIONS = new Map<string, (...args: number[]) => number>([
+  ['abs', Math.abs],
+  ['min', Math.min],
+  ['max', Math.max],
+]);
+
+const OPERATORS = ['===', '!==', '==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '+', '-', '*', '/', '(', ')', ','];
+
+export interface CompiledExpression {
+  source: string;
+  // Payload paths the expression reads
+  identifiers: string[];
+  evaluate(payload: Record<string, any>): boolean;
+  // Values of the identifiers in the payload, for alert context
+  values(payload: Record<string, any>): Record<string, unknown>;
+}
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    const num = /^\d+(\.\d+)?([eE][+-]?\d+)?/.exec(src.slice(i));
+    if (num) {
+      tokens.push({ type: 'num', value: num[0], pos: i });
+      i += num[0].length;
+      continue;
+    }
+    const ident = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*/.exec(src.slice(i));
+    if (ident) {
+      tokens.push({ type: 'ident', value: ident[0], pos: i });
+      i += ident[0].length;
+      continue;
+    }
+    if (c === '\'' || c === '"') {
+      const end = src.indexOf(c, i + 1);
+      if (end < 0) throw new Error(`unterminated string at ${i}`);
+      tokens.push({ type: 'str', value: src.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+    const op = OPERATORS.find((o) => src.startsWith(o, i));
+    if (!op) throw new Error(`unexpected character '${c}' at ${i}`);
+    tokens.push({ type: 'op', value: op, pos: i });
+    i += op.length;
+  }
+  tokens.push({ type: 'end', value: '', pos: src.length });
+  return tokens;
+}
+
+function parse(src: string): Node {
+  const tokens = tokenize(src);
+  let i = 0;
+  const peek = () => tokens[i];
+  const accept = (...ops: string[]) => {
+    const t = tokens[i];
+    if (t.type === 'op' && ops.includes(t.value)) {
+      i++;
+      return t.value;
+    }
+    return null;
+  };
+  const expect = (op: string) => {
+    if (!accept(op)) throw new Error(`expected '${op}' at ${peek().pos}`);
+  };
+  const binary = (next: () => Node, ops: string[]) => (): Node => {
+    let left = next();
+    let op: string | null;
+    while ((op = accept(...ops))) {
+      left = { kind: 'binary', op, left, right: next() };
+    }
+    return left;
+  };
+
+  const primary = (): Node => {
+    const t = tokens[i++];
+    if (t.type === 'num') return { kind: 'literal', value: Number(t.value) };
+    if (t.type === 'str') return { kind: 'literal', value: t.value };
+    if (t.type === 'ident') {
+      if (t.value === 'true' || t.value === 'false') return { kind: 'literal', value: t.value === 'true' };
+      if (t.value === 'null') return { kind: 'literal', value: null };
+      if (accept('(')) {
+        if (!FUNCTIONS.has(t.value)) throw new Error(`unknown function '${t.value}' at ${t.pos}`);
+        const args: Node[] = [];
+        if (!accept(')')) {
+          do args.push(or()); while (accept(','));
+          expect(')');
+        }
+        return { kind: 'call', fn: t.value, args };
+      }
+      return { kind: 'path', path: t.value.split('.') };
+    }
+    if (t.type === 'op' && t.value === '(') {
+      const inner = or();
+      expect(')');
+      return inner;
+    }
+    throw new Error(t.type === 'end' ? 'unexpected end of expression' : `unexpected '${t.value}' at ${t.pos}`);
+  };
+  const unary = (): Node => {
+    const op = accept('!', '-');
+    return op ? { kind: 'unary', op: op as '!' | '-', arg: unary() } : primary();
+  };
+  const product = binary(unary, ['*', '/']);
+  const sum = binary(product, ['+', '-']);
+  const comparison = binary(sum, ['>=', '<=', '>', '<']);
+  const equality = binary(comparison, ['===', '!==', '==', '!=']);
+  const and = binary(equality, ['&&']);
+  const or: () => Node = binary(and, ['||']);
+
+  const root = or();
+  if (peek().type !== 'end') throw new Error(`unexpected '${peek().value}' at ${peek().pos}`);
+  return root;
+}
+
+function resolve(payload: Record<string, any>, path: string[]): unknown {
+  const own = (obj: any, key: string) => obj !== null && typeof obj === 'object' && Object.prototype.hasOwnProperty.call(obj, key);
+  const segments = own(payload, path[0]) ? path : ['legacyMetrics', ...path];
+  let value: any = payload;
+  for (const segment of segments) {
+    if (!own(value, segment)) return undefined;
+    value = value[segment];
+  }
+  return value;
+}
+
+function evaluate(node: Node, payload: Record<string, any>): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'path':
+      return resolve(payload, node.path);
+    case 'unary': {
+      const arg = evaluate(node.arg, payload);
+      return node.op === '!' ? !truthy(arg) : -toNumber(arg);
+    }
+    case 'call':
+      return FUNCTIONS.get(node.fn)!(...node.args.map((a) => toNumber(evaluate(a, payload))));
+    case 'binary': {
+      if (node.op === '&&') return truthy(evaluate(node.left, payload)) && truthy(evaluate(node.right, payload));
+      if (node.op === '||') return truthy(evaluate(node.left, payload)) || truthy(evaluate(node.right, payload));
+      const left = evaluate(node.left, payload);
+      const right = evaluate(node.right, payload);
+      if (node.op === '==' || node.op === '===') return left !== undefined && normalize(left) === normalize(right);
+      if (node.op === '!=' || node.op === '!==') return left !== undefined && normalize(left) !== normalize(right);
+      const a = toNumber(left);
+      const b = toNumber(right);
+      switch (node.op) {
+        case '>': return a > b;
+        case '>=': return a >= b;
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        default: return a / b;
+      }
+    }
+  }
+}
+
+// Booleans compare equal to 1 / 0, so `cvd.tf5m.exhaustion == 1` works.
+function normalize(value: unknown): unknown {
+  return typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return NaN;
+}
+
+function truthy(value: unknown): boolean {
+  return typeof value === 'number' ? Number.isFinite(value) && value !== 0 : Boolean(value);
+}
+
+function collectPaths(node: Node, out: Set<string>) {
+  if (node.kind === 'path') out.add(node.path.join('.'));
+  else if (node.kind === 'unary') collectPaths(node.arg, out);
+  else if (node.kind === 'binary') {
+    collectPaths(node.left, out);
+    collectPaths(node.right, out);
+  } else if (node.kind === 'call') node.args.forEach((a) => collectPaths(a, out));
+}
+
+/**
+ * Throws with the position of the first syntax error.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  if (!source.trim()) throw new Error('empty expression');
+  const root = parse(source);
+  const paths = new Set<string>();
+  collectPaths(root, paths);
+  const identifiers = [...paths];
+  return {
+    source,
+    identifiers,
+    evaluate: (payload) => truthy(evaluate(root, payload)),
+    values: (payload) => Object.fromEntries(identifiers.map((p) => [p, resolve(payload, p.split('.')) ?? null])),
+  };
+}
@@ -0,0 +1,296 @@
+import * as path from 'path';
+import { promisify } from 'util';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+import { JsonFileStore } from '../common/JsonFileStore';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number, options: ScryptOptions) => Promise<Buffer>;
+
+const VAULT_VERSION = 1;
+const KEY_LENGTH = 32;
+const CHECK_PLAINTEXT = 'telecodex-vault';
+const PROFILE_NAME = /^[A-Za-z0-9_.-]{1,64}$/;
+
+export interface ExecutionCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+export interface CredentialProfile {
+  name: string;
+  // Last characters of the API key, so profiles can be told apart without unlocking
+  apiKeyHint: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface VaultStatus {
+  initialized: boolean;
+  unlocked: boolean;
+  profiles: CredentialProfile[];
+}
+
+export interface ScryptParams {
+  N: number;
+  r: number;
+  p: number;
+}
+
+export interface CredentialVaultConfig {
+  // Vault file; null keeps the vault in memory only.
+  file: string | null;
+  scrypt?: ScryptParams;
+  now?: () => number;
+  onError?: (error: Error) => void;
+}
+
+type Sealed = {
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+type StoredProfile = Sealed & {
+  apiKeyHint: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type VaultFile = {
+  version: number;
+  kdf: ScryptParams & { salt: string };
+  // Encrypts a known string, so a wrong passphrase is rejected at unlock
+  check: Sealed;
+  profiles: Record<string, StoredProfile>;
+};
+
+const DEFAULT_SCRYPT: ScryptParams = { N: 32768, r: 8, p: 1 };
+
+/**
+ * Exchange API keys encrypted at rest with a master passphrase.
+ *
+ * The passphrase goes through scrypt with a per-vault salt; every profile
+ * is sealed with AES-256-GCM under that key, with the profile name bound
+ * in as associated data so entries cannot be swapped in the file.  The
+ * derived key only lives in memory between unlock() and lock(), and the
+ * first unlock of a vault that does not exist yet creates it.
+ */
+export class CredentialVault {
+  private vault: VaultFile | null = null;
+  private key: Buffer | null = null;
+  private readonly now: () => number;
+  private readonly store: JsonFileStore<VaultFile> | null;
+
+  constructor(private readonly config: CredentialVaultConfig) {
+    this.now = config.now || (() => Date.now());
+    this.store = config.file ? new JsonFileStore({ file: config.file, mode: 0o600, onError: config.onError }) : null;
+  }
+
+  isInitialized(): boolean {
+    return this.vault !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.key !== null;
+  }
+
+  getStatus(): VaultStatus {
+    return { initialized: this.isInitialized(), unlocked: this.isUnlocked(), profiles: this.listProfiles() };
+  }
+
+  listProfiles(): CredentialProfile[] {
+    if (!this.vault) return [];
+    return Object.entries(this.vault.profiles)
+      .map(([name, stored]) => ({ name, apiKeyHint: stored.apiKeyHint, createdAt: stored.createdAt, updatedAt: stored.updatedAt }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  hasProfile(name: string): boolean {
+    return !!this.vault && Object.prototype.hasOwnProperty.call(this.vault.profiles, name);
+  }
+
+  /**
+   * Derives the key from the passphrase and keeps it until lock().  Throws
+   * 'invalid_passphrase' when it does not open the existing vault.
+   */
+  async unlock(passphrase: string) {
+    if (!passphrase) throw new Error('passphrase is required');
+    if (!this.vault) {
+      const params = this.config.scrypt || DEFAULT_SCRYPT;
+      const salt = randomBytes(16);
+      const key = await deriveKey(passphrase, salt, params);
+      this.vault = {
+        version: VAULT_VERSION,
+        kdf: { ...params, salt: salt.toString('base64') },
+        check: seal(key, CHECK_PLAINTEXT, 'check'),
+        profiles: {},
+      };
+      this.key = key;
+      this.save();
+      return;
+    }
+    const vault = this.vault;
+    const key = await deriveKey(passphrase, Buffer.from(vault.kdf.salt, 'base64'), vault.kdf);
+    if (!checkKey(key, vault.check)) {
+      throw new Error('invalid_passphrase');
+    }
+    // load() may have swapped the vault while scrypt ran
+    if (this.vault !== vault) {
+      throw new Error('vault_changed');
+    }
+    this.key = key;
+  }
+
+  lock() {
+    if (this.key) {
+      this.key.fill(0);
+      this.key = null;
+    }
+  }
+
+  /**
+   * Adds a profile or rotates the keys of an existing one.
+   */
+  setProfile(name: string, credentials: ExecutionCredentials): CredentialProfile {
+    const key = this.requireKey();
+    const vault = this.vault!;
+    if (!PROFILE_NAME.test(name)) throw new Error('profile name must be 1-64 letters, digits, dot, dash or underscore');
+    const apiKey = String(credentials?.apiKey || '').trim();
+    const apiSecret = String(credentials?.apiSecret || '').trim();
+    if (!apiKey || !apiSecret) throw new Error('apiKey and apiSecret are required');
+    const now = this.now();
+    const createdAt = this.hasProfile(name) ? vault.profiles[name].createdAt : now;
+    vault.profiles[name] = {
+      ...seal(key, JSON.stringify({ apiKey, apiSecret }), profileAad(name)),
+      apiKeyHint: apiKey.slice(-4),
+      createdAt,
+      updatedAt: now,
+    };
+    this.save();
+    return { name, apiKeyHint: apiKey.slice(-4), createdAt, updatedAt: now };
+  }
+
+  deleteProfile(name: string): boolean {
+    this.requireKey();
+    if (!this.hasProfile(name)) return false;
+    delete this.vault!.profiles[name];
+    this.save();
+    return true;
+  }
+
+  getCredentials(name: string): ExecutionCredentials {
+    const key = this.requireKey();
+    if (!this.hasProfile(name)) throw new Error(`unknown credential profile ${name}`);
+    const credentials = JSON.parse(open(key, this.vault!.profiles[name], profileAad(name)));
+    return { apiKey: credentials.apiKey, apiSecret: credentials.apiSecret };
+  }
+
+  /**
+   * Re-encrypts every profile under a new passphrase and salt.  The vault
+   * stays unlocked with the new key.
+   */
+  async changePassphrase(current: string, next: string) {
+    if (!next) throw new Error('new passphrase is required');
+    if (!this.vault) throw new Error('vault_not_initialized');
+    const vault = this.vault;
+    const currentKey = await deriveKey(current, Buffer.from(vault.kdf.salt, 'base64'), vault.kdf);
+    if (!checkKey(currentKey, vault.check)) {
+      throw new Error('invalid_passphrase');
+    }
+    const params = this.config.scrypt || DEFAULT_SCRYPT;
+    const salt = randomBytes(16);
+    const nextKey = await deriveKey(next, salt, params);
+    if (this.vault !== vault) {
+      throw new Error('vault_changed');
+    }
+    const profiles: Record<string, StoredProfile> = {};
+    for (const [name, stored] of Object.entries(vault.profiles)) {
+      const plaintext = open(currentKey, stored, profileAad(name));
+      profiles[name] = { ...stored, ...seal(nextKey, plaintext, profileAad(name)) };
+    }
+    this.vault = {
+      version: VAULT_VERSION,
+      kdf: { ...params, salt: salt.toString('base64') },
+      check: seal(nextKey, CHECK_PLAINTEXT, 'check'),
+      profiles,
+    };
+    currentKey.fill(0);
+    this.lock();
+    this.key = nextKey;
+    this.save();
+  }
+
+  /**
+   * Reads the vault file and leaves the vault locked; without a file there
+   * is no vault until the next unlock creates one.
+   */
+  async load() {
+    if (!this.store) return;
+    const stored = await this.store.read();
+    if (!stored) {
+      this.lock();
+      this.vault = null;
+      return;
+    }
+    if (stored.version !== VAULT_VERSION || typeof stored.kdf?.salt !== 'string' || !stored.check || typeof stored.profiles !== 'object') {
+      throw new Error(`unsupported vault file ${this.store.file}`);
+    }
+    this.lock();
+    this.vault = stored;
+  }
+
+  flush(): Promise<void> {
+    return this.store ? this.store.flush() : Promise.resolve();
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key || !this.vault) throw new Error('vault_locked');
+    return this.key;
+  }
+
+  private save() {
+    if (this.vault) {
+      this.store?.save(this.vault);
+    }
+  }
+}
+
+function deriveKey(passphrase: string, salt: Buffer, params: ScryptParams): Promise<Buffer> {
+  const maxmem = 256 * params.N * params.r;
+  return scryptAsync(passphrase, salt, KEY_LENGTH, { N: params.N, r: params.r, p: params.p, maxmem });
+}
+
+function profileAad(name: string): string {
+  return `profile:${name}`;
+}
+
+function seal(key: Buffer, plaintext: string, aad: string): Sealed {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+}
+
+function open(key: Buffer, sealed: Sealed, aad: string): string {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'));
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]).toString('utf8');
+}
+
+function checkKey(key: Buffer, check: Sealed): boolean {
+  try {
+    const expected = Buffer.from(CHECK_PLAINTEXT);
+    const actual = Buffer.from(open(key, check, 'check'));
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+}
+
+export function createCredentialVaultFromEnv(onError?: (error: Error) => void): CredentialVault {
+  return new CredentialVault({
+    file: process.env.VAULT_FILE || path.resolve(__dirname, '../logs/credential-vault.json'),
+    onError,
+  });
+}
@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { JsonFileStore } from '../common/JsonFileStore';
+
+export type Role = 'viewer' | 'trader' | 'admin';
+
+// Each role includes the ones before it.
+export const ROLES: Role[] = ['viewer', 'trader', 'admin'];
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  role: Role;
+  createdAt: number;
+  lastUsedAt: number | null;
+}
+
+export interface Principal {
+  tokenId: string;
+  name: string;
+  role: Role;
+}
+
+export interface LoginSession {
+  // Sent by the dashboard instead of the API token
+  session: string;
+  expiresAt: number;
+  principal: Principal;
+}
+
+export interface TokenStoreConfig {
+  // Tokens file; null keeps tokens in memory only.
+  file: string | null;
+  sessionTtlMs: number;
+  now?: () => number;
+  onError?: (error: Error) => void;
+}
+
+type StoredToken = ApiToken & {
+  // sha256 of the secret; the secret itself is only shown once
+  hash: string;
+};
+
+type Session = {
+  tokenId: string;
+  expiresAt: number;
+};
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function isRole(value: unknown): value is Role {
+  return (ROLES as unknown[]).includes(value);
+}
+
+/**
+ * Locally managed API tokens with a role each.
+ *
+ * Only a hash of every token is stored.  A token can be used directly as
+ * a bearer token (scripts, Prometheus) or exchanged through login() for a
+ * session that expires after sessionTtlMs (the dashboard).  Sessions
+ * resolve the token's role on every request, so revoking a token ends
+ * its sessions too.
+ */
+export class TokenStore {
+  private readonly tokens = new Map<string, StoredToken>();
+  private readonly sessions = new Map<string, Session>();
+  private readonly now: () => number;
+  private readonly store: JsonFileStore<{ tokens: StoredToken[] }> | null;
+
+  constructor(private readonly config: TokenStoreConfig) {
+    this.now = config.now || (() => Date.now());
+    // Token hashes, readable by the owner only
+    this.store = config.file ? new JsonFileStore({ file: config.file, mode: 0o600, onError: (e) => this.reportError(e) }) : null;
+  }
+
+  listTokens(): ApiToken[] {
+    return [...this.tokens.values()].map(publicToken);
+  }
+
+  /**
+   * Returns the new secret together with its metadata; only the hash is kept.
+   */
+  createToken(name: string, role: Role): { token: string; info: ApiToken } {
+    const trimmed = String(name || '').trim();
+    if (!trimmed) throw new Error('name is required');
+    if (!isRole(role)) throw new Error(`role must be one of ${ROLES.join(', ')}`);
+    const token = `tc_${randomBytes(24).toString('base64url')}`;
+    const stored: StoredToken = {
+      id: randomUUID(),
+      name: trimmed,
+      role,
+      createdAt: this.now(),
+      lastUsedAt: null,
+      hash: hashSecret(token),
+    };
+    this.tokens.set(stored.hash, stored);
+    this.save();
+    return { token, info: publicToken(stored) };
+  }
+
+  revokeToken(id: string): boolean {
+    const stored = this.findById(id);
+    if (!stored) return false;
+    this.tokens.delete(stored.hash);
+    for (const [key, session] of this.sessions) {
+      if (session.tokenId === id) this.sessions.delete(key);
+    }
+    this.save();
+    return true;
+  }
+
+  /**
+   * Resolves an API token or a login session; null when unknown or expired.
+   */
+  authenticate(secret: string | null | undefined): Principal | null {
+    if (!secret) return null;
+    const now = this.now();
+    const key = hashSecret(secret);
+    let stored = this.tokens.get(key);
+    if (!stored) {
+      const session = this.sessions.get(key);
+      if (!session) return null;
+      if (now >= session.expiresAt) {
+        this.sessions.delete(key);
+        return null;
+      }
+      stored = this.findById(session.tokenId);
+      if (!stored) return null;
+    }
+    stored.lastUsedAt = now;
+    return { tokenId: stored.id, name: stored.name, role: stored.role };
+  }
+
+  login(token: string): LoginSession | null {
+    const stored = token ? this.tokens.get(hashSecret(token)) : undefined;
+    if (!stored) return null;
+    const now = this.now();
+    for (const [key, session] of this.sessions) {
+      if (now >= session.expiresAt) this.sessions.delete(key);
+    }
+    const session = `tcs_${randomBytes(24).toString('base64url')}`;
+    const expiresAt = now + this.config.sessionTtlMs;
+    // Sessions are keyed by hash too, so a heap dump holds no usable secret
+    this.sessions.set(hashSecret(session), { tokenId: stored.id, expiresAt });
+    stored.lastUsedAt = now;
+    return { session, expiresAt, principal: { tokenId: stored.id, name: stored.name, role: stored.role } };
+  }
+
+  logout(session: string): boolean {
+    return this.sessions.delete(hashSecret(session));
+  }
+
+  /**
+   * Reads the tokens file, replacing the tokens in memory.
+   */
+  async load() {
+    if (!this.store) return;
+    const stored = await this.store.read();
+    const previous = new Map(this.tokens);
+    this.tokens.clear();
+    for (const token of Array.isArray(stored?.tokens) ? stored.tokens : []) {
+      if (typeof token?.hash !== 'string' || !isRole(token.role)) {
+        this.reportError(new Error(`auth_token_skipped:${token?.id}`));
+        continue;
+      }
+      const lastUsedAt = Math.max(token.lastUsedAt ?? 0, previous.get(token.hash)?.lastUsedAt ?? 0) || null;
+      this.tokens.set(token.hash, { ...token, lastUsedAt });
+    }
+  }
+
+  /**
+   * Reloads the tokens file when it changes, e.g. after the tokens CLI ran.
+   * Returns a function that stops watching.
+   */
+  watch(intervalMs: number): () => void {
+    const file = this.config.file;
+    if (!file) return () => undefined;
+    const listener = (curr: fs.Stats, prev: fs.Stats) => {
+      if (curr.mtimeMs === prev.mtimeMs) return;
+      this.load().catch((e) => this.reportError(e));
+    };
+    fs.watchFile(file, { interval: intervalMs, persistent: false }, listener);
+    return () => fs.unwatchFile(file, listener);
+  }
+
+  flush(): Promise<void> {
+    return this.store ? this.store.flush() : Promise.resolve();
+  }
+
+  private findById(id: string): StoredToken | undefined {
+    for (const stored of this.tokens.values()) {
+      if (stored.id === id) return stored;
+    }
+    return undefined;
+  }
+
+  private save() {
+    this.store?.save({ tokens: [...this.tokens.values()] });
+  }
+
+  private reportError(error: Error) {
+    if (this.config.onError) {
+      this.config.onError(error);
+    }
+  }
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+function publicToken(stored: StoredToken): ApiToken {
+  const { hash, ...token } = stored;
+  return token;
+}
+
+export function createTokenStoreFromEnv(onError?: (error: Error) => void): TokenStore {
+  return new TokenStore({
+    file: process.env.AUTH_TOKENS_FILE || path.resolve(__dirname, '../logs/auth-tokens.json'),
+    sessionTtlMs: Number(process.env.AUTH_SESSION_TTL_MS || 12 * 60 * 60 * 1000),
+    onError,
+  });
+}
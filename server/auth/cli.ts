@@ -0,0 +1,68 @@
+import * as dotenv from 'dotenv';
+import { createTokenStoreFromEnv, isRole, ROLES } from './TokenStore';
+
+dotenv.config();
+
+/**
+ * Usage:
+ *   npm run tokens -- list
+ *   npm run tokens -- create --name alice --role viewer|trader|admin
+ *   npm run tokens -- revoke <id>
+ */
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const opts: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      const value = args[++i];
+      if (value === undefined) {
+        throw new Error(`missing value for ${args[i - 1]}`);
+      }
+      opts[args[i - 1].slice(2)] = value;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  const store = createTokenStoreFromEnv();
+  await store.load();
+
+  if (command === 'list') {
+    for (const token of store.listTokens()) {
+      const lastUsed = token.lastUsedAt ? new Date(token.lastUsedAt).toISOString() : 'never';
+      console.log(`${token.id}  ${token.role.padEnd(6)}  ${token.name}  (created ${new Date(token.createdAt).toISOString()}, last used ${lastUsed})`);
+    }
+    return;
+  }
+
+  if (command === 'create') {
+    if (!opts.name || !isRole(opts.role)) {
+      throw new Error(`usage: tokens create --name NAME --role ${ROLES.join('|')}`);
+    }
+    const { token, info } = store.createToken(opts.name, opts.role);
+    await store.flush();
+    console.log(`Created ${info.role} token ${info.id} for ${info.name}. It is shown only once:`);
+    console.log(token);
+    return;
+  }
+
+  if (command === 'revoke') {
+    if (!positional[0]) {
+      throw new Error('usage: tokens revoke <id>');
+    }
+    if (!store.revokeToken(positional[0])) {
+      throw new Error(`unknown token ${positional[0]}`);
+    }
+    await store.flush();
+    console.log(`Revoked ${positional[0]}.`);
+    return;
+  }
+
+  throw new Error('usage: tokens list | create --name NAME --role ROLE | revoke <id>');
+}
+
+main().catch((e) => {
+  console.error(e.message || e);
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+import { IncomingMessage } from 'http';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { hasRole, Principal, Role, TokenStore } from './TokenStore';
+
+export interface AuthConfig {
+  // false lets every request through as an admin
+  enabled: boolean;
+  // Paths reachable without a token
+  publicPaths: string[];
+}
+
+const ANONYMOUS_ADMIN: Principal = { tokenId: 'anonymous', name: 'anonymous', role: 'admin' };
+
+/**
+ * `Authorization: Bearer <token>`; WebSocket upgrades may use `?token=`
+ * instead since browsers cannot set headers on them.
+ */
+export function requestToken(req: IncomingMessage, allowQuery = false): string | null {
+  const header = req.headers.authorization;
+  if (header && /^Bearer\s+/i.test(header)) {
+    return header.replace(/^Bearer\s+/i, '').trim() || null;
+  }
+  if (allowQuery) {
+    return new URL(req.url || '', 'http://l').searchParams.get('token');
+  }
+  return null;
+}
+
+export function principalOf(res: Response): Principal {
+  return res.locals.principal as Principal;
+}
+
+/**
+ * `authenticate` runs for every route and rejects requests without a
+ * valid token (401); routes that need more than viewer access add
+ * `requireRole(role)` (403 below it).
+ */
+export function createAuth(store: TokenStore, config: AuthConfig) {
+  const authenticate: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    if (!config.enabled) {
+      res.locals.principal = ANONYMOUS_ADMIN;
+      next();
+      return;
+    }
+    const principal = store.authenticate(requestToken(req));
+    if (principal) {
+      res.locals.principal = principal;
+      next();
+      return;
+    }
+    if (config.publicPaths.includes(req.path)) {
+      next();
+      return;
+    }
+    res.status(401).json({ error: 'unauthorized' });
+  };
+
+  const requireRole = (role: Role): RequestHandler => (req: Request, res: Response, next: NextFunction) => {
+    const principal = res.locals.principal as Principal | undefined;
+    if (!principal) {
+      res.status(401).json({ error: 'unauthorized' });
+      return;
+    }
+    if (!hasRole(principal.role, role)) {
+      res.status(403).json({ error: 'forbidden', required: role });
+      return;
+    }
+    next();
+  };
+
+  // Principal for a /ws upgrade, or null to refuse it
+  const authenticateUpgrade = (req: IncomingMessage): Principal | null => {
+    if (!config.enabled) return ANONYMOUS_ADMIN;
+    return store.authenticate(requestToken(req, true));
+  };
+
+  return { authenticate, requireRole, authenticateUpgrade };
+}
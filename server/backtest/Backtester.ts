@@ -0,0 +1,559 @@
+import * as fs from 'fs';
+import * as readline from 'readline';
+import * as zlib from 'zlib';
+import { SimulatedExecutionConnector } from '../connectors/SimulatedExecutionConnector';
+import { ExecutionEvent, TradeUpdateEvent } from '../connectors/executionTypes';
+import { CvdCalculator } from '../metrics/CvdCalculator';
+import { LegacyCalculator } from '../metrics/LegacyCalculator';
+import { LiquidationTracker, parseForceOrder } from '../metrics/LiquidationTracker';
+import {
+  applyDepthUpdate,
+  applySnapshot,
+  bestAsk,
+  bestBid,
+  createOrderbookState,
+  OrderbookState,
+} from '../metrics/OrderbookManager';
+import { TimeAndSales } from '../metrics/TimeAndSales';
+import { Orchestrator, orchestratorConfigFromEnv } from '../orchestrator/Orchestrator';
+import { StrategyRegistry } from '../orchestrator/Strategy';
+import { OrchestratorConfig } from '../orchestrator/types';
+
+/**
+ * Historical backtester over raw recorded Binance market data.
+ *
+ * Input is the combined-stream shape `{ stream, data }`, one message per
+ * line: `@trade` (`data.e === 'trade'`), `@depth@100ms`
+ * (`data.e === 'depthUpdate'`) and optional REST depth snapshots written
+ * as `data.e === 'depthSnapshot'` with `s`, `E`, `lastUpdateId`, `bids`
+ * and `asks`.  Without a snapshot the first diff (and the diff after a
+ * sequence gap) seeds the book, which then fills in as updates arrive.
+ *
+ * The orderbook and the metric calculators are rebuilt exactly as the
+ * live proxy does, and the resulting metrics go through the real
+ * Orchestrator (gate, actor, strategy, DecisionEngine) trading against
+ * the SimulatedExecutionConnector on the replayed book.  All time is
+ * exchange event time.
+ */
+export interface BacktestConfig {
+  // Symbols to trade; messages for other symbols are skipped.  Empty trades everything seen.
+  symbols: string[];
+  initialBalanceUsdt: number;
+  walletUsagePercent: number;
+  leverage: number;
+  takerFeeRate: number;
+  makerFeeRate: number;
+  priceTickSize?: number | null;
+  // Per-symbol strategy selection, same shape as /api/execution/settings.
+  strategies?: Record<string, { name?: string; params?: Record<string, unknown> }>;
+  strategyRegistry?: StrategyRegistry;
+  orchestrator?: Partial<OrchestratorConfig>;
+  // Minimum event-time gap between metric evaluations per symbol, like the live broadcast throttle.
+  metricsThrottleMs?: number;
+  equityIntervalMs?: number;
+}
+
+export interface RecordedMessage {
+  // Receive timestamp added by the market data recorder; replay uses exchange time.
+  recv_ms?: number;
+  stream?: string;
+  data: any;
+}
+
+export interface BacktestTrade {
+  symbol: string;
+  side: 'LONG' | 'SHORT';
+  entryTimeMs: number;
+  exitTimeMs: number;
+  entryPrice: number;
+  exitPrice: number;
+  qty: number;
+  realizedPnl: number;
+  fees: number;
+  netPnl: number;
+}
+
+export interface EquityPoint {
+  time_ms: number;
+  equity: number;
+}
+
+export interface BacktestSummary {
+  startTimeMs: number | null;
+  endTimeMs: number | null;
+  initialEquity: number;
+  finalEquity: number;
+  totalPnl: number;
+  returnPct: number;
+  fees: number;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  avgTradePnl: number;
+  maxDrawdown: number;
+  maxDrawdownPct: number;
+  sharpe: number;
+}
+
+export interface BacktestResult {
+  summary: BacktestSummary;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  stats: {
+    messages: number;
+    trades: number;
+    depthUpdates: number;
+    snapshots: number;
+    liquidations: number;
+    reseeds: number;
+    evaluations: number;
+  };
+}
+
+interface SymbolReplay {
+  book: OrderbookState;
+  tas: TimeAndSales;
+  cvd: CvdCalculator;
+  legacy: LegacyCalculator;
+  liquidations: LiquidationTracker;
+  lastEvaluationMs: number;
+}
+
+interface OpenTrade {
+  side: 'LONG' | 'SHORT';
+  qty: number;
+  entryQty: number;
+  entryNotional: number;
+  exitQty: number;
+  exitNotional: number;
+  realizedPnl: number;
+  fees: number;
+  entryTimeMs: number;
+}
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+const QTY_EPSILON = 1e-12;
+
+export class Backtester {
+  private readonly replays = new Map<string, SymbolReplay>();
+  private readonly openTrades = new Map<string, OpenTrade>();
+  private readonly trades: BacktestTrade[] = [];
+  private readonly equityCurve: EquityPoint[] = [];
+  private readonly symbols: Set<string>;
+  private readonly connector: SimulatedExecutionConnector;
+  private readonly orchestrator: Orchestrator;
+  private clockMs = 0;
+  private startTimeMs: number | null = null;
+  private lastEquitySampleMs = 0;
+  private started = false;
+  private readonly stats = {
+    messages: 0,
+    trades: 0,
+    depthUpdates: 0,
+    snapshots: 0,
+    liquidations: 0,
+    reseeds: 0,
+    evaluations: 0,
+  };
+
+  constructor(private readonly config: BacktestConfig) {
+    this.symbols = new Set(config.symbols.map((s) => s.toUpperCase()));
+    this.connector = new SimulatedExecutionConnector({
+      enabled: true,
+      initialBalanceUsdt: config.initialBalanceUsdt,
+      takerFeeRate: config.takerFeeRate,
+      makerFeeRate: config.makerFeeRate,
+      leverage: config.leverage,
+      priceTickSize: config.priceTickSize ?? null,
+      restingMatchIntervalMs: 0,
+      now: () => this.clockMs,
+      getOrderbook: (symbol) => this.replays.get(symbol)?.book || null,
+    });
+    this.connector.onExecutionEvent((event) => this.trackTrades(event));
+
+    this.orchestrator = new Orchestrator(
+      this.connector,
+      { ...orchestratorConfigFromEnv(), ...config.orchestrator, logDir: null },
+      config.strategyRegistry
+    );
+  }
+
+  async run(messages: Iterable<RecordedMessage> | AsyncIterable<RecordedMessage>): Promise<BacktestResult> {
+    for await (const message of messages) {
+      await this.ingest(message);
+    }
+    return this.finish();
+  }
+
+  /**
+   * The recorder writes one file per symbol, so the files are merged by
+   * exchange event time rather than replayed one after another.
+   */
+  async runFiles(paths: string[]): Promise<BacktestResult> {
+    return this.run(mergeByEventTime(paths.map((filePath) => readRecording(filePath))));
+  }
+
+  async ingest(message: RecordedMessage) {
+    const d = message?.data;
+    const symbol = String(d?.s || d?.o?.s || '').toUpperCase();
+    if (!symbol || (this.symbols.size > 0 && !this.symbols.has(symbol))) {
+      return;
+    }
+    const eventTimeMs = messageTimeMs(message);
+    if (eventTimeMs <= 0) {
+      return;
+    }
+
+    await this.ensureStarted();
+    this.stats.messages++;
+    if (eventTimeMs > this.clockMs) {
+      this.clockMs = eventTimeMs;
+    }
+    if (this.startTimeMs === null) {
+      this.startTimeMs = this.clockMs;
+      this.lastEquitySampleMs = this.clockMs;
+    }
+
+    const replay = this.getReplay(symbol);
+    if (d.e === 'depthSnapshot') {
+      this.stats.snapshots++;
+      applySnapshot(replay.book, { lastUpdateId: Number(d.lastUpdateId), bids: d.bids || [], asks: d.asks || [] });
+    } else if (d.e === 'depthUpdate') {
+      this.stats.depthUpdates++;
+      if (replay.book.lastUpdateId === 0 || !applyDepthUpdate(replay.book, d)) {
+        this.stats.reseeds++;
+        replay.book.buffer = [];
+        applySnapshot(replay.book, { lastUpdateId: Number(d.u), bids: d.b || [], asks: d.a || [] });
+      }
+      this.connector.matchRestingOrders();
+    } else if (d.e === 'trade') {
+      this.stats.trades++;
+      const trade = {
+        price: parseFloat(d.p),
+        quantity: parseFloat(d.q),
+        side: d.m ? 'sell' as const : 'buy' as const,
+        timestamp: eventTimeMs,
+      };
+      replay.tas.addTrade(trade);
+      replay.cvd.addTrade(trade);
+      replay.legacy.addTrade(trade);
+    } else if (d.e === 'forceOrder') {
+      const liquidation = parseForceOrder(d);
+      if (!liquidation) {
+        return;
+      }
+      this.stats.liquidations++;
+      replay.liquidations.addLiquidation(liquidation);
+    } else {
+      return;
+    }
+
+    this.evaluate(symbol, replay);
+    await this.drain();
+    this.sampleEquity(false);
+  }
+
+  async finish(): Promise<BacktestResult> {
+    await this.drain();
+    this.sampleEquity(true);
+    if (this.started) {
+      await this.connector.disconnect();
+    }
+
+    return {
+      summary: this.summarize(),
+      trades: [...this.trades],
+      equityCurve: [...this.equityCurve],
+      stats: { ...this.stats },
+    };
+  }
+
+  private async ensureStarted() {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    await this.orchestrator.start();
+    this.orchestrator.updateCapitalSettings({
+      initialBalanceUsdt: this.config.initialBalanceUsdt,
+      walletUsagePercent: this.config.walletUsagePercent,
+      leverage: this.config.leverage,
+    });
+    if (this.symbols.size > 0) {
+      await this.orchestrator.setExecutionSymbols(Array.from(this.symbols));
+    }
+    if (this.config.strategies) {
+      this.orchestrator.updateStrategySettings(this.config.strategies);
+    }
+  }
+
+  private getReplay(symbol: string): SymbolReplay {
+    let replay = this.replays.get(symbol);
+    if (!replay) {
+      replay = {
+        // Recordings keep whatever gaps the live stream had; apply them like the live book did.
+        book: createOrderbookState('tolerant'),
+        tas: new TimeAndSales(),
+        cvd: new CvdCalculator(),
+        legacy: new LegacyCalculator(),
+        liquidations: new LiquidationTracker(),
+        lastEvaluationMs: 0,
+      };
+      this.replays.set(symbol, replay);
+    }
+    return replay;
+  }
+
+  private evaluate(symbol: string, replay: SymbolReplay) {
+    const throttleMs = this.config.metricsThrottleMs ?? 250;
+    if (this.clockMs - replay.lastEvaluationMs < throttleMs) {
+      return;
+    }
+    replay.lastEvaluationMs = this.clockMs;
+    this.stats.evaluations++;
+
+    const ob = replay.book;
+    const hasBookData = ob.bids.size > 0 && ob.asks.size > 0;
+    const legacyM = hasBookData ? replay.legacy.computeMetrics(ob) : null;
+    const liquidations = replay.liquidations.computeMetrics(this.clockMs);
+    const bestBidPx = bestBid(ob);
+    const bestAskPx = bestAsk(ob);
+    const mid = (bestBidPx && bestAskPx) ? (bestBidPx + bestAskPx) / 2 : null;
+    const spreadPct = (bestBidPx && bestAskPx && mid && mid > 0)
+      ? ((bestAskPx - bestBidPx) / mid) * 100
+      : null;
+
+    this.orchestrator.ingest({
+      symbol,
+      canonical_time_ms: this.clockMs,
+      exchange_event_time_ms: this.clockMs,
+      spread_pct: spreadPct,
+      prints_per_second: replay.tas.computeMetrics().printsPerSecond,
+      best_bid: bestBidPx,
+      best_ask: bestAskPx,
+      legacyMetrics: legacyM ? {
+        obiDeep: legacyM.obiDeep,
+        deltaZ: legacyM.deltaZ,
+        cvdSlope: legacyM.cvdSlope,
+      } : null,
+      liquidations: {
+        longNotional1m: liquidations.longNotional1m,
+        shortNotional1m: liquidations.shortNotional1m,
+        burstActive: liquidations.burst.active,
+        cascadeActive: liquidations.cascade.active,
+        cascadeSide: liquidations.cascade.side,
+      },
+    });
+  }
+
+  /**
+   * Lets actor queues and the simulator's deferred fills settle.  Fills
+   * are scheduled while an actor is busy placing the order, so two idle
+   * observations in a row mean nothing is left in flight.
+   */
+  private async drain() {
+    let idleTicks = this.orchestrator.isIdle() ? 1 : 0;
+    while (idleTicks < 2) {
+      await new Promise((resolve) => setImmediate(resolve));
+      idleTicks = this.orchestrator.isIdle() ? idleTicks + 1 : 0;
+    }
+  }
+
+  private sampleEquity(force: boolean) {
+    if (this.startTimeMs === null) {
+      return;
+    }
+    const intervalMs = this.config.equityIntervalMs ?? 60_000;
+    if (!force && this.equityCurve.length > 0 && this.clockMs - this.lastEquitySampleMs < intervalMs) {
+      return;
+    }
+    const last = this.equityCurve[this.equityCurve.length - 1];
+    if (last && last.time_ms === this.clockMs) {
+      last.equity = this.connector.getEquity();
+      return;
+    }
+    this.lastEquitySampleMs = this.clockMs;
+    this.equityCurve.push({ time_ms: this.clockMs, equity: this.connector.getEquity() });
+  }
+
+  private trackTrades(event: ExecutionEvent) {
+    if (event.type !== 'TRADE_UPDATE') {
+      return;
+    }
+
+    let remaining = event.fillQty;
+    const open = this.openTrades.get(event.symbol);
+    if (open && (open.side === 'LONG') !== (event.side === 'BUY')) {
+      const closing = Math.min(remaining, open.qty);
+      const share = closing / event.fillQty;
+      open.qty -= closing;
+      open.exitQty += closing;
+      open.exitNotional += closing * event.fillPrice;
+      open.realizedPnl += event.realizedPnl;
+      open.fees += event.commission * share;
+      remaining -= closing;
+      if (open.qty <= QTY_EPSILON) {
+        this.closeTrade(event.symbol, open, event.event_time_ms);
+      }
+      if (remaining <= QTY_EPSILON) {
+        return;
+      }
+    }
+
+    this.openOrAdd(event, remaining);
+  }
+
+  private openOrAdd(event: TradeUpdateEvent, qty: number) {
+    const fees = event.commission * (qty / event.fillQty);
+    const open = this.openTrades.get(event.symbol);
+    if (open) {
+      open.qty += qty;
+      open.entryQty += qty;
+      open.entryNotional += qty * event.fillPrice;
+      open.fees += fees;
+      return;
+    }
+    this.openTrades.set(event.symbol, {
+      side: event.side === 'BUY' ? 'LONG' : 'SHORT',
+      qty,
+      entryQty: qty,
+      entryNotional: qty * event.fillPrice,
+      exitQty: 0,
+      exitNotional: 0,
+      realizedPnl: 0,
+      fees,
+      entryTimeMs: event.event_time_ms,
+    });
+  }
+
+  private closeTrade(symbol: string, open: OpenTrade, exitTimeMs: number) {
+    this.openTrades.delete(symbol);
+    this.trades.push({
+      symbol,
+      side: open.side,
+      entryTimeMs: open.entryTimeMs,
+      exitTimeMs,
+      entryPrice: open.entryNotional / open.entryQty,
+      exitPrice: open.exitNotional / open.exitQty,
+      qty: open.entryQty,
+      realizedPnl: open.realizedPnl,
+      fees: open.fees,
+      netPnl: open.realizedPnl - open.fees,
+    });
+  }
+
+  private summarize(): BacktestSummary {
+    const initialEquity = this.config.initialBalanceUsdt;
+    const finalEquity = this.connector.getEquity();
+    const wins = this.trades.filter((t) => t.netPnl > 0).length;
+    const fees = this.trades.reduce((sum, t) => sum + t.fees, 0)
+      + Array.from(this.openTrades.values()).reduce((sum, t) => sum + t.fees, 0);
+
+    let peak = initialEquity;
+    let maxDrawdown = 0;
+    let maxDrawdownPct = 0;
+    for (const point of this.equityCurve) {
+      peak = Math.max(peak, point.equity);
+      const drawdown = peak - point.equity;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+      }
+      if (peak > 0 && drawdown / peak > maxDrawdownPct) {
+        maxDrawdownPct = drawdown / peak;
+      }
+    }
+
+    return {
+      startTimeMs: this.startTimeMs,
+      endTimeMs: this.startTimeMs === null ? null : this.clockMs,
+      initialEquity,
+      finalEquity,
+      totalPnl: finalEquity - initialEquity,
+      returnPct: initialEquity > 0 ? ((finalEquity - initialEquity) / initialEquity) * 100 : 0,
+      fees,
+      trades: this.trades.length,
+      wins,
+      losses: this.trades.length - wins,
+      winRate: this.trades.length > 0 ? wins / this.trades.length : 0,
+      avgTradePnl: this.trades.length > 0 ? this.trades.reduce((sum, t) => sum + t.netPnl, 0) / this.trades.length : 0,
+      maxDrawdown,
+      maxDrawdownPct: maxDrawdownPct * 100,
+      sharpe: this.sharpe(),
+    };
+  }
+
+  // Annualized Sharpe ratio of equity sample returns (zero risk-free rate).
+  // Samples are only taken when messages arrive, so the number of periods
+  // per year comes from the time the samples actually span.
+  private sharpe(): number {
+    const returns: number[] = [];
+    for (let i = 1; i < this.equityCurve.length; i++) {
+      const prev = this.equityCurve[i - 1].equity;
+      if (prev > 0) {
+        returns.push(this.equityCurve[i].equity / prev - 1);
+      }
+    }
+    if (returns.length < 2) {
+      return 0;
+    }
+    const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
+    const variance = returns.reduce((acc, r) => acc + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+    const std = Math.sqrt(variance);
+    const elapsedMs = this.equityCurve[this.equityCurve.length - 1].time_ms - this.equityCurve[0].time_ms;
+    if (std <= 0 || elapsedMs <= 0) {
+      return 0;
+    }
+    return (mean / std) * Math.sqrt((YEAR_MS * returns.length) / elapsedMs);
+  }
+}
+
+// Exchange event time of a recorded message: T for trades, E otherwise; 0 when missing.
+function messageTimeMs(message: RecordedMessage): number {
+  const d = message?.data;
+  return Number(d?.e === 'trade' ? d.T : d?.E) || 0;
+}
+
+async function* readRecording(filePath: string): AsyncGenerator<RecordedMessage> {
+  // Recorder output is gzipped; plain .jsonl files are read as-is.
+  const input = filePath.endsWith('.gz')
+    ? fs.createReadStream(filePath).pipe(zlib.createGunzip())
+    : fs.createReadStream(filePath);
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      yield JSON.parse(line);
+    } catch {
+      // skip malformed lines
+    }
+  }
+}
+
+/**
+ * K-way merge of time-ordered recordings.  Ties go to the earlier source,
+ * and messages without a time are passed on as soon as they are read.
+ */
+async function* mergeByEventTime(sources: AsyncIterator<RecordedMessage>[]): AsyncGenerator<RecordedMessage> {
+  const heads: (RecordedMessage | null)[] = [];
+  for (const source of sources) {
+    const next = await source.next();
+    heads.push(next.done ? null : next.value);
+  }
+  while (true) {
+    let pick = -1;
+    for (let i = 0; i < heads.length; i++) {
+      if (heads[i] !== null && (pick < 0 || messageTimeMs(heads[i]!) < messageTimeMs(heads[pick]!))) {
+        pick = i;
+      }
+    }
+    if (pick < 0) {
+      return;
+    }
+    yield heads[pick]!;
+    const next = await sources[pick].next();
+    heads[pick] = next.done ? null : next.value;
+  }
+}
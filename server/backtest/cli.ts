@@ -0,0 +1,68 @@
+import * as dotenv from 'dotenv';
+import * as fs from 'fs';
+import { Backtester } from './Backtester';
+
+dotenv.config();
+
+/**
+ * Usage:
+ *   npm run backtest -- --symbols BTCUSDT [--strategy default] [--param key=value ...]
+ *     [--balance 10000] [--wallet-usage 10] [--leverage 10] [--tick 0.1]
+ *     [--out result.json] <recorded.jsonl ...>
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const files: string[] = [];
+  const params: Record<string, string> = {};
+  const opts: Record<string, string> = {};
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      files.push(arg);
+      continue;
+    }
+    const value = args[++i];
+    if (value === undefined) {
+      throw new Error(`missing value for ${arg}`);
+    }
+    if (arg === '--param') {
+      const [key, v] = value.split('=');
+      params[key] = v;
+    } else {
+      opts[arg.slice(2)] = value;
+    }
+  }
+
+  const symbols = String(opts.symbols || '').split(',').map((s) => s.trim().toUpperCase()).filter(Boolean);
+  if (files.length === 0 || symbols.length === 0) {
+    throw new Error('usage: backtest --symbols BTCUSDT [options] <recorded.jsonl ...>');
+  }
+
+  const strategies = opts.strategy || Object.keys(params).length > 0
+    ? Object.fromEntries(symbols.map((s) => [s, { name: opts.strategy, params }]))
+    : undefined;
+
+  const backtester = new Backtester({
+    symbols,
+    initialBalanceUsdt: Number(opts.balance || process.env.PAPER_INITIAL_BALANCE_USDT || 10000),
+    walletUsagePercent: Number(opts['wallet-usage'] || 10),
+    leverage: Number(opts.leverage || process.env.DEFAULT_SYMBOL_LEVERAGE || 10),
+    takerFeeRate: Number(process.env.PAPER_TAKER_FEE_RATE || 0.0004),
+    makerFeeRate: Number(process.env.PAPER_MAKER_FEE_RATE || 0.0002),
+    priceTickSize: opts.tick ? Number(opts.tick) : null,
+    strategies,
+  });
+
+  const result = await backtester.runFiles(files);
+  console.log(JSON.stringify({ summary: result.summary, stats: result.stats }, null, 2));
+  if (opts.out) {
+    fs.writeFileSync(opts.out, JSON.stringify(result, null, 2));
+    console.log(`Wrote ${result.trades.length} trades and ${result.equityCurve.length} equity points to ${opts.out}`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e.message || e);
+  process.exit(1);
+});
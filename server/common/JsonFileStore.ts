@@ -0,0 +1,66 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface JsonFileStoreConfig {
+  file: string;
+  // Mode of the written file, e.g. 0o600 for secrets; the umask default otherwise.
+  mode?: number;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * One JSON document on disk.  Saves go through a temp file and a rename,
+ * so a crash never leaves a half-written file, and are chained so the
+ * file always ends with the last value saved.  Write errors go to
+ * onError; the value in memory stays authoritative.
+ */
+export class JsonFileStore<T> {
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly config: JsonFileStoreConfig) {}
+
+  get file(): string {
+    return this.config.file;
+  }
+
+  /**
+   * Parsed contents, or null when the file does not exist yet.
+   */
+  async read(): Promise<T | null> {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.config.file, 'utf8');
+    } catch (e: any) {
+      if (e.code === 'ENOENT') return null;
+      throw e;
+    }
+    return JSON.parse(text) as T;
+  }
+
+  /**
+   * Serializes the value now and writes it after any pending save.
+   */
+  save(value: T) {
+    const file = this.config.file;
+    const text = JSON.stringify(value, null, 2);
+    const options = this.config.mode === undefined ? undefined : { mode: this.config.mode };
+    this.saving = this.saving.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(file), { recursive: true });
+        await fs.promises.writeFile(`${file}.tmp`, text, options);
+        await fs.promises.rename(`${file}.tmp`, file);
+      } catch (e: any) {
+        if (this.config.onError) {
+          this.config.onError(e);
+        }
+      }
+    });
+  }
+
+  /**
+   * Resolves once every save so far is on disk.
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+}
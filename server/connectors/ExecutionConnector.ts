@@ -1,5 +1,6 @@
 import { createHmac, randomUUID } from 'crypto';
 import { WebSocket } from 'ws';
+import { RestPriority, RestScheduler } from './RestScheduler';
 import {
   CancelOrderRequest,
   ExecutionConnectorConfig,
@@ -12,9 +13,9 @@ import {
   TradeUpdateEvent,
 } from './executionTypes';
 
-type ExecutionListener = (event: ExecutionEvent) => void;
-type StatusListener = (status: ExecutionConnectorStatus) => void;
-type DebugListener = (event: ExecutionDebugEvent) => void;
+export type ExecutionListener = (event: ExecutionEvent) => void;
+export type StatusListener = (status: ExecutionConnectorStatus) => void;
+export type DebugListener = (event: ExecutionDebugEvent) => void;
 
 type UserDataMessage = {
   e?: string;
@@ -71,7 +72,35 @@ export interface ExecutionDebugEvent {
   payload: any;
 }
 
-export class ExecutionConnector {
+/**
+ * Surface the orchestrator drives.  Implemented by the Binance testnet
+ * connector and by the local paper-trading simulator.
+ */
+export interface ExecutionVenue {
+  onExecutionEvent(listener: ExecutionListener): () => boolean;
+  onStatus(listener: StatusListener): () => boolean;
+  onDebug(listener: DebugListener): () => boolean;
+  getStatus(): ExecutionConnectorStatus;
+  isExecutionEnabled(): boolean;
+  setExecutionEnabled(enabled: boolean): void;
+  isConnected(): boolean;
+  setCredentials(apiKey: string, apiSecret: string): void;
+  ensureSymbol(symbol: string): void;
+  setSymbols(symbols: string[]): void;
+  start(): Promise<void>;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  expectedPrice(symbol: string, side: 'BUY' | 'SELL', orderType: 'MARKET' | 'LIMIT', limitPrice?: number): number | null;
+  getPriceTickSize(symbol: string): number | null;
+  placeOrder(request: PlaceOrderRequest, context?: { decisionId?: string; orderAttemptId?: string }): Promise<{ orderId: string }>;
+  cancelOrder(request: CancelOrderRequest): Promise<void>;
+  cancelAllOpenOrders(symbol: string): Promise<void>;
+  syncState(): Promise<void>;
+  fetchTestnetFuturesPairs(): Promise<string[]>;
+  ensureSymbolsReady(): Promise<void>;
+}
+
+export class ExecutionConnector implements ExecutionVenue {
   private readonly config: ExecutionConnectorConfig;
   private readonly listeners = new Set<ExecutionListener>();
   private readonly statusListeners = new Set<StatusListener>();
@@ -80,6 +109,7 @@ export class ExecutionConnector {
   private readonly quotes = new Map<string, TestnetQuote>();
   private readonly readyBySymbol = new Map<string, { ready: boolean; reason: string | null }>();
   private readonly symbolRules = new Map<string, SymbolRules>();
+  private readonly rest: RestScheduler;
 
   private userWs: WebSocket | null = null;
   private marketWs: WebSocket | null = null;
@@ -98,8 +128,10 @@ export class ExecutionConnector {
   private dualSidePosition: boolean | null = null;
   private exchangeInfoLoaded = false;
 
-  constructor(config: ExecutionConnectorConfig) {
+  constructor(config: ExecutionConnectorConfig, rest?: RestScheduler) {
     this.config = config;
+    // Binance testnet allows 2400 request weight per minute.
+    this.rest = rest || new RestScheduler({ maxWeightPerMinute: 2400 });
     this.apiKey = config.apiKey;
     this.apiSecret = config.apiSecret;
     this.executionEnabled = config.enabled;
@@ -333,7 +365,40 @@ export class ExecutionConnector {
       throw new Error(readiness?.reason || 'Execution not ready for symbol');
     }
 
-    const qty = await this.normalizeQuantity(symbol, request.side, request.quantity);
+    const isLimit = request.type === 'LIMIT';
+    if (isLimit && (typeof request.price !== 'number' || !Number.isFinite(request.price) || request.price <= 0)) {
+      this.emitDebug({
+        channel: 'execution',
+        type: 'why_not_sent',
+        order_attempt_id: orderAttemptId,
+        decision_id: context?.decisionId,
+        symbol,
+        ts: Date.now(),
+        payload: { why_not_sent: 'invalid_limit_price', price: request.price ?? null },
+      });
+      throw new Error(`invalid_limit_price:${request.price}`);
+    }
+
+    const isTrigger = request.type === 'STOP_MARKET' || request.type === 'TAKE_PROFIT_MARKET';
+    if (isTrigger && (typeof request.stopPrice !== 'number' || !Number.isFinite(request.stopPrice) || request.stopPrice <= 0)) {
+      this.emitDebug({
+        channel: 'execution',
+        type: 'why_not_sent',
+        order_attempt_id: orderAttemptId,
+        decision_id: context?.decisionId,
+        symbol,
+        ts: Date.now(),
+        payload: { why_not_sent: 'invalid_stop_price', stopPrice: request.stopPrice ?? null },
+      });
+      throw new Error(`invalid_stop_price:${request.stopPrice}`);
+    }
+
+    const price = isLimit ? this.normalizePrice(symbol, request.side, request.price as number) : undefined;
+    const stopPrice = isTrigger ? this.normalizePrice(symbol, request.side, request.stopPrice as number) : undefined;
+    const closePosition = isTrigger && Boolean(request.closePosition);
+    const qty = closePosition
+      ? undefined
+      : await this.normalizeQuantity(symbol, request.side, request.quantity, price ? Number(price) : undefined);
     const positionSide = this.resolvePositionSide(request, {
       symbol,
       orderAttemptId,
@@ -343,10 +408,15 @@ export class ExecutionConnector {
     const params: Record<string, string | number | boolean | undefined> = {
       symbol,
       side: request.side,
-      type: 'MARKET',
+      type: request.type,
       quantity: qty,
+      price,
+      timeInForce: isLimit ? (request.timeInForce || 'GTC') : undefined,
+      stopPrice,
+      closePosition: closePosition ? true : undefined,
+      workingType: isTrigger ? 'MARK_PRICE' : undefined,
       newClientOrderId: request.clientOrderId,
-      reduceOnly: request.reduceOnly ? true : undefined,
+      reduceOnly: request.reduceOnly && !closePosition ? true : undefined,
       positionSide,
       recvWindow: Math.trunc(this.config.recvWindowMs || 5000),
     };
@@ -506,6 +576,8 @@ export class ExecutionConnector {
             executedQty: Number(order.executedQty || 0),
             price: Number(order.price || 0),
             reduceOnly: Boolean(order.reduceOnly),
+            stopPrice: Number(order.stopPrice || 0),
+            closePosition: Boolean(order.closePosition),
           })),
         };
         this.emitEvent(snapshot);
@@ -514,7 +586,7 @@ export class ExecutionConnector {
   }
 
   async fetchTestnetFuturesPairs(): Promise<string[]> {
-    const response = await fetch(`${this.config.restBaseUrl}/fapi/v1/exchangeInfo`);
+    const response = await this.publicRequest('/fapi/v1/exchangeInfo', 'context');
     if (!response.ok) {
       throw new Error(`testnet exchangeInfo failed: ${response.status}`);
     }
@@ -669,6 +741,8 @@ export class ExecutionConnector {
         executedQty: Number(o.z || 0),
         price: Number(o.p || 0),
         reduceOnly: Boolean(o.R),
+        stopPrice: Number(o.sp || 0),
+        closePosition: Boolean(o.cp),
       };
       this.emitEvent(orderEvent);
 
@@ -749,7 +823,7 @@ export class ExecutionConnector {
       return;
     }
     for (const symbol of this.symbols) {
-      const response = await fetch(`${this.config.restBaseUrl}/fapi/v1/ticker/bookTicker?symbol=${symbol}`);
+      const response = await this.publicRequest(`/fapi/v1/ticker/bookTicker?symbol=${symbol}`, 'context');
       if (!response.ok) {
         continue;
       }
@@ -895,7 +969,7 @@ export class ExecutionConnector {
       return;
     }
 
-    const response = await fetch(`${this.config.restBaseUrl}/fapi/v1/exchangeInfo`);
+    const response = await this.publicRequest('/fapi/v1/exchangeInfo', 'context');
     if (!response.ok) {
       throw new Error(`exchange_info_failed:${response.status}`);
     }
@@ -993,7 +1067,32 @@ export class ExecutionConnector {
     return request.side === 'BUY' ? 'LONG' : 'SHORT';
   }
 
-  private async normalizeQuantity(symbol: string, side: 'BUY' | 'SELL', rawQty: number): Promise<string> {
+  getPriceTickSize(symbol: string): number | null {
+    return this.symbolRules.get(symbol.toUpperCase())?.priceTickSize ?? null;
+  }
+
+  /**
+   * Rounds a limit price onto the symbol's tick grid.  Buys round down and
+   * sells round up so rounding never makes a passive order more aggressive.
+   */
+  private normalizePrice(symbol: string, side: 'BUY' | 'SELL', rawPrice: number): string {
+    const rules = this.symbolRules.get(symbol);
+    if (!rules) {
+      throw new Error(`missing_symbol_rules:${symbol}`);
+    }
+
+    const tick = rules.priceTickSize > 0 ? rules.priceTickSize : 0.01;
+    const ticks = rawPrice / tick;
+    // Nudge before flooring/ceiling so 100.1 / 0.1 = 1000.9999999 stays on its tick.
+    const rounded = side === 'BUY' ? Math.floor(ticks + 1e-9) : Math.ceil(ticks - 1e-9);
+    const price = rounded * tick;
+    if (price <= 0) {
+      throw new Error(`normalized_price_non_positive:${price}`);
+    }
+    return price.toFixed(this.stepDigits(tick));
+  }
+
+  private async normalizeQuantity(symbol: string, side: 'BUY' | 'SELL', rawQty: number, limitPrice?: number): Promise<string> {
     const rules = this.symbolRules.get(symbol);
     if (!rules) {
       throw new Error(`missing_symbol_rules:${symbol}`);
@@ -1015,7 +1114,7 @@ export class ExecutionConnector {
     }
 
     if (rules.minNotional > 0) {
-      const marketPrice = await this.referencePrice(symbol, side);
+      const marketPrice = limitPrice ?? await this.referencePrice(symbol, side);
       if (marketPrice > 0) {
         const currentNotional = qty * marketPrice;
         if (currentNotional < rules.minNotional) {
@@ -1042,7 +1141,7 @@ export class ExecutionConnector {
       return side === 'BUY' ? quote.bestAsk : quote.bestBid;
     }
 
-    const response = await fetch(`${this.config.restBaseUrl}/fapi/v1/ticker/price?symbol=${symbol}`);
+    const response = await this.publicRequest(`/fapi/v1/ticker/price?symbol=${symbol}`, 'order');
     if (!response.ok) {
       return 0;
     }
@@ -1060,7 +1159,7 @@ export class ExecutionConnector {
 
   private async syncServerTimeOffset() {
     const t0 = Date.now();
-    const response = await fetch(`${this.config.restBaseUrl}/fapi/v1/time`);
+    const response = await this.publicRequest('/fapi/v1/time', 'order');
     if (!response.ok) {
       throw new Error(`server_time_sync_failed:${response.status}`);
     }
@@ -1072,6 +1171,14 @@ export class ExecutionConnector {
     this.emitStatus();
   }
 
+  private sortedQuery(params: Record<string, string>): string {
+    const sorted = new URLSearchParams();
+    for (const key of Object.keys(params).sort()) {
+      sorted.set(key, params[key]);
+    }
+    return sorted.toString();
+  }
+
   private sanitizeParams(params?: Record<string, string | number | boolean | undefined | null>): Record<string, string> {
     const out: Record<string, string> = {};
     if (!params) {
@@ -1105,58 +1212,62 @@ export class ExecutionConnector {
     }
 
     const params = this.sanitizeParams(options.params);
+    const unsignedQuery = this.sortedQuery(params);
+    const unsignedUrl = `${this.config.restBaseUrl}${options.path}${unsignedQuery ? `?${unsignedQuery}` : ''}`;
+
+    // Signed at dispatch: an order held in the scheduler queue must not
+    // reach Binance with a timestamp already outside recvWindow.
+    const prepare = () => {
+      const signedParams = { ...params };
+      if (options.requiresAuth) {
+        signedParams.recvWindow = String(Math.trunc(this.config.recvWindowMs || 5000));
+        signedParams.timestamp = String(Date.now() + this.serverTimeOffsetMs);
+      }
 
-    if (options.requiresAuth) {
-      params.recvWindow = String(Math.trunc(this.config.recvWindowMs || 5000));
-      params.timestamp = String(Date.now() + this.serverTimeOffsetMs);
-    }
+      const queryNoSignature = this.sortedQuery(signedParams);
+      const signature = createHmac('sha256', secret).update(queryNoSignature).digest('hex');
+      const signedQuery = options.requiresAuth
+        ? `${queryNoSignature}${queryNoSignature ? '&' : ''}signature=${signature}`
+        : queryNoSignature;
 
-    const sortedParams = new URLSearchParams();
-    for (const key of Object.keys(params).sort()) {
-      sortedParams.set(key, params[key]);
-    }
-    const queryNoSignature = sortedParams.toString();
-    const signature = createHmac('sha256', secret).update(queryNoSignature).digest('hex');
-    const signedQuery = options.requiresAuth
-      ? `${queryNoSignature}${queryNoSignature ? '&' : ''}signature=${signature}`
-      : queryNoSignature;
+      this.emitDebug({
+        channel: 'execution',
+        type: 'request_debug',
+        order_attempt_id: options.orderAttemptId,
+        ts: Date.now(),
+        payload: {
+          method: options.method,
+          baseUrl: this.config.restBaseUrl,
+          path: options.path,
+          params: signedParams,
+          query_string: queryNoSignature,
+          signature_len: signature.length,
+          recvWindow: signedParams.recvWindow ? Number(signedParams.recvWindow) : null,
+          timestamp: signedParams.timestamp ? Number(signedParams.timestamp) : null,
+        },
+      });
 
-    const url = `${this.config.restBaseUrl}${options.path}${signedQuery ? `?${signedQuery}` : ''}`;
+      return {
+        url: `${this.config.restBaseUrl}${options.path}${signedQuery ? `?${signedQuery}` : ''}`,
+        init: {
+          method: options.method,
+          headers: {
+            'X-MBX-APIKEY': apiKey,
+            'Content-Type': 'application/json',
+          },
+        },
+      };
+    };
 
-    this.emitDebug({
-      channel: 'execution',
-      type: 'request_debug',
-      order_attempt_id: options.orderAttemptId,
-      ts: Date.now(),
-      payload: {
-        method: options.method,
-        baseUrl: this.config.restBaseUrl,
-        path: options.path,
-        params,
-        query_string: queryNoSignature,
-        signature_len: signature.length,
-        recvWindow: params.recvWindow ? Number(params.recvWindow) : null,
-        timestamp: params.timestamp ? Number(params.timestamp) : null,
-      },
+    // Account and order calls outrank market-data requests in the shared queue.
+    const response = await this.rest.request({
+      url: unsignedUrl,
+      priority: 'order',
+      init: { method: options.method },
+      prepare,
+      timeoutMs: 10_000,
     });
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10_000);
-
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        method: options.method,
-        headers: {
-          'X-MBX-APIKEY': apiKey,
-          'Content-Type': 'application/json',
-        },
-        signal: controller.signal,
-      });
-    } finally {
-      clearTimeout(timeout);
-    }
-
     const raw = await response.text();
     let body: any = raw;
     try {
@@ -1194,6 +1305,10 @@ export class ExecutionConnector {
     return body;
   }
 
+  private publicRequest(pathAndQuery: string, priority: RestPriority): Promise<Response> {
+    return this.rest.request({ url: `${this.config.restBaseUrl}${pathAndQuery}`, priority });
+  }
+
   private classifyBinanceError(error: any): string {
     const code = Number(error?.binanceCode);
     if (code === -1021) return 'timestamp_out_of_window';
@@ -0,0 +1,373 @@
+export type RestPriority = 'order' | 'snapshot' | 'context';
+
+export interface RestSchedulerConfig {
+  // IP request weight per minute, per REST host.
+  maxWeightPerMinute: number;
+  // Account order-count limits (x-mbx-order-count-10s / -1m).
+  maxOrdersPer10s?: number;
+  maxOrdersPerMinute?: number;
+  fetch?: (url: string, init?: RequestInit) => Promise<Response>;
+  log?: (event: string, data: any) => void;
+  now?: () => number;
+}
+
+export interface RestRequest {
+  url: string;
+  priority: RestPriority;
+  init?: RequestInit;
+  // Builds the request when it is dispatched, e.g. to sign it with a fresh
+  // timestamp; url above then only sets the host and weight.
+  prepare?: () => { url: string; init?: RequestInit };
+  // Aborts the fetch this long after it is dispatched, not after queueing.
+  timeoutMs?: number;
+  // Overrides the endpoint weight table.
+  weight?: number;
+}
+
+type QueuedRequest = {
+  url: string;
+  init?: RequestInit;
+  prepare?: () => { url: string; init?: RequestInit };
+  timeoutMs?: number;
+  host: string;
+  weight: number;
+  isOrder: boolean;
+  resolve: (res: Response) => void;
+  reject: (error: Error) => void;
+};
+
+type HostBudget = {
+  tokens: number;
+  refilledAt: number;
+  // Weight sent in the current exchange minute, and the exchange's own count for it.
+  minute: number;
+  minuteSpent: number;
+  exchangeUsed: number;
+};
+
+const PRIORITIES: RestPriority[] = ['order', 'snapshot', 'context'];
+const MINUTE_MS = 60_000;
+const ORDER_WINDOW_10S_MS = 10_000;
+
+/**
+ * GET /fapi/v1/depth weight by ``limit``.
+ */
+export function depthWeight(limit: number): number {
+  if (limit <= 50) return 2;
+  if (limit <= 100) return 5;
+  if (limit <= 500) return 10;
+  return 20;
+}
+
+function klinesWeight(limit: number): number {
+  if (limit < 100) return 1;
+  if (limit < 500) return 2;
+  if (limit <= 1000) return 5;
+  return 10;
+}
+
+/**
+ * IP weight of a USDⓈ-M futures REST call.  Endpoints missing from the
+ * table count as 1.
+ */
+export function endpointWeight(method: string, url: string): number {
+  const { pathname, searchParams } = parseUrl(url);
+  const hasSymbol = searchParams.has('symbol');
+  switch (`${method.toUpperCase()} ${pathname}`) {
+    case 'GET /fapi/v1/depth':
+      return depthWeight(Number(searchParams.get('limit') || 500));
+    case 'GET /fapi/v1/klines':
+      return klinesWeight(Number(searchParams.get('limit') || 500));
+    case 'GET /fapi/v1/ticker/price':
+      return hasSymbol ? 1 : 2;
+    case 'GET /fapi/v1/ticker/bookTicker':
+      return hasSymbol ? 2 : 5;
+    case 'GET /fapi/v1/premiumIndex':
+      return hasSymbol ? 1 : 10;
+    case 'GET /fapi/v1/openOrders':
+      return hasSymbol ? 1 : 40;
+    case 'GET /fapi/v2/balance':
+    case 'GET /fapi/v2/positionRisk':
+    case 'GET /fapi/v2/account':
+      return 5;
+    case 'GET /fapi/v1/positionSide/dual':
+      return 30;
+    // New and modified orders count against the order limits instead of IP weight.
+    case 'POST /fapi/v1/order':
+    case 'PUT /fapi/v1/order':
+      return 0;
+    case 'POST /fapi/v1/batchOrders':
+      return 5;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Whether a call counts against the account's order-count limits.
+ */
+export function isOrderRequest(method: string, url: string): boolean {
+  const { pathname } = parseUrl(url);
+  const m = method.toUpperCase();
+  return (m === 'POST' || m === 'PUT') && (pathname === '/fapi/v1/order' || pathname === '/fapi/v1/batchOrders');
+}
+
+function parseUrl(url: string): URL {
+  return new URL(url, 'http://local');
+}
+
+/**
+ * Single queue for every Binance REST call.
+ *
+ * Each REST host has a token bucket holding one minute of IP weight; a
+ * request also waits while the current exchange minute is spent, as
+ * counted locally or reported by x-mbx-used-weight-1m, so requests made
+ * outside the scheduler are accounted for.  Order placement is further
+ * held to the account's 10s / 1m order counts.
+ *
+ * Requests go out by priority (orders, then snapshots, then context
+ * polling) and in order within one priority: a request waiting for
+ * weight holds back everything behind it on the same host.  A 429 / 418
+ * blocks every request until its Retry-After has passed.
+ */
+export class RestScheduler {
+  private readonly queues: Record<RestPriority, QueuedRequest[]> = { order: [], snapshot: [], context: [] };
+  private readonly hosts = new Map<string, HostBudget>();
+  private readonly orderTimes: number[] = [];
+  private readonly now: () => number;
+  private readonly fetchFn: (url: string, init?: RequestInit) => Promise<Response>;
+  private readonly maxOrdersPer10s: number;
+  private readonly maxOrdersPerMinute: number;
+  private exchangeOrders10s = { at: 0, count: 0 };
+  private exchangeOrders1m = { at: 0, count: 0 };
+  private backoffUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly config: RestSchedulerConfig) {
+    this.now = config.now || (() => Date.now());
+    this.fetchFn = config.fetch || ((url, init) => fetch(url, init));
+    this.maxOrdersPer10s = config.maxOrdersPer10s ?? 300;
+    this.maxOrdersPerMinute = config.maxOrdersPerMinute ?? 1200;
+  }
+
+  request(req: RestRequest): Promise<Response> {
+    const method = req.init?.method || 'GET';
+    return new Promise((resolve, reject) => {
+      this.queues[req.priority].push({
+        url: req.url,
+        init: req.init,
+        prepare: req.prepare,
+        timeoutMs: req.timeoutMs,
+        host: parseUrl(req.url).host,
+        weight: req.weight ?? endpointWeight(method, req.url),
+        isOrder: isOrderRequest(method, req.url),
+        resolve,
+        reject,
+      });
+      this.pump();
+    });
+  }
+
+  isBlocked(): boolean {
+    return this.now() < this.backoffUntil;
+  }
+
+  getBackoffUntil(): number {
+    return this.backoffUntil;
+  }
+
+  backoff(untilMs: number) {
+    if (untilMs > this.backoffUntil) {
+      this.backoffUntil = untilMs;
+      this.log('REST_BACKOFF', { untilMs, waitMs: untilMs - this.now() });
+    }
+    this.pump();
+  }
+
+  getStatus() {
+    const now = this.now();
+    const hosts: Record<string, { usedWeight: number; availableWeight: number }> = {};
+    let usedWeight = 0;
+    for (const host of this.hosts.keys()) {
+      const available = this.availableWeight(host, now);
+      const used = this.config.maxWeightPerMinute - available;
+      hosts[host] = { usedWeight: used, availableWeight: available };
+      usedWeight = Math.max(usedWeight, used);
+    }
+    const orders = this.orderCounts(now);
+    return {
+      queued: PRIORITIES.reduce((sum, p) => sum + this.queues[p].length, 0),
+      queuedByPriority: { order: this.queues.order.length, snapshot: this.queues.snapshot.length, context: this.queues.context.length },
+      usedWeight,
+      maxWeightPerMinute: this.config.maxWeightPerMinute,
+      hosts,
+      orders: { count10s: orders.count10s, count1m: orders.count1m, max10s: this.maxOrdersPer10s, max1m: this.maxOrdersPerMinute },
+      backoffMs: Math.max(0, this.backoffUntil - now),
+    };
+  }
+
+  // Re-run on every new request or backoff, so a wait is always computed from the current budget.
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const now = this.now();
+    let nextWake = Infinity;
+    if (now < this.backoffUntil) {
+      nextWake = this.backoffUntil;
+    } else {
+      const heldHosts = new Set<string>();
+      for (const priority of PRIORITIES) {
+        const queue = this.queues[priority];
+        for (let i = 0; i < queue.length;) {
+          const req = queue[i];
+          if (heldHosts.has(req.host)) {
+            i++;
+            continue;
+          }
+          const waitMs = Math.max(this.weightWait(req, now), this.orderWait(req, now));
+          if (waitMs > 0) {
+            // Later requests on this host must not take the weight this one is waiting for.
+            if (!req.isOrder || this.weightWait(req, now) > 0) {
+              heldHosts.add(req.host);
+            }
+            nextWake = Math.min(nextWake, now + waitMs);
+            i++;
+            continue;
+          }
+          queue.splice(i, 1);
+          this.spend(req, now);
+          this.send(req);
+        }
+      }
+    }
+    if (nextWake !== Infinity) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, Math.max(1, nextWake - now));
+    }
+  }
+
+  private budget(host: string, now: number): HostBudget {
+    let budget = this.hosts.get(host);
+    if (!budget) {
+      budget = { tokens: this.config.maxWeightPerMinute, refilledAt: now, minute: Math.floor(now / MINUTE_MS), minuteSpent: 0, exchangeUsed: 0 };
+      this.hosts.set(host, budget);
+    }
+    const max = this.config.maxWeightPerMinute;
+    budget.tokens = Math.min(max, budget.tokens + ((now - budget.refilledAt) * max) / MINUTE_MS);
+    budget.refilledAt = now;
+    const minute = Math.floor(now / MINUTE_MS);
+    if (minute !== budget.minute) {
+      budget.minute = minute;
+      budget.minuteSpent = 0;
+      budget.exchangeUsed = 0;
+    }
+    return budget;
+  }
+
+  private availableWeight(host: string, now: number): number {
+    const budget = this.budget(host, now);
+    const minuteLeft = this.config.maxWeightPerMinute - Math.max(budget.minuteSpent, budget.exchangeUsed);
+    return Math.max(0, Math.floor(Math.min(budget.tokens, minuteLeft)));
+  }
+
+  private weightWait(req: QueuedRequest, now: number): number {
+    if (req.weight <= 0) return 0;
+    const budget = this.budget(req.host, now);
+    const max = this.config.maxWeightPerMinute;
+    // A request heavier than the whole budget goes out on a fresh minute instead of waiting forever.
+    const weight = Math.min(req.weight, max);
+    let waitMs = 0;
+    if (Math.max(budget.minuteSpent, budget.exchangeUsed) + weight > max) {
+      waitMs = (budget.minute + 1) * MINUTE_MS - now;
+    }
+    if (budget.tokens < weight) {
+      waitMs = Math.max(waitMs, Math.ceil(((weight - budget.tokens) * MINUTE_MS) / max));
+    }
+    return waitMs;
+  }
+
+  private orderWait(req: QueuedRequest, now: number): number {
+    if (!req.isOrder) return 0;
+    const counts = this.orderCounts(now);
+    let waitMs = 0;
+    if (counts.count10s >= this.maxOrdersPer10s) {
+      waitMs = Math.max(1, this.orderTimes.find((t) => now - t < ORDER_WINDOW_10S_MS)! + ORDER_WINDOW_10S_MS - now);
+    }
+    if (counts.count1m >= this.maxOrdersPerMinute) {
+      waitMs = Math.max(waitMs, this.orderTimes[0] + MINUTE_MS - now);
+    }
+    return waitMs;
+  }
+
+  private orderCounts(now: number) {
+    while (this.orderTimes.length > 0 && now - this.orderTimes[0] >= MINUTE_MS) {
+      this.orderTimes.shift();
+    }
+    const local10s = this.orderTimes.filter((t) => now - t < ORDER_WINDOW_10S_MS).length;
+    // The exchange counts fixed windows; its figure only applies within the same window.
+    const exchange10s = Math.floor(this.exchangeOrders10s.at / ORDER_WINDOW_10S_MS) === Math.floor(now / ORDER_WINDOW_10S_MS) ? this.exchangeOrders10s.count : 0;
+    const exchange1m = Math.floor(this.exchangeOrders1m.at / MINUTE_MS) === Math.floor(now / MINUTE_MS) ? this.exchangeOrders1m.count : 0;
+    return { count10s: Math.max(local10s, exchange10s), count1m: Math.max(this.orderTimes.length, exchange1m) };
+  }
+
+  private spend(req: QueuedRequest, now: number) {
+    const budget = this.budget(req.host, now);
+    budget.tokens -= req.weight;
+    budget.minuteSpent += req.weight;
+    if (req.isOrder) {
+      this.orderTimes.push(now);
+    }
+  }
+
+  private async send(req: QueuedRequest) {
+    let timeout: NodeJS.Timeout | null = null;
+    try {
+      let { url, init } = req.prepare ? req.prepare() : req;
+      if (req.timeoutMs) {
+        const controller = new AbortController();
+        timeout = setTimeout(() => controller.abort(), req.timeoutMs);
+        init = { ...init, signal: controller.signal };
+      }
+      const res = await this.fetchFn(url, init);
+      this.readUsage(req.host, res);
+      if (res.status === 429 || res.status === 418) {
+        const retryAfterMs = parseInt(res.headers.get('Retry-After') || '60', 10) * 1000;
+        this.log('REST_RATE_LIMITED', { status: res.status, url: req.url.split('?')[0], retryAfterMs });
+        this.backoff(this.now() + retryAfterMs);
+      }
+      req.resolve(res);
+    } catch (e: any) {
+      req.reject(e instanceof Error ? e : new Error(String(e)));
+    } finally {
+      if (timeout) clearTimeout(timeout);
+    }
+  }
+
+  private readUsage(host: string, res: Response) {
+    const now = this.now();
+    const used = Number(res.headers.get('x-mbx-used-weight-1m'));
+    if (Number.isFinite(used) && used > 0) {
+      const budget = this.budget(host, now);
+      budget.exchangeUsed = Math.max(budget.exchangeUsed, used);
+      budget.tokens = Math.min(budget.tokens, this.config.maxWeightPerMinute - used);
+    }
+    const orders10s = Number(res.headers.get('x-mbx-order-count-10s'));
+    if (Number.isFinite(orders10s) && orders10s > 0) {
+      this.exchangeOrders10s = { at: now, count: orders10s };
+    }
+    const orders1m = Number(res.headers.get('x-mbx-order-count-1m'));
+    if (Number.isFinite(orders1m) && orders1m > 0) {
+      this.exchangeOrders1m = { at: now, count: orders1m };
+    }
+  }
+
+  private log(event: string, data: any) {
+    if (this.config.log) {
+      this.config.log(event, data);
+    }
+  }
+}
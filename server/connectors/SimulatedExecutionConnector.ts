@@ -0,0 +1,735 @@
+import { randomUUID } from 'crypto';
+import { OrderbookState, bestAsk, bestBid, getTopLevels } from '../metrics/OrderbookManager';
+import {
+  DebugListener,
+  ExecutionConnectionState,
+  ExecutionConnectorStatus,
+  ExecutionDebugEvent,
+  ExecutionListener,
+  ExecutionVenue,
+  StatusListener,
+} from './ExecutionConnector';
+import {
+  CancelOrderRequest,
+  ExecutionEvent,
+  OrderUpdateEvent,
+  PlaceOrderRequest,
+  Side,
+} from './executionTypes';
+
+/**
+ * Local paper-trading venue.
+ *
+ * Orders are filled against the live mainnet `OrderbookState`
+ * maintained by the proxy.  The simulator walks the opposite side of
+ * the book level by level so larger orders pay realistic slippage, and
+ * it emits the same ORDER_UPDATE / TRADE_UPDATE / ACCOUNT_UPDATE events
+ * the Binance user stream would.  No network calls are made.
+ *
+ * LIMIT orders take whatever is marketable up to their price and rest
+ * the remainder (GTC), or expire it (IOC / FOK).  Post-only (GTX)
+ * orders that would cross expire immediately.  A resting order fills in
+ * full at its own price, with the maker fee, once the opposite touch
+ * trades through it.  STOP_MARKET / TAKE_PROFIT_MARKET orders wait for
+ * the mid price to reach their trigger and then fill as MARKET orders.
+ */
+export interface SimulatedExecutionConfig {
+  enabled: boolean;
+  initialBalanceUsdt: number;
+  takerFeeRate: number;
+  makerFeeRate: number;
+  leverage: number;
+  priceTickSize?: number | null;
+  maxWalkLevels?: number;
+  // Period of the resting-order matcher; 0 leaves matching to the caller.
+  restingMatchIntervalMs?: number;
+  // Event clock; the backtester drives it from recorded exchange time.
+  now?: () => number;
+  getOrderbook: (symbol: string) => OrderbookState | null;
+  listSymbols?: () => Promise<string[]>;
+}
+
+interface SimPosition {
+  amt: number;
+  entryPrice: number;
+}
+
+interface SimFill {
+  price: number;
+  qty: number;
+}
+
+const QTY_EPSILON = 1e-9;
+
+export class SimulatedExecutionConnector implements ExecutionVenue {
+  private readonly listeners = new Set<ExecutionListener>();
+  private readonly statusListeners = new Set<StatusListener>();
+  private readonly debugListeners = new Set<DebugListener>();
+  private readonly symbols = new Set<string>();
+  private readonly positions = new Map<string, SimPosition>();
+  private readonly openOrders = new Map<string, OrderUpdateEvent>();
+  // Orders whose NEW / fill events are still queued; they rest but are not matched yet
+  private readonly pendingPlacements = new Set<string>();
+
+  private executionEnabled: boolean;
+  private state: ExecutionConnectionState = 'DISCONNECTED';
+  private lastError: string | null = null;
+  private walletBalance: number;
+  private orderSeq = 0;
+  private tradeSeq = 0;
+  private matchTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly config: SimulatedExecutionConfig) {
+    this.executionEnabled = config.enabled;
+    this.walletBalance = config.initialBalanceUsdt;
+  }
+
+  onExecutionEvent(listener: ExecutionListener) {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  onStatus(listener: StatusListener) {
+    this.statusListeners.add(listener);
+    listener(this.getStatus());
+    return () => this.statusListeners.delete(listener);
+  }
+
+  onDebug(listener: DebugListener) {
+    this.debugListeners.add(listener);
+    return () => this.debugListeners.delete(listener);
+  }
+
+  getStatus(): ExecutionConnectorStatus {
+    const readiness = this.aggregateReadiness();
+    return {
+      state: this.state,
+      executionEnabled: this.executionEnabled,
+      hasCredentials: true,
+      symbols: Array.from(this.symbols),
+      lastError: this.lastError,
+      ready: readiness.ready,
+      readyReason: readiness.reason,
+      serverTimeOffsetMs: 0,
+      dualSidePosition: false,
+      updatedAtMs: this.now(),
+    };
+  }
+
+  isExecutionEnabled(): boolean {
+    return this.executionEnabled;
+  }
+
+  setExecutionEnabled(enabled: boolean) {
+    this.executionEnabled = Boolean(enabled);
+    this.emitStatus();
+  }
+
+  isConnected(): boolean {
+    return this.state === 'CONNECTED';
+  }
+
+  setCredentials(_apiKey: string, _apiSecret: string) {
+    // Paper trading needs no keys; accepted so the REST connect flow works unchanged.
+    this.lastError = null;
+    this.emitStatus();
+  }
+
+  ensureSymbol(symbol: string) {
+    const normalized = symbol.toUpperCase();
+    if (!this.symbols.has(normalized)) {
+      this.symbols.add(normalized);
+      this.emitStatus();
+    }
+  }
+
+  setSymbols(symbols: string[]) {
+    this.symbols.clear();
+    for (const symbol of symbols) {
+      this.symbols.add(symbol.toUpperCase());
+    }
+    this.emitStatus();
+  }
+
+  getWalletBalance(): number {
+    return this.walletBalance;
+  }
+
+  // Wallet balance plus unrealized PnL of all open positions at the mid price.
+  getEquity(): number {
+    let unrealized = 0;
+    for (const symbol of this.positions.keys()) {
+      unrealized += this.unrealizedPnl(symbol);
+    }
+    return this.walletBalance + unrealized;
+  }
+
+  async start() {
+    await this.connect();
+  }
+
+  async connect(): Promise<void> {
+    if (this.state === 'CONNECTED') {
+      return;
+    }
+    this.state = 'CONNECTED';
+    this.lastError = null;
+    const matchIntervalMs = this.config.restingMatchIntervalMs ?? 250;
+    if (matchIntervalMs > 0) {
+      this.matchTimer = setInterval(() => this.matchRestingOrders(), matchIntervalMs);
+    }
+    this.emitStatus();
+    await this.syncState();
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.matchTimer) {
+      clearInterval(this.matchTimer);
+      this.matchTimer = null;
+    }
+    this.state = 'DISCONNECTED';
+    this.lastError = null;
+    this.emitStatus();
+  }
+
+  expectedPrice(symbol: string, side: 'BUY' | 'SELL', orderType: 'MARKET' | 'LIMIT', limitPrice?: number): number | null {
+    if (orderType === 'LIMIT') {
+      return typeof limitPrice === 'number' ? limitPrice : null;
+    }
+    const ob = this.config.getOrderbook(symbol.toUpperCase());
+    if (!ob) {
+      return null;
+    }
+    return side === 'BUY' ? bestAsk(ob) : bestBid(ob);
+  }
+
+  getPriceTickSize(_symbol: string): number | null {
+    return this.config.priceTickSize ?? null;
+  }
+
+  async placeOrder(
+    request: PlaceOrderRequest,
+    context?: { decisionId?: string; orderAttemptId?: string }
+  ): Promise<{ orderId: string }> {
+    const orderAttemptId = context?.orderAttemptId || randomUUID();
+    const symbol = request.symbol.toUpperCase();
+
+    if (!this.executionEnabled) {
+      this.emitDebug({
+        channel: 'execution',
+        type: 'why_not_sent',
+        order_attempt_id: orderAttemptId,
+        decision_id: context?.decisionId,
+        symbol,
+        ts: this.now(),
+        payload: { why_not_sent: 'disabled' },
+      });
+      return { orderId: `dry-${request.clientOrderId}` };
+    }
+
+    if (!this.isConnected()) {
+      this.emitDebug({
+        channel: 'execution',
+        type: 'why_not_sent',
+        order_attempt_id: orderAttemptId,
+        decision_id: context?.decisionId,
+        symbol,
+        ts: this.now(),
+        payload: { why_not_sent: 'not_connected', state: this.state },
+      });
+      throw new Error('Execution connector is not connected');
+    }
+
+    this.emitDebug({
+      channel: 'execution',
+      type: 'order_attempt',
+      order_attempt_id: orderAttemptId,
+      decision_id: context?.decisionId,
+      symbol,
+      ts: this.now(),
+      payload: { venue: 'paper', request },
+    });
+
+    try {
+      if (request.type === 'STOP_MARKET' || request.type === 'TAKE_PROFIT_MARKET') {
+        return { orderId: this.placeTriggerOrder(symbol, request, orderAttemptId, context?.decisionId) };
+      }
+
+      const quantity = this.resolveQuantity(symbol, request);
+      const isLimit = request.type === 'LIMIT';
+      if (isLimit && (typeof request.price !== 'number' || !Number.isFinite(request.price) || request.price <= 0)) {
+        throw new Error(`invalid_limit_price:${request.price}`);
+      }
+      const limitPrice = isLimit ? request.price : undefined;
+      const timeInForce = isLimit ? (request.timeInForce || 'GTC') : 'IOC';
+
+      let fills = this.walkBook(symbol, request.side, quantity, limitPrice);
+      if (!isLimit && fills.length === 0) {
+        throw new Error(`no_liquidity:${symbol}`);
+      }
+      const marketableQty = fills.reduce((sum, f) => sum + f.qty, 0);
+      if (timeInForce === 'GTX' && fills.length > 0) {
+        // Post-only would take liquidity: the exchange expires it untouched.
+        fills = [];
+      } else if (timeInForce === 'FOK' && quantity - marketableQty > QTY_EPSILON) {
+        fills = [];
+      }
+
+      const orderId = String(++this.orderSeq);
+      const order: OrderUpdateEvent = {
+        type: 'ORDER_UPDATE',
+        symbol,
+        event_time_ms: this.now(),
+        orderId,
+        clientOrderId: request.clientOrderId,
+        side: request.side,
+        orderType: request.type,
+        status: 'NEW',
+        origQty: quantity,
+        executedQty: 0,
+        price: limitPrice ?? 0,
+        reduceOnly: Boolean(request.reduceOnly),
+      };
+      const restRemainder = timeInForce === 'GTC' || (timeInForce === 'GTX' && marketableQty === 0);
+      const filledQty = fills.reduce((sum, f) => sum + f.qty, 0);
+      if (restRemainder && quantity - filledQty > QTY_EPSILON) {
+        // Resting as soon as the REST ack returns, so a cancel in the same tick finds it.
+        this.openOrders.set(orderId, {
+          ...order,
+          status: filledQty > 0 ? 'PARTIALLY_FILLED' : 'NEW',
+          executedQty: filledQty,
+        });
+      }
+
+      // Fills are priced against the book at placement time but delivered
+      // asynchronously, like user-stream events after the REST ack.
+      this.pendingPlacements.add(orderId);
+      setImmediate(() => {
+        this.pendingPlacements.delete(orderId);
+        this.emitEvent(order);
+        this.deliverFills(order, fills, restRemainder);
+      });
+
+      this.emitDebug({
+        channel: 'execution',
+        type: 'order_result',
+        order_attempt_id: orderAttemptId,
+        decision_id: context?.decisionId,
+        symbol,
+        ts: this.now(),
+        payload: { orderId, status: 'NEW', fills },
+      });
+
+      return { orderId };
+    } catch (error: any) {
+      this.emitDebug({
+        channel: 'execution',
+        type: 'order_error',
+        order_attempt_id: orderAttemptId,
+        decision_id: context?.decisionId,
+        symbol,
+        ts: this.now(),
+        payload: {
+          error_class: 'paper_rejected',
+          message: error?.message || 'order_failed',
+          code: null,
+        },
+      });
+      throw error;
+    }
+  }
+
+  async cancelOrder(request: CancelOrderRequest): Promise<void> {
+    for (const order of this.openOrders.values()) {
+      const match = (request.orderId && order.orderId === request.orderId)
+        || (request.clientOrderId && order.clientOrderId === request.clientOrderId);
+      if (match && order.symbol === request.symbol.toUpperCase()) {
+        this.cancelOpenOrder(order);
+      }
+    }
+  }
+
+  async cancelAllOpenOrders(symbol: string): Promise<void> {
+    const normalized = symbol.toUpperCase();
+    for (const order of Array.from(this.openOrders.values())) {
+      if (order.symbol === normalized) {
+        this.cancelOpenOrder(order);
+      }
+    }
+  }
+
+  async syncState(): Promise<void> {
+    const now = this.now();
+    for (const symbol of this.symbols) {
+      this.emitAccountUpdate(symbol, now);
+      this.emitEvent({
+        type: 'OPEN_ORDERS_SNAPSHOT',
+        symbol,
+        event_time_ms: now,
+        orders: Array.from(this.openOrders.values())
+          .filter((o) => o.symbol === symbol)
+          .map((o) => ({
+            orderId: o.orderId,
+            clientOrderId: o.clientOrderId,
+            side: o.side,
+            orderType: o.orderType,
+            status: o.status,
+            origQty: o.origQty,
+            executedQty: o.executedQty,
+            price: o.price,
+            reduceOnly: o.reduceOnly,
+            stopPrice: o.stopPrice,
+            closePosition: o.closePosition,
+          })),
+      });
+    }
+  }
+
+  async fetchTestnetFuturesPairs(): Promise<string[]> {
+    if (this.config.listSymbols) {
+      return this.config.listSymbols();
+    }
+    return Array.from(this.symbols).sort();
+  }
+
+  async ensureSymbolsReady() {
+    this.emitStatus();
+  }
+
+  private resolveQuantity(symbol: string, request: PlaceOrderRequest): number {
+    if (!Number.isFinite(request.quantity) || request.quantity <= 0) {
+      throw new Error(`invalid_quantity:${request.quantity}`);
+    }
+    if (!request.reduceOnly) {
+      return request.quantity;
+    }
+
+    const reducible = this.reducibleQty(symbol, request.side);
+    if (reducible <= QTY_EPSILON) {
+      throw new Error('reduce_only_rejected:no_position');
+    }
+    return Math.min(request.quantity, reducible);
+  }
+
+  private reducibleQty(symbol: string, side: Side): number {
+    const position = this.positions.get(symbol);
+    if (!position) {
+      return 0;
+    }
+    return (side === 'SELL' && position.amt > 0) || (side === 'BUY' && position.amt < 0)
+      ? Math.abs(position.amt)
+      : 0;
+  }
+
+  /**
+   * Fills resting LIMIT orders whose price the opposite touch has traded
+   * through and fires trigger orders whose stop price was reached.  Runs
+   * on a timer while connected.
+   */
+  matchRestingOrders() {
+    for (const order of Array.from(this.openOrders.values())) {
+      if (this.pendingPlacements.has(order.orderId)) {
+        continue;
+      }
+      if (order.orderType === 'STOP_MARKET' || order.orderType === 'TAKE_PROFIT_MARKET') {
+        this.matchTriggerOrder(order);
+        continue;
+      }
+      const ob = this.config.getOrderbook(order.symbol);
+      if (!ob) {
+        continue;
+      }
+      const touch = order.side === 'BUY' ? bestAsk(ob) : bestBid(ob);
+      if (touch === null) {
+        continue;
+      }
+      const crossed = order.side === 'BUY' ? touch <= order.price : touch >= order.price;
+      if (!crossed) {
+        continue;
+      }
+
+      this.openOrders.delete(order.orderId);
+      let qty = order.origQty - order.executedQty;
+      if (order.reduceOnly) {
+        qty = Math.min(qty, this.reducibleQty(order.symbol, order.side));
+      }
+      if (qty <= QTY_EPSILON) {
+        this.emitEvent({ ...order, event_time_ms: this.now(), status: 'EXPIRED' });
+        continue;
+      }
+      this.emitFill(order, { price: order.price, qty }, this.config.makerFeeRate);
+      this.emitAccountUpdate(order.symbol, this.now());
+    }
+  }
+
+  // The CANCELED of an order whose placement events are still queued goes
+  // out after them, in the order the user stream would deliver.
+  private cancelOpenOrder(order: OrderUpdateEvent) {
+    this.openOrders.delete(order.orderId);
+    const emit = () => this.emitEvent({ ...order, status: 'CANCELED', event_time_ms: this.now() });
+    if (this.pendingPlacements.has(order.orderId)) {
+      setImmediate(emit);
+    } else {
+      emit();
+    }
+  }
+
+  private placeTriggerOrder(symbol: string, request: PlaceOrderRequest, orderAttemptId: string, decisionId?: string): string {
+    if (typeof request.stopPrice !== 'number' || !Number.isFinite(request.stopPrice) || request.stopPrice <= 0) {
+      throw new Error(`invalid_stop_price:${request.stopPrice}`);
+    }
+    const closePosition = Boolean(request.closePosition);
+    const quantity = closePosition ? 0 : this.resolveQuantity(symbol, request);
+
+    const orderId = String(++this.orderSeq);
+    const order: OrderUpdateEvent = {
+      type: 'ORDER_UPDATE',
+      symbol,
+      event_time_ms: this.now(),
+      orderId,
+      clientOrderId: request.clientOrderId,
+      side: request.side,
+      orderType: request.type,
+      status: 'NEW',
+      origQty: quantity,
+      executedQty: 0,
+      price: 0,
+      reduceOnly: Boolean(request.reduceOnly) && !closePosition,
+      stopPrice: request.stopPrice,
+      closePosition,
+    };
+    this.openOrders.set(orderId, order);
+    this.pendingPlacements.add(orderId);
+    setImmediate(() => {
+      this.pendingPlacements.delete(orderId);
+      this.emitEvent(order);
+    });
+
+    this.emitDebug({
+      channel: 'execution',
+      type: 'order_result',
+      order_attempt_id: orderAttemptId,
+      decision_id: decisionId,
+      symbol,
+      ts: this.now(),
+      payload: { orderId, status: 'NEW', stopPrice: request.stopPrice },
+    });
+    return orderId;
+  }
+
+  private matchTriggerOrder(order: OrderUpdateEvent) {
+    const mark = this.markPrice(order.symbol);
+    const stopPrice = order.stopPrice ?? 0;
+    if (mark === null || stopPrice <= 0) {
+      return;
+    }
+    // Stops fire when price moves against the order side, take-profits when it moves with it.
+    const risingTrigger = (order.orderType === 'STOP_MARKET') === (order.side === 'BUY');
+    if (risingTrigger ? mark < stopPrice : mark > stopPrice) {
+      return;
+    }
+
+    this.openOrders.delete(order.orderId);
+    const reducible = this.reducibleQty(order.symbol, order.side);
+    let qty = order.origQty - order.executedQty;
+    if (order.closePosition) {
+      qty = reducible;
+    } else if (order.reduceOnly) {
+      qty = Math.min(qty, reducible);
+    }
+    const fills = qty > QTY_EPSILON ? this.walkBook(order.symbol, order.side, qty) : [];
+    if (fills.length === 0) {
+      this.emitEvent({ ...order, event_time_ms: this.now(), status: 'EXPIRED' });
+      return;
+    }
+    this.deliverFills({ ...order, origQty: qty, executedQty: 0 }, fills, false);
+  }
+
+  private walkBook(symbol: string, side: Side, quantity: number, limitPrice?: number): SimFill[] {
+    const ob = this.config.getOrderbook(symbol);
+    if (!ob) {
+      return [];
+    }
+
+    const { bids, asks } = getTopLevels(ob, this.config.maxWalkLevels ?? 100);
+    const levels = side === 'BUY' ? asks : bids;
+    const fills: SimFill[] = [];
+    let remaining = quantity;
+    for (const [price, size] of levels) {
+      if (remaining <= QTY_EPSILON) {
+        break;
+      }
+      if (limitPrice !== undefined && (side === 'BUY' ? price > limitPrice : price < limitPrice)) {
+        break;
+      }
+      const qty = Math.min(size, remaining);
+      fills.push({ price, qty });
+      remaining -= qty;
+    }
+    return fills;
+  }
+
+  private deliverFills(order: OrderUpdateEvent, fills: SimFill[], restRemainder: boolean) {
+    let current = order;
+    for (const fill of fills) {
+      current = this.emitFill(current, fill, this.config.takerFeeRate);
+    }
+
+    if (current.origQty - current.executedQty > QTY_EPSILON) {
+      if (restRemainder) {
+        // Already resting since placement, unless cancelled in the meantime
+        if (this.openOrders.has(current.orderId)) {
+          this.openOrders.set(current.orderId, current);
+        }
+      } else {
+        // MARKET / IOC / FOK remainder (or a crossing post-only order) expires.
+        this.emitEvent({ ...current, event_time_ms: this.now(), status: 'EXPIRED' });
+      }
+    }
+
+    if (fills.length > 0) {
+      this.emitAccountUpdate(order.symbol, this.now());
+    }
+  }
+
+  private emitFill(order: OrderUpdateEvent, fill: SimFill, feeRate: number): OrderUpdateEvent {
+    const eventTime = this.now();
+    const executedQty = order.executedQty + fill.qty;
+    const filled = order.origQty - executedQty <= QTY_EPSILON;
+    const realizedPnl = this.applyFill(order.symbol, order.side, fill);
+    const quoteQty = fill.qty * fill.price;
+    const commission = quoteQty * feeRate;
+    this.walletBalance += realizedPnl - commission;
+
+    const updated: OrderUpdateEvent = {
+      ...order,
+      event_time_ms: eventTime,
+      status: filled ? 'FILLED' : 'PARTIALLY_FILLED',
+      executedQty,
+    };
+    this.emitEvent(updated);
+    this.emitEvent({
+      type: 'TRADE_UPDATE',
+      symbol: order.symbol,
+      event_time_ms: eventTime,
+      orderId: order.orderId,
+      tradeId: String(++this.tradeSeq),
+      side: order.side,
+      fillQty: fill.qty,
+      fillPrice: fill.price,
+      commission,
+      commissionAsset: 'USDT',
+      realizedPnl,
+      quoteQty,
+    });
+    return updated;
+  }
+
+  private applyFill(symbol: string, side: Side, fill: SimFill): number {
+    const position = this.positions.get(symbol) || { amt: 0, entryPrice: 0 };
+    const signedQty = side === 'BUY' ? fill.qty : -fill.qty;
+    let realizedPnl = 0;
+
+    if (position.amt === 0 || Math.sign(position.amt) === Math.sign(signedQty)) {
+      const absAmt = Math.abs(position.amt);
+      position.entryPrice = (absAmt * position.entryPrice + fill.qty * fill.price) / (absAmt + fill.qty);
+      position.amt += signedQty;
+    } else {
+      const closeQty = Math.min(fill.qty, Math.abs(position.amt));
+      realizedPnl = (fill.price - position.entryPrice) * closeQty * Math.sign(position.amt);
+      position.amt += signedQty;
+      if (Math.abs(position.amt) <= QTY_EPSILON) {
+        position.amt = 0;
+        position.entryPrice = 0;
+      } else if (Math.sign(position.amt) === Math.sign(signedQty)) {
+        // Flipped through zero: the remainder opens at this fill price.
+        position.entryPrice = fill.price;
+      }
+    }
+
+    this.positions.set(symbol, position);
+    return realizedPnl;
+  }
+
+  private emitAccountUpdate(symbol: string, eventTimeMs: number) {
+    const position = this.positions.get(symbol) || { amt: 0, entryPrice: 0 };
+    this.emitEvent({
+      type: 'ACCOUNT_UPDATE',
+      symbol,
+      event_time_ms: eventTimeMs,
+      availableBalance: this.availableBalance(),
+      walletBalance: this.walletBalance,
+      positionAmt: position.amt,
+      entryPrice: position.entryPrice,
+      unrealizedPnL: this.unrealizedPnl(symbol),
+    });
+  }
+
+  private availableBalance(): number {
+    let usedMargin = 0;
+    let unrealized = 0;
+    for (const [symbol, position] of this.positions) {
+      usedMargin += Math.abs(position.amt) * position.entryPrice / Math.max(1, this.config.leverage);
+      unrealized += this.unrealizedPnl(symbol);
+    }
+    return Math.max(0, this.walletBalance + Math.min(0, unrealized) - usedMargin);
+  }
+
+  private unrealizedPnl(symbol: string): number {
+    const position = this.positions.get(symbol);
+    if (!position || position.amt === 0) {
+      return 0;
+    }
+    const mark = this.markPrice(symbol);
+    if (mark === null) {
+      return 0;
+    }
+    return (mark - position.entryPrice) * position.amt;
+  }
+
+  private now(): number {
+    return this.config.now ? this.config.now() : Date.now();
+  }
+
+  private markPrice(symbol: string): number | null {
+    const ob = this.config.getOrderbook(symbol);
+    const bid = ob ? bestBid(ob) : null;
+    const ask = ob ? bestAsk(ob) : null;
+    if (bid === null || ask === null) {
+      return null;
+    }
+    return (bid + ask) / 2;
+  }
+
+  private aggregateReadiness(): { ready: boolean; reason: string | null } {
+    if (this.symbols.size === 0) {
+      return { ready: false, reason: 'symbol_not_selected' };
+    }
+    for (const symbol of this.symbols) {
+      const ob = this.config.getOrderbook(symbol);
+      if (!ob || ob.bids.size === 0 || ob.asks.size === 0) {
+        return { ready: false, reason: `orderbook_not_seeded:${symbol}` };
+      }
+    }
+    return { ready: true, reason: null };
+  }
+
+  private emitEvent(event: ExecutionEvent) {
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private emitStatus() {
+    const status = this.getStatus();
+    for (const listener of this.statusListeners) {
+      listener(status);
+    }
+  }
+
+  private emitDebug(event: ExecutionDebugEvent) {
+    for (const listener of this.debugListeners) {
+      listener(event);
+    }
+  }
+}
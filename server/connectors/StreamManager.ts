@@ -0,0 +1,354 @@
+import { WebSocket } from 'ws';
+
+// The subset of a `ws` WebSocket the manager uses; tests pass a fake.
+export interface StreamSocket {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  on(event: 'open', listener: () => void): this;
+  on(event: 'message', listener: (raw: Buffer) => void): this;
+  on(event: 'close', listener: () => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * How a venue's public socket is opened and (un)subscribed.  Stream names
+ * are opaque to the manager; the protocol turns them into frames.
+ */
+export interface StreamProtocol {
+  connectUrl(baseUrl: string, streams: string[]): string;
+  // Whether the streams in connectUrl are live once the socket opens; otherwise they are subscribed after open.
+  streamsInUrl: boolean;
+  frames(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', streams: string[], id: number): string[];
+  // Application-level keepalive for venues that drop quiet sockets.
+  ping?: { intervalMs: number; frame: string };
+}
+
+export const BINANCE_STREAM_PROTOCOL: StreamProtocol = {
+  connectUrl: (baseUrl, streams) => `${baseUrl}?streams=${streams.join('/')}`,
+  streamsInUrl: true,
+  frames: (method, params, id) => [JSON.stringify({ method, params, id })],
+};
+
+export interface StreamManagerConfig {
+  // Combined-stream endpoint, e.g. wss://fstream.binance.com/stream
+  baseUrl: string;
+  streamsFor: (symbol: string) => string[];
+  // Defaults to Binance combined streams.
+  protocol?: StreamProtocol;
+  maxStreamsPerSocket: number;
+  minBackoffMs: number;
+  maxBackoffMs: number;
+  onMessage: (raw: Buffer) => void;
+  // Symbols whose streams stopped (unsubscribed or their socket dropped); their books need a resync.
+  onStreamsLost?: (symbols: string[]) => void;
+  log?: (event: string, data: any) => void;
+  createSocket?: (url: string) => StreamSocket;
+  now?: () => number;
+  random?: () => number;
+}
+
+export type ShardState = 'connecting' | 'connected' | 'disconnected';
+
+export interface ShardHealth {
+  id: number;
+  state: ShardState;
+  symbols: string[];
+  streams: number;
+  reconnects: number;
+  lastMessageAgeMs: number | null;
+  connectedForMs: number | null;
+  nextReconnectInMs: number | null;
+  lastError: string | null;
+}
+
+type Shard = {
+  id: number;
+  // Symbols this shard should carry.
+  symbols: Set<string>;
+  // Symbols subscribed on the current socket (URL or SUBSCRIBE frames).
+  subscribed: Set<string>;
+  socket: StreamSocket | null;
+  state: ShardState;
+  attempts: number;
+  reconnects: number;
+  reconnectAt: number | null;
+  reconnectTimer: NodeJS.Timeout | null;
+  pingTimer: NodeJS.Timeout | null;
+  connectedAt: number | null;
+  lastMessageAt: number | null;
+  lastError: string | null;
+};
+
+const OPEN = 1;
+
+/**
+ * Keeps a venue's public stream sockets in line with the required symbol
+ * set.  Symbols are packed into shards of at most maxStreamsPerSocket
+ * streams; changes on a connected shard go out as subscribe / unsubscribe
+ * frames so other symbols on it keep their depth continuity.  A dropped
+ * shard reconnects on its own with exponential backoff and equal jitter.
+ * The venue's StreamProtocol builds the URLs and frames; Binance combined
+ * streams are the default.
+ */
+export class StreamManager {
+  private readonly shards = new Map<number, Shard>();
+  private readonly shardBySymbol = new Map<string, Shard>();
+  private readonly now: () => number;
+  private readonly random: () => number;
+  private readonly protocol: StreamProtocol;
+  private nextShardId = 0;
+  private nextRequestId = 0;
+
+  constructor(private readonly config: StreamManagerConfig) {
+    this.now = config.now || (() => Date.now());
+    this.random = config.random || Math.random;
+    this.protocol = config.protocol || BINANCE_STREAM_PROTOCOL;
+  }
+
+  setSymbols(symbols: Iterable<string>) {
+    const required = new Set(symbols);
+    const removed = [...this.shardBySymbol.keys()].filter((s) => !required.has(s));
+    const added = [...required].filter((s) => !this.shardBySymbol.has(s));
+    const touched = new Set<Shard>();
+
+    for (const symbol of removed) {
+      const shard = this.shardBySymbol.get(symbol)!;
+      shard.symbols.delete(symbol);
+      this.shardBySymbol.delete(symbol);
+      touched.add(shard);
+    }
+    for (const symbol of added) {
+      const shard = this.shardWithRoom(this.config.streamsFor(symbol).length);
+      shard.symbols.add(symbol);
+      this.shardBySymbol.set(symbol, shard);
+      touched.add(shard);
+    }
+
+    for (const shard of touched) {
+      this.syncShard(shard);
+    }
+    if (removed.length > 0 && this.config.onStreamsLost) {
+      this.config.onStreamsLost(removed);
+    }
+  }
+
+  getSymbols(): string[] {
+    return [...this.shardBySymbol.keys()];
+  }
+
+  /**
+   * Unsubscribes and resubscribes symbols on their open shards, for venues
+   * that send a fresh book snapshot on subscribe.
+   */
+  resubscribe(symbols: string[]) {
+    const byShard = new Map<Shard, string[]>();
+    for (const symbol of symbols) {
+      const shard = this.shardBySymbol.get(symbol);
+      if (shard && shard.socket?.readyState === OPEN && shard.subscribed.has(symbol)) {
+        byShard.set(shard, [...(byShard.get(shard) || []), symbol]);
+      }
+    }
+    for (const [shard, list] of byShard) {
+      this.sendFrame(shard, 'UNSUBSCRIBE', list);
+      this.sendFrame(shard, 'SUBSCRIBE', list);
+    }
+  }
+
+  /**
+   * 'connected' only when every shard is; 'disconnected' with no shards.
+   */
+  getState(): ShardState {
+    const states = [...this.shards.values()].map((s) => s.state);
+    if (states.length === 0 || states.every((s) => s === 'disconnected')) {
+      return 'disconnected';
+    }
+    return states.every((s) => s === 'connected') ? 'connected' : 'connecting';
+  }
+
+  getHealth(): ShardHealth[] {
+    const now = this.now();
+    return [...this.shards.values()].map((shard) => ({
+      id: shard.id,
+      state: shard.state,
+      symbols: [...shard.symbols],
+      streams: this.streamCount(shard.symbols),
+      reconnects: shard.reconnects,
+      lastMessageAgeMs: shard.lastMessageAt === null ? null : now - shard.lastMessageAt,
+      connectedForMs: shard.connectedAt === null ? null : now - shard.connectedAt,
+      nextReconnectInMs: shard.reconnectAt === null ? null : Math.max(0, shard.reconnectAt - now),
+      lastError: shard.lastError,
+    }));
+  }
+
+  shutdown() {
+    for (const shard of [...this.shards.values()]) {
+      this.dropShard(shard);
+    }
+    this.shardBySymbol.clear();
+  }
+
+  private shardWithRoom(streams: number): Shard {
+    for (const shard of this.shards.values()) {
+      if (this.streamCount(shard.symbols) + streams <= this.config.maxStreamsPerSocket) {
+        return shard;
+      }
+    }
+    const shard: Shard = {
+      id: this.nextShardId++,
+      symbols: new Set(),
+      subscribed: new Set(),
+      socket: null,
+      state: 'disconnected',
+      attempts: 0,
+      reconnects: 0,
+      reconnectAt: null,
+      reconnectTimer: null,
+      pingTimer: null,
+      connectedAt: null,
+      lastMessageAt: null,
+      lastError: null,
+    };
+    this.shards.set(shard.id, shard);
+    return shard;
+  }
+
+  private syncShard(shard: Shard) {
+    if (shard.symbols.size === 0) {
+      this.dropShard(shard);
+      return;
+    }
+    if (!shard.socket) {
+      // A pending reconnect picks up the new symbol set when it fires.
+      if (shard.reconnectTimer === null) {
+        this.connectShard(shard);
+      }
+      return;
+    }
+    if (shard.socket.readyState !== OPEN) {
+      // Applied from the open handler.
+      return;
+    }
+
+    const added = [...shard.symbols].filter((s) => !shard.subscribed.has(s));
+    const removed = [...shard.subscribed].filter((s) => !shard.symbols.has(s));
+    this.sendFrame(shard, 'UNSUBSCRIBE', removed);
+    this.sendFrame(shard, 'SUBSCRIBE', added);
+    shard.subscribed = new Set(shard.symbols);
+  }
+
+  private sendFrame(shard: Shard, method: 'SUBSCRIBE' | 'UNSUBSCRIBE', symbols: string[]) {
+    if (!shard.socket || symbols.length === 0) {
+      return;
+    }
+    const id = ++this.nextRequestId;
+    const params = symbols.flatMap((s) => this.config.streamsFor(s));
+    for (const frame of this.protocol.frames(method, params, id)) {
+      shard.socket.send(frame);
+    }
+    this.log(method === 'SUBSCRIBE' ? 'WS_SUBSCRIBE' : 'WS_UNSUBSCRIBE', { shard: shard.id, id, symbols });
+  }
+
+  private connectShard(shard: Shard) {
+    shard.reconnectTimer = null;
+    shard.reconnectAt = null;
+    shard.subscribed = this.protocol.streamsInUrl ? new Set(shard.symbols) : new Set();
+    const streams = [...shard.symbols].flatMap((s) => this.config.streamsFor(s));
+    const url = this.protocol.connectUrl(this.config.baseUrl, streams);
+    this.log('WS_CONNECT', { shard: shard.id, count: shard.symbols.size, url });
+
+    const socket: StreamSocket = this.config.createSocket ? this.config.createSocket(url) : new WebSocket(url);
+    shard.socket = socket;
+    shard.state = 'connecting';
+
+    socket.on('open', () => {
+      if (shard.socket !== socket) return;
+      shard.state = 'connected';
+      shard.attempts = 0;
+      shard.connectedAt = this.now();
+      shard.lastError = null;
+      this.log('WS_OPEN', { shard: shard.id });
+      const ping = this.protocol.ping;
+      if (ping) {
+        shard.pingTimer = setInterval(() => {
+          if (shard.socket === socket && socket.readyState === OPEN) socket.send(ping.frame);
+        }, ping.intervalMs);
+      }
+      this.syncShard(shard);
+    });
+
+    socket.on('message', (raw: Buffer) => {
+      if (shard.socket !== socket) return;
+      shard.lastMessageAt = this.now();
+      this.config.onMessage(raw);
+    });
+
+    socket.on('close', () => {
+      if (shard.socket !== socket) return;
+      shard.socket = null;
+      shard.state = 'disconnected';
+      shard.connectedAt = null;
+      this.stopPing(shard);
+      const lost = [...shard.subscribed];
+      shard.subscribed.clear();
+      if (lost.length > 0 && this.config.onStreamsLost) {
+        this.config.onStreamsLost(lost);
+      }
+      this.scheduleReconnect(shard);
+    });
+
+    socket.on('error', (e: Error) => {
+      shard.lastError = e.message;
+      this.log('WS_ERROR', { shard: shard.id, msg: e.message });
+    });
+  }
+
+  private scheduleReconnect(shard: Shard) {
+    if (!this.shards.has(shard.id) || shard.symbols.size === 0) {
+      return;
+    }
+    const base = Math.min(this.config.maxBackoffMs, this.config.minBackoffMs * 2 ** shard.attempts);
+    const delay = Math.round(base / 2 + this.random() * base / 2);
+    shard.attempts++;
+    shard.reconnects++;
+    shard.reconnectAt = this.now() + delay;
+    this.log('WS_CLOSE', { shard: shard.id, reconnectInMs: delay, attempt: shard.attempts });
+    shard.reconnectTimer = setTimeout(() => this.connectShard(shard), delay);
+  }
+
+  private dropShard(shard: Shard) {
+    this.shards.delete(shard.id);
+    if (shard.reconnectTimer) {
+      clearTimeout(shard.reconnectTimer);
+      shard.reconnectTimer = null;
+    }
+    this.stopPing(shard);
+    const socket = shard.socket;
+    shard.socket = null;
+    shard.state = 'disconnected';
+    if (socket) {
+      socket.close();
+    }
+  }
+
+  private stopPing(shard: Shard) {
+    if (shard.pingTimer) {
+      clearInterval(shard.pingTimer);
+      shard.pingTimer = null;
+    }
+  }
+
+  private streamCount(symbols: Set<string>): number {
+    let count = 0;
+    for (const symbol of symbols) {
+      count += this.config.streamsFor(symbol).length;
+    }
+    return count;
+  }
+
+  private log(event: string, data: any) {
+    if (this.config.log) {
+      this.config.log(event, data);
+    }
+  }
+}
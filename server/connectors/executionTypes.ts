@@ -1,6 +1,8 @@
 export type Side = 'BUY' | 'SELL';
 export type PositionSide = 'LONG' | 'SHORT';
-export type OrderType = 'MARKET' | 'LIMIT';
+export type OrderType = 'MARKET' | 'LIMIT' | 'STOP_MARKET' | 'TAKE_PROFIT_MARKET';
+// GTX is Binance's post-only time-in-force: the order expires instead of taking liquidity.
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK' | 'GTX';
 export type MarginType = 'ISOLATED' | 'CROSSED';
 
 export interface TestnetQuote {
@@ -34,6 +36,8 @@ export interface OrderUpdateEvent {
   executedQty: number;
   price: number;
   reduceOnly: boolean;
+  stopPrice?: number;
+  closePosition?: boolean;
 }
 
 export interface TradeUpdateEvent {
@@ -65,6 +69,8 @@ export interface OpenOrdersSnapshotEvent {
     executedQty: number;
     price: number;
     reduceOnly: boolean;
+    stopPrice?: number;
+    closePosition?: boolean;
   }>;
 }
 
@@ -96,6 +102,11 @@ export interface PlaceOrderRequest {
   type: OrderType;
   quantity: number;
   price?: number;
+  timeInForce?: TimeInForce;
+  // Trigger price for STOP_MARKET / TAKE_PROFIT_MARKET.
+  stopPrice?: number;
+  // Closes the whole position when triggered; quantity and reduceOnly are ignored.
+  closePosition?: boolean;
   reduceOnly?: boolean;
   positionSide?: 'LONG' | 'SHORT' | 'BOTH';
   clientOrderId: string;
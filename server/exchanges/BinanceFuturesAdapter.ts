@@ -0,0 +1,73 @@
+import { BINANCE_STREAM_PROTOCOL } from '../connectors/StreamManager';
+import { parseForceOrder } from '../metrics/LiquidationTracker';
+import { ExchangeAdapter, MarketEvent, parseJson } from './ExchangeAdapter';
+
+export interface BinanceFuturesAdapterConfig {
+  // Combined-stream endpoint, e.g. wss://fstream.binance.com/stream
+  wsUrl: string;
+  restBase: string;
+  maxStreamsPerSocket: number;
+}
+
+/**
+ * USDⓈ-M futures combined streams.  Books are seeded from a 1000-level
+ * REST snapshot and diffs apply by Binance's own U / u ids.
+ */
+export class BinanceFuturesAdapter implements ExchangeAdapter {
+  readonly venue = 'BINANCE';
+  readonly protocol = BINANCE_STREAM_PROTOCOL;
+  readonly snapshotSource = 'rest';
+  readonly wsUrl: string;
+  readonly maxStreamsPerSocket: number;
+
+  constructor(private readonly config: BinanceFuturesAdapterConfig) {
+    this.wsUrl = config.wsUrl;
+    this.maxStreamsPerSocket = config.maxStreamsPerSocket;
+  }
+
+  streamsFor(symbol: string): string[] {
+    const l = symbol.toLowerCase();
+    // @trade for tape, @depth for OB, @forceOrder for liquidations, @markPrice for funding context
+    return [`${l}@depth@100ms`, `${l}@trade`, `${l}@forceOrder`, `${l}@markPrice@1s`];
+  }
+
+  snapshotUrl(symbol: string): string {
+    return `${this.config.restBase}/fapi/v1/depth?symbol=${symbol}&limit=1000`;
+  }
+
+  parseMessage(raw: string): MarketEvent[] {
+    const msg = parseJson(raw);
+    if (!msg) return [];
+    if (msg.id !== undefined && !msg.data) {
+      // Reply to a SUBSCRIBE / UNSUBSCRIBE request
+      return msg.error ? [{ type: 'error', error: { id: msg.id, error: msg.error } }] : [];
+    }
+    const d = msg.data;
+    const symbol = d?.s || d?.o?.s; // forceOrder carries the symbol on the order
+    if (!symbol) return [];
+
+    switch (d.e) {
+      case 'depthUpdate':
+        return [{ type: 'depth', symbol, eventTime: d.E || d.T || 0, update: d }];
+      case 'trade':
+        return [{
+          type: 'trade',
+          symbol,
+          trade: {
+            price: parseFloat(d.p),
+            quantity: parseFloat(d.q),
+            side: d.m ? 'sell' : 'buy', // Maker=Buyer => Seller is Taker (Sell)
+            timestamp: d.T,
+          },
+        }];
+      case 'markPriceUpdate':
+        return [{ type: 'markPrice', symbol, data: d }];
+      case 'forceOrder': {
+        const liquidation = parseForceOrder(d);
+        return liquidation ? [{ type: 'liquidation', symbol, liquidation }] : [];
+      }
+      default:
+        return [];
+    }
+  }
+}
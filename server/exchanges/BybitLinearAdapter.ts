@@ -0,0 +1,90 @@
+import { StreamProtocol } from '../connectors/StreamManager';
+import { ExchangeAdapter, MarketEvent, parseJson } from './ExchangeAdapter';
+
+export interface BybitLinearAdapterConfig {
+  // e.g. wss://stream.bybit.com/v5/public/linear
+  wsUrl: string;
+  maxStreamsPerSocket: number;
+}
+
+// Bybit rejects subscribe requests with more topics than this.
+const TOPICS_PER_FRAME = 10;
+
+const BYBIT_STREAM_PROTOCOL: StreamProtocol = {
+  connectUrl: (baseUrl) => baseUrl,
+  streamsInUrl: false,
+  frames: (method, topics, id) => {
+    const frames: string[] = [];
+    for (let i = 0; i < topics.length; i += TOPICS_PER_FRAME) {
+      frames.push(JSON.stringify({
+        op: method === 'SUBSCRIBE' ? 'subscribe' : 'unsubscribe',
+        args: topics.slice(i, i + TOPICS_PER_FRAME),
+        req_id: String(id),
+      }));
+    }
+    return frames;
+  },
+  // Bybit closes public sockets without a ping every 20 seconds.
+  ping: { intervalMs: 20_000, frame: JSON.stringify({ op: 'ping' }) },
+};
+
+/**
+ * V5 public linear (USDT perpetual) streams.  The 200-level book arrives
+ * as a snapshot on subscribe followed by deltas whose update id ``u``
+ * increases by one, so each delta maps to U = u: it applies only on top
+ * of u - 1.
+ */
+export class BybitLinearAdapter implements ExchangeAdapter {
+  readonly venue = 'BYBIT';
+  readonly protocol = BYBIT_STREAM_PROTOCOL;
+  readonly snapshotSource = 'stream';
+  readonly wsUrl: string;
+  readonly maxStreamsPerSocket: number;
+
+  constructor(config: BybitLinearAdapterConfig) {
+    this.wsUrl = config.wsUrl;
+    this.maxStreamsPerSocket = config.maxStreamsPerSocket;
+  }
+
+  streamsFor(symbol: string): string[] {
+    return [`orderbook.200.${symbol}`, `publicTrade.${symbol}`, `allLiquidation.${symbol}`];
+  }
+
+  parseMessage(raw: string): MarketEvent[] {
+    const msg = parseJson(raw);
+    if (!msg) return [];
+    if (msg.op !== undefined) {
+      // Subscribe / ping replies
+      return msg.success === false ? [{ type: 'error', error: { op: msg.op, error: msg.ret_msg } }] : [];
+    }
+    const topic = String(msg.topic || '');
+
+    if (topic.startsWith('orderbook.')) {
+      const d = msg.data;
+      if (!d?.s) return [];
+      if (msg.type === 'snapshot') {
+        return [{ type: 'snapshot', symbol: d.s, eventTime: msg.ts, snapshot: { lastUpdateId: d.u, bids: d.b, asks: d.a } }];
+      }
+      return [{ type: 'depth', symbol: d.s, eventTime: msg.ts, update: { U: d.u, u: d.u, b: d.b, a: d.a } }];
+    }
+
+    if (topic.startsWith('publicTrade.')) {
+      return (Array.isArray(msg.data) ? msg.data : []).map((t: any): MarketEvent => ({
+        type: 'trade',
+        symbol: t.s,
+        trade: { price: parseFloat(t.p), quantity: parseFloat(t.v), side: t.S === 'Sell' ? 'sell' : 'buy', timestamp: t.T },
+      }));
+    }
+
+    if (topic.startsWith('allLiquidation.')) {
+      // S is the liquidated position's side.
+      return (Array.isArray(msg.data) ? msg.data : []).map((l: any): MarketEvent => ({
+        type: 'liquidation',
+        symbol: l.s,
+        liquidation: { side: l.S === 'Buy' ? 'long' : 'short', price: parseFloat(l.p), quantity: parseFloat(l.v), timestamp: l.T },
+      }));
+    }
+
+    return [];
+  }
+}
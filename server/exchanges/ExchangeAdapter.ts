@@ -0,0 +1,95 @@
+/**
+ * Venue-neutral market data.
+ *
+ * An adapter turns one venue's public socket messages into the events
+ * the metrics pipeline consumes: trades, depth diffs, book snapshots and
+ * liquidations.  Depth diffs carry Binance-style U / u update ids, and
+ * each adapter maps its venue's sequence numbers so that the Binance
+ * continuity rule in applyDepthUpdate expresses the venue's own rule.
+ *
+ * Symbols are venue-qualified outside the adapters, e.g. ``BYBIT:BTCUSDT``.
+ * Binance symbols stay bare so existing clients, recordings and the
+ * execution path keep working.
+ */
+
+import { StreamProtocol } from '../connectors/StreamManager';
+import { LiquidationEvent } from '../metrics/LiquidationTracker';
+import { DepthCache, DepthUpdate } from '../metrics/OrderbookManager';
+
+export type Venue = 'BINANCE' | 'BYBIT' | 'OKX';
+
+export const VENUES: Venue[] = ['BINANCE', 'BYBIT', 'OKX'];
+
+export interface MarketTrade {
+  price: number;
+  quantity: number;
+  // Taker side.
+  side: 'buy' | 'sell';
+  timestamp: number;
+}
+
+export type MarketEvent =
+  | { type: 'trade'; symbol: string; trade: MarketTrade }
+  | { type: 'depth'; symbol: string; eventTime: number; update: DepthUpdate }
+  | { type: 'snapshot'; symbol: string; eventTime: number; snapshot: DepthCache }
+  | { type: 'liquidation'; symbol: string; liquidation: LiquidationEvent }
+  // Binance ``markPriceUpdate`` payload for the market context service.
+  | { type: 'markPrice'; symbol: string; data: any }
+  | { type: 'error'; error: any };
+
+export interface ExchangeAdapter {
+  readonly venue: Venue;
+  readonly wsUrl: string;
+  readonly protocol: StreamProtocol;
+  readonly maxStreamsPerSocket: number;
+  /**
+   * rest: the book is seeded from snapshotUrl and diffs buffered meanwhile.
+   * stream: the venue sends a snapshot on subscribe, so a resync resubscribes.
+   */
+  readonly snapshotSource: 'rest' | 'stream';
+  streamsFor(symbol: string): string[];
+  snapshotUrl?(symbol: string): string;
+  // Loads whatever the adapter needs before it can parse a symbol's messages.
+  prepareSymbols?(symbols: string[]): Promise<void>;
+  parseMessage(raw: string): MarketEvent[];
+}
+
+const SYMBOL_RE = /^[A-Z0-9]{2,30}$/;
+
+/**
+ * Splits ``BYBIT:BTCUSDT`` into venue and venue symbol.  A bare symbol is
+ * a Binance one.  Returns null for unknown venues or malformed symbols.
+ */
+export function parseVenueSymbol(qualified: string): { venue: Venue; symbol: string } | null {
+  const i = qualified.indexOf(':');
+  const venue = (i < 0 ? 'BINANCE' : qualified.slice(0, i)) as Venue;
+  const symbol = i < 0 ? qualified : qualified.slice(i + 1);
+  if (!VENUES.includes(venue) || !SYMBOL_RE.test(symbol)) {
+    return null;
+  }
+  return { venue, symbol };
+}
+
+export function qualifySymbol(venue: Venue, symbol: string): string {
+  return venue === 'BINANCE' ? symbol : `${venue}:${symbol}`;
+}
+
+// Canonical client symbol: venue-qualified except bare Binance symbols, or null if invalid.
+export function canonicalSymbol(raw: string): string | null {
+  const parsed = parseVenueSymbol(raw.trim().toUpperCase());
+  return parsed ? qualifySymbol(parsed.venue, parsed.symbol) : null;
+}
+
+/**
+ * Parses a JSON text frame; venues also send plain-text pongs.
+ */
+export function parseJson(raw: string): any {
+  if (raw.charCodeAt(0) !== 123 /* { */) {
+    return null;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
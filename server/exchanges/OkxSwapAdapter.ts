@@ -0,0 +1,139 @@
+import { StreamProtocol } from '../connectors/StreamManager';
+import { RestScheduler } from '../connectors/RestScheduler';
+import { ExchangeAdapter, MarketEvent, parseJson } from './ExchangeAdapter';
+
+export interface OkxSwapAdapterConfig {
+  // e.g. wss://ws.okx.com:8443/ws/v5/public
+  wsUrl: string;
+  // e.g. https://www.okx.com
+  restBase: string;
+  maxStreamsPerSocket: number;
+  rest: RestScheduler;
+}
+
+const OKX_STREAM_PROTOCOL: StreamProtocol = {
+  connectUrl: (baseUrl) => baseUrl,
+  streamsInUrl: false,
+  frames: (method, streams, id) => [JSON.stringify({
+    id: String(id),
+    op: method === 'SUBSCRIBE' ? 'subscribe' : 'unsubscribe',
+    args: streams.map((s) => {
+      const [channel, instId] = s.split(':');
+      return { channel, instId };
+    }),
+  })],
+  // OKX closes sockets that stay quiet for 30 seconds.
+  ping: { intervalMs: 25_000, frame: 'ping' },
+};
+
+// Unknown symbols trigger at most one instruments reload per this interval.
+const INSTRUMENTS_RELOAD_MS = 10 * 60_000;
+
+const QUOTE_RE = /^([A-Z0-9]+?)(USDT|USDC)$/;
+
+/**
+ * ``BTCUSDT`` -> ``BTC-USDT-SWAP``.
+ */
+export function okxInstId(symbol: string): string | null {
+  const m = QUOTE_RE.exec(symbol);
+  return m ? `${m[1]}-${m[2]}-SWAP` : null;
+}
+
+/**
+ * V5 public linear swap streams.  Book and trade sizes are in contracts
+ * and converted to the base asset with each instrument's ``ctVal``, which
+ * prepareSymbols loads once from the public instruments endpoint.
+ *
+ * Book updates chain by ``prevSeqId`` -> ``seqId``; an update maps to
+ * U = prevSeqId + 1, u = seqId, so it applies only on top of prevSeqId.
+ * A heartbeat update with seqId === prevSeqId is dropped as already seen.
+ */
+export class OkxSwapAdapter implements ExchangeAdapter {
+  readonly venue = 'OKX';
+  readonly protocol = OKX_STREAM_PROTOCOL;
+  readonly snapshotSource = 'stream';
+  readonly wsUrl: string;
+  readonly maxStreamsPerSocket: number;
+  private readonly contractValues = new Map<string, number>();
+  private instrumentsLoaded: Promise<void> | null = null;
+  private instrumentsLoadedAt = 0;
+
+  constructor(private readonly config: OkxSwapAdapterConfig) {
+    this.wsUrl = config.wsUrl;
+    this.maxStreamsPerSocket = config.maxStreamsPerSocket;
+  }
+
+  streamsFor(symbol: string): string[] {
+    const instId = okxInstId(symbol);
+    return instId ? [`books:${instId}`, `trades:${instId}`] : [];
+  }
+
+  prepareSymbols(symbols: string[]): Promise<void> {
+    const missing = symbols.some((s) => {
+      const instId = okxInstId(s);
+      return instId !== null && !this.contractValues.has(instId);
+    });
+    if (!missing || (!this.instrumentsLoaded && Date.now() - this.instrumentsLoadedAt < INSTRUMENTS_RELOAD_MS)) {
+      return Promise.resolve();
+    }
+    if (!this.instrumentsLoaded) {
+      this.instrumentsLoaded = this.loadInstruments().finally(() => {
+        this.instrumentsLoaded = null;
+      });
+    }
+    return this.instrumentsLoaded;
+  }
+
+  parseMessage(raw: string): MarketEvent[] {
+    const msg = parseJson(raw);
+    if (!msg) return [];
+    if (msg.event !== undefined) {
+      // Subscribe / unsubscribe replies
+      return msg.event === 'error' ? [{ type: 'error', error: { code: msg.code, error: msg.msg } }] : [];
+    }
+    const instId = String(msg.arg?.instId || '');
+    const ctVal = this.contractValues.get(instId);
+    const symbol = instId.replace(/-SWAP$/, '').replace('-', '');
+    if (ctVal === undefined || !Array.isArray(msg.data)) return [];
+    const toBase = (levels: string[][]): [string, string][] =>
+      (levels || []).map(([px, sz]) => [px, String(parseFloat(sz) * ctVal)]);
+
+    if (msg.arg.channel === 'books') {
+      return msg.data.map((d: any): MarketEvent => {
+        const eventTime = Number(d.ts);
+        if (msg.action === 'snapshot') {
+          return { type: 'snapshot', symbol, eventTime, snapshot: { lastUpdateId: d.seqId, bids: toBase(d.bids), asks: toBase(d.asks) } };
+        }
+        return { type: 'depth', symbol, eventTime, update: { U: d.prevSeqId + 1, u: d.seqId, b: toBase(d.bids), a: toBase(d.asks) } };
+      });
+    }
+
+    if (msg.arg.channel === 'trades') {
+      return msg.data.map((t: any): MarketEvent => ({
+        type: 'trade',
+        symbol,
+        trade: { price: parseFloat(t.px), quantity: parseFloat(t.sz) * ctVal, side: t.side === 'sell' ? 'sell' : 'buy', timestamp: Number(t.ts) },
+      }));
+    }
+
+    return [];
+  }
+
+  private async loadInstruments() {
+    const res = await this.config.rest.request({
+      url: `${this.config.restBase}/api/v5/public/instruments?instType=SWAP`,
+      priority: 'context',
+    });
+    if (!res.ok) {
+      throw new Error(`okx_instruments_failed:${res.status}`);
+    }
+    const body: any = await res.json();
+    for (const inst of Array.isArray(body?.data) ? body.data : []) {
+      const ctVal = parseFloat(inst.ctVal);
+      if (inst.ctType === 'linear' && ctVal > 0) {
+        this.contractValues.set(String(inst.instId), ctVal);
+      }
+    }
+    this.instrumentsLoadedAt = Date.now();
+  }
+}
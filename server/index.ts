@@ -2,7 +2,7 @@
  * Binance Futures Proxy Server (Strict Architecture)
  *
  * Mandates:
- * 1. Futures ONLY (fapi/fstream).
+ * 1. Perpetual futures ONLY (Binance fapi/fstream, Bybit linear, OKX swap).
  * 2. Strict Rate Limiting (Token Bucket / 429 Backoff).
  * 3. Independent Trade Tape (works even if Orderbook is stale).
  * 4. Observability-first (Detailed /health and JSON logs).
@@ -12,6 +12,7 @@ import * as dotenv from 'dotenv';
 dotenv.config();
 
 import express, { Request, Response } from 'express';
+import * as fs from 'fs';
 import { createServer } from 'http';
 import { WebSocket, WebSocketServer } from 'ws';
 import cors from 'cors';
@@ -24,10 +25,15 @@ declare var Buffer: any;
 import { TimeAndSales } from './metrics/TimeAndSales';
 import { CvdCalculator } from './metrics/CvdCalculator';
 import { AbsorptionDetector } from './metrics/AbsorptionDetector';
-import { OpenInterestMonitor, OpenInterestMetrics } from './metrics/OpenInterestMonitor';
-import { FundingMonitor, FundingMetrics } from './metrics/FundingMonitor';
+import { MarketContextService } from './metrics/MarketContextService';
+import { LiquidationTracker } from './metrics/LiquidationTracker';
+import { FootprintAggregator, footprintConfigFromEnv } from './metrics/FootprintAggregator';
+import { Candle, CandleAggregator, CandleTimeframe, CANDLE_TIMEFRAMES, isCandleTimeframe, parseKlines } from './metrics/CandleAggregator';
 import {
     OrderbookState,
+    OrderbookGapMode,
+    DEFAULT_GAP_MODE,
+    DepthCache,
     createOrderbookState,
     applyDepthUpdate,
     applySnapshot,
@@ -38,6 +44,23 @@ import {
 } from './metrics/OrderbookManager';
 import { LegacyCalculator } from './metrics/LegacyCalculator';
 import { createOrchestratorFromEnv } from './orchestrator/Orchestrator';
+import { StreamManager } from './connectors/StreamManager';
+import { RestScheduler } from './connectors/RestScheduler';
+import { createMarketDataRecorderFromEnv } from './recorder/MarketDataRecorder';
+import { createMetricsHistoryFromEnv } from './recorder/MetricsHistory';
+import { AlertRuleInput, createAlertEngineFromEnv } from './alerts/AlertEngine';
+import { alertNotification, createNotificationHubFromEnv, orchestratorNotification } from './notify/NotificationHub';
+import { createTelegramCommandBotFromEnv } from './notify/TelegramCommandBot';
+import { PROMETHEUS_CONTENT_TYPE, PrometheusRegistry } from './telemetry/PrometheusRegistry';
+import { createTokenStoreFromEnv, isRole } from './auth/TokenStore';
+import { createCredentialVaultFromEnv } from './auth/CredentialVault';
+import { createAuth, principalOf, requestToken } from './auth/middleware';
+import { createOrderbookAuditorFromEnv } from './metrics/OrderbookAuditor';
+import { ExchangeAdapter, MarketEvent, Venue, VENUES, canonicalSymbol, parseVenueSymbol, qualifySymbol } from './exchanges/ExchangeAdapter';
+import { BinanceFuturesAdapter } from './exchanges/BinanceFuturesAdapter';
+import { BybitLinearAdapter } from './exchanges/BybitLinearAdapter';
+import { OkxSwapAdapter } from './exchanges/OkxSwapAdapter';
+import { handleClientMessage } from './ws/ClientSubscriptions';
 
 // =============================================================================
 // Configuration
@@ -47,6 +70,36 @@ const PORT = parseInt(process.env.PORT || '8787', 10);
 const HOST = process.env.HOST || '0.0.0.0'; // Listen on all interfaces for Nginx proxy
 const BINANCE_REST_BASE = 'https://fapi.binance.com';
 const BINANCE_WS_BASE = 'wss://fstream.binance.com/stream';
+const BYBIT_WS_BASE = process.env.BYBIT_WS_BASE || 'wss://stream.bybit.com/v5/public/linear';
+const OKX_WS_BASE = process.env.OKX_WS_BASE || 'wss://ws.okx.com:8443/ws/v5/public';
+const OKX_REST_BASE = process.env.OKX_REST_BASE || 'https://www.okx.com';
+// Streams per upstream socket before symbols spill into another shard (4 per symbol).
+const WS_MAX_STREAMS_PER_SOCKET = parseInt(process.env.WS_MAX_STREAMS_PER_SOCKET || '200', 10);
+const WS_MIN_BACKOFF_MS = parseInt(process.env.WS_MIN_BACKOFF_MS || '1000', 10);
+const WS_MAX_BACKOFF_MS = parseInt(process.env.WS_MAX_BACKOFF_MS || '60000', 10);
+// Share of Binance's 2400 weight/min IP limit the proxy may use.
+const REST_MAX_WEIGHT_PER_MINUTE = parseInt(process.env.REST_MAX_WEIGHT_PER_MINUTE || '1200', 10);
+const REST_MAX_ORDERS_PER_10S = parseInt(process.env.REST_MAX_ORDERS_PER_10S || '300', 10);
+const REST_MAX_ORDERS_PER_MINUTE = parseInt(process.env.REST_MAX_ORDERS_PER_MINUTE || '1200', 10);
+const OPEN_INTEREST_POLL_MS = parseInt(process.env.OPEN_INTEREST_POLL_MS || '60000', 10);
+const FOOTPRINT_BROADCAST_MS = parseInt(process.env.FOOTPRINT_BROADCAST_MS || '1000', 10);
+const footprintConfig = footprintConfigFromEnv();
+const CANDLE_MAX_BARS = parseInt(process.env.CANDLE_MAX_BARS || '1000', 10);
+// Klines fetched per timeframe on subscribe; under 500 costs request weight 2.
+const CANDLE_BACKFILL_LIMIT = parseInt(process.env.CANDLE_BACKFILL_LIMIT || '499', 10);
+const CANDLE_BROADCAST_MS = parseInt(process.env.CANDLE_BROADCAST_MS || '500', 10);
+// Orderbook gap handling: strict resyncs on any sequence gap, tolerant applies small ones.
+const ORDERBOOK_GAP_MODE: OrderbookGapMode = process.env.ORDERBOOK_GAP_MODE === 'strict' || process.env.ORDERBOOK_GAP_MODE === 'tolerant'
+    ? process.env.ORDERBOOK_GAP_MODE
+    : DEFAULT_GAP_MODE;
+// Per-symbol overrides, e.g. BTCUSDT:strict,BYBIT:ETHUSDT:tolerant
+const gapModeOverrides = new Map<string, OrderbookGapMode>(
+    String(process.env.ORDERBOOK_GAP_MODE_OVERRIDES || '').split(',')
+        .map(x => x.trim())
+        .map(x => [x.slice(0, x.lastIndexOf(':')), x.slice(x.lastIndexOf(':') + 1)])
+        .filter(([s, m]) => s && (m === 'strict' || m === 'tolerant'))
+        .map(([s, m]) => [s.toUpperCase(), m as OrderbookGapMode])
+);
 
 // Dynamic CORS - allow configured origins plus common development ports
 const ALLOWED_ORIGINS = [
@@ -88,6 +141,8 @@ interface SymbolMeta {
     backoffMs: number;
     consecutiveErrors: number;
     isResyncing: boolean;
+    // A snapshot request is waiting in the REST scheduler or in flight
+    snapshotPending: boolean;
     // Counters
     depthMsgCount: number;
     depthMsgCount10s: number;
@@ -103,6 +158,8 @@ interface SymbolMeta {
     metricsBroadcastDepthCount10s: number;
     metricsBroadcastTradeCount10s: number;
     lastMetricsBroadcastReason: 'depth' | 'trade' | 'none';
+    lastFootprintBroadcastTs: number;
+    lastCandleBroadcastTs: number;
     applyCount10s: number;
 }
 
@@ -115,21 +172,100 @@ const cvdMap = new Map<string, CvdCalculator>();
 const absorptionMap = new Map<string, AbsorptionDetector>();
 const absorptionResult = new Map<string, number>();
 const legacyMap = new Map<string, LegacyCalculator>();
-
-// Monitor Caches
-const lastOpenInterest = new Map<string, OpenInterestMetrics>();
-const lastFunding = new Map<string, FundingMetrics>();
-const oiMonitors = new Map<string, OpenInterestMonitor>();
-const fundingMonitors = new Map<string, FundingMonitor>();
-const orchestrator = createOrchestratorFromEnv();
+const liquidationMap = new Map<string, LiquidationTracker>();
+const footprintMap = new Map<string, FootprintAggregator>();
+const candleMap = new Map<string, CandleAggregator>();
+// Binance symbols backfilled from klines since they were last subscribed
+const candlesBackfilled = new Set<string>();
+
+// Global Rate Limit: every Binance REST call, prioritised, with shared weight budgets and 429 / 418 backoff
+const restScheduler = new RestScheduler({
+    maxWeightPerMinute: REST_MAX_WEIGHT_PER_MINUTE,
+    maxOrdersPer10s: REST_MAX_ORDERS_PER_10S,
+    maxOrdersPerMinute: REST_MAX_ORDERS_PER_MINUTE,
+    log,
+});
+// Mark / index / funding from @markPrice@1s, open interest polled through restScheduler
+const marketContext = new MarketContextService(restScheduler, {
+    restBase: BINANCE_REST_BASE,
+    openInterestIntervalMs: OPEN_INTEREST_POLL_MS,
+    log,
+});
+// Exchange API keys encrypted at rest; unlocked with the master passphrase at /api/vault/unlock
+const credentialVault = createCredentialVaultFromEnv((e) => log('VAULT_ERROR', { error: e.message }));
+const orchestrator = createOrchestratorFromEnv({
+    // Only used when EXECUTION_MODE=paper: fills are simulated against the live mainnet book.
+    getOrderbook: (s) => orderbookMap.get(s) || null,
+    listSymbols: async () => (await fetchExchangeInfo()).symbols,
+    restScheduler,
+    credentials: (profile) => credentialVault.getCredentials(profile),
+});
+const recorder = createMarketDataRecorderFromEnv((e) => log('RECORDER_ERROR', { error: e.message }));
+// Downsampled metrics broadcasts for /api/history, restored from disk when HISTORY_PERSIST=true
+const metricsHistory = createMetricsHistoryFromEnv((e) => log('HISTORY_ERROR', { error: e.message }));
+metricsHistory.load().catch((e: any) => log('HISTORY_ERROR', { error: e.message }));
+// Alert rules over each metrics payload, managed through /api/alerts
+const alertEngine = createAlertEngineFromEnv((e) => log('ALERT_ERROR', { error: e.message }));
+alertEngine.load().catch((e: any) => log('ALERT_ERROR', { error: e.message }));
+// Telegram / webhook / file notifications for alerts, position changes, halts and order errors
+const notifier = createNotificationHubFromEnv({ onError: (e, channel) => log('NOTIFY_ERROR', { channel, error: e.message }) });
+alertEngine.onAlert(alert => notifier.notify(alertNotification(alert)));
+orchestrator.onNotice(notice => notifier.notify(orchestratorNotification(notice)));
+// Telegram bot commands (/status, /pause, /flatten, /kill...) for remote control
+const telegramCommands = createTelegramCommandBotFromEnv(orchestrator, { log });
+
+// Prometheus /metrics: cumulative counters next to the 10s counters of /api/health
+const prom = new PrometheusRegistry();
+const promDepthMessages = prom.counter('telecodex_depth_messages_total', 'Depth updates received per symbol');
+const promTradeMessages = prom.counter('telecodex_trade_messages_total', 'Trades received per symbol');
+const promDesyncs = prom.counter('telecodex_orderbook_desyncs_total', 'Orderbook desyncs (sequence gaps and audit drift) per symbol');
+const promSnapshots = prom.counter('telecodex_orderbook_snapshots_total', 'Orderbook snapshots per symbol by result');
+const promBookState = prom.gauge('telecodex_orderbook_state', 'Current orderbook state per symbol (1 for the active state)');
+const promBroadcasts = prom.counter('telecodex_metrics_broadcasts_total', 'Metrics messages broadcast per symbol by trigger');
+const promWsClients = prom.gauge('telecodex_ws_clients', 'Connected dashboard WebSocket clients');
+const promActorQueue = prom.gauge('telecodex_orchestrator_actor_queue_depth', 'Events waiting in each orchestrator symbol actor');
+const promLoggerDrops = prom.counter('telecodex_orchestrator_logger_dropped_total', 'Orchestrator log lines dropped because the write queue was full');
+const promOrders = prom.counter('telecodex_order_attempts_total', 'Orders sent to the execution venue per symbol');
+const promOrderErrors = prom.counter('telecodex_order_errors_total', 'Rejected or failed orders per symbol by error class');
+const promEventToBroadcast = prom.histogram('telecodex_event_to_broadcast_seconds', 'Exchange event time to metrics broadcast');
+const promOrderRoundTrip = prom.histogram('telecodex_order_round_trip_seconds', 'Order request to venue response');
+prom.onCollect(() => {
+    promBookState.reset();
+    orderbookMap.forEach((ob, s) => promBookState.set({ symbol: s, state: ob.uiState }, 1));
+    promWsClients.set({}, clients.size);
+    const telemetry = orchestrator.getTelemetry();
+    promActorQueue.reset();
+    for (const [s, depth] of Object.entries(telemetry.actorQueueDepth)) promActorQueue.set({ symbol: s }, depth);
+    promLoggerDrops.set({}, telemetry.loggerDropCount);
+});
+// Sent time per order attempt until the venue answers
+const orderAttemptSentAt = new Map<string, number>();
+orchestrator.onExecutionDebug(event => {
+    const id = event.order_attempt_id;
+    if (event.type === 'order_attempt') {
+        promOrders.inc({ symbol: event.symbol || '' });
+        if (id) {
+            orderAttemptSentAt.set(id, event.ts);
+            // Attempts whose answer never came
+            if (orderAttemptSentAt.size > 1000) orderAttemptSentAt.delete(orderAttemptSentAt.keys().next().value!);
+        }
+        return;
+    }
+    if (event.type !== 'order_result' && event.type !== 'order_error') return;
+    if (event.type === 'order_error') {
+        promOrderErrors.inc({ symbol: event.symbol || '', error_class: event.payload?.error_class || 'unknown' });
+    }
+    const sentAt = id ? orderAttemptSentAt.get(id) : undefined;
+    if (sentAt !== undefined) {
+        orderAttemptSentAt.delete(id!);
+        promOrderRoundTrip.observe({}, Math.max(0, event.ts - sentAt) / 1000);
+    }
+});
 
 // Cached Exchange Info
 let exchangeInfoCache: { data: any; timestamp: number } | null = null;
 const EXCHANGE_INFO_TTL_MS = 1000 * 60 * 60; // 1 hr
 
-// Global Rate Limit
-let globalBackoffUntil = 0; // Starts at 0 to allow fresh attempts on restart
-
 // =============================================================================
 // Helpers
 // =============================================================================
@@ -143,6 +279,7 @@ function getMeta(symbol: string): SymbolMeta {
             backoffMs: MIN_BACKOFF_MS,
             consecutiveErrors: 0,
             isResyncing: false,
+            snapshotPending: false,
             depthMsgCount: 0,
             depthMsgCount10s: 0,
             lastDepthMsgTs: 0,
@@ -157,6 +294,8 @@ function getMeta(symbol: string): SymbolMeta {
             metricsBroadcastDepthCount10s: 0,
             metricsBroadcastTradeCount10s: 0,
             lastMetricsBroadcastReason: 'none',
+            lastFootprintBroadcastTs: 0,
+            lastCandleBroadcastTs: 0,
             applyCount10s: 0
         };
         symbolMeta.set(symbol, meta);
@@ -164,35 +303,32 @@ function getMeta(symbol: string): SymbolMeta {
     return meta;
 }
 
+function gapModeFor(symbol: string): OrderbookGapMode {
+    return gapModeOverrides.get(symbol) || ORDERBOOK_GAP_MODE;
+}
+
 function getOrderbook(symbol: string): OrderbookState {
     let state = orderbookMap.get(symbol);
     if (!state) {
-        state = createOrderbookState();
+        state = createOrderbookState(gapModeFor(symbol));
         orderbookMap.set(symbol, state);
     }
     return state;
 }
 
+// Drops the book so the next depth message buffers until a fresh snapshot seeds it.
+function resetOrderbook(symbol: string) {
+    orderbookMap.set(symbol, createOrderbookState(gapModeFor(symbol)));
+}
+
 // Lazy Metric Getters
 const getTaS = (s: string) => { if (!timeAndSalesMap.has(s)) timeAndSalesMap.set(s, new TimeAndSales()); return timeAndSalesMap.get(s)!; };
 const getCvd = (s: string) => { if (!cvdMap.has(s)) cvdMap.set(s, new CvdCalculator()); return cvdMap.get(s)!; };
 const getAbs = (s: string) => { if (!absorptionMap.has(s)) absorptionMap.set(s, new AbsorptionDetector()); return absorptionMap.get(s)!; };
-const getLegacy = (s: string) => { if (!legacyMap.has(s)) legacyMap.set(s, new LegacyCalculator(s)); return legacyMap.get(s)!; };
-
-function ensureMonitors(symbol: string) {
-    // Open Interest is now managed by LegacyCalculator
-    /*
-    if (!oiMonitors.has(symbol)) {
-       // Deprecated
-    }
-    */
-    if (!fundingMonitors.has(symbol)) {
-        const m = new FundingMonitor(symbol);
-        m.onUpdate(d => lastFunding.set(symbol, d));
-        m.start();
-        fundingMonitors.set(symbol, m);
-    }
-}
+const getLegacy = (s: string) => { if (!legacyMap.has(s)) legacyMap.set(s, new LegacyCalculator()); return legacyMap.get(s)!; };
+const getLiq = (s: string) => { if (!liquidationMap.has(s)) liquidationMap.set(s, new LiquidationTracker()); return liquidationMap.get(s)!; };
+const getFootprint = (s: string) => { if (!footprintMap.has(s)) footprintMap.set(s, new FootprintAggregator(footprintConfig)); return footprintMap.get(s)!; };
+const getCandles = (s: string) => { if (!candleMap.has(s)) candleMap.set(s, new CandleAggregator({ maxBars: CANDLE_MAX_BARS })); return candleMap.get(s)!; };
 
 // =============================================================================
 // Binance Interactions
@@ -204,7 +340,7 @@ async function fetchExchangeInfo() {
     }
     try {
         log('EXCHANGE_INFO_REQ', { url: `${BINANCE_REST_BASE}/fapi/v1/exchangeInfo` });
-        const res = await fetch(`${BINANCE_REST_BASE}/fapi/v1/exchangeInfo`);
+        const res = await restScheduler.request({ url: `${BINANCE_REST_BASE}/fapi/v1/exchangeInfo`, priority: 'context' });
         if (!res.ok) throw new Error(`Status ${res.status}`);
         const data = await res.json();
         const symbols = data.symbols
@@ -222,18 +358,30 @@ async function fetchSnapshot(symbol: string) {
     const meta = getMeta(symbol);
     const ob = getOrderbook(symbol);
     const now = Date.now();
+    const parsed = parseVenueSymbol(symbol);
+    const feed = parsed && venues.get(parsed.venue);
+    if (!parsed || !feed) return;
+
+    if (feed.adapter.snapshotSource === 'stream') {
+        requestStreamSnapshot(symbol, feed, parsed.symbol);
+        return;
+    }
 
     // 1. Global Check (Skip if UNSEEDED to force first boot, unless actually 429'd recently)
     // We assume restart means we "want" to try. But let's respect if it's huge.
-    // Better strategy: If UNSEEDED, we try ONCE even if `globalBackoffUntil` is slightly future, 
-    // BUT since we just restarted, `globalBackoffUntil` is 0 anyway.
-    if (now < globalBackoffUntil) {
+    // Better strategy: If UNSEEDED, we try ONCE even if the backoff is slightly future,
+    // BUT since we just restarted, there is no backoff anyway.
+    if (restScheduler.isBlocked()) {
         // If UNSEEDED, we might want to prioritize this, but if we are globally blocked by 418, we MUST wait.
-        log('SNAPSHOT_SKIP_GLOBAL', { symbol, wait: globalBackoffUntil - now });
+        log('SNAPSHOT_SKIP_GLOBAL', { symbol, wait: restScheduler.getBackoffUntil() - now });
         return;
     }
 
     // 2. Local Check
+    // One queued request per symbol; the scheduler may hold it until weight frees up
+    if (meta.snapshotPending) {
+        return;
+    }
     // Allow immediate retry if UNSEEDED
     if (ob.uiState !== 'UNSEEDED') {
         if (now - meta.lastSnapshotAttempt < SNAPSHOT_MIN_INTERVAL_MS && now - meta.lastSnapshotAttempt < meta.backoffMs) {
@@ -248,24 +396,27 @@ async function fetchSnapshot(symbol: string) {
     // Actually OrderbookManager handles UNSEEDED -> Buffer. RESYNCING -> also Buffer.
     ob.uiState = 'RESYNCING';
 
+    meta.snapshotPending = true;
     try {
         log('SNAPSHOT_REQ', { symbol });
-        const res = await fetch(`${BINANCE_REST_BASE}/fapi/v1/depth?symbol=${symbol}&limit=1000`);
+        const res = await restScheduler.request({ url: feed.adapter.snapshotUrl!(parsed.symbol), priority: 'snapshot' });
 
         meta.lastSnapshotHttpStatus = res.status;
 
         if (res.status === 429 || res.status === 418) {
             const retryAfter = parseInt(res.headers.get('Retry-After') || '60', 10) * 1000;
             const weight = res.headers.get('x-mbx-used-weight-1m');
-            globalBackoffUntil = Date.now() + retryAfter;
+            // The scheduler has already applied the global backoff
             meta.backoffMs = Math.min(meta.backoffMs * 2, MAX_BACKOFF_MS);
             log('SNAPSHOT_429', { symbol, retryAfter, backoff: meta.backoffMs, weight });
+            promSnapshots.inc({ symbol, result: 'rate_limited' });
             ob.uiState = 'STALE';
             return;
         }
 
         if (!res.ok) {
             log('SNAPSHOT_FAIL', { symbol, status: res.status });
+            promSnapshots.inc({ symbol, result: 'http_error' });
             meta.backoffMs = Math.min(meta.backoffMs * 2, MAX_BACKOFF_MS);
             meta.consecutiveErrors++;
             ob.uiState = meta.consecutiveErrors > 3 ? 'STALE' : 'RESYNCING';
@@ -273,6 +424,7 @@ async function fetchSnapshot(symbol: string) {
         }
 
         const data: any = await res.json();
+        recorder.recordSnapshot(symbol, data);
 
         // Success
         applySnapshot(ob, data);
@@ -294,101 +446,209 @@ async function fetchSnapshot(symbol: string) {
         });
 
         log('SNAPSHOT_OK', { symbol, lastUpdateId: data.lastUpdateId });
+        promSnapshots.inc({ symbol, result: 'ok' });
 
     } catch (e: any) {
         log('SNAPSHOT_ERR', { symbol, err: e.message });
+        promSnapshots.inc({ symbol, result: 'network_error' });
         meta.backoffMs = Math.min(meta.backoffMs * 2, MAX_BACKOFF_MS);
+    } finally {
+        meta.snapshotPending = false;
     }
 }
 
-// =============================================================================
-// WebSocket Multiplexer
-// =============================================================================
+/**
+ * Resync for venues that send the book over the stream: resubscribing
+ * makes the venue push a fresh snapshot, handled in handleMarketEvent.
+ */
+function requestStreamSnapshot(symbol: string, feed: VenueFeed, venueSymbol: string) {
+    const meta = getMeta(symbol);
+    const ob = getOrderbook(symbol);
+    const now = Date.now();
+    if (ob.uiState !== 'UNSEEDED' && now - meta.lastSnapshotAttempt < meta.backoffMs) {
+        log('SNAPSHOT_SKIP_LOCAL', { symbol, wait: meta.backoffMs - (now - meta.lastSnapshotAttempt) });
+        return;
+    }
+    meta.lastSnapshotAttempt = now;
+    meta.isResyncing = true;
+    ob.uiState = 'RESYNCING';
+    // Back off in case the venue keeps sending books we cannot follow.
+    meta.backoffMs = Math.min(meta.backoffMs * 2, MAX_BACKOFF_MS);
+    log('SNAPSHOT_RESUBSCRIBE', { symbol });
+    feed.streams.resubscribe([venueSymbol]);
+}
 
-let ws: WebSocket | null = null;
-let wsState = 'disconnected';
-let activeSymbols = new Set<string>();
-const clients = new Set<WebSocket>();
-const clientSubs = new Map<WebSocket, Set<string>>();
+async function fetchAuditDepth(symbol: string, limit: number): Promise<DepthCache> {
+    const res = await restScheduler.request({ url: `${BINANCE_REST_BASE}/fapi/v1/depth?symbol=${symbol}&limit=${limit}`, priority: 'context' });
+    if (!res.ok) throw new Error(`Status ${res.status}`);
+    return await res.json() as DepthCache;
+}
 
-function updateStreams() {
-    const required = new Set<string>();
-    clients.forEach(c => {
-        const subs = clientSubs.get(c);
-        if (subs) subs.forEach(s => required.add(s));
+async function fetchKlines(symbol: string, tf: CandleTimeframe): Promise<Candle[]> {
+    const res = await restScheduler.request({
+        url: `${BINANCE_REST_BASE}/fapi/v1/klines?symbol=${symbol}&interval=${tf}&limit=${CANDLE_BACKFILL_LIMIT}`,
+        priority: 'context'
     });
+    if (!res.ok) throw new Error(`Status ${res.status}`);
+    return parseKlines(await res.json() as any[]);
+}
 
-    // Simple diff check
-    if (required.size === activeSymbols.size && [...required].every(s => activeSymbols.has(s))) {
-        if (ws && ws.readyState === WebSocket.OPEN) return;
-    }
+function backfillCandles(symbols: string[]) {
+    candlesBackfilled.forEach(s => { if (!symbols.includes(s)) candlesBackfilled.delete(s); });
+    symbols.filter(s => !candlesBackfilled.has(s)).forEach(s => {
+        candlesBackfilled.add(s);
+        // Futures klines start at 1m; 1s bars come from live trades only
+        (['1m', '5m', '15m'] as CandleTimeframe[]).forEach(async tf => {
+            try {
+                const klines = await fetchKlines(s, tf);
+                getCandles(s).backfill(tf, klines, Date.now());
+                log('CANDLE_BACKFILL_OK', { symbol: s, tf, bars: klines.length });
+            } catch (e: any) {
+                // Retried on the next subscription change
+                candlesBackfilled.delete(s);
+                log('CANDLE_BACKFILL_ERROR', { symbol: s, tf, error: e.message });
+            }
+        });
+    });
+}
 
-    if (required.size === 0) {
-        if (ws) ws.close();
-        ws = null;
-        wsState = 'disconnected';
-        activeSymbols.clear();
-        return;
-    }
+const auditor = createOrderbookAuditorFromEnv({
+    listSymbols: () => venues.get('BINANCE')!.streams.getSymbols(),
+    getOrderbook: (s) => orderbookMap.get(s) || null,
+    fetchDepth: fetchAuditDepth,
+    canRequest: () => !restScheduler.isBlocked(),
+    onDrift: (s, report) => {
+        log('ORDERBOOK_DRIFT_RESYNC', { symbol: s, driftScore: report.driftScore, mismatchedLevels: report.mismatchedLevels });
+        getMeta(s).desyncCount++;
+        promDesyncs.inc({ symbol: s });
+        resetOrderbook(s);
+        fetchSnapshot(s);
+    },
+    log,
+});
 
-    if (ws) ws.close();
+// =============================================================================
+// WebSocket Multiplexer
+// =============================================================================
 
-    activeSymbols = new Set(required);
-    const streams = [...activeSymbols].flatMap(s => {
-        const l = s.toLowerCase();
-        return [`${l}@depth@100ms`, `${l}@trade`]; // Using @trade for tape, @depth for OB
-    });
+const clients = new Set<WebSocket>();
+const clientSubs = new Map<WebSocket, Set<string>>();
 
-    const url = `${BINANCE_WS_BASE}?streams=${streams.join('/')}`;
-    log('WS_CONNECT', { count: activeSymbols.size, url });
+interface VenueFeed {
+    adapter: ExchangeAdapter;
+    streams: StreamManager;
+    // Bumped on every symbol change so a slow prepareSymbols cannot apply a stale set.
+    generation: number;
+}
 
-    wsState = 'connecting';
-    ws = new WebSocket(url);
+const adapters: ExchangeAdapter[] = [
+    new BinanceFuturesAdapter({ wsUrl: BINANCE_WS_BASE, restBase: BINANCE_REST_BASE, maxStreamsPerSocket: WS_MAX_STREAMS_PER_SOCKET }),
+    new BybitLinearAdapter({ wsUrl: BYBIT_WS_BASE, maxStreamsPerSocket: WS_MAX_STREAMS_PER_SOCKET }),
+    new OkxSwapAdapter({ wsUrl: OKX_WS_BASE, restBase: OKX_REST_BASE, maxStreamsPerSocket: WS_MAX_STREAMS_PER_SOCKET, rest: restScheduler }),
+];
 
-    ws.on('open', () => {
-        wsState = 'connected';
-        log('WS_OPEN', {});
-    });
+const venues = new Map<Venue, VenueFeed>(adapters.map(adapter => [adapter.venue, {
+    adapter,
+    generation: 0,
+    streams: new StreamManager({
+        baseUrl: adapter.wsUrl,
+        streamsFor: (s) => adapter.streamsFor(s),
+        protocol: adapter.protocol,
+        maxStreamsPerSocket: adapter.maxStreamsPerSocket,
+        minBackoffMs: WS_MIN_BACKOFF_MS,
+        maxBackoffMs: WS_MAX_BACKOFF_MS,
+        onMessage: (raw) => handleMsg(adapter, raw),
+        // The book goes stale without its diff stream; start over from a snapshot.
+        onStreamsLost: (symbols) => symbols.forEach(s => resetOrderbook(qualifySymbol(adapter.venue, s))),
+        log: (event, data) => log(event, { venue: adapter.venue, ...data }),
+    }),
+}]));
+
+// Venue-qualified symbols streamed across all venues
+function streamedSymbols(): string[] {
+    return [...venues.values()].flatMap(v => v.streams.getSymbols().map(s => qualifySymbol(v.adapter.venue, s)));
+}
 
-    ws.on('message', (raw: Buffer) => handleMsg(raw));
+// 'connected' only when every venue with symbols is
+function streamState() {
+    const states = [...venues.values()].filter(v => v.streams.getSymbols().length > 0).map(v => v.streams.getState());
+    if (states.length === 0 || states.every(st => st === 'disconnected')) return 'disconnected';
+    return states.every(st => st === 'connected') ? 'connected' : 'connecting';
+}
 
-    ws.on('close', () => {
-        wsState = 'disconnected';
-        log('WS_CLOSE', {});
-        setTimeout(updateStreams, 5000);
+/**
+ * Brings the upstream venue sockets in line with the union of client
+ * subscriptions.
+ */
+function updateStreams() {
+    const byVenue = new Map<Venue, string[]>(VENUES.map(v => [v, []]));
+    clients.forEach(c => {
+        const subs = clientSubs.get(c);
+        if (subs) subs.forEach(q => {
+            const parsed = parseVenueSymbol(q);
+            const list = parsed && byVenue.get(parsed.venue);
+            if (list && !list.includes(parsed.symbol)) list.push(parsed.symbol);
+        });
     });
+    venues.forEach((feed, venue) => syncVenue(feed, byVenue.get(venue) || []));
+    // Funding, open interest and kline history come from Binance
+    marketContext.setSymbols(byVenue.get('BINANCE') || []);
+    backfillCandles(byVenue.get('BINANCE') || []);
+}
 
-    ws.on('error', (e) => log('WS_ERROR', { msg: e.message }));
+function syncVenue(feed: VenueFeed, symbols: string[]) {
+    const generation = ++feed.generation;
+    if (!feed.adapter.prepareSymbols) {
+        feed.streams.setSymbols(symbols);
+        return;
+    }
+    feed.adapter.prepareSymbols(symbols)
+        .catch((e: any) => log('VENUE_PREPARE_ERROR', { venue: feed.adapter.venue, error: e.message }))
+        .then(() => {
+            if (generation === feed.generation) feed.streams.setSymbols(symbols);
+        });
 }
 
-function handleMsg(raw: Buffer) {
-    let msg: any;
-    try { msg = JSON.parse(raw.toString()); } catch { return; }
-    if (!msg.data) return;
+function handleMsg(adapter: ExchangeAdapter, raw: Buffer) {
+    const text = raw.toString();
+    const events = adapter.parseMessage(text);
+    const first = events[0];
+    // Recordings replay through the Backtester, which reads Binance messages
+    if (adapter.venue === 'BINANCE' && first && first.type !== 'error') {
+        recorder.recordMessage(first.symbol, text);
+    }
+    for (const ev of events) {
+        handleMarketEvent(adapter.venue, ev);
+    }
+}
 
-    const d = msg.data;
-    const e = d.e;
-    const s = d.s;
-    if (!s) return;
+function handleMarketEvent(venue: Venue, ev: MarketEvent) {
+    if (ev.type === 'error') {
+        log('WS_SUBSCRIPTION_ERROR', { venue, ...ev.error });
+        return;
+    }
+    const s = qualifySymbol(venue, ev.symbol);
 
-    if (e === 'depthUpdate') {
+    if (ev.type === 'depth') {
+        const d = ev.update;
         const meta = getMeta(s);
         meta.depthMsgCount++;
         meta.depthMsgCount10s++;
         meta.lastDepthMsgTs = Date.now();
+        promDepthMessages.inc({ symbol: s });
         const ob = getOrderbook(s);
         ob.lastSeenU_u = `${d.U}-${d.u}`;
 
-        // Ensure Monitors are running
-        ensureMonitors(s);
         ob.lastDepthTime = Date.now();
 
         // Core Logic: Apply or Buffer
         const success = applyDepthUpdate(ob, d);
+        auditor.onDepthUpdate(s, d);
 
         if (!success) {
             // Desync detected by OrderbookManager
             meta.desyncCount++;
+            promDesyncs.inc({ symbol: s });
             log('DEPTH_DESYNC', { symbol: s, u: d.u, U: d.U, lastUpdateId: ob.lastUpdateId });
             // Only trigger snapshot if not already trying
             if (!meta.isResyncing) fetchSnapshot(s);
@@ -414,7 +674,7 @@ function handleMsg(raw: Buffer) {
                 const abs = getAbs(s);
                 const leg = getLegacy(s);
                 const absVal = absorptionResult.get(s) ?? 0;
-                broadcastMetrics(s, ob, tas, cvd, absVal, leg, d.E || d.T || 0, 'depth');
+                broadcastMetrics(s, ob, tas, cvd, absVal, leg, ev.eventTime, 'depth');
 
                 // Debug: BOOK_TOP event (every 200th apply to avoid spam)
                 if (ob.stats.applied % 200 === 0) {
@@ -435,14 +695,25 @@ function handleMsg(raw: Buffer) {
                 }
             }
         }
-    } else if (e === 'trade') {
+    } else if (ev.type === 'snapshot') {
+        // Venues that send the book over the stream, on (re)subscribe
+        const meta = getMeta(s);
+        const ob = getOrderbook(s);
+        applySnapshot(ob, ev.snapshot);
+        meta.lastSnapshotOk = Date.now();
+        meta.snapshotLastUpdateId = ev.snapshot.lastUpdateId;
+        meta.backoffMs = MIN_BACKOFF_MS;
+        meta.consecutiveErrors = 0;
+        meta.isResyncing = false;
+        meta.snapshotCount++;
+        log('SNAPSHOT_OK', { symbol: s, lastUpdateId: ev.snapshot.lastUpdateId, source: 'stream' });
+        promSnapshots.inc({ symbol: s, result: 'ok' });
+    } else if (ev.type === 'trade') {
         // Trade Tape - Independent of Orderbook State
         const meta = getMeta(s);
         meta.tradeMsgCount++;
-        const p = parseFloat(d.p);
-        const q = parseFloat(d.q);
-        const t = d.T;
-        const side = d.m ? 'sell' : 'buy'; // Maker=Buyer => Seller is Taker (Sell)
+        promTradeMessages.inc({ symbol: s });
+        const { price: p, quantity: q, side, timestamp: t } = ev.trade;
 
         const tas = getTaS(s);
         const cvd = getCvd(s);
@@ -453,6 +724,8 @@ function handleMsg(raw: Buffer) {
         tas.addTrade({ price: p, quantity: q, side, timestamp: t });
         cvd.addTrade({ price: p, quantity: q, side, timestamp: t });
         leg.addTrade({ price: p, quantity: q, side, timestamp: t });
+        getFootprint(s).addTrade({ price: p, quantity: q, side, timestamp: t });
+        getCandles(s).addTrade({ price: p, quantity: q, side, timestamp: t });
 
         const levelSize = getLevelSize(ob, p) || 0;
         const absVal = abs.addTrade(s, p, side, t, levelSize);
@@ -460,9 +733,31 @@ function handleMsg(raw: Buffer) {
 
         // Broadcast
         broadcastMetrics(s, ob, tas, cvd, absVal, leg, t);
+        broadcastFootprint(s);
+        broadcastCandles(s);
+    } else if (ev.type === 'markPrice') {
+        marketContext.onMarkPrice(ev.data);
+    } else if (ev.type === 'liquidation') {
+        const liq = ev.liquidation;
+        getLiq(s).addLiquidation(liq);
+        log('LIQUIDATION', { symbol: s, side: liq.side, price: liq.price, quantity: liq.quantity });
+        // Metrics go out with the next trade or depth broadcast.
     }
 }
 
+/**
+ * Gap mode and latest REST audit result for a symbol's book.
+ */
+function bookIntegrity(s: string, ob: OrderbookState) {
+    const audit = auditor.getStatus(s);
+    return {
+        gapMode: ob.gapMode,
+        driftScore: audit?.lastReport?.driftScore ?? null,
+        lastAuditTs: audit?.lastReport?.auditedAt ?? null,
+        auditResyncs: audit?.resyncs ?? 0
+    };
+}
+
 function broadcastMetrics(
     s: string,
     ob: OrderbookState,
@@ -475,7 +770,6 @@ function broadcastMetrics(
 ) {
     const THROTTLE_MS = 250; // 4Hz max per symbol
     const meta = getMeta(s);
-    if (leg) leg.updateOpenInterest();
     const now = Date.now();
 
     // Throttle check - skip if last broadcast was too recent
@@ -487,6 +781,8 @@ function broadcastMetrics(
 
     const cvdM = cvd.computeMetrics();
     const tasMetrics = tas.computeMetrics();
+    const liqM = getLiq(s).computeMetrics(eventTimeMs || now);
+    const ctx = marketContext.getContext(s);
     // Calculate OBI/Legacy if Orderbook has data (bids and asks exist)
     // This allows metrics to continue displaying during brief resyncs
     const hasBookData = ob.bids.size > 0 && ob.asks.size > 0;
@@ -506,6 +802,7 @@ function broadcastMetrics(
         symbol: s,
         event_time_ms: eventTimeMs,
         state: ob.uiState,
+        integrity: bookIntegrity(s, ob),
         timeAndSales: tasMetrics,
         cvd: {
             tf1m: cvdM.find(x => x.timeframe === '1m') || { cvd: 0, delta: 0, exhaustion: false },
@@ -514,8 +811,12 @@ function broadcastMetrics(
             tradeCounts: cvd.getTradeCounts() // Debug: trade counts per timeframe
         },
         absorption: absVal,
-        openInterest: leg ? leg.getOpenInterestMetrics() : null,
-        funding: lastFunding.get(s) || null,
+        openInterest: ctx?.openInterest ?? null,
+        funding: ctx?.funding ?? null,
+        markPrice: ctx?.markPrice ?? null,
+        indexPrice: ctx?.indexPrice ?? null,
+        premiumPct: ctx?.premiumPct ?? null,
+        liquidations: liqM,
         legacyMetrics: legacyM, // Null if unseeded
         bids, asks,
         bestBid: bestBidPx,
@@ -525,6 +826,9 @@ function broadcastMetrics(
         lastUpdateId: ob.lastUpdateId
     };
 
+    metricsHistory.record(s, payload);
+    alertEngine.evaluate(s, payload);
+
     const str = JSON.stringify(payload);
     let sentCount = 0;
     clients.forEach(c => {
@@ -538,6 +842,10 @@ function broadcastMetrics(
     meta.lastBroadcastTs = now;
     meta.metricsBroadcastCount10s++;
     meta.lastMetricsBroadcastReason = reason;
+    promBroadcasts.inc({ symbol: s, reason });
+    if (eventTimeMs > 0) {
+        promEventToBroadcast.observe({ symbol: s }, Math.max(0, now - eventTimeMs) / 1000);
+    }
     if (reason === 'depth') {
         meta.metricsBroadcastDepthCount10s++;
     } else {
@@ -568,10 +876,11 @@ function broadcastMetrics(
         });
     }
 
-    if (eventTimeMs > 0) {
+    if (eventTimeMs > 0 && parseVenueSymbol(s)?.venue === 'BINANCE') {
         const canonicalTimeMs = Date.now();
         // Mainnet market data is ingested here only for signal/intent generation.
         // Execution state remains testnet-only via execution events in orchestrator.
+        // Other venues feed the dashboard only.
         orchestrator.ingest({
             symbol: s,
             canonical_time_ms: canonicalTimeMs,
@@ -584,11 +893,79 @@ function broadcastMetrics(
                 obiDeep: legacyM.obiDeep,
                 deltaZ: legacyM.deltaZ,
                 cvdSlope: legacyM.cvdSlope
-            } : null
+            } : null,
+            liquidations: {
+                longNotional1m: liqM.longNotional1m,
+                shortNotional1m: liqM.shortNotional1m,
+                burstActive: liqM.burst.active,
+                cascadeActive: liqM.cascade.active,
+                cascadeSide: liqM.cascade.side
+            }
         });
     }
 }
 
+/**
+ * Footprint cells of the open and last closed candle, with profile
+ * summaries; full profile levels are served by /api/footprint/:symbol.
+ */
+function broadcastFootprint(s: string) {
+    const meta = getMeta(s);
+    const now = Date.now();
+    if (now - meta.lastFootprintBroadcastTs < FOOTPRINT_BROADCAST_MS) {
+        return;
+    }
+    meta.lastFootprintBroadcastTs = now;
+
+    const fp = getFootprint(s);
+    const str = JSON.stringify({
+        type: 'footprint',
+        symbol: s,
+        levelSize: fp.getLevelSize(),
+        candles: fp.getCandles(2),
+        session: fp.getSessionProfile(1, false),
+        rolling: fp.getRollingProfile(1, false)
+    });
+    clients.forEach(c => {
+        if (c.readyState === WebSocket.OPEN && clientSubs.get(c)?.has(s)) {
+            c.send(str);
+        }
+    });
+}
+
+alertEngine.onAlert(alert => {
+    log('ALERT_FIRED', { symbol: alert.symbol, rule: alert.ruleName, severity: alert.severity, values: alert.values });
+    const str = JSON.stringify({ type: 'alert', alert });
+    clients.forEach(c => {
+        if (c.readyState === WebSocket.OPEN && clientSubs.get(c)?.has(alert.symbol)) {
+            c.send(str);
+        }
+    });
+});
+
+/**
+ * Latest two bars per timeframe, so a bar that closed since the previous
+ * push arrives with its final values.
+ */
+function broadcastCandles(s: string) {
+    const meta = getMeta(s);
+    const now = Date.now();
+    if (now - meta.lastCandleBroadcastTs < CANDLE_BROADCAST_MS) {
+        return;
+    }
+    meta.lastCandleBroadcastTs = now;
+
+    const agg = getCandles(s);
+    const bars: Record<string, Candle[]> = {};
+    (Object.keys(CANDLE_TIMEFRAMES) as CandleTimeframe[]).forEach(tf => { bars[tf] = agg.getCandles(tf, 2); });
+    const str = JSON.stringify({ type: 'candles', symbol: s, bars });
+    clients.forEach(c => {
+        if (c.readyState === WebSocket.OPEN && clientSubs.get(c)?.has(s)) {
+            c.send(str);
+        }
+    });
+}
+
 
 // =============================================================================
 // Server
@@ -619,26 +996,160 @@ const corsOptions = {
         callback(new Error('Not allowed by CORS'));
     },
     credentials: true,
-    methods: ['GET', 'POST', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
 };
 app.use(cors(corsOptions));
 
+// Token auth for REST and /ws: viewers read, traders control execution and
+// settings, admins manage exchange credentials and tokens (npm run tokens).
+const AUTH_ENABLED = String(process.env.AUTH_ENABLED || 'true').toLowerCase() !== 'false';
+const tokenStore = createTokenStoreFromEnv((e) => log('AUTH_ERROR', { error: e.message }));
+tokenStore.load()
+    .then(() => {
+        if (AUTH_ENABLED && tokenStore.listTokens().length === 0) {
+            log('AUTH_NO_TOKENS', { hint: 'npm run tokens -- create --name admin --role admin' });
+        }
+    })
+    .catch((e: any) => log('AUTH_ERROR', { error: e.message }));
+tokenStore.watch(2000);
+// Scrapers without a bearer token can be allowed /metrics explicitly.
+const METRICS_PUBLIC = String(process.env.METRICS_PUBLIC || 'false').toLowerCase() === 'true';
+const auth = createAuth(tokenStore, {
+    enabled: AUTH_ENABLED,
+    publicPaths: ['/api/health', '/api/auth/login', ...(METRICS_PUBLIC ? ['/metrics'] : [])],
+});
+const asTrader = auth.requireRole('trader');
+const asAdmin = auth.requireRole('admin');
+app.use(auth.authenticate);
+
+app.post('/api/auth/login', (req, res) => {
+    if (!AUTH_ENABLED) {
+        res.json({ session: null, expiresAt: null, name: 'anonymous', role: 'admin', authEnabled: false });
+        return;
+    }
+    const login = tokenStore.login(String(req.body?.token || ''));
+    if (!login) {
+        log('AUTH_LOGIN_FAILED', { ip: req.ip });
+        res.status(401).json({ error: 'invalid_token' });
+        return;
+    }
+    log('AUTH_LOGIN', { name: login.principal.name, role: login.principal.role });
+    res.json({ session: login.session, expiresAt: login.expiresAt, name: login.principal.name, role: login.principal.role, authEnabled: true });
+});
+
+app.post('/api/auth/logout', (req, res) => {
+    const token = requestToken(req);
+    res.json({ ok: token ? tokenStore.logout(token) : false });
+});
+
+app.get('/api/auth/me', (req, res) => {
+    const { name, role } = principalOf(res);
+    res.json({ name, role, authEnabled: AUTH_ENABLED });
+});
+
+app.get('/api/auth/tokens', asAdmin, (req, res) => {
+    res.json({ tokens: tokenStore.listTokens() });
+});
+
+app.post('/api/auth/tokens', asAdmin, (req, res) => {
+    // { name, role } - the token is only returned here
+    if (!isRole(req.body?.role)) {
+        res.status(400).json({ error: 'role must be one of viewer, trader, admin' });
+        return;
+    }
+    try {
+        res.json(tokenStore.createToken(String(req.body?.name || ''), req.body.role));
+    } catch (e: any) {
+        res.status(400).json({ error: e.message });
+    }
+});
+
+app.delete('/api/auth/tokens/:id', asAdmin, (req, res) => {
+    if (!tokenStore.revokeToken(req.params.id)) {
+        res.status(404).json({ error: 'token_not_found' });
+        return;
+    }
+    res.json({ ok: true });
+});
+
+// Credential vault: admins only.  Profile secrets are write-only over HTTP.
+app.get('/api/vault', asAdmin, (req, res) => {
+    res.json(credentialVault.getStatus());
+});
+
+app.post('/api/vault/unlock', asAdmin, async (req, res) => {
+    // Creates the vault on first use
+    try {
+        await credentialVault.unlock(String(req.body?.passphrase || ''));
+        res.json(credentialVault.getStatus());
+    } catch (e: any) {
+        res.status(e.message === 'invalid_passphrase' ? 403 : 400).json({ error: e.message });
+    }
+});
+
+app.post('/api/vault/lock', asAdmin, (req, res) => {
+    credentialVault.lock();
+    res.json(credentialVault.getStatus());
+});
+
+app.post('/api/vault/passphrase', asAdmin, async (req, res) => {
+    // { current, next } - re-encrypts every profile
+    try {
+        await credentialVault.changePassphrase(String(req.body?.current || ''), String(req.body?.next || ''));
+        res.json(credentialVault.getStatus());
+    } catch (e: any) {
+        res.status(e.message === 'invalid_passphrase' ? 403 : 400).json({ error: e.message });
+    }
+});
+
+app.put('/api/vault/profiles/:name', asAdmin, (req, res) => {
+    // { apiKey, apiSecret } - adds the profile or rotates its keys
+    if (!credentialVault.isUnlocked()) {
+        res.status(409).json({ error: 'vault_locked' });
+        return;
+    }
+    try {
+        res.json({ profile: credentialVault.setProfile(req.params.name, req.body || {}) });
+    } catch (e: any) {
+        res.status(400).json({ error: e.message });
+    }
+});
+
+app.delete('/api/vault/profiles/:name', asAdmin, (req, res) => {
+    if (!credentialVault.isUnlocked()) {
+        res.status(409).json({ error: 'vault_locked' });
+        return;
+    }
+    if (!credentialVault.deleteProfile(req.params.name)) {
+        res.status(404).json({ error: 'profile_not_found' });
+        return;
+    }
+    res.json({ ok: true });
+});
+
 app.get('/api/health', (req, res) => {
     const now = Date.now();
     const result: any = {
         ok: true,
         uptime: Math.floor(process.uptime()),
-        ws: { state: wsState, count: activeSymbols.size },
-        globalBackoff: Math.max(0, globalBackoffUntil - now),
+        ws: {
+            state: streamState(),
+            count: streamedSymbols().length,
+            shards: [...venues.values()].flatMap(v => v.streams.getHealth().map(h => ({ venue: v.adapter.venue, ...h })))
+        },
+        globalBackoff: Math.max(0, restScheduler.getBackoffUntil() - now),
+        rest: restScheduler.getStatus(),
         symbols: {}
     };
 
-    activeSymbols.forEach(s => {
+    streamedSymbols().forEach(s => {
         const meta = getMeta(s);
         const ob = getOrderbook(s);
         result.symbols[s] = {
             status: ob.uiState,
+            gapMode: ob.gapMode,
+            audit: auditor.getStatus(s),
             lastSnapshot: meta.lastSnapshotOk ? Math.floor((now - meta.lastSnapshotOk) / 1000) + 's ago' : 'never',
             lastSnapshotOkTs: meta.lastSnapshotOk,
             snapshotLastUpdateId: meta.snapshotLastUpdateId,
@@ -670,6 +1181,11 @@ app.get('/api/health', (req, res) => {
     res.json(result);
 });
 
+app.get('/metrics', (req, res) => {
+    res.set('Content-Type', PROMETHEUS_CONTENT_TYPE);
+    res.send(prom.render());
+});
+
 app.get('/api/exchange-info', async (req, res) => {
     // Disable caching to prevent 304 responses
     res.set('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
@@ -691,22 +1207,37 @@ app.get('/api/execution/status', (req, res) => {
     res.json(orchestrator.getExecutionStatus());
 });
 
-app.post('/api/execution/connect', async (req, res) => {
+app.post('/api/execution/connect', asAdmin, async (req, res) => {
     try {
+        // { profile } uses stored vault credentials; { apiKey, apiSecret } still works
+        const profile = String(req.body?.profile || '');
+        if (profile) {
+            if (!credentialVault.isUnlocked()) {
+                res.status(409).json({ error: 'vault_locked' });
+                return;
+            }
+            if (!credentialVault.hasProfile(profile)) {
+                res.status(404).json({ error: 'profile_not_found' });
+                return;
+            }
+            await orchestrator.connectExecution({ profile });
+            res.json({ ok: true, status: orchestrator.getExecutionStatus() });
+            return;
+        }
         const apiKey = String(req.body?.apiKey || '');
         const apiSecret = String(req.body?.apiSecret || '');
         if (!apiKey || !apiSecret) {
-            res.status(400).json({ error: 'apiKey and apiSecret are required' });
+            res.status(400).json({ error: 'profile or apiKey and apiSecret are required' });
             return;
         }
-        await orchestrator.connectExecution(apiKey, apiSecret);
+        await orchestrator.connectExecution({ apiKey, apiSecret });
         res.json({ ok: true, status: orchestrator.getExecutionStatus() });
     } catch (e: any) {
         res.status(500).json({ ok: false, error: e.message || 'execution_connect_failed' });
     }
 });
 
-app.post('/api/execution/disconnect', async (req, res) => {
+app.post('/api/execution/disconnect', asTrader, async (req, res) => {
     try {
         await orchestrator.disconnectExecution();
         res.json({ ok: true, status: orchestrator.getExecutionStatus() });
@@ -715,13 +1246,13 @@ app.post('/api/execution/disconnect', async (req, res) => {
     }
 });
 
-app.post('/api/execution/enabled', async (req, res) => {
+app.post('/api/execution/enabled', asTrader, async (req, res) => {
     const enabled = Boolean(req.body?.enabled);
     await orchestrator.setExecutionEnabled(enabled);
     res.json({ ok: true, status: orchestrator.getExecutionStatus() });
 });
 
-app.post('/api/execution/symbol', async (req, res) => {
+app.post('/api/execution/symbol', asTrader, async (req, res) => {
     try {
         const symbol = String(req.body?.symbol || '').toUpperCase();
         let symbols = Array.isArray(req.body?.symbols) ? req.body.symbols.map((s: any) => String(s).toUpperCase()) : null;
@@ -742,34 +1273,240 @@ app.post('/api/execution/symbol', async (req, res) => {
     }
 });
 
-app.post('/api/execution/settings', (req, res) => {
+app.post('/api/execution/settings', asTrader, (req, res) => {
+    // Per-symbol strategy selection: { strategies: { BTCUSDT: { name, params } } }
+    let strategies;
+    try {
+        strategies = req.body?.strategies && typeof req.body.strategies === 'object'
+            ? orchestrator.updateStrategySettings(req.body.strategies)
+            : orchestrator.getStrategySettings();
+    } catch (e: any) {
+        res.status(400).json({ ok: false, error: e.message || 'invalid_strategy_settings' });
+        return;
+    }
     const settings = orchestrator.updateCapitalSettings({
         initialBalanceUsdt: Number(req.body?.initialBalanceUsdt),
         walletUsagePercent: Number(req.body?.walletUsagePercent),
         leverage: Number(req.body?.leverage),
     });
-    res.json({ ok: true, settings, status: orchestrator.getExecutionStatus() });
+    res.json({ ok: true, settings, strategies, status: orchestrator.getExecutionStatus() });
+});
+
+app.get('/api/recorder', (req, res) => {
+    res.json(recorder.getStatus());
+});
+
+app.post('/api/recorder', asTrader, (req, res) => {
+    // { enabled?: boolean, symbols?: string[] } - an empty symbol list records everything streamed
+    if (Array.isArray(req.body?.symbols)) {
+        recorder.setSymbols(req.body.symbols.map((s: any) => String(s).toUpperCase()));
+    }
+    if (typeof req.body?.enabled === 'boolean') {
+        try {
+            recorder.setEnabled(req.body.enabled);
+        } catch (e: any) {
+            res.status(500).json({ ok: false, error: e.message || 'recorder_toggle_failed' });
+            return;
+        }
+    }
+    res.json({ ok: true, status: recorder.getStatus() });
+});
+
+app.post('/api/orderbook/gap-mode', asTrader, (req, res) => {
+    // { symbol, mode: 'strict' | 'tolerant' } - applies to the live book and survives resyncs
+    const symbol = canonicalSymbol(String(req.body?.symbol || ''));
+    const mode = req.body?.mode;
+    if (!symbol || (mode !== 'strict' && mode !== 'tolerant')) {
+        res.status(400).json({ error: 'symbol and mode (strict | tolerant) required' });
+        return;
+    }
+    gapModeOverrides.set(symbol, mode);
+    const ob = orderbookMap.get(symbol);
+    if (ob) ob.gapMode = mode;
+    res.json({ ok: true, symbol, mode });
+});
+
+app.get('/api/footprint/:symbol', (req, res) => {
+    // ?candles=N (default 10) latest candle footprints, ?group=N merges N levels per cell
+    const symbol = canonicalSymbol(String(req.params.symbol || ''));
+    if (!symbol) {
+        res.status(400).json({ error: 'invalid symbol' });
+        return;
+    }
+    const fp = footprintMap.get(symbol);
+    if (!fp) {
+        res.status(404).json({ error: 'no trades for symbol' });
+        return;
+    }
+    const candles = Math.min(Math.max(parseInt(String(req.query.candles || '10'), 10) || 10, 1), 500);
+    const group = Math.min(Math.max(parseInt(String(req.query.group || '1'), 10) || 1, 1), 1000);
+    res.json({
+        symbol,
+        levelSize: (fp.getLevelSize() || 0) * group,
+        candles: fp.getCandles(candles, group),
+        session: fp.getSessionProfile(group),
+        rolling: fp.getRollingProfile(group)
+    });
+});
+
+app.get('/api/candles/:symbol', (req, res) => {
+    // ?tf=1s|1m|5m|15m (default 1m) &limit=N (default 500), oldest first
+    const symbol = canonicalSymbol(String(req.params.symbol || ''));
+    const tf = String(req.query.tf || '1m');
+    if (!symbol || !isCandleTimeframe(tf)) {
+        res.status(400).json({ error: 'valid symbol and tf (1s | 1m | 5m | 15m) required' });
+        return;
+    }
+    const agg = candleMap.get(symbol);
+    if (!agg) {
+        res.status(404).json({ error: 'no candles for symbol' });
+        return;
+    }
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '500'), 10) || 500, 1), CANDLE_MAX_BARS);
+    res.json({ symbol, tf, candles: agg.getCandles(tf, limit) });
+});
+
+app.get('/api/history', (req, res) => {
+    res.json(metricsHistory.getStatus());
+});
+
+app.get('/api/history/:symbol', (req, res) => {
+    // ?fields=legacyMetrics.deltaZ,cvd (names or prefixes) &from=&to= (epoch ms) &resolution=60000 | 1m
+    const symbol = canonicalSymbol(String(req.params.symbol || ''));
+    const resolutionMs = parseDurationMs(String(req.query.resolution || '0'));
+    if (!symbol || resolutionMs === null) {
+        res.status(400).json({ error: 'valid symbol and resolution (ms or 1s / 5m / 1h) required' });
+        return;
+    }
+    const result = metricsHistory.query(symbol, {
+        fields: String(req.query.fields || '').split(',').map(f => f.trim()).filter(Boolean),
+        from: req.query.from ? Number(req.query.from) : undefined,
+        to: req.query.to ? Number(req.query.to) : undefined,
+        resolutionMs,
+    });
+    if (!result) {
+        res.status(404).json({ error: 'no history for symbol' });
+        return;
+    }
+    res.json(result);
+});
+
+// 60000, 30s, 5m or 1h to ms; null if malformed
+function parseDurationMs(raw: string): number | null {
+    const m = /^(\d+)(ms|s|m|h)?$/.exec(raw.trim());
+    if (!m) return null;
+    const unit = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }[(m[2] || 'ms') as 'ms' | 's' | 'm' | 'h'];
+    return Number(m[1]) * unit;
+}
+
+/**
+ * Alert rule body: { name, expression, clearExpression?, symbols?, severity?, forMs?, cooldownMs?, enabled? }.
+ * Symbols are canonicalised; invalid ones reject the request.
+ */
+function alertRuleInput(body: any): AlertRuleInput {
+    const input: AlertRuleInput = { ...(body && typeof body === 'object' ? body : {}) };
+    if (Array.isArray(input.symbols)) {
+        const symbols = input.symbols.map(x => canonicalSymbol(String(x)));
+        if (symbols.some(x => x === null)) throw new Error('invalid symbol in symbols');
+        input.symbols = symbols as string[];
+    }
+    return input;
+}
+
+app.get('/api/notifications', (req, res) => {
+    res.json({ channels: notifier.getStatus() });
+});
+
+app.get('/api/alerts', (req, res) => {
+    res.json({ rules: alertEngine.listRules() });
+});
+
+app.post('/api/alerts', asTrader, (req, res) => {
+    try {
+        res.status(201).json({ ok: true, rule: alertEngine.createRule(alertRuleInput(req.body)) });
+    } catch (e: any) {
+        res.status(400).json({ ok: false, error: e.message || 'invalid_alert_rule' });
+    }
+});
+
+app.get('/api/alerts/history', (req, res) => {
+    // ?limit=N (default 100) &symbol=
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit || '100'), 10) || 100, 1), 1000);
+    const symbol = req.query.symbol ? canonicalSymbol(String(req.query.symbol)) : undefined;
+    if (symbol === null) {
+        res.status(400).json({ error: 'invalid symbol' });
+        return;
+    }
+    res.json({ alerts: alertEngine.getHistory(limit, symbol) });
+});
+
+app.get('/api/alerts/:id', (req, res) => {
+    const rule = alertEngine.getRule(req.params.id);
+    if (!rule) {
+        res.status(404).json({ error: 'alert_rule_not_found' });
+        return;
+    }
+    res.json({ rule });
+});
+
+app.put('/api/alerts/:id', asTrader, (req, res) => {
+    try {
+        const rule = alertEngine.updateRule(req.params.id, alertRuleInput(req.body));
+        if (!rule) {
+            res.status(404).json({ ok: false, error: 'alert_rule_not_found' });
+            return;
+        }
+        res.json({ ok: true, rule });
+    } catch (e: any) {
+        res.status(400).json({ ok: false, error: e.message || 'invalid_alert_rule' });
+    }
+});
+
+app.delete('/api/alerts/:id', asTrader, (req, res) => {
+    if (!alertEngine.deleteRule(req.params.id)) {
+        res.status(404).json({ ok: false, error: 'alert_rule_not_found' });
+        return;
+    }
+    res.json({ ok: true });
 });
 
 const server = createServer(app);
-const wss = new WebSocketServer({ server, path: '/ws' });
+const wss = new WebSocketServer({
+    server,
+    path: '/ws',
+    // Browsers cannot send headers on the upgrade, so the dashboard passes ?token=<session>
+    verifyClient: (info, done) => {
+        if (auth.authenticateUpgrade(info.req)) {
+            done(true);
+            return;
+        }
+        log('CLIENT_UNAUTHORIZED', { ip: info.req.socket.remoteAddress });
+        done(false, 401, 'Unauthorized');
+    },
+});
+
+function seedSymbols(symbols: string[]) {
+    symbols.forEach(s => {
+        // Trigger initial seed if needed
+        const ob = getOrderbook(s);
+        if (ob.uiState === 'UNSEEDED') fetchSnapshot(s);
+    });
+}
 
 wss.on('connection', (wc, req) => {
+    // ?symbols= still seeds the initial subscription set.
     const p = new URL(req.url || '', 'http://l').searchParams.get('symbols') || '';
-    const syms = p.split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+    const syms = p.split(',').map(canonicalSymbol).filter((s): s is string => s !== null);
 
     clients.add(wc);
     clientSubs.set(wc, new Set(syms));
     log('CLIENT_JOIN', { symbols: syms });
 
-    syms.forEach(s => {
-        // Trigger initial seed if needed
-        const ob = getOrderbook(s);
-        if (ob.uiState === 'UNSEEDED') fetchSnapshot(s);
-    });
-
+    seedSymbols(syms);
     updateStreams();
 
+    wc.on('message', (raw: Buffer) => handleClientMessage(wc, raw, { clientSubs, updateStreams, seedSymbols, log }));
+
     wc.on('close', () => {
         clients.delete(wc);
         clientSubs.delete(wc);
@@ -789,6 +1526,23 @@ setInterval(() => {
 }, 10000);
 
 server.listen(PORT, HOST, () => log('SERVER_UP', { port: PORT, host: HOST }));
+auditor.start();
 orchestrator.start().catch((e) => {
     log('ORCHESTRATOR_START_ERROR', { error: e.message });
 });
+telegramCommands?.start();
+// Unattended restarts: VAULT_PASSPHRASE_FILE unlocks the vault, VAULT_CONNECT_PROFILE connects with it
+credentialVault.load()
+    .then(async () => {
+        const passphraseFile = process.env.VAULT_PASSPHRASE_FILE;
+        if (!passphraseFile || !credentialVault.isInitialized()) {
+            return;
+        }
+        await credentialVault.unlock((await fs.promises.readFile(passphraseFile, 'utf8')).trim());
+        const profile = process.env.VAULT_CONNECT_PROFILE;
+        if (profile) {
+            await orchestrator.connectExecution({ profile });
+            log('VAULT_CONNECTED', { profile });
+        }
+    })
+    .catch((e: any) => log('VAULT_ERROR', { error: e.message }));
@@ -0,0 +1,180 @@
+/**
+ * OHLCV candles built from the trade stream.
+ *
+ * Every trade updates one bar per timeframe (1s, 1m, 5m, 15m).  Besides
+ * price and volume each bar splits volume by aggressor side, so the bar
+ * delta (buy volume minus sell volume) is available per candle.
+ *
+ * History from before the subscription comes from REST klines.  Closed
+ * kline bars replace live ones, since the exchange saw every trade.  A
+ * kline bar that was still open when fetched is merged with the live
+ * bar: the kline covers the interval's start, the live bar its end.
+ */
+
+import { TradeEvent } from './TimeAndSales';
+
+export type CandleTimeframe = '1s' | '1m' | '5m' | '15m';
+
+export const CANDLE_TIMEFRAMES: Record<CandleTimeframe, number> = {
+  '1s': 1_000,
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+};
+
+export interface Candle {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  buyVolume: number;
+  sellVolume: number;
+  delta: number;
+  trades: number;
+}
+
+export interface CandleConfig {
+  // Bars kept per timeframe
+  maxBars: number;
+}
+
+export const DEFAULT_CANDLE_CONFIG: CandleConfig = {
+  maxBars: 1000,
+};
+
+export function isCandleTimeframe(tf: string): tf is CandleTimeframe {
+  return Object.prototype.hasOwnProperty.call(CANDLE_TIMEFRAMES, tf);
+}
+
+/**
+ * Rows of ``GET /fapi/v1/klines``:
+ * [openTime, open, high, low, close, volume, closeTime, quoteVolume,
+ *  trades, takerBuyBaseVolume, takerBuyQuoteVolume, ignore]
+ */
+export function parseKlines(rows: any[]): Candle[] {
+  return (Array.isArray(rows) ? rows : [])
+    .filter((r) => Array.isArray(r) && r.length >= 10)
+    .map((r) => {
+      const volume = parseFloat(r[5]);
+      const buyVolume = parseFloat(r[9]);
+      return {
+        openTime: Number(r[0]),
+        open: parseFloat(r[1]),
+        high: parseFloat(r[2]),
+        low: parseFloat(r[3]),
+        close: parseFloat(r[4]),
+        volume,
+        buyVolume,
+        sellVolume: volume - buyVolume,
+        delta: 2 * buyVolume - volume,
+        trades: Number(r[8]),
+      };
+    });
+}
+
+export class CandleAggregator {
+  private readonly config: CandleConfig;
+  private readonly bars = new Map<CandleTimeframe, Candle[]>();
+
+  constructor(config: Partial<CandleConfig> = {}) {
+    this.config = { ...DEFAULT_CANDLE_CONFIG, ...config };
+    for (const tf of Object.keys(CANDLE_TIMEFRAMES) as CandleTimeframe[]) {
+      this.bars.set(tf, []);
+    }
+  }
+
+  addTrade(trade: TradeEvent) {
+    if (!(trade.price > 0) || !(trade.quantity > 0)) {
+      return;
+    }
+    for (const [tf, bars] of this.bars) {
+      const openTime = Math.floor(trade.timestamp / CANDLE_TIMEFRAMES[tf]) * CANDLE_TIMEFRAMES[tf];
+      const bar = this.barAt(bars, openTime);
+      if (!bar) continue;
+      if (bar.trades === 0) {
+        bar.open = trade.price;
+        bar.close = trade.price;
+      }
+      bar.high = Math.max(bar.high, trade.price);
+      bar.low = Math.min(bar.low, trade.price);
+      // A late trade does not move an earlier bar's close.
+      if (bar === bars[bars.length - 1]) {
+        bar.close = trade.price;
+      }
+      bar.volume += trade.quantity;
+      if (trade.side === 'buy') bar.buyVolume += trade.quantity;
+      else bar.sellVolume += trade.quantity;
+      bar.delta = bar.buyVolume - bar.sellVolume;
+      bar.trades++;
+    }
+  }
+
+  /**
+   * Merges REST kline bars fetched at ``fetchedAt`` into a timeframe.
+   */
+  backfill(tf: CandleTimeframe, klines: Candle[], fetchedAt: number) {
+    const byOpen = new Map(this.bars.get(tf)!.map((b) => [b.openTime, b]));
+    for (const kline of klines) {
+      const live = byOpen.get(kline.openTime);
+      if (!live || kline.openTime + CANDLE_TIMEFRAMES[tf] <= fetchedAt) {
+        byOpen.set(kline.openTime, { ...kline });
+        continue;
+      }
+      // Still open when fetched: the kline saw the start, the live bar the latest trades.
+      const buyVolume = Math.max(live.buyVolume, kline.buyVolume);
+      const sellVolume = Math.max(live.sellVolume, kline.sellVolume);
+      byOpen.set(kline.openTime, {
+        openTime: kline.openTime,
+        open: kline.open,
+        high: Math.max(live.high, kline.high),
+        low: Math.min(live.low, kline.low),
+        close: live.close,
+        volume: buyVolume + sellVolume,
+        buyVolume,
+        sellVolume,
+        delta: buyVolume - sellVolume,
+        trades: Math.max(live.trades, kline.trades),
+      });
+    }
+    const merged = [...byOpen.values()].sort((a, b) => a.openTime - b.openTime);
+    this.bars.set(tf, merged.slice(-this.config.maxBars));
+  }
+
+  /**
+   * Latest ``limit`` bars, oldest first; the last one may still be open.
+   */
+  getCandles(tf: CandleTimeframe, limit: number): Candle[] {
+    return this.bars.get(tf)!.slice(-Math.max(0, limit)).map((b) => ({ ...b }));
+  }
+
+  private barAt(bars: Candle[], openTime: number): Candle | null {
+    const last = bars[bars.length - 1];
+    if (last && last.openTime === openTime) {
+      return last;
+    }
+    const create = (): Candle => ({
+      openTime, open: 0, high: -Infinity, low: Infinity, close: 0,
+      volume: 0, buyVolume: 0, sellVolume: 0, delta: 0, trades: 0,
+    });
+    if (!last || openTime > last.openTime) {
+      const bar = create();
+      bars.push(bar);
+      if (bars.length > this.config.maxBars) bars.shift();
+      return bar;
+    }
+    // Late trade for an earlier bar
+    if (openTime < bars[0].openTime) {
+      return null;
+    }
+    let i = bars.length - 1;
+    while (i >= 0 && bars[i].openTime > openTime) i--;
+    if (bars[i].openTime === openTime) {
+      return bars[i];
+    }
+    const bar = create();
+    bars.splice(i + 1, 0, bar);
+    return bar;
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Footprint and volume profile aggregation.
+ *
+ * Aggressor volume is bucketed per price level: buy volume (ask lifts)
+ * and sell volume (bid hits) for every level a trade printed at.  The
+ * aggregator keeps
+ *
+ *  - one footprint per candle interval
+ *  - a session profile since the session start (UTC day by default)
+ *  - a rolling profile over the candles of the last rollingWindowMs
+ *
+ * Each profile reports its point of control (the level with the most
+ * volume), the value area around it, and diagonal imbalances: buying at
+ * a level against selling one level below, and selling at a level
+ * against buying one level above.  Imbalances on stackedMinLevels or
+ * more consecutive levels are reported as stacked.
+ *
+ * Levels are tickSize * ticksPerLevel wide.  Without a configured tick
+ * size one is derived from the first trade price (five significant
+ * digits), since venue tick sizes are not loaded for every symbol.
+ * Readers may group levels further without losing the stored detail.
+ */
+
+import { TradeEvent } from './TimeAndSales';
+
+export interface FootprintConfig {
+  intervalMs: number;
+  tickSize: number | null;
+  ticksPerLevel: number;
+  // Closed candles kept beyond those the rolling profile needs.
+  maxCandles: number;
+  rollingWindowMs: number;
+  // Share of the profile's volume inside the value area.
+  valueAreaPct: number;
+  // Diagonal volume ratio for an imbalance.
+  imbalanceRatio: number;
+  stackedMinLevels: number;
+  sessionStartHourUtc: number;
+}
+
+export interface FootprintLevel {
+  price: number;
+  buy: number;
+  sell: number;
+  delta: number;
+  buyImbalance: boolean;
+  sellImbalance: boolean;
+}
+
+export interface StackedImbalance {
+  side: 'buy' | 'sell';
+  fromPrice: number;
+  toPrice: number;
+  levels: number;
+}
+
+export interface FootprintProfile {
+  startTime: number;
+  endTime: number;
+  levelSize: number;
+  volume: number;
+  buyVolume: number;
+  sellVolume: number;
+  delta: number;
+  poc: number | null;
+  valueAreaHigh: number | null;
+  valueAreaLow: number | null;
+  stackedImbalances: StackedImbalance[];
+  // Ascending by price; omitted from summaries.
+  levels?: FootprintLevel[];
+}
+
+type Cell = { buy: number; sell: number };
+// Keyed by level index: floor(price / levelSize).
+type Cells = Map<number, Cell>;
+
+type Candle = {
+  startTime: number;
+  cells: Cells;
+};
+
+export const DEFAULT_FOOTPRINT_CONFIG: FootprintConfig = {
+  intervalMs: 60_000,
+  tickSize: null,
+  ticksPerLevel: 1,
+  maxCandles: 60,
+  rollingWindowMs: 60 * 60_000,
+  valueAreaPct: 0.7,
+  imbalanceRatio: 3,
+  stackedMinLevels: 3,
+  sessionStartHourUtc: 0,
+};
+
+const DAY_MS = 24 * 60 * 60_000;
+
+export class FootprintAggregator {
+  private readonly config: FootprintConfig;
+  private levelSize: number | null = null;
+  private candles: Candle[] = [];
+  private session: Candle | null = null;
+  private lastTradeTime = 0;
+
+  constructor(config: Partial<FootprintConfig> = {}) {
+    this.config = { ...DEFAULT_FOOTPRINT_CONFIG, ...config };
+  }
+
+  addTrade(trade: TradeEvent) {
+    if (!(trade.price > 0) || !(trade.quantity > 0)) {
+      return;
+    }
+    if (this.levelSize === null) {
+      const tick = this.config.tickSize || 10 ** (Math.floor(Math.log10(trade.price)) - 4);
+      this.levelSize = tick * this.config.ticksPerLevel;
+    }
+    const index = Math.floor(trade.price / this.levelSize + 1e-9);
+    const ts = trade.timestamp;
+    this.lastTradeTime = Math.max(this.lastTradeTime, ts);
+
+    const sessionStart = this.sessionStart(ts);
+    if (!this.session || sessionStart > this.session.startTime) {
+      this.session = { startTime: sessionStart, cells: new Map() };
+    }
+    if (sessionStart === this.session.startTime) {
+      addToCells(this.session.cells, index, trade);
+    }
+
+    const candleStart = Math.floor(ts / this.config.intervalMs) * this.config.intervalMs;
+    let candle = this.candles.find((c) => c.startTime === candleStart);
+    if (!candle) {
+      if (this.candles.length > 0 && candleStart < this.candles[0].startTime) {
+        // Older than every kept candle; only the session profile takes it.
+        return;
+      }
+      candle = { startTime: candleStart, cells: new Map() };
+      this.candles.push(candle);
+      this.candles.sort((a, b) => a.startTime - b.startTime);
+      this.prune();
+    }
+    addToCells(candle.cells, index, trade);
+  }
+
+  getLevelSize(): number | null {
+    return this.levelSize;
+  }
+
+  /**
+   * Latest `count` candle footprints, oldest first; the last one is still open.
+   */
+  getCandles(count: number, group = 1): FootprintProfile[] {
+    return this.candles.slice(-Math.max(0, count)).map((c) =>
+      this.profile(c.startTime, c.startTime + this.config.intervalMs, c.cells, group, true));
+  }
+
+  getSessionProfile(group = 1, includeLevels = true): FootprintProfile | null {
+    if (!this.session) return null;
+    return this.profile(this.session.startTime, this.session.startTime + DAY_MS, this.session.cells, group, includeLevels);
+  }
+
+  getRollingProfile(group = 1, includeLevels = true): FootprintProfile | null {
+    if (this.candles.length === 0) return null;
+    const since = this.lastTradeTime - this.config.rollingWindowMs;
+    const window = this.candles.filter((c) => c.startTime + this.config.intervalMs > since);
+    const cells: Cells = new Map();
+    for (const candle of window) {
+      for (const [index, cell] of candle.cells) {
+        const acc = cells.get(index);
+        if (acc) {
+          acc.buy += cell.buy;
+          acc.sell += cell.sell;
+        } else {
+          cells.set(index, { buy: cell.buy, sell: cell.sell });
+        }
+      }
+    }
+    const start = window.length > 0 ? window[0].startTime : since;
+    return this.profile(start, this.lastTradeTime, cells, group, includeLevels);
+  }
+
+  private profile(startTime: number, endTime: number, cells: Cells, group: number, includeLevels: boolean): FootprintProfile {
+    const n = Math.max(1, Math.floor(group));
+    const grouped = n === 1 ? cells : regroup(cells, n);
+    const levelSize = (this.levelSize || 0) * n;
+    return buildProfile(startTime, endTime, grouped, levelSize, this.config, includeLevels);
+  }
+
+  private sessionStart(ts: number): number {
+    const offset = this.config.sessionStartHourUtc * 60 * 60_000;
+    return Math.floor((ts - offset) / DAY_MS) * DAY_MS + offset;
+  }
+
+  private prune() {
+    const keep = Math.max(this.config.maxCandles, Math.ceil(this.config.rollingWindowMs / this.config.intervalMs) + 1);
+    if (this.candles.length > keep) {
+      this.candles = this.candles.slice(-keep);
+    }
+  }
+}
+
+function addToCells(cells: Cells, index: number, trade: TradeEvent) {
+  let cell = cells.get(index);
+  if (!cell) {
+    cell = { buy: 0, sell: 0 };
+    cells.set(index, cell);
+  }
+  if (trade.side === 'buy') cell.buy += trade.quantity;
+  else cell.sell += trade.quantity;
+}
+
+function regroup(cells: Cells, n: number): Cells {
+  const out: Cells = new Map();
+  for (const [index, cell] of cells) {
+    const key = Math.floor(index / n);
+    const acc = out.get(key);
+    if (acc) {
+      acc.buy += cell.buy;
+      acc.sell += cell.sell;
+    } else {
+      out.set(key, { buy: cell.buy, sell: cell.sell });
+    }
+  }
+  return out;
+}
+
+function buildProfile(
+  startTime: number,
+  endTime: number,
+  cells: Cells,
+  levelSize: number,
+  cfg: FootprintConfig,
+  includeLevels: boolean
+): FootprintProfile {
+  const indexes = [...cells.keys()].sort((a, b) => a - b);
+  // Enough decimals to print the level size exactly.
+  const decimals = levelSize > 0 ? Math.min(12, Math.max(0, Math.ceil(-Math.log10(levelSize)) + 1)) : 0;
+  const priceOf = (index: number) => Number((index * levelSize).toFixed(decimals));
+
+  let buyVolume = 0;
+  let sellVolume = 0;
+  let pocPos = -1;
+  let pocVolume = -1;
+  const levels: FootprintLevel[] = indexes.map((index, pos) => {
+    const cell = cells.get(index)!;
+    buyVolume += cell.buy;
+    sellVolume += cell.sell;
+    if (cell.buy + cell.sell > pocVolume) {
+      pocVolume = cell.buy + cell.sell;
+      pocPos = pos;
+    }
+    // Diagonal: ask lifts at this level against bid hits one level lower, and vice versa.
+    const sellBelow = cells.get(index - 1)?.sell ?? 0;
+    const buyAbove = cells.get(index + 1)?.buy ?? 0;
+    return {
+      price: priceOf(index),
+      buy: cell.buy,
+      sell: cell.sell,
+      delta: cell.buy - cell.sell,
+      buyImbalance: cell.buy > 0 && cell.buy >= cfg.imbalanceRatio * sellBelow,
+      sellImbalance: cell.sell > 0 && cell.sell >= cfg.imbalanceRatio * buyAbove,
+    };
+  });
+  const volume = buyVolume + sellVolume;
+
+  let valueAreaHigh: number | null = null;
+  let valueAreaLow: number | null = null;
+  if (pocPos >= 0) {
+    // Grow from the POC towards the heavier neighbouring level until the target share is covered.
+    let lo = pocPos;
+    let hi = pocPos;
+    let covered = pocVolume;
+    const target = volume * cfg.valueAreaPct;
+    while (covered < target && (lo > 0 || hi < levels.length - 1)) {
+      const below = lo > 0 ? levels[lo - 1].buy + levels[lo - 1].sell : -1;
+      const above = hi < levels.length - 1 ? levels[hi + 1].buy + levels[hi + 1].sell : -1;
+      if (above >= below) {
+        hi++;
+        covered += above;
+      } else {
+        lo--;
+        covered += below;
+      }
+    }
+    valueAreaLow = levels[lo].price;
+    valueAreaHigh = levels[hi].price;
+  }
+
+  return {
+    startTime,
+    endTime,
+    levelSize,
+    volume,
+    buyVolume,
+    sellVolume,
+    delta: buyVolume - sellVolume,
+    poc: pocPos >= 0 ? levels[pocPos].price : null,
+    valueAreaHigh,
+    valueAreaLow,
+    stackedImbalances: stackedImbalances(indexes, levels, cfg.stackedMinLevels),
+    ...(includeLevels ? { levels } : {}),
+  };
+}
+
+function stackedImbalances(indexes: number[], levels: FootprintLevel[], minLevels: number): StackedImbalance[] {
+  const out: StackedImbalance[] = [];
+  for (const side of ['buy', 'sell'] as const) {
+    let runStart = -1;
+    for (let pos = 0; pos <= levels.length; pos++) {
+      const flagged = pos < levels.length && (side === 'buy' ? levels[pos].buyImbalance : levels[pos].sellImbalance);
+      // A run needs adjacent levels, not just adjacent entries.
+      const contiguous = runStart >= 0 && pos < levels.length && indexes[pos] === indexes[pos - 1] + 1;
+      if (flagged && (runStart < 0 || contiguous)) {
+        if (runStart < 0) runStart = pos;
+        continue;
+      }
+      if (runStart >= 0 && pos - runStart >= minLevels) {
+        out.push({ side, fromPrice: levels[runStart].price, toPrice: levels[pos - 1].price, levels: pos - runStart });
+      }
+      runStart = flagged ? pos : -1;
+    }
+  }
+  return out;
+}
+
+export function footprintConfigFromEnv(): Partial<FootprintConfig> {
+  const tickSize = Number(process.env.FOOTPRINT_TICK_SIZE || 0);
+  return {
+    intervalMs: Number(process.env.FOOTPRINT_INTERVAL_MS || DEFAULT_FOOTPRINT_CONFIG.intervalMs),
+    tickSize: tickSize > 0 ? tickSize : null,
+    ticksPerLevel: Math.max(1, Number(process.env.FOOTPRINT_TICKS_PER_LEVEL || DEFAULT_FOOTPRINT_CONFIG.ticksPerLevel)),
+    rollingWindowMs: Number(process.env.FOOTPRINT_ROLLING_WINDOW_MS || DEFAULT_FOOTPRINT_CONFIG.rollingWindowMs),
+    valueAreaPct: Number(process.env.FOOTPRINT_VALUE_AREA_PCT || DEFAULT_FOOTPRINT_CONFIG.valueAreaPct),
+    imbalanceRatio: Number(process.env.FOOTPRINT_IMBALANCE_RATIO || DEFAULT_FOOTPRINT_CONFIG.imbalanceRatio),
+    stackedMinLevels: Number(process.env.FOOTPRINT_STACKED_MIN_LEVELS || DEFAULT_FOOTPRINT_CONFIG.stackedMinLevels),
+    sessionStartHourUtc: Number(process.env.FOOTPRINT_SESSION_START_HOUR_UTC || DEFAULT_FOOTPRINT_CONFIG.sessionStartHourUtc),
+  };
+}
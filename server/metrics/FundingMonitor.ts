@@ -1,10 +1,10 @@
 /**
  * Funding rate monitor.
  *
- * Periodically polls Binance for the latest funding rate and computes
- * the time until the next funding event as well as the trend compared
- * to the previous rate.  Similar to the OpenInterestMonitor, unit
- * tests can call `update()` directly with synthetic data.
+ * Fed from the ``@markPrice@1s`` stream by the MarketContextService, it
+ * computes the time until the next funding event as well as the trend
+ * compared to the previous rate.  Unit tests can call `update()` directly
+ * with synthetic data.
  */
 
 export interface FundingMetrics {
@@ -18,38 +18,23 @@ type FundingListener = (metrics: FundingMetrics) => void;
 
 export class FundingMonitor {
   private lastRate: number | null = null;
+  // Kept while the rate is unchanged; the stream repeats it every second.
+  private lastTrend: 'up' | 'down' | 'flat' = 'flat';
   private readonly listeners: Set<FundingListener> = new Set();
   private readonly symbol: string;
-  private readonly intervalMs: number;
-  // Timer handle for periodic polling.  We avoid referring to NodeJS
-  // types directly to allow compilation in non‑Node environments.
-  private timer: any | null = null;
 
-  constructor(symbol: string, intervalMs: number = 60_000) {
+  constructor(symbol: string) {
     this.symbol = symbol.toUpperCase();
-    this.intervalMs = intervalMs;
-  }
-
-  public start() {
-    if (this.timer) return;
-    this.timer = setInterval(() => this.fetchAndUpdate().catch(() => { }), this.intervalMs);
-    this.fetchAndUpdate().catch(() => { });
-  }
-
-  public stop() {
-    if (this.timer) {
-      clearInterval(this.timer);
-      this.timer = null;
-    }
   }
 
   public update(rate: number, nextFundingTime: number) {
-    let trend: 'up' | 'down' | 'flat' = 'flat';
+    let trend = this.lastTrend;
     if (this.lastRate !== null) {
       if (rate > this.lastRate) trend = 'up';
       else if (rate < this.lastRate) trend = 'down';
     }
     this.lastRate = rate;
+    this.lastTrend = trend;
     const now = Date.now();
     const timeToFundingMs = Math.max(0, nextFundingTime - now);
     const metrics: FundingMetrics = { symbol: this.symbol, rate, timeToFundingMs, trend };
@@ -59,24 +44,4 @@ export class FundingMonitor {
   public onUpdate(listener: FundingListener) {
     this.listeners.add(listener);
   }
-
-  private async fetchAndUpdate(): Promise<void> {
-    try {
-      // Use premiumIndex which includes nextFundingTime
-      const url = `https://fapi.binance.com/fapi/v1/premiumIndex?symbol=${this.symbol}`;
-      const res = await fetch(url);
-      if (!res.ok) return;
-      const data = await res.json();
-
-      if (data && typeof data.lastFundingRate === 'string' && typeof data.nextFundingTime === 'number') {
-        const rate = parseFloat(data.lastFundingRate);
-        const nextFundingTime = data.nextFundingTime;
-        if (!isNaN(rate) && nextFundingTime > 0) {
-          this.update(rate, nextFundingTime);
-        }
-      }
-    } catch (e) {
-      // Silently ignore fetch errors
-    }
-  }
-}
\ No newline at end of file
+}
@@ -1,7 +1,6 @@
 // [GITHUB VERIFIED] Backend implementation of OBI, VWAP, DeltaZ, CVD Slope, and Advanced Scores
 // Senior Quantitative Finance Developer Implementation
 import { OrderbookState, bestBid, bestAsk } from './OrderbookManager';
-import { OpenInterestMonitor, OpenInterestMetrics as OIMetrics } from './OpenInterestMonitor';
 
 // Type for a trade used in the legacy metrics calculations
 interface LegacyTrade {
@@ -39,23 +38,6 @@ const ABSORPTION_WINDOW = 60;
 export class LegacyCalculator {
     // Keep a rolling list of trades for delta calculations (max 10 seconds)
     private trades: LegacyTrade[] = [];
-    private oiMonitor: OpenInterestMonitor | null = null;
-
-    constructor(symbol?: string) {
-        if (symbol) {
-            this.oiMonitor = new OpenInterestMonitor(symbol);
-        }
-    }
-
-    public async updateOpenInterest() {
-        if (this.oiMonitor) {
-            await this.oiMonitor.updateOpenInterest();
-        }
-    }
-
-    public getOpenInterestMetrics(): OIMetrics | null {
-        return this.oiMonitor ? this.oiMonitor.getMetrics() : null;
-    }
     // List of recent delta1s values for Z‐score computation
     private deltaHistory: number[] = [];
     // List of recent session CVD values for slope computation
@@ -455,22 +437,10 @@ export class LegacyCalculator {
      * the original UI.  Undefined values are returned as null.
      */
     computeMetrics(ob: OrderbookState) {
-        // Helper to calculate raw volume for a given depth (descending for bids, ascending for asks)
-        const calcVolume = (levels: Map<number, number>, depth: number, isAsk: boolean): number => {
-            const entries = Array.from(levels.entries());
-            // Sort: Bids Descending, Asks Ascending
-            entries.sort((a, b) => isAsk ? a[0] - b[0] : b[0] - a[0]);
-            let vol = 0;
-            for (let i = 0; i < Math.min(depth, entries.length); i++) {
-                vol += entries[i][1];
-            }
-            return vol;
-        };
-
         // --- A) OBI Weighted (Normalized) ---
         // Top 10 levels
-        const bidVol10 = calcVolume(ob.bids, 10, false);
-        const askVol10 = calcVolume(ob.asks, 10, true);
+        const bidVol10 = ob.bids.depth(10);
+        const askVol10 = ob.asks.depth(10);
 
         const rawObiWeighted = bidVol10 - askVol10;
         const denomWeighted = bidVol10 + askVol10;
@@ -479,8 +449,8 @@ export class LegacyCalculator {
 
         // --- B) OBI Deep Book (Normalized) ---
         // Top 50 levels (representing deep liquidity)
-        const bidVol50 = calcVolume(ob.bids, 50, false);
-        const askVol50 = calcVolume(ob.asks, 50, true);
+        const bidVol50 = ob.bids.depth(50);
+        const askVol50 = ob.asks.depth(50);
 
         const rawObiDeep = bidVol50 - askVol50;
         const denomDeep = bidVol50 + askVol50;
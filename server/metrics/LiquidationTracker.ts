@@ -0,0 +1,216 @@
+/**
+ * Liquidation metrics from Binance's ``@forceOrder`` stream.
+ *
+ * Every forced order closes a trader's position: a SELL liquidates a
+ * long, a BUY liquidates a short.  The tracker keeps the orders of the
+ * last few minutes per symbol and derives
+ *
+ *  - rolling long / short liquidated notional (1m and 5m)
+ *  - bursts: a short window whose notional is far above the recent
+ *    average for that window length
+ *  - cascades: one side liquidating repeatedly over a longer window
+ *    while the price keeps moving against it, held for a cooldown after
+ *    the last qualifying liquidation
+ *
+ * Binance pushes at most one forced order per symbol per second, so the
+ * stored list stays small.
+ */
+
+export type LiquidatedSide = 'long' | 'short';
+
+export interface LiquidationEvent {
+  side: LiquidatedSide;
+  price: number;
+  quantity: number;
+  timestamp: number;
+}
+
+export interface LiquidationConfig {
+  // Window a burst is measured over.
+  burstWindowMs: number;
+  // Burst when the window's notional exceeds this multiple of its average over the last 5 minutes...
+  burstMultiplier: number;
+  // ...and this absolute floor.
+  burstMinNotionalUsdt: number;
+  cascadeWindowMs: number;
+  cascadeMinEvents: number;
+  cascadeMinNotionalUsdt: number;
+  // Share of the window's notional the cascading side must account for.
+  cascadeMinDominance: number;
+  // Adverse price move across the window's liquidations, in percent.
+  cascadeMinMovePct: number;
+  // A cascade stays active this long after its last qualifying liquidation.
+  cascadeCooldownMs: number;
+}
+
+export interface LiquidationMetrics {
+  longNotional1m: number;
+  shortNotional1m: number;
+  longNotional5m: number;
+  shortNotional5m: number;
+  count1m: number;
+  lastEventTime: number | null;
+  burst: {
+    active: boolean;
+    side: LiquidatedSide | null;
+    notional: number;
+    count: number;
+  };
+  cascade: {
+    active: boolean;
+    side: LiquidatedSide | null;
+    notional: number;
+    events: number;
+    startedAt: number | null;
+  };
+}
+
+export const DEFAULT_LIQUIDATION_CONFIG: LiquidationConfig = {
+  burstWindowMs: 5_000,
+  burstMultiplier: 5,
+  burstMinNotionalUsdt: 50_000,
+  cascadeWindowMs: 30_000,
+  cascadeMinEvents: 5,
+  cascadeMinNotionalUsdt: 250_000,
+  cascadeMinDominance: 0.8,
+  cascadeMinMovePct: 0.3,
+  cascadeCooldownMs: 60_000,
+};
+
+const HISTORY_MS = 5 * 60_000;
+
+/**
+ * Parse a ``forceOrder`` event payload.  Uses the average fill price and
+ * filled quantity when present, otherwise the order price and quantity.
+ */
+export function parseForceOrder(data: any): LiquidationEvent | null {
+  const o = data?.o;
+  if (!o || (o.S !== 'BUY' && o.S !== 'SELL')) {
+    return null;
+  }
+  const filled = parseFloat(o.z);
+  const avgPrice = parseFloat(o.ap);
+  const quantity = filled > 0 ? filled : parseFloat(o.q);
+  const price = avgPrice > 0 ? avgPrice : parseFloat(o.p);
+  const timestamp = Number(o.T || data.E);
+  if (!(quantity > 0) || !(price > 0) || !(timestamp > 0)) {
+    return null;
+  }
+  return { side: o.S === 'SELL' ? 'long' : 'short', price, quantity, timestamp };
+}
+
+export class LiquidationTracker {
+  private readonly config: LiquidationConfig;
+  private events: LiquidationEvent[] = [];
+  private cascadeSide: LiquidatedSide | null = null;
+  private cascadeStartedAt: number | null = null;
+  private cascadeLastHitAt = 0;
+  private lastEventTime: number | null = null;
+
+  constructor(config: Partial<LiquidationConfig> = {}) {
+    this.config = { ...DEFAULT_LIQUIDATION_CONFIG, ...config };
+  }
+
+  addLiquidation(event: LiquidationEvent) {
+    this.events.push(event);
+    if (this.lastEventTime === null || event.timestamp > this.lastEventTime) {
+      this.lastEventTime = event.timestamp;
+    }
+    this.prune(event.timestamp);
+    this.updateCascade(event.timestamp);
+  }
+
+  /**
+   * Metrics as of `now` (exchange time of the latest market event).
+   */
+  computeMetrics(now: number): LiquidationMetrics {
+    this.prune(now);
+    this.updateCascade(now);
+
+    const cfg = this.config;
+    const m1 = this.sumSince(now - 60_000);
+    const m5 = this.sumSince(now - HISTORY_MS);
+    const burstSums = this.sumSince(now - cfg.burstWindowMs);
+    const burstNotional = burstSums.long + burstSums.short;
+    // Average notional per burst window over the history, excluding the current window.
+    const baseline = (m5.long + m5.short - burstNotional) / Math.max(1, HISTORY_MS / cfg.burstWindowMs - 1);
+    const burstActive = burstNotional >= cfg.burstMinNotionalUsdt && burstNotional > baseline * cfg.burstMultiplier;
+
+    const cascadeActive = this.cascadeSide !== null;
+    const cascadeSums = cascadeActive ? this.sumSince(now - cfg.cascadeWindowMs) : null;
+    return {
+      longNotional1m: m1.long,
+      shortNotional1m: m1.short,
+      longNotional5m: m5.long,
+      shortNotional5m: m5.short,
+      count1m: m1.count,
+      lastEventTime: this.lastEventTime,
+      burst: {
+        active: burstActive,
+        side: burstActive ? (burstSums.long >= burstSums.short ? 'long' : 'short') : null,
+        notional: burstNotional,
+        count: burstSums.count,
+      },
+      cascade: {
+        active: cascadeActive,
+        side: this.cascadeSide,
+        notional: cascadeSums ? cascadeSums[this.cascadeSide as LiquidatedSide] : 0,
+        events: cascadeSums ? (this.cascadeSide === 'long' ? cascadeSums.longCount : cascadeSums.shortCount) : 0,
+        startedAt: this.cascadeStartedAt,
+      },
+    };
+  }
+
+  private updateCascade(now: number) {
+    const cfg = this.config;
+    const since = now - cfg.cascadeWindowMs;
+    const sums = this.sumSince(since);
+    const total = sums.long + sums.short;
+    const side: LiquidatedSide = sums.long >= sums.short ? 'long' : 'short';
+    const sideEvents = this.events.filter((e) => e.timestamp >= since && e.side === side);
+
+    let qualifies = false;
+    if (sideEvents.length >= cfg.cascadeMinEvents && sums[side] >= cfg.cascadeMinNotionalUsdt && total > 0 && sums[side] / total >= cfg.cascadeMinDominance) {
+      const first = sideEvents[0].price;
+      const last = sideEvents[sideEvents.length - 1].price;
+      // Longs cascade into a falling price, shorts into a rising one.
+      const movePct = ((side === 'long' ? first - last : last - first) / first) * 100;
+      qualifies = movePct >= cfg.cascadeMinMovePct;
+    }
+
+    if (qualifies) {
+      if (this.cascadeSide !== side) {
+        this.cascadeSide = side;
+        this.cascadeStartedAt = sideEvents[0].timestamp;
+      }
+      this.cascadeLastHitAt = now;
+    } else if (this.cascadeSide !== null && now - this.cascadeLastHitAt > cfg.cascadeCooldownMs) {
+      this.cascadeSide = null;
+      this.cascadeStartedAt = null;
+    }
+  }
+
+  private sumSince(since: number) {
+    const out = { long: 0, short: 0, count: 0, longCount: 0, shortCount: 0 };
+    for (const e of this.events) {
+      if (e.timestamp < since) continue;
+      const notional = e.price * e.quantity;
+      out.count++;
+      if (e.side === 'long') {
+        out.long += notional;
+        out.longCount++;
+      } else {
+        out.short += notional;
+        out.shortCount++;
+      }
+    }
+    return out;
+  }
+
+  private prune(now: number) {
+    const cutoff = now - HISTORY_MS;
+    if (this.events.length > 0 && this.events[0].timestamp < cutoff) {
+      this.events = this.events.filter((e) => e.timestamp >= cutoff);
+    }
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Futures market context per subscribed symbol.
+ *
+ * Mark price, index price, the predicted funding rate and the next
+ * funding time arrive every second on the ``@markPrice@1s`` stream and
+ * feed a FundingMonitor.  Open interest has no stream, so it is polled
+ * through the shared RestScheduler, which keeps the polls inside the
+ * request-weight budget and stops them during a 429 / 418 backoff.
+ *
+ * Contexts are created and dropped with the symbol subscriptions.
+ */
+
+import { RestScheduler } from '../connectors/RestScheduler';
+import { FundingMetrics, FundingMonitor } from './FundingMonitor';
+import { OpenInterestMetrics, OpenInterestMonitor } from './OpenInterestMonitor';
+
+export interface MarketContextConfig {
+  restBase: string;
+  openInterestIntervalMs: number;
+  log?: (event: string, data: any) => void;
+  now?: () => number;
+}
+
+export interface MarketContext {
+  markPrice: number | null;
+  indexPrice: number | null;
+  // (mark - index) / index, in percent.
+  premiumPct: number | null;
+  funding: FundingMetrics | null;
+  openInterest: OpenInterestMetrics | null;
+}
+
+type SymbolContext = {
+  funding: FundingMonitor;
+  lastFunding: FundingMetrics | null;
+  openInterest: OpenInterestMonitor;
+  hasOpenInterest: boolean;
+  markPrice: number | null;
+  indexPrice: number | null;
+  lastOpenInterestPoll: number;
+  openInterestInFlight: boolean;
+};
+
+export class MarketContextService {
+  private readonly contexts = new Map<string, SymbolContext>();
+  private readonly now: () => number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly scheduler: RestScheduler, private readonly config: MarketContextConfig) {
+    this.now = config.now || (() => Date.now());
+  }
+
+  /**
+   * Starts context for new symbols and drops it for removed ones.  Open
+   * interest polling runs only while at least one symbol is tracked.
+   */
+  setSymbols(symbols: Iterable<string>) {
+    const required = new Set(symbols);
+    for (const symbol of [...this.contexts.keys()]) {
+      if (!required.has(symbol)) {
+        this.contexts.delete(symbol);
+      }
+    }
+    for (const symbol of required) {
+      if (!this.contexts.has(symbol)) {
+        this.contexts.set(symbol, this.createContext(symbol));
+      }
+    }
+
+    if (this.contexts.size > 0 && !this.timer) {
+      // Checked every second so symbols come due one by one instead of all at once.
+      this.timer = setInterval(() => this.pollDue(), 1000);
+      this.timer.unref();
+      this.pollDue();
+    } else if (this.contexts.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getSymbols(): string[] {
+    return [...this.contexts.keys()];
+  }
+
+  /**
+   * Handles a ``markPriceUpdate`` event.
+   */
+  onMarkPrice(data: any) {
+    const ctx = this.contexts.get(String(data?.s || ''));
+    if (!ctx) return;
+    const mark = parseFloat(data.p);
+    const index = parseFloat(data.i);
+    const rate = parseFloat(data.r);
+    ctx.markPrice = mark > 0 ? mark : ctx.markPrice;
+    ctx.indexPrice = index > 0 ? index : ctx.indexPrice;
+    if (!isNaN(rate) && Number(data.T) > 0) {
+      ctx.funding.update(rate, Number(data.T));
+    }
+  }
+
+  getContext(symbol: string): MarketContext | null {
+    const ctx = this.contexts.get(symbol);
+    if (!ctx) return null;
+    const premiumPct = ctx.markPrice !== null && ctx.indexPrice !== null
+      ? ((ctx.markPrice - ctx.indexPrice) / ctx.indexPrice) * 100
+      : null;
+    return {
+      markPrice: ctx.markPrice,
+      indexPrice: ctx.indexPrice,
+      premiumPct,
+      funding: ctx.lastFunding,
+      openInterest: ctx.hasOpenInterest ? ctx.openInterest.getMetrics() : null,
+    };
+  }
+
+  shutdown() {
+    this.setSymbols([]);
+  }
+
+  private createContext(symbol: string): SymbolContext {
+    const ctx: SymbolContext = {
+      funding: new FundingMonitor(symbol),
+      lastFunding: null,
+      openInterest: new OpenInterestMonitor(symbol),
+      hasOpenInterest: false,
+      markPrice: null,
+      indexPrice: null,
+      lastOpenInterestPoll: 0,
+      openInterestInFlight: false,
+    };
+    ctx.funding.onUpdate((m) => { ctx.lastFunding = m; });
+    return ctx;
+  }
+
+  private pollDue() {
+    if (this.scheduler.isBlocked()) {
+      return;
+    }
+    const now = this.now();
+    for (const [symbol, ctx] of this.contexts) {
+      if (!ctx.openInterestInFlight && now - ctx.lastOpenInterestPoll >= this.config.openInterestIntervalMs) {
+        this.pollOpenInterest(symbol, ctx);
+      }
+    }
+  }
+
+  private async pollOpenInterest(symbol: string, ctx: SymbolContext) {
+    ctx.openInterestInFlight = true;
+    ctx.lastOpenInterestPoll = this.now();
+    try {
+      const res = await this.scheduler.request({
+        url: `${this.config.restBase}/fapi/v1/openInterest?symbol=${symbol}`,
+        priority: 'context',
+      });
+      if (!res.ok) {
+        this.log('OPEN_INTEREST_FAIL', { symbol, status: res.status });
+        return;
+      }
+      const data: any = await res.json();
+      const value = parseFloat(data.openInterest);
+      // The symbol may have been unsubscribed while the request was queued.
+      if (!isNaN(value) && this.contexts.get(symbol) === ctx) {
+        ctx.openInterest.update(value, Number(data.time) || this.now());
+        ctx.hasOpenInterest = true;
+      }
+    } catch (e: any) {
+      this.log('OPEN_INTEREST_ERR', { symbol, err: e.message });
+    } finally {
+      ctx.openInterestInFlight = false;
+    }
+  }
+
+  private log(event: string, data: any) {
+    if (this.config.log) {
+      this.config.log(event, data);
+    }
+  }
+}
@@ -1,6 +1,9 @@
 /**
  * OpenInterestMonitor tracks futures open interest metrics
- * 
+ *
+ * Values are pushed in with `update()`; the MarketContextService polls
+ * them through the shared REST scheduler.
+ *
  * Metrics:
  * - Current OI
  * - OI delta (change)
@@ -21,58 +24,40 @@ export interface OpenInterestMetrics {
   source: 'real' | 'mock';
 }
 
+type OpenInterestListener = (metrics: OpenInterestMetrics) => void;
+
 export class OpenInterestMonitor {
-  private symbol: string;
+  readonly symbol: string;
   private currentOI = 0;
   private previousOI = 0;
   private oiHistory: Array<{ value: number; timestamp: number }> = [];
-  private lastFetchTime = 0;
-  private readonly FETCH_INTERVAL_MS = 60_000;  // Update every 60 seconds
+  private lastUpdate = 0;
+  private readonly listeners: Set<OpenInterestListener> = new Set();
 
   constructor(symbol: string) {
     this.symbol = symbol;
   }
 
   /**
-   * Fetch latest OI from Binance API
+   * Record a new open interest reading.
    */
-  public async updateOpenInterest(): Promise<void> {
-    const now = Date.now();
-
-    // Rate limit: don't fetch more than once per minute
-    if (now - this.lastFetchTime < this.FETCH_INTERVAL_MS && this.currentOI > 0) {
-      return;
+  public update(openInterest: number, timestamp: number = Date.now()) {
+    if (isNaN(openInterest)) return;
+    this.previousOI = this.currentOI > 0 ? this.currentOI : openInterest;
+    this.currentOI = openInterest;
+    this.lastUpdate = timestamp;
+
+    // Add to history (keep last 60 entries = 1 hour at the default poll interval)
+    this.oiHistory.push({ value: this.currentOI, timestamp });
+    if (this.oiHistory.length > 60) {
+      this.oiHistory.shift();
     }
+    const metrics = this.getMetrics();
+    this.listeners.forEach(l => l(metrics));
+  }
 
-    try {
-      // Using global fetch (available in Node 18+)
-      const response = await fetch(
-        `https://fapi.binance.com/fapi/v1/openInterest?symbol=${this.symbol}`
-      );
-
-      if (!response.ok) {
-        console.error(`Failed to fetch OI for ${this.symbol}: ${response.status}`);
-        return;
-      }
-
-      const data: any = await response.json();
-      const newVal = parseFloat(data.openInterest);
-
-      if (!isNaN(newVal)) {
-        this.previousOI = this.currentOI > 0 ? this.currentOI : newVal;
-        this.currentOI = newVal;
-
-        // Add to history (keep last 60 entries = 1 hour)
-        this.oiHistory.push({ value: this.currentOI, timestamp: now });
-        if (this.oiHistory.length > 60) {
-          this.oiHistory.shift();
-        }
-      }
-
-      this.lastFetchTime = now;
-    } catch (error) {
-      console.error(`OpenInterest fetch error for ${this.symbol}: ${error}`);
-    }
+  public onUpdate(listener: OpenInterestListener) {
+    this.listeners.add(listener);
   }
 
   /**
@@ -112,7 +97,7 @@ export class OpenInterestMonitor {
       signal,
       volatility,
       strength,
-      lastUpdate: Date.now(),
+      lastUpdate: this.lastUpdate,
       source: 'real',
     };
   }
@@ -0,0 +1,310 @@
+import {
+  DepthCache,
+  DepthUpdate,
+  OrderbookState,
+  applyDepthUpdate,
+  applySnapshot,
+  createOrderbookState,
+} from './OrderbookManager';
+import { PriceLevels } from './PriceLevels';
+import { depthWeight } from '../connectors/RestScheduler';
+
+export interface OrderbookAuditConfig {
+  enabled: boolean;
+  // One symbol is audited per interval, least recently audited first.
+  intervalMs: number;
+  // REST depth limit; 5 / 10 / 20 / 50 cost weight 2.
+  depthLimit: number;
+  // Drift score above which the local book is resynced.
+  driftThreshold: number;
+  // Request weight the auditor may spend per rolling minute.
+  weightBudgetPerMinute: number;
+  // An audit whose reference book has not caught up by then is abandoned.
+  maxPendingMs: number;
+}
+
+export interface OrderbookAuditorDeps {
+  config: OrderbookAuditConfig;
+  listSymbols: () => string[];
+  getOrderbook: (symbol: string) => OrderbookState | null;
+  fetchDepth: (symbol: string, limit: number) => Promise<DepthCache>;
+  // False while REST is globally backed off.
+  canRequest?: () => boolean;
+  onDrift: (symbol: string, report: OrderbookAuditReport) => void;
+  log?: (event: string, data: any) => void;
+  now?: () => number;
+}
+
+export interface OrderbookAuditReport {
+  auditedAt: number;
+  lastUpdateId: number;
+  // Σ|local - snapshot| / Σ(local + snapshot) over the snapshot's price range: 0 identical, 1 disjoint.
+  driftScore: number;
+  comparedLevels: number;
+  mismatchedLevels: number;
+  resynced: boolean;
+}
+
+export interface OrderbookAuditStatus {
+  audits: number;
+  resyncs: number;
+  inconclusive: number;
+  pending: boolean;
+  lastAuditAt: number;
+  lastReport: OrderbookAuditReport | null;
+  lastError: string | null;
+}
+
+type PendingAudit = {
+  // Built from the REST snapshot and fed the same diff events as the live book.
+  reference: OrderbookState;
+  startedAt: number;
+  // Price range the snapshot covered; levels beyond it are unknown.
+  bidFloor: number;
+  askCeiling: number;
+  seeded: boolean;
+};
+
+const QTY_EPSILON = 1e-12;
+
+/**
+ * Checks live orderbooks against low-weight REST depth snapshots.
+ *
+ * A snapshot only describes the book at its own lastUpdateId, which the
+ * live book has usually passed or not yet reached.  The auditor therefore
+ * builds a reference book from the snapshot, feeds it the diff events the
+ * live book receives (buffering those that arrive before the snapshot,
+ * exactly like a resync), and compares the two once both sit at the same
+ * lastUpdateId.  Only the price range the snapshot covered is compared.
+ * A gap in the audit window or a reset of the live book makes the audit
+ * inconclusive; it is retried on a later round.
+ */
+export class OrderbookAuditor {
+  private readonly statuses = new Map<string, OrderbookAuditStatus>();
+  private readonly pending = new Map<string, PendingAudit>();
+  private readonly spentWeight: { at: number; weight: number }[] = [];
+  private readonly now: () => number;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly deps: OrderbookAuditorDeps) {
+    this.now = deps.now || (() => Date.now());
+  }
+
+  start() {
+    if (!this.deps.config.enabled || this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.auditNext().catch((e) => this.log('ORDERBOOK_AUDIT_ERROR', { error: e.message }));
+    }, this.deps.config.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Starts an audit of the least recently audited live symbol, if the
+   * weight budget allows.  Resolves once the snapshot is in; the comparison
+   * itself may wait for later diff events.
+   */
+  async auditNext(): Promise<string | null> {
+    const now = this.now();
+    for (const [symbol, audit] of this.pending) {
+      if (now - audit.startedAt > this.deps.config.maxPendingMs) {
+        this.abandon(symbol, 'timeout');
+      }
+    }
+
+    const weight = depthWeight(this.deps.config.depthLimit);
+    if ((this.deps.canRequest && !this.deps.canRequest()) || this.weightUsed(now) + weight > this.deps.config.weightBudgetPerMinute) {
+      return null;
+    }
+    const symbol = this.deps.listSymbols()
+      .filter((s) => !this.pending.has(s) && this.deps.getOrderbook(s)?.uiState === 'LIVE')
+      .sort((a, b) => this.status(a).lastAuditAt - this.status(b).lastAuditAt)[0];
+    if (!symbol) {
+      return null;
+    }
+
+    const status = this.status(symbol);
+    status.lastAuditAt = now;
+    const audit: PendingAudit = {
+      reference: createOrderbookState('strict'),
+      startedAt: now,
+      bidFloor: -Infinity,
+      askCeiling: Infinity,
+      seeded: false,
+    };
+    this.pending.set(symbol, audit);
+    this.spentWeight.push({ at: now, weight });
+
+    let snapshot: DepthCache;
+    try {
+      snapshot = await this.deps.fetchDepth(symbol, this.deps.config.depthLimit);
+    } catch (e: any) {
+      status.lastError = e.message;
+      this.pending.delete(symbol);
+      this.log('ORDERBOOK_AUDIT_FETCH_FAIL', { symbol, error: e.message });
+      return symbol;
+    }
+    if (this.pending.get(symbol) !== audit) {
+      return symbol;
+    }
+
+    status.lastError = null;
+    // A full page means deeper levels exist that the snapshot does not show.
+    if (snapshot.bids.length >= this.deps.config.depthLimit) {
+      audit.bidFloor = Math.min(...snapshot.bids.map(([p]) => parseFloat(p)));
+    }
+    if (snapshot.asks.length >= this.deps.config.depthLimit) {
+      audit.askCeiling = Math.max(...snapshot.asks.map(([p]) => parseFloat(p)));
+    }
+    applySnapshot(audit.reference, snapshot);
+    audit.seeded = true;
+    if (audit.reference.stats.desyncs > 0) {
+      this.abandon(symbol, 'gap');
+    } else {
+      this.tryCompare(symbol, audit);
+    }
+    return symbol;
+  }
+
+  /**
+   * Called with every diff event after the live book has processed it.
+   */
+  onDepthUpdate(symbol: string, update: DepthUpdate) {
+    const audit = this.pending.get(symbol);
+    if (!audit) {
+      return;
+    }
+    if (!applyDepthUpdate(audit.reference, update)) {
+      this.abandon(symbol, 'gap');
+      return;
+    }
+    this.tryCompare(symbol, audit);
+  }
+
+  getStatus(symbol: string): OrderbookAuditStatus | null {
+    const status = this.statuses.get(symbol);
+    return status ? { ...status, pending: this.pending.has(symbol) } : null;
+  }
+
+  private tryCompare(symbol: string, audit: PendingAudit) {
+    if (!audit.seeded) {
+      return;
+    }
+    const local = this.deps.getOrderbook(symbol);
+    if (!local || local.uiState !== 'LIVE') {
+      this.abandon(symbol, 'book_reset');
+      return;
+    }
+    if (local.lastUpdateId !== audit.reference.lastUpdateId) {
+      // The live book has not reached the snapshot yet.
+      return;
+    }
+
+    this.pending.delete(symbol);
+    const bids = compareSide(local.bids, audit.reference.bids, (p) => p >= audit.bidFloor);
+    const asks = compareSide(local.asks, audit.reference.asks, (p) => p <= audit.askCeiling);
+    const volume = bids.volume + asks.volume;
+    const driftScore = volume > 0 ? (bids.diff + asks.diff) / volume : 0;
+    const report: OrderbookAuditReport = {
+      auditedAt: this.now(),
+      lastUpdateId: local.lastUpdateId,
+      driftScore,
+      comparedLevels: bids.compared + asks.compared,
+      mismatchedLevels: bids.mismatched + asks.mismatched,
+      resynced: driftScore > this.deps.config.driftThreshold,
+    };
+
+    const status = this.status(symbol);
+    status.audits++;
+    status.lastReport = report;
+    this.log('ORDERBOOK_AUDIT', { symbol, ...report });
+    if (report.resynced) {
+      status.resyncs++;
+      this.deps.onDrift(symbol, report);
+    }
+  }
+
+  private abandon(symbol: string, reason: string) {
+    this.pending.delete(symbol);
+    this.status(symbol).inconclusive++;
+    this.log('ORDERBOOK_AUDIT_INCONCLUSIVE', { symbol, reason });
+  }
+
+  private weightUsed(now: number): number {
+    while (this.spentWeight.length > 0 && now - this.spentWeight[0].at >= 60_000) {
+      this.spentWeight.shift();
+    }
+    return this.spentWeight.reduce((sum, x) => sum + x.weight, 0);
+  }
+
+  private status(symbol: string): OrderbookAuditStatus {
+    let status = this.statuses.get(symbol);
+    if (!status) {
+      status = { audits: 0, resyncs: 0, inconclusive: 0, pending: false, lastAuditAt: 0, lastReport: null, lastError: null };
+      this.statuses.set(symbol, status);
+    }
+    return status;
+  }
+
+  private log(event: string, data: any) {
+    if (this.deps.log) {
+      this.deps.log(event, data);
+    }
+  }
+}
+
+/**
+ * Walks both sides best first while inside the compared range.
+ */
+function compareSide(local: PriceLevels, reference: PriceLevels, inRange: (price: number) => boolean) {
+  const sizes = new Map<number, [number, number]>();
+  for (const [price, size] of local) {
+    if (!inRange(price)) break;
+    sizes.set(price, [size, 0]);
+  }
+  for (const [price, size] of reference) {
+    if (!inRange(price)) break;
+    const entry = sizes.get(price);
+    if (entry) {
+      entry[1] = size;
+    } else {
+      sizes.set(price, [0, size]);
+    }
+  }
+
+  let diff = 0;
+  let volume = 0;
+  let mismatched = 0;
+  for (const [localSize, referenceSize] of sizes.values()) {
+    const d = Math.abs(localSize - referenceSize);
+    diff += d;
+    volume += localSize + referenceSize;
+    if (d > QTY_EPSILON) {
+      mismatched++;
+    }
+  }
+  return { diff, volume, compared: sizes.size, mismatched };
+}
+
+export function createOrderbookAuditorFromEnv(deps: Omit<OrderbookAuditorDeps, 'config'>): OrderbookAuditor {
+  return new OrderbookAuditor({
+    ...deps,
+    config: {
+      enabled: String(process.env.ORDERBOOK_AUDIT_ENABLED || 'true').toLowerCase() === 'true',
+      intervalMs: Number(process.env.ORDERBOOK_AUDIT_INTERVAL_MS || 15000),
+      depthLimit: Number(process.env.ORDERBOOK_AUDIT_DEPTH_LIMIT || 50),
+      driftThreshold: Number(process.env.ORDERBOOK_AUDIT_DRIFT_THRESHOLD || 0.05),
+      weightBudgetPerMinute: Number(process.env.ORDERBOOK_AUDIT_WEIGHT_PER_MINUTE || 60),
+      maxPendingMs: Number(process.env.ORDERBOOK_AUDIT_MAX_PENDING_MS || 10000),
+    },
+  });
+}
@@ -7,11 +7,13 @@
  * incremental updates and fetch a fresh snapshot via the REST API.
  *
  * This module encapsulates the state and logic for an individual
- * symbol's orderbook.  It maintains bids and asks in maps keyed by
- * price (number) and exposes helpers to apply incremental updates,
- * determine the best bid/ask, and retrieve size at a given price.
+ * symbol's orderbook.  It maintains bids and asks as sorted price
+ * levels (see PriceLevels) and exposes helpers to apply incremental
+ * updates, determine the best bid/ask, and retrieve size at a given price.
  */
 
+import { PriceLevels } from './PriceLevels';
+
 // Define DepthCache locally to avoid circular dependency/missing export
 export interface DepthCache {
   lastUpdateId: number;
@@ -19,14 +21,36 @@ export interface DepthCache {
   asks: [string, string][];
 }
 
+/**
+ * One depth diff in Binance's sequencing: it covers update ids U..u and
+ * applies when U <= lastUpdateId + 1 <= u.  Other venues' adapters map
+ * their own sequence numbers onto this rule.
+ */
+export interface DepthUpdate {
+  U: number;
+  u: number;
+  b: [string, string][];
+  a: [string, string][];
+}
+
 export type OrderbookUiState = 'LIVE' | 'STALE' | 'RESYNCING' | 'UNSEEDED';
 
+/**
+ * strict: any sequence gap forces a resync (the Binance rule).
+ * tolerant: gaps up to MAX_GAP_TOLERANCE are applied anyway.
+ */
+export type OrderbookGapMode = 'strict' | 'tolerant';
+
+// Books resync on any sequence gap unless configured otherwise.
+export const DEFAULT_GAP_MODE: OrderbookGapMode = 'strict';
+
 export interface OrderbookState {
   lastUpdateId: number;
-  bids: Map<number, number>;
-  asks: Map<number, number>;
+  bids: PriceLevels;
+  asks: PriceLevels;
   lastDepthTime: number;
   uiState: OrderbookUiState;
+  gapMode: OrderbookGapMode;
   resyncPromise: Promise<void> | null;
   // New fields for strict Futures Logic
   buffer: any[];
@@ -40,13 +64,14 @@ export interface OrderbookState {
   };
 }
 
-export function createOrderbookState(): OrderbookState {
+export function createOrderbookState(gapMode: OrderbookGapMode = DEFAULT_GAP_MODE): OrderbookState {
   return {
     lastUpdateId: 0,
-    bids: new Map(),
-    asks: new Map(),
+    bids: new PriceLevels('bid'),
+    asks: new PriceLevels('ask'),
     lastDepthTime: 0,
     uiState: 'UNSEEDED',
+    gapMode,
     resyncPromise: null,
     buffer: [],
     lastSeenU_u: '',
@@ -88,10 +113,11 @@ export function applySnapshot(state: OrderbookState, snapshot: DepthCache) {
  * 
  * Tolerant Mode: Small gaps (up to MAX_GAP_TOLERANCE) are accepted and we simply update lastUpdateId.
  * This prevents frequent resyncs due to minor packet loss while maintaining reasonable accuracy.
+ * Strict Mode: any gap is a desync.
  */
-const MAX_GAP_TOLERANCE = 100; // Allow gaps up to 100 sequence IDs before triggering resync
+export const MAX_GAP_TOLERANCE = 100; // Allow gaps up to 100 sequence IDs before triggering resync
 
-export function applyDepthUpdate(state: OrderbookState, update: { U: number; u: number; b: [string, string][]; a: [string, string][] }): boolean {
+export function applyDepthUpdate(state: OrderbookState, update: DepthUpdate): boolean {
   // 1. If UNSEEDED or RESYNCING, Buffer It.
   if (state.lastUpdateId === 0 || state.uiState === 'RESYNCING' || state.uiState === 'UNSEEDED') {
     state.buffer.push(update);
@@ -117,20 +143,20 @@ export function applyDepthUpdate(state: OrderbookState, update: { U: number; u:
     // Perfect match or overlapping - apply normally
     applyDelta(state, update);
     return true;
-  } else if (gap > 0 && gap <= MAX_GAP_TOLERANCE) {
+  } else if (state.gapMode === 'tolerant' && gap > 0 && gap <= MAX_GAP_TOLERANCE) {
     // Small gap detected - accept and apply anyway (tolerant mode)
     // This may cause minor orderbook inaccuracies but prevents constant resyncs
     applyDelta(state, update);
     return true;
   } else {
-    // Large GAP Detected (gap > MAX_GAP_TOLERANCE) - requires resync
+    // GAP Detected (any gap when strict, gap > MAX_GAP_TOLERANCE when tolerant) - requires resync
     state.stats.desyncs++;
     return false; // Caller triggers resync
   }
 }
 
 // Helper function to apply the delta update to orderbook
-function applyDelta(state: OrderbookState, update: { U: number; u: number; b: [string, string][]; a: [string, string][] }) {
+function applyDelta(state: OrderbookState, update: DepthUpdate) {
   for (const [p, q] of update.b) {
     const price = parseFloat(p);
     const qty = parseFloat(q);
@@ -157,24 +183,14 @@ function applyDelta(state: OrderbookState, update: { U: number; u: number; b: [s
  * Compute the best bid (highest price) for the current orderbook.
  */
 export function bestBid(state: OrderbookState): number | null {
-  if (state.bids.size === 0) return null;
-  let max = -Infinity;
-  for (const p of state.bids.keys()) {
-    if (p > max) max = p;
-  }
-  return max;
+  return state.bids.best();
 }
 
 /**
  * Compute the best ask (lowest price) for the current orderbook.
  */
 export function bestAsk(state: OrderbookState): number | null {
-  if (state.asks.size === 0) return null;
-  let min = Infinity;
-  for (const p of state.asks.keys()) {
-    if (p < min) min = p;
-  }
-  return min;
+  return state.asks.best();
 }
 
 /**
@@ -189,15 +205,6 @@ export function getLevelSize(state: OrderbookState, price: number): number | und
   return undefined;
 }
 
-/**
- * Retrieve the top N bid and ask levels from the orderbook.  Bids are
- * returned in descending price order and asks in ascending price order.
- * Each level is a two‑element tuple of [price, size].  This helper
- * is used by the server to expose a depth ladder to the frontend.
- *
- * @param state The orderbook state
- * @param depth The maximum number of levels to return on each side
- */
 /**
  * Retrieve the top N bid and ask levels from the orderbook.  Each
  * returned level includes a cumulative `total` field which is the
@@ -210,25 +217,5 @@ export function getTopLevels(
   state: OrderbookState,
   depth: number
 ): { bids: [number, number, number][]; asks: [number, number, number][] } {
-  // Extract and sort bids descending by price
-  const sortedBids = Array.from(state.bids.entries())
-    .sort((a, b) => b[0] - a[0])
-    .slice(0, depth);
-  // Compute cumulative totals for bids (from best bid downwards)
-  let cumulativeBid = 0;
-  const bidsArray: [number, number, number][] = sortedBids.map(([price, size]) => {
-    cumulativeBid += size;
-    return [price, size, cumulativeBid];
-  });
-  // Extract and sort asks ascending by price
-  const sortedAsks = Array.from(state.asks.entries())
-    .sort((a, b) => a[0] - b[0])
-    .slice(0, depth);
-  // Compute cumulative totals for asks (from best ask upwards)
-  let cumulativeAsk = 0;
-  const asksArray: [number, number, number][] = sortedAsks.map(([price, size]) => {
-    cumulativeAsk += size;
-    return [price, size, cumulativeAsk];
-  });
-  return { bids: bidsArray, asks: asksArray };
-}
\ No newline at end of file
+  return { bids: state.bids.top(depth), asks: state.asks.top(depth) };
+}
@@ -0,0 +1,155 @@
+/**
+ * One side of an orderbook kept sorted by price.
+ *
+ * Prices are held in a plain array ordered from the worst level to the
+ * best one, so the best price is the last element and the inserts and
+ * deletes that cluster around the touch only shift a few entries.
+ * Lookups go through a price → size map and positions are found with a
+ * binary search.  Cumulative size from the best level down is cached as a
+ * prefix-sum array that a mutation only truncates from its own rank, so
+ * churn deep in the book leaves the near-touch sums intact.
+ *
+ * The class keeps the Map surface (`size`, `get`, `set`, `delete`, ...)
+ * the orderbook used before; iteration runs best level first.
+ */
+export type BookSide = 'bid' | 'ask';
+
+export class PriceLevels {
+  // Worst → best: ascending for bids, descending for asks.
+  private readonly prices: number[] = [];
+  private readonly sizes = new Map<number, number>();
+  // cumulative[i] = total size of the best i + 1 levels; valid prefix only.
+  private cumulative: number[] = [];
+
+  constructor(readonly side: BookSide) { }
+
+  get size(): number {
+    return this.prices.length;
+  }
+
+  has(price: number): boolean {
+    return this.sizes.has(price);
+  }
+
+  get(price: number): number | undefined {
+    return this.sizes.get(price);
+  }
+
+  set(price: number, size: number): this {
+    const index = this.indexOf(price);
+    if (!this.sizes.has(price)) {
+      this.prices.splice(index, 0, price);
+    }
+    this.sizes.set(price, size);
+    this.invalidateFrom(this.prices.length - 1 - index);
+    return this;
+  }
+
+  delete(price: number): boolean {
+    if (!this.sizes.has(price)) {
+      return false;
+    }
+    const index = this.indexOf(price);
+    this.prices.splice(index, 1);
+    this.sizes.delete(price);
+    this.invalidateFrom(this.prices.length - index);
+    return true;
+  }
+
+  clear() {
+    this.prices.length = 0;
+    this.sizes.clear();
+    this.cumulative = [];
+  }
+
+  /**
+   * Best price (highest bid / lowest ask) or null when the side is empty.
+   */
+  best(): number | null {
+    return this.prices.length > 0 ? this.prices[this.prices.length - 1] : null;
+  }
+
+  /**
+   * The best `depth` levels as [price, size, cumulative size] tuples.
+   */
+  top(depth: number): [number, number, number][] {
+    const count = Math.min(depth, this.prices.length);
+    this.ensureCumulative(count);
+    const out: [number, number, number][] = new Array(count);
+    for (let i = 0; i < count; i++) {
+      const price = this.prices[this.prices.length - 1 - i];
+      out[i] = [price, this.sizes.get(price) as number, this.cumulative[i]];
+    }
+    return out;
+  }
+
+  /**
+   * Total size of the best `depth` levels.
+   */
+  depth(depth: number): number {
+    const count = Math.min(depth, this.prices.length);
+    if (count <= 0) {
+      return 0;
+    }
+    this.ensureCumulative(count);
+    return this.cumulative[count - 1];
+  }
+
+  *keys(): IterableIterator<number> {
+    for (let i = this.prices.length - 1; i >= 0; i--) {
+      yield this.prices[i];
+    }
+  }
+
+  *values(): IterableIterator<number> {
+    for (const price of this.keys()) {
+      yield this.sizes.get(price) as number;
+    }
+  }
+
+  *entries(): IterableIterator<[number, number]> {
+    for (const price of this.keys()) {
+      yield [price, this.sizes.get(price) as number];
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<[number, number]> {
+    return this.entries();
+  }
+
+  /**
+   * Insertion point of `price` in the worst → best array.
+   */
+  private indexOf(price: number): number {
+    let lo = 0;
+    let hi = this.prices.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >>> 1;
+      if (this.worseThan(this.prices[mid], price)) {
+        lo = mid + 1;
+      } else {
+        hi = mid;
+      }
+    }
+    return lo;
+  }
+
+  private worseThan(a: number, b: number): boolean {
+    return this.side === 'bid' ? a < b : a > b;
+  }
+
+  // Rank 0 is the best level.
+  private invalidateFrom(rank: number) {
+    if (rank < this.cumulative.length) {
+      this.cumulative.length = Math.max(0, rank);
+    }
+  }
+
+  private ensureCumulative(count: number) {
+    let total = this.cumulative.length > 0 ? this.cumulative[this.cumulative.length - 1] : 0;
+    for (let i = this.cumulative.length; i < count; i++) {
+      total += this.sizes.get(this.prices[this.prices.length - 1 - i]) as number;
+      this.cumulative.push(total);
+    }
+  }
+}
@@ -0,0 +1,256 @@
+import * as path from 'path';
+import { AlertSeverity, FiredAlert } from '../alerts/AlertEngine';
+import { OrchestratorNotice } from '../orchestrator/types';
+import { FileChannel, HttpFetch, NotificationChannel, TelegramChannel, WebhookChannel } from './channels';
+
+export type NotificationKind = 'alert' | 'entry' | 'exit' | 'halt' | 'resume' | 'order_error';
+
+export const NOTIFICATION_KINDS: NotificationKind[] = ['alert', 'entry', 'exit', 'halt', 'resume', 'order_error'];
+
+export interface Notification {
+  kind: NotificationKind;
+  severity: AlertSeverity;
+  symbol: string | null;
+  ts: number;
+  // Template fields
+  data: Record<string, unknown>;
+}
+
+export interface NotificationFilter {
+  // Empty or missing passes every kind / symbol.
+  kinds?: NotificationKind[];
+  symbols?: string[];
+  minSeverity?: AlertSeverity;
+}
+
+export interface ChannelRegistration {
+  channel: NotificationChannel;
+  filter?: NotificationFilter;
+  // Non-critical notifications beyond this per rolling minute are dropped; 0 is unlimited.
+  maxPerMinute?: number;
+}
+
+export interface NotificationHubConfig {
+  // Overrides of DEFAULT_TEMPLATES
+  templates?: Partial<Record<NotificationKind, string>>;
+  now?: () => number;
+  onError?: (error: Error, channel: string) => void;
+}
+
+export interface NotificationChannelStatus {
+  name: string;
+  type: string;
+  filter: NotificationFilter;
+  maxPerMinute: number;
+  sent: number;
+  failed: number;
+  rateLimited: number;
+  lastError: string | null;
+}
+
+/**
+ * `{{field}}` is replaced by the notification's symbol, severity, kind,
+ * time (ISO) or a field of its data; unknown fields render as `-`.
+ */
+export const DEFAULT_TEMPLATES: Record<NotificationKind, string> = {
+  alert: '🔔 [{{severity}}] {{symbol}} {{ruleName}}: {{expression}} {{values}}',
+  entry: '📈 {{symbol}} opened {{side}} {{qty}} @ {{entryPrice}}',
+  exit: '📉 {{symbol}} closed {{side}} {{qty}} (entry {{entryPrice}}), realized PnL {{realizedPnl}} USDT',
+  halt: '⛔ {{symbol}} halted: {{reason}}',
+  resume: '✅ {{symbol}} resumed: {{reason}}',
+  order_error: '⚠️ {{symbol}} order error ({{errorClass}} {{code}}): {{message}}',
+};
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, critical: 2 };
+
+type ChannelEntry = {
+  channel: NotificationChannel;
+  filter: NotificationFilter;
+  maxPerMinute: number;
+  sentAt: number[];
+  sent: number;
+  failed: number;
+  rateLimited: number;
+  lastError: string | null;
+};
+
+export function renderTemplate(template: string, notification: Notification): string {
+  const fields: Record<string, unknown> = {
+    ...notification.data,
+    kind: notification.kind,
+    severity: notification.severity,
+    symbol: notification.symbol,
+    time: new Date(notification.ts).toISOString(),
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key: string) => {
+    const value = fields[key];
+    if (value === undefined || value === null) return '-';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+export function alertNotification(alert: FiredAlert): Notification {
+  return {
+    kind: 'alert',
+    severity: alert.severity,
+    symbol: alert.symbol,
+    ts: alert.firedAt,
+    data: { ruleId: alert.ruleId, ruleName: alert.ruleName, expression: alert.expression, values: alert.values },
+  };
+}
+
+export function orchestratorNotification(notice: OrchestratorNotice): Notification {
+  const { type, symbol, event_time_ms, ...data } = notice;
+  const base = { symbol: symbol || null, ts: event_time_ms, data };
+  switch (type) {
+    case 'POSITION_OPENED':
+      return { ...base, kind: 'entry', severity: 'info' };
+    case 'POSITION_CLOSED':
+      return { ...base, kind: 'exit', severity: 'info' };
+    case 'SYSTEM_HALT':
+      return { ...base, kind: 'halt', severity: 'critical' };
+    case 'SYSTEM_RESUME':
+      return { ...base, kind: 'resume', severity: 'info' };
+    default:
+      return { ...base, kind: 'order_error', severity: 'warning' };
+  }
+}
+
+/**
+ * Fans notifications out to channels.  Each channel has its own filter
+ * and rate limit; critical notifications (halts, critical alerts) are
+ * never rate limited.  Delivery never blocks the caller and a failing
+ * channel does not affect the others.
+ */
+export class NotificationHub {
+  private readonly channels: ChannelEntry[] = [];
+  private readonly pending = new Set<Promise<void>>();
+  private readonly now: () => number;
+
+  constructor(private readonly config: NotificationHubConfig = {}) {
+    this.now = config.now || (() => Date.now());
+  }
+
+  addChannel(registration: ChannelRegistration) {
+    this.channels.push({
+      channel: registration.channel,
+      filter: registration.filter || {},
+      maxPerMinute: registration.maxPerMinute ?? 0,
+      sentAt: [],
+      sent: 0,
+      failed: 0,
+      rateLimited: 0,
+      lastError: null,
+    });
+  }
+
+  notify(notification: Notification) {
+    const template = this.config.templates?.[notification.kind] || DEFAULT_TEMPLATES[notification.kind];
+    const text = renderTemplate(template, notification);
+    const now = this.now();
+    for (const entry of this.channels) {
+      if (!matches(entry.filter, notification)) {
+        continue;
+      }
+      if (entry.maxPerMinute > 0 && notification.severity !== 'critical') {
+        entry.sentAt = entry.sentAt.filter((t) => now - t < 60_000);
+        if (entry.sentAt.length >= entry.maxPerMinute) {
+          entry.rateLimited++;
+          continue;
+        }
+        entry.sentAt.push(now);
+      }
+      const delivery = entry.channel.send(notification, text)
+        .then(() => {
+          entry.sent++;
+        })
+        .catch((e: any) => {
+          entry.failed++;
+          entry.lastError = e?.message || String(e);
+          if (this.config.onError) this.config.onError(e, entry.channel.name);
+        })
+        .finally(() => {
+          this.pending.delete(delivery);
+        });
+      this.pending.add(delivery);
+    }
+  }
+
+  getStatus(): NotificationChannelStatus[] {
+    return this.channels.map((e) => ({
+      name: e.channel.name,
+      type: e.channel.type,
+      filter: e.filter,
+      maxPerMinute: e.maxPerMinute,
+      sent: e.sent,
+      failed: e.failed,
+      rateLimited: e.rateLimited,
+      lastError: e.lastError,
+    }));
+  }
+
+  /**
+   * Resolves once every delivery started so far has finished.
+   */
+  async flush() {
+    await Promise.all([...this.pending]);
+  }
+}
+
+function matches(filter: NotificationFilter, n: Notification): boolean {
+  if (filter.kinds && filter.kinds.length > 0 && !filter.kinds.includes(n.kind)) return false;
+  if (filter.symbols && filter.symbols.length > 0 && (!n.symbol || !filter.symbols.includes(n.symbol))) return false;
+  if (filter.minSeverity && SEVERITY_RANK[n.severity] < SEVERITY_RANK[filter.minSeverity]) return false;
+  return true;
+}
+
+function filterFromEnv(prefix: string): NotificationFilter {
+  const list = (name: string) => String(process.env[`${prefix}_${name}`] || '').split(',').map((x) => x.trim()).filter(Boolean);
+  const minSeverity = process.env[`${prefix}_MIN_SEVERITY`] as AlertSeverity | undefined;
+  return {
+    kinds: list('KINDS').filter((k): k is NotificationKind => (NOTIFICATION_KINDS as string[]).includes(k)),
+    symbols: list('SYMBOLS').map((s) => s.toUpperCase()),
+    minSeverity: minSeverity && minSeverity in SEVERITY_RANK ? minSeverity : undefined,
+  };
+}
+
+/**
+ * Channels are enabled by their settings: NOTIFY_TELEGRAM_BOT_TOKEN +
+ * NOTIFY_TELEGRAM_CHAT_ID, NOTIFY_WEBHOOK_URL, NOTIFY_FILE_ENABLED.
+ */
+export function createNotificationHubFromEnv(deps: { fetch?: HttpFetch; onError?: NotificationHubConfig['onError'] } = {}): NotificationHub {
+  const templates: Partial<Record<NotificationKind, string>> = {};
+  for (const kind of NOTIFICATION_KINDS) {
+    const template = process.env[`NOTIFY_TEMPLATE_${kind.toUpperCase()}`];
+    if (template) templates[kind] = template;
+  }
+  const hub = new NotificationHub({ templates, onError: deps.onError });
+  const maxPerMinute = Number(process.env.NOTIFY_MAX_PER_MINUTE || 20);
+
+  if (process.env.NOTIFY_TELEGRAM_BOT_TOKEN && process.env.NOTIFY_TELEGRAM_CHAT_ID) {
+    hub.addChannel({
+      channel: new TelegramChannel({
+        botToken: process.env.NOTIFY_TELEGRAM_BOT_TOKEN,
+        chatId: process.env.NOTIFY_TELEGRAM_CHAT_ID,
+        apiBase: process.env.NOTIFY_TELEGRAM_API_BASE || undefined,
+        fetch: deps.fetch,
+      }),
+      filter: filterFromEnv('NOTIFY_TELEGRAM'),
+      maxPerMinute,
+    });
+  }
+  if (process.env.NOTIFY_WEBHOOK_URL) {
+    hub.addChannel({
+      channel: new WebhookChannel({ url: process.env.NOTIFY_WEBHOOK_URL, fetch: deps.fetch }),
+      filter: filterFromEnv('NOTIFY_WEBHOOK'),
+      maxPerMinute,
+    });
+  }
+  if (String(process.env.NOTIFY_FILE_ENABLED || 'false').toLowerCase() === 'true') {
+    hub.addChannel({
+      channel: new FileChannel(process.env.NOTIFY_FILE_PATH || path.resolve(__dirname, '../logs/notifications.jsonl')),
+      filter: filterFromEnv('NOTIFY_FILE'),
+    });
+  }
+  return hub;
+}
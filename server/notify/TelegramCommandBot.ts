@@ -0,0 +1,281 @@
+import { callTelegram, HttpFetch } from './channels';
+
+/**
+ * The orchestrator surface the bot drives; Orchestrator implements it.
+ */
+export interface TelegramCommandTarget {
+  getExecutionStatus(): {
+    connection: { state: string; executionEnabled: boolean };
+    selectedSymbols: string[];
+    risk: { halted: boolean; haltReason: string | null; dailyPnl: number };
+    wallet: { totalWalletUsdt: number; availableBalanceUsdt: number; realizedPnl: number; unrealizedPnl: number; totalPnl: number };
+    openPositions: Record<string, { side: string; size: number; entryPrice: number; leverage: number }>;
+  };
+  setExecutionEnabled(enabled: boolean): Promise<void>;
+  setSymbolHalted(symbol: string, halted: boolean, reason: string): boolean;
+  flattenPositions(): Promise<{ closed: string[]; failed: { symbol: string; error: string }[] }>;
+  disconnectExecution(): Promise<void>;
+}
+
+export interface TelegramCommandBotConfig {
+  botToken: string;
+  // Bot API root; point at a local mock in tests.
+  apiBase?: string;
+  // Messages from other chats are ignored.
+  allowedChatIds: string[];
+  // getUpdates long-poll timeout
+  pollTimeoutSec: number;
+  // How long /confirm accepts a pending /flatten or /kill
+  confirmTimeoutMs: number;
+  retryDelayMs?: number;
+  fetch?: HttpFetch;
+  now?: () => number;
+  log?: (event: string, data: Record<string, unknown>) => void;
+}
+
+type DestructiveCommand = 'flatten' | 'kill';
+
+type PendingConfirmation = {
+  command: DestructiveCommand;
+  expiresAt: number;
+};
+
+const HELP = [
+  '/status - connection, execution and risk state',
+  '/positions - open positions',
+  '/pnl - realized and unrealized PnL',
+  '/pause SYMBOL - stop new entries on a symbol',
+  '/resume SYMBOL - allow entries again',
+  '/flatten - halt, cancel orders and close all positions (asks to confirm)',
+  '/kill - flatten, disable execution and disconnect (asks to confirm)',
+].join('\n');
+
+const CONFIRM_PROMPT: Record<DestructiveCommand, string> = {
+  flatten: 'halt every symbol and close its position with a market order',
+  kill: 'close every position, disable execution and disconnect',
+};
+
+/**
+ * Remote control of the orchestrator through Telegram bot commands.
+ *
+ * Updates are fetched with getUpdates long polling.  Only chats in the
+ * allowlist are answered.  /flatten and /kill only take effect after a
+ * /confirm from the same chat within confirmTimeoutMs.
+ */
+export class TelegramCommandBot {
+  private readonly fetch: HttpFetch;
+  private readonly now: () => number;
+  private readonly pending = new Map<string, PendingConfirmation>();
+  private offset = 0;
+  private running = false;
+
+  constructor(private readonly target: TelegramCommandTarget, private readonly config: TelegramCommandBotConfig) {
+    this.fetch = config.fetch || ((url, init) => fetch(url, init));
+    this.now = config.now || (() => Date.now());
+  }
+
+  start() {
+    if (this.running) return;
+    this.running = true;
+    void this.loop();
+  }
+
+  /**
+   * Ends the polling loop once the request in flight returns.
+   */
+  stop() {
+    this.running = false;
+  }
+
+  /**
+   * Fetches one batch of updates and answers them; returns how many there were.
+   */
+  async pollOnce(): Promise<number> {
+    const updates: any[] = await callTelegram(this.fetch, this.config, 'getUpdates', {
+      offset: this.offset,
+      timeout: this.config.pollTimeoutSec,
+      allowed_updates: ['message'],
+    });
+    for (const update of updates) {
+      this.offset = Math.max(this.offset, Number(update.update_id) + 1);
+      const message = update.message;
+      if (!message || typeof message.text !== 'string' || !message.chat) {
+        continue;
+      }
+      const chatId = String(message.chat.id);
+      if (!this.config.allowedChatIds.includes(chatId)) {
+        this.log('TELEGRAM_UNAUTHORIZED', { chatId });
+        continue;
+      }
+      const reply = await this.handle(chatId, message.text);
+      if (reply) {
+        await callTelegram(this.fetch, this.config, 'sendMessage', { chat_id: chatId, text: reply });
+      }
+    }
+    return updates.length;
+  }
+
+  private async loop() {
+    while (this.running) {
+      try {
+        await this.pollOnce();
+      } catch (e: any) {
+        this.log('TELEGRAM_POLL_ERROR', { error: e?.message || String(e) });
+        await new Promise((resolve) => setTimeout(resolve, this.config.retryDelayMs ?? 5000));
+      }
+    }
+  }
+
+  private async handle(chatId: string, text: string): Promise<string | null> {
+    const [head, ...args] = text.trim().split(/\s+/);
+    if (!head.startsWith('/')) {
+      return null;
+    }
+    // `/status@my_bot` in group chats
+    const command = head.slice(1).split('@')[0].toLowerCase();
+    this.log('TELEGRAM_COMMAND', { chatId, command, args });
+    try {
+      switch (command) {
+        case 'start':
+        case 'help':
+          return HELP;
+        case 'status':
+          return this.status();
+        case 'positions':
+          return this.positions();
+        case 'pnl':
+          return this.pnl();
+        case 'pause':
+        case 'resume':
+          return this.setHalted(args[0], command === 'pause');
+        case 'flatten':
+        case 'kill':
+          this.pending.set(chatId, { command, expiresAt: this.now() + this.config.confirmTimeoutMs });
+          return `This will ${CONFIRM_PROMPT[command]}. Send /confirm within ${Math.round(this.config.confirmTimeoutMs / 1000)}s or /cancel.`;
+        case 'confirm':
+          return await this.confirm(chatId);
+        case 'cancel':
+          return this.pending.delete(chatId) ? 'Cancelled.' : 'Nothing to cancel.';
+        default:
+          return `Unknown command /${command}.\n${HELP}`;
+      }
+    } catch (e: any) {
+      return `/${command} failed: ${e?.message || String(e)}`;
+    }
+  }
+
+  private status(): string {
+    const status = this.target.getExecutionStatus();
+    const lines = [
+      `Connection: ${status.connection.state}`,
+      `Execution: ${status.connection.executionEnabled ? 'enabled' : 'disabled'}`,
+      `Symbols: ${status.selectedSymbols.join(', ') || '-'}`,
+      `Risk: ${status.risk.halted ? `halted (${status.risk.haltReason})` : 'ok'}`,
+      `Open positions: ${Object.keys(status.openPositions).length}`,
+    ];
+    return lines.join('\n');
+  }
+
+  private positions(): string {
+    const entries = Object.entries(this.target.getExecutionStatus().openPositions);
+    if (entries.length === 0) {
+      return 'No open positions.';
+    }
+    return entries
+      .map(([symbol, p]) => `${symbol} ${p.side} ${p.size} @ ${p.entryPrice} (${p.leverage}x)`)
+      .join('\n');
+  }
+
+  private pnl(): string {
+    const { wallet, risk } = this.target.getExecutionStatus();
+    return [
+      `Realized: ${wallet.realizedPnl.toFixed(2)} USDT`,
+      `Unrealized: ${wallet.unrealizedPnl.toFixed(2)} USDT`,
+      `Total: ${wallet.totalPnl.toFixed(2)} USDT`,
+      `Today: ${risk.dailyPnl.toFixed(2)} USDT`,
+      `Wallet: ${wallet.totalWalletUsdt.toFixed(2)} USDT (${wallet.availableBalanceUsdt.toFixed(2)} available)`,
+    ].join('\n');
+  }
+
+  private setHalted(rawSymbol: string | undefined, halted: boolean): string {
+    const verb = halted ? 'pause' : 'resume';
+    if (!rawSymbol) {
+      return `Usage: /${verb} SYMBOL`;
+    }
+    const symbol = rawSymbol.toUpperCase();
+    if (!this.target.setSymbolHalted(symbol, halted, `telegram_${verb}`)) {
+      return `${symbol} is not selected for execution.`;
+    }
+    return halted ? `${symbol} paused: no new entries.` : `${symbol} resumed.`;
+  }
+
+  private async confirm(chatId: string): Promise<string> {
+    const pending = this.pending.get(chatId);
+    this.pending.delete(chatId);
+    if (!pending || this.now() > pending.expiresAt) {
+      return 'Nothing to confirm.';
+    }
+    this.log('TELEGRAM_CONFIRMED', { chatId, command: pending.command });
+    if (pending.command === 'flatten') {
+      return this.flatten();
+    }
+    // A failed flatten must not keep the kill switch from disconnecting.
+    let flattened: string;
+    try {
+      flattened = await this.flatten();
+    } catch (e: any) {
+      flattened = `Flatten failed: ${e?.message || String(e)}`;
+    }
+    await this.target.setExecutionEnabled(false);
+    await this.target.disconnectExecution();
+    return `${flattened}\nExecution disabled and disconnected.`;
+  }
+
+  private async flatten(): Promise<string> {
+    const { closed, failed } = await this.target.flattenPositions();
+    const lines: string[] = [];
+    if (closed.length > 0) {
+      lines.push(`Closing ${closed.join(', ')}.`);
+    }
+    if (failed.length > 0) {
+      lines.push(`Failed: ${failed.map((f) => `${f.symbol} (${f.error})`).join(', ')}.`);
+    }
+    if (lines.length === 0) {
+      lines.push('No positions to close.');
+    }
+    // flattenPositions halts every symbol so the strategy cannot re-enter
+    lines.push('Symbols halted; /resume SYMBOL to trade again.');
+    return lines.join('\n');
+  }
+
+  private log(event: string, data: Record<string, unknown>) {
+    if (this.config.log) {
+      this.config.log(event, data);
+    }
+  }
+}
+
+/**
+ * Enabled by TELEGRAM_COMMANDS_ENABLED; shares the bot token with the
+ * Telegram notification channel.  Returns null when disabled.
+ */
+export function createTelegramCommandBotFromEnv(
+  target: TelegramCommandTarget,
+  deps: { fetch?: HttpFetch; log?: TelegramCommandBotConfig['log'] } = {}
+): TelegramCommandBot | null {
+  const enabled = String(process.env.TELEGRAM_COMMANDS_ENABLED || 'false').toLowerCase() === 'true';
+  const botToken = process.env.NOTIFY_TELEGRAM_BOT_TOKEN;
+  if (!enabled || !botToken) {
+    return null;
+  }
+  const allowed = process.env.TELEGRAM_ALLOWED_CHAT_IDS || process.env.NOTIFY_TELEGRAM_CHAT_ID || '';
+  return new TelegramCommandBot(target, {
+    botToken,
+    apiBase: process.env.NOTIFY_TELEGRAM_API_BASE || undefined,
+    allowedChatIds: allowed.split(',').map((x) => x.trim()).filter(Boolean),
+    pollTimeoutSec: Number(process.env.TELEGRAM_POLL_TIMEOUT_S || 25),
+    confirmTimeoutMs: Number(process.env.TELEGRAM_CONFIRM_TIMEOUT_MS || 30_000),
+    fetch: deps.fetch,
+    log: deps.log,
+  });
+}
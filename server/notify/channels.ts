@@ -0,0 +1,109 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Notification } from './NotificationHub';
+
+export type HttpFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface NotificationChannel {
+  readonly name: string;
+  readonly type: 'telegram' | 'webhook' | 'file';
+  // `text` is the rendered template; rejects when delivery failed.
+  send(notification: Notification, text: string): Promise<void>;
+}
+
+export interface TelegramChannelConfig {
+  botToken: string;
+  chatId: string;
+  // Bot API root; point at a local mock in tests.
+  apiBase?: string;
+  fetch?: HttpFetch;
+}
+
+/**
+ * Sends plain-text messages through the Telegram Bot API.
+ */
+export class TelegramChannel implements NotificationChannel {
+  readonly name = 'telegram';
+  readonly type = 'telegram';
+  private readonly fetch: HttpFetch;
+
+  constructor(private readonly config: TelegramChannelConfig) {
+    this.fetch = config.fetch || ((url, init) => fetch(url, init));
+  }
+
+  async send(_notification: Notification, text: string) {
+    await callTelegram(this.fetch, this.config, 'sendMessage', {
+      chat_id: this.config.chatId,
+      text,
+      disable_web_page_preview: true,
+    });
+  }
+}
+
+/**
+ * POSTs a Bot API method and returns its `result`; throws on HTTP or API
+ * errors with Telegram's description.
+ */
+export async function callTelegram(
+  http: HttpFetch,
+  config: { botToken: string; apiBase?: string },
+  method: string,
+  body: Record<string, unknown>
+): Promise<any> {
+  const apiBase = config.apiBase || 'https://api.telegram.org';
+  const res = await http(`${apiBase}/bot${config.botToken}/${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const data: any = await res.json().catch(() => null);
+  if (!res.ok || !data?.ok) {
+    throw new Error(`telegram_${method}_failed:${res.status}:${data?.description || 'no_body'}`);
+  }
+  return data.result;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  headers?: Record<string, string>;
+  fetch?: HttpFetch;
+}
+
+/**
+ * POSTs `{ kind, severity, symbol, ts, text, data }` as JSON.
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+  readonly type = 'webhook';
+  private readonly fetch: HttpFetch;
+
+  constructor(private readonly config: WebhookChannelConfig) {
+    this.fetch = config.fetch || ((url, init) => fetch(url, init));
+  }
+
+  async send(notification: Notification, text: string) {
+    const res = await this.fetch(this.config.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.config.headers },
+      body: JSON.stringify({ ...notification, text }),
+    });
+    if (!res.ok) {
+      throw new Error(`webhook_failed:${res.status}`);
+    }
+  }
+}
+
+/**
+ * Appends one JSON line per notification.
+ */
+export class FileChannel implements NotificationChannel {
+  readonly name = 'file';
+  readonly type = 'file';
+
+  constructor(private readonly filePath: string) {}
+
+  async send(notification: Notification, text: string) {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.appendFile(this.filePath, `${JSON.stringify({ ...notification, text })}\n`);
+  }
+}
@@ -1,28 +1,66 @@
-import { ExecutionEvent } from '../connectors/executionTypes';
+import { ExecutionEvent, OrderType } from '../connectors/executionTypes';
 import { DecisionEngine } from './Decision';
 import {
   ActorEnvelope,
   DecisionAction,
   MetricsEventEnvelope,
   OpenOrderState,
+  OrderRole,
+  PositionState,
+  RiskRejection,
   SymbolState,
 } from './types';
 
+// Client order id prefixes of the protective orders this actor manages.
+const STOP_LOSS_PREFIX = 'sl_';
+const TAKE_PROFIT_PREFIX = 'tp_';
+
+function orderRole(order: { orderType: OrderType; reduceOnly: boolean; closePosition?: boolean }): OrderRole {
+  if (order.orderType === 'STOP_MARKET') {
+    return 'STOP_LOSS';
+  }
+  if (order.orderType === 'TAKE_PROFIT_MARKET') {
+    return 'TAKE_PROFIT';
+  }
+  return order.reduceOnly || order.closePosition ? 'EXIT' : 'ENTRY';
+}
+
+/**
+ * Mark-to-market PnL in USDT and in percent of the initial margin.
+ */
+function markToMarket(side: PositionState['side'], qty: number, entryPrice: number, mark: number, leverage: number) {
+  const pnlUsdt = (side === 'LONG' ? mark - entryPrice : entryPrice - mark) * qty;
+  const margin = (qty * entryPrice) / (leverage > 0 ? leverage : 1);
+  return { pnlUsdt, pnlPct: margin > 0 ? (pnlUsdt / margin) * 100 : 0 };
+}
+
+export interface ExpectedOrderMeta {
+  expectedPrice: number | null;
+  sentAtMs: number;
+  tag: 'entry' | 'add' | 'exit';
+  cancelAfterMs?: number;
+}
+
 export interface SymbolActorDeps {
   symbol: string;
   decisionEngine: DecisionEngine;
   onActions: (actions: DecisionAction[]) => Promise<void>;
+  // Portfolio risk check run on every batch before it reaches onActions.
+  vetActions: (actions: DecisionAction[]) => { accepted: DecisionAction[]; rejections: RiskRejection[] };
   onDecisionLogged: (record: {
     symbol: string;
     canonical_time_ms: number;
     exchange_event_time_ms: number | null;
-    gate: MetricsEventEnvelope['gate'];
+    gate: MetricsEventEnvelope['gate'] | null;
     actions: DecisionAction[];
+    rejections: RiskRejection[];
     state: SymbolState;
   }) => void;
   onExecutionLogged: (event: ExecutionEvent | (ExecutionEvent & { slippage_bps?: number; execution_latency_ms?: number }), state: SymbolState) => void;
-  getExpectedOrderMeta: (orderId: string) => { expectedPrice: number | null; sentAtMs: number; tag: 'entry' | 'add' | 'exit' } | null;
+  getExpectedOrderMeta: (orderId: string) => ExpectedOrderMeta | null;
   markAddUsed: () => void;
+  // Leverage used to size positions; sets the margin base of unrealizedPnlPct.
+  getLeverage: () => number;
   cooldownConfig: { minMs: number; maxMs: number };
 }
 
@@ -31,6 +69,11 @@ export class SymbolActor {
   private processing = false;
   private lastDeltaZ = 0;
   private lastPrintsPerSecond = 0;
+  private lastMid: number | null = null;
+  private readonly cancelsRequested = new Set<string>();
+  // Protective orders placed for the current position, by client order id.
+  private readonly protectiveClientOrderIds = new Set<string>();
+  private protectedPosition: Pick<PositionState, 'side' | 'qty' | 'entryPrice'> | null = null;
 
   readonly state: SymbolState;
 
@@ -70,6 +113,10 @@ export class SymbolActor {
     return !this.processing && this.queue.length === 0;
   }
 
+  getQueueDepth(): number {
+    return this.queue.length;
+  }
+
   private async processQueue() {
     while (this.queue.length > 0) {
       const event = this.queue.shift()!;
@@ -77,6 +124,24 @@ export class SymbolActor {
         await this.onMetrics(event);
       } else {
         this.onExecutionEvent(event.execution);
+        const { accepted, rejections } = this.deps.vetActions([
+          ...this.protectiveOrderActions(event.execution),
+          ...this.deps.decisionEngine.onExecution({ symbol: this.state.symbol, event: event.execution, state: this.state }),
+        ]);
+        if (rejections.length > 0) {
+          this.deps.onDecisionLogged({
+            symbol: this.state.symbol,
+            canonical_time_ms: event.event_time_ms,
+            exchange_event_time_ms: event.event_time_ms,
+            gate: null,
+            actions: accepted,
+            rejections,
+            state: this.snapshotState(),
+          });
+        }
+        if (accepted.length > 0) {
+          await this.deps.onActions(accepted);
+        }
       }
     }
     this.processing = false;
@@ -85,14 +150,22 @@ export class SymbolActor {
   private async onMetrics(envelope: MetricsEventEnvelope) {
     this.lastDeltaZ = envelope.metrics.legacyMetrics?.deltaZ || 0;
     this.lastPrintsPerSecond = envelope.metrics.prints_per_second || 0;
+    const { best_bid: bid, best_ask: ask } = envelope.metrics;
+    if (bid && ask) {
+      this.lastMid = (bid + ask) / 2;
+    }
+    this.markPosition();
 
-    const actions = this.deps.decisionEngine.evaluate({
-      symbol: envelope.symbol,
-      event_time_ms: envelope.canonical_time_ms,
-      gate: envelope.gate,
-      metrics: envelope.metrics,
-      state: this.state,
-    });
+    const { accepted: actions, rejections } = this.deps.vetActions([
+      ...this.expiredEntryCancels(envelope.canonical_time_ms),
+      ...this.deps.decisionEngine.evaluate({
+        symbol: envelope.symbol,
+        event_time_ms: envelope.canonical_time_ms,
+        gate: envelope.gate,
+        metrics: envelope.metrics,
+        state: this.state,
+      }),
+    ]);
 
     this.deps.onDecisionLogged({
       symbol: envelope.symbol,
@@ -100,6 +173,7 @@ export class SymbolActor {
       exchange_event_time_ms: envelope.exchange_event_time_ms,
       gate: envelope.gate,
       actions,
+      rejections,
       state: this.snapshotState(),
     });
 
@@ -125,34 +199,60 @@ export class SymbolActor {
       const terminal = event.status === 'FILLED' || event.status === 'CANCELED' || event.status === 'REJECTED' || event.status === 'EXPIRED';
       if (terminal) {
         this.state.openOrders.delete(event.orderId);
+        this.cancelsRequested.delete(event.orderId);
+        if (event.status === 'REJECTED' || event.status === 'EXPIRED') {
+          this.protectiveOrderFailed(event.clientOrderId);
+        }
+        this.protectiveClientOrderIds.delete(event.clientOrderId);
       } else {
+        const role = orderRole(event);
         this.state.openOrders.set(event.orderId, {
           orderId: event.orderId,
           clientOrderId: event.clientOrderId,
           side: event.side,
           orderType: event.orderType,
+          role,
           status: event.status,
           origQty: event.origQty,
           executedQty: event.executedQty,
           reduceOnly: event.reduceOnly,
           event_time_ms: event.event_time_ms,
+          stopPrice: event.stopPrice ?? null,
+          cancel_at_ms: this.resolveCancelAt(event.orderId, role),
         });
       }
 
-      this.state.hasOpenEntryOrder = Array.from(this.state.openOrders.values()).some((o) => !o.reduceOnly);
+      this.state.hasOpenEntryOrder = this.hasEntryOrder();
       this.deps.onExecutionLogged(event, this.snapshotState());
       return;
     }
 
     if (event.type === 'OPEN_ORDERS_SNAPSHOT') {
+      const previous = new Map(this.state.openOrders);
       this.state.openOrders.clear();
       for (const order of event.orders) {
+        const role = orderRole(order);
         this.state.openOrders.set(order.orderId, {
-          ...order,
+          orderId: order.orderId,
+          clientOrderId: order.clientOrderId,
+          side: order.side,
+          orderType: order.orderType,
+          role,
+          status: order.status,
+          origQty: order.origQty,
+          executedQty: order.executedQty,
+          reduceOnly: order.reduceOnly,
           event_time_ms: event.event_time_ms,
+          stopPrice: order.stopPrice ?? null,
+          cancel_at_ms: previous.get(order.orderId)?.cancel_at_ms ?? this.resolveCancelAt(order.orderId, role),
         });
       }
-      this.state.hasOpenEntryOrder = Array.from(this.state.openOrders.values()).some((o) => !o.reduceOnly);
+      for (const orderId of this.cancelsRequested) {
+        if (!this.state.openOrders.has(orderId)) {
+          this.cancelsRequested.delete(orderId);
+        }
+      }
+      this.state.hasOpenEntryOrder = this.hasEntryOrder();
       this.deps.onExecutionLogged(event, this.snapshotState());
       return;
     }
@@ -172,7 +272,7 @@ export class SymbolActor {
 
         this.pushExecQuality(latency, slippageBps);
         if (expected.tag === 'add' && this.state.position) {
-          this.state.position.addsUsed = Math.min(2, this.state.position.addsUsed + 1);
+          this.state.position.addsUsed += 1;
         }
       }
 
@@ -194,14 +294,20 @@ export class SymbolActor {
         this.state.position = null;
       } else {
         const side = event.positionAmt > 0 ? 'LONG' : 'SHORT';
-        const prevPeak = this.state.position?.peakPnlPct ?? event.unrealizedPnL;
+        const previous = this.state.position?.side === side ? this.state.position : null;
+        // Until the first book tick, the exchange's unrealized PnL stands in for the mark.
+        const { pnlUsdt, pnlPct } = this.lastMid !== null
+          ? markToMarket(side, qty, event.entryPrice, this.lastMid, this.deps.getLeverage())
+          : markToMarket(side, qty, event.entryPrice, event.entryPrice + event.unrealizedPnL / event.positionAmt, this.deps.getLeverage());
         this.state.position = {
           side,
           qty,
           entryPrice: event.entryPrice,
-          unrealizedPnlPct: event.unrealizedPnL,
-          addsUsed: this.state.position?.addsUsed ?? 0,
-          peakPnlPct: Math.max(prevPeak, event.unrealizedPnL),
+          markPrice: this.lastMid,
+          unrealizedPnlUsdt: pnlUsdt,
+          unrealizedPnlPct: pnlPct,
+          addsUsed: previous?.addsUsed ?? 0,
+          peakPnlPct: previous ? Math.max(previous.peakPnlPct, pnlPct) : pnlPct,
         };
       }
 
@@ -220,6 +326,177 @@ export class SymbolActor {
     }
   }
 
+  private markPosition() {
+    const position = this.state.position;
+    if (!position || this.lastMid === null) {
+      return;
+    }
+    const { pnlUsdt, pnlPct } = markToMarket(position.side, position.qty, position.entryPrice, this.lastMid, this.deps.getLeverage());
+    position.markPrice = this.lastMid;
+    position.unrealizedPnlUsdt = pnlUsdt;
+    position.unrealizedPnlPct = pnlPct;
+    position.peakPnlPct = Math.max(position.peakPnlPct, pnlPct);
+  }
+
+  private hasEntryOrder(): boolean {
+    return Array.from(this.state.openOrders.values()).some((o) => o.role === 'ENTRY');
+  }
+
+  private resolveCancelAt(orderId: string, role: OrderRole): number | null {
+    const existing = this.state.openOrders.get(orderId);
+    if (existing?.cancel_at_ms) {
+      return existing.cancel_at_ms;
+    }
+    if (role !== 'ENTRY') {
+      return null;
+    }
+    const expected = this.deps.getExpectedOrderMeta(orderId);
+    return expected?.cancelAfterMs ? expected.sentAtMs + expected.cancelAfterMs : null;
+  }
+
+  /**
+   * Cancels resting entry orders whose timeout has passed.  Each order is
+   * only asked to cancel once; the ORDER_UPDATE that follows removes it.
+   */
+  private expiredEntryCancels(nowMs: number): DecisionAction[] {
+    const actions: DecisionAction[] = [];
+    for (const order of this.state.openOrders.values()) {
+      if (order.role !== 'ENTRY' || !order.cancel_at_ms || nowMs < order.cancel_at_ms || this.cancelsRequested.has(order.orderId)) {
+        continue;
+      }
+      this.cancelsRequested.add(order.orderId);
+      actions.push({
+        type: 'CANCEL_ORDER',
+        symbol: this.state.symbol,
+        event_time_ms: nowMs,
+        orderId: order.orderId,
+        clientOrderId: order.clientOrderId,
+        reason: 'entry_limit_timeout',
+      });
+    }
+    return actions;
+  }
+
+  /**
+   * Marks the position unprotected after one of its protective orders was
+   * rejected, expired or never sent, so the next account update or
+   * open-orders snapshot places the pair again.
+   */
+  protectiveOrderFailed(clientOrderId: string) {
+    if (this.protectiveClientOrderIds.delete(clientOrderId)) {
+      this.protectedPosition = null;
+    }
+  }
+
+  /**
+   * Keeps one reduce-only stop-loss and take-profit (closePosition) resting
+   * on the exchange for the open position.  They are replaced whenever the
+   * position size or entry price changes (entry fills, adds) or a leg
+   * failed, and cancelled once an ACCOUNT_UPDATE reports the symbol flat.
+   * Protective orders left over from an earlier session are cancelled when
+   * an open-orders snapshot shows them.
+   */
+  private protectiveOrderActions(event: ExecutionEvent): DecisionAction[] {
+    if (event.type === 'OPEN_ORDERS_SNAPSHOT') {
+      const actions = this.staleProtectiveCancels(event.event_time_ms);
+      if (this.state.position && !this.protectedPosition) {
+        actions.push(...this.protectivePlacements(this.state.position, event.event_time_ms));
+      }
+      return actions;
+    }
+    if (event.type !== 'ACCOUNT_UPDATE') {
+      return [];
+    }
+
+    const position = this.state.position;
+    const nowMs = event.event_time_ms;
+    if (!position) {
+      this.protectedPosition = null;
+      return this.protectiveCancels(nowMs, 'protective_position_flat');
+    }
+
+    const covered = this.protectedPosition;
+    if (covered && covered.side === position.side && covered.qty === position.qty && covered.entryPrice === position.entryPrice) {
+      return [];
+    }
+    return this.protectivePlacements(position, nowMs);
+  }
+
+  private protectivePlacements(position: PositionState, nowMs: number): DecisionAction[] {
+    const { stopLoss, takeProfit } = this.deps.decisionEngine.computeProtectivePrices(this.state.symbol, position);
+    if (stopLoss === null && takeProfit === null) {
+      return [];
+    }
+
+    const actions = this.protectiveCancels(nowMs, 'protective_resize');
+    const closeSide = position.side === 'LONG' ? 'SELL' : 'BUY';
+    const legs: Array<[OrderType, string, number | null]> = [
+      ['STOP_MARKET', STOP_LOSS_PREFIX, stopLoss],
+      ['TAKE_PROFIT_MARKET', TAKE_PROFIT_PREFIX, takeProfit],
+    ];
+    for (const [orderType, prefix, stopPrice] of legs) {
+      if (stopPrice === null) {
+        continue;
+      }
+      const clientOrderId = `${prefix}${this.state.symbol}_${nowMs}`.slice(0, 36);
+      this.protectiveClientOrderIds.add(clientOrderId);
+      actions.push({
+        type: 'PLACE_PROTECTIVE',
+        symbol: this.state.symbol,
+        event_time_ms: nowMs,
+        side: closeSide,
+        quantity: position.qty,
+        orderType,
+        stopPrice,
+        reduceOnly: true,
+        clientOrderId,
+        reason: orderType === 'STOP_MARKET' ? 'protective_stop_loss' : 'protective_take_profit',
+        expectedPrice: stopPrice,
+      });
+    }
+    this.protectedPosition = { side: position.side, qty: position.qty, entryPrice: position.entryPrice };
+    return actions;
+  }
+
+  private protectiveCancels(nowMs: number, reason: string): DecisionAction[] {
+    const clientOrderIds = new Set(this.protectiveClientOrderIds);
+    for (const order of this.state.openOrders.values()) {
+      if ((order.role === 'STOP_LOSS' || order.role === 'TAKE_PROFIT') && !this.cancelsRequested.has(order.orderId)) {
+        clientOrderIds.add(order.clientOrderId);
+        this.cancelsRequested.add(order.orderId);
+      }
+    }
+    this.protectiveClientOrderIds.clear();
+
+    return Array.from(clientOrderIds).map((clientOrderId) => ({
+      type: 'CANCEL_ORDER' as const,
+      symbol: this.state.symbol,
+      event_time_ms: nowMs,
+      clientOrderId,
+      reason,
+    }));
+  }
+
+  private staleProtectiveCancels(nowMs: number): DecisionAction[] {
+    const actions: DecisionAction[] = [];
+    for (const order of this.state.openOrders.values()) {
+      const ours = order.clientOrderId.startsWith(STOP_LOSS_PREFIX) || order.clientOrderId.startsWith(TAKE_PROFIT_PREFIX);
+      if (!ours || this.protectiveClientOrderIds.has(order.clientOrderId) || this.cancelsRequested.has(order.orderId)) {
+        continue;
+      }
+      this.cancelsRequested.add(order.orderId);
+      actions.push({
+        type: 'CANCEL_ORDER',
+        symbol: this.state.symbol,
+        event_time_ms: nowMs,
+        orderId: order.orderId,
+        clientOrderId: order.clientOrderId,
+        reason: 'protective_stale',
+      });
+    }
+    return actions;
+  }
+
   private pushExecQuality(latencyMs: number, slippageBps: number) {
     this.state.execQuality.recentLatencyMs.push(latencyMs);
     this.state.execQuality.recentSlippageBps.push(slippageBps);
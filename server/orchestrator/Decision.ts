@@ -1,12 +1,26 @@
-import { DecisionAction, GateResult, OrchestratorMetricsInput, SymbolState } from './types';
+import { ExecutionEvent } from '../connectors/executionTypes';
+import { EntryOrderParams, Strategy, StrategyParams, StrategyTools } from './Strategy';
+import {
+  DecisionAction,
+  EntryOrderConfig,
+  GateResult,
+  OrchestratorMetricsInput,
+  PositionState,
+  ProtectiveOrderConfig,
+  SymbolState,
+} from './types';
 
 export interface DecisionDependencies {
   expectedPrice: (symbol: string, side: 'BUY' | 'SELL', type: 'MARKET' | 'LIMIT', limitPrice?: number) => number | null;
   getRiskPerTradePercent: () => number;
   getMaxLeverage: () => number;
+  getEntryOrderConfig: () => EntryOrderConfig;
+  getProtectiveOrderConfig: () => ProtectiveOrderConfig;
+  getPriceTickSize: (symbol: string) => number | null;
+  getStrategy: (symbol: string) => { strategy: Strategy; params: StrategyParams };
 }
 
-export class DecisionEngine {
+export class DecisionEngine implements StrategyTools {
   constructor(private readonly deps: DecisionDependencies) { }
 
   evaluate(input: {
@@ -16,114 +30,13 @@ export class DecisionEngine {
     metrics: OrchestratorMetricsInput;
     state: SymbolState;
   }): DecisionAction[] {
-    const { gate, metrics, state, symbol, event_time_ms } = input;
-    const actions: DecisionAction[] = [];
-
-    if (!gate.passed) {
-      return [{ type: 'NOOP', symbol, event_time_ms, reason: `gate_fail:${gate.reason || 'unknown'}` }];
-    }
-
-    const deltaZ = metrics.legacyMetrics?.deltaZ as number;
-    const cvdSlope = metrics.legacyMetrics?.cvdSlope as number;
-    const obiDeep = metrics.legacyMetrics?.obiDeep as number;
-    const printsPerSecond = metrics.prints_per_second as number;
-
-    const inCooldown = event_time_ms < state.cooldown_until_ms;
-
-    if (state.halted && state.hasOpenEntryOrder) {
-      actions.push({
-        type: 'CANCEL_OPEN_ENTRY_ORDERS',
-        symbol,
-        event_time_ms,
-        reason: 'halt_mode_cancel_entry',
-      });
-    }
-
-    if (state.position === null) {
-      if (!state.halted && !state.hasOpenEntryOrder && state.openOrders.size === 0 && !inCooldown) {
-        const side = deltaZ > 0 ? 'BUY' : deltaZ < 0 ? 'SELL' : null;
-        if (side) {
-          const price = this.deps.expectedPrice(symbol, side, 'MARKET');
-          if (price && price > 0) {
-            const probeQuantity = this.computeProbeQuantity({
-              availableBalance: state.availableBalance,
-              expectedPrice: price,
-              deltaZ,
-              obiDeep,
-              execPoor: state.execQuality.poor,
-            });
-
-            if (probeQuantity > 0) {
-              actions.push({
-                type: 'ENTRY_PROBE',
-                symbol,
-                event_time_ms,
-                side,
-                quantity: probeQuantity,
-                reduceOnly: false,
-                expectedPrice: price,
-                reason: 'entry_probe_liquidity_pressure_context',
-              });
-            }
-          }
-        }
-      }
-      return actions.length > 0 ? actions : [{ type: 'NOOP', symbol, event_time_ms, reason: state.halted ? 'halt_mode' : inCooldown ? 'cooldown' : 'flat_wait' }];
-    }
-
-    const position = state.position;
-
-    const pnlDrawdown = position.peakPnlPct - position.unrealizedPnlPct;
-    if (position.peakPnlPct > 0.5 && pnlDrawdown > 0.2) {
-      actions.push(this.exitAction(symbol, event_time_ms, position.side === 'LONG' ? 'SELL' : 'BUY', 'profit_lock_drawdown'));
-    }
-
-    if (position.side === 'LONG' && deltaZ < -3 && cvdSlope < -0.5) {
-      actions.push(this.exitAction(symbol, event_time_ms, 'SELL', 'reversal_exit_long'));
-    }
-
-    if (position.side === 'SHORT' && deltaZ > 3 && cvdSlope > 0.5) {
-      actions.push(this.exitAction(symbol, event_time_ms, 'BUY', 'reversal_exit_short'));
-    }
-
-    if (state.execQuality.poor && state.execQuality.recentLatencyMs.length >= 3) {
-      actions.push(this.exitAction(symbol, event_time_ms, position.side === 'LONG' ? 'SELL' : 'BUY', 'emergency_exit_exec_quality'));
-    }
-
-    const canAdd =
-      !state.halted &&
-      position.addsUsed < 2 &&
-      position.unrealizedPnlPct > 0.10 &&
-      !state.execQuality.poor &&
-      ((position.side === 'LONG' && deltaZ > 0) || (position.side === 'SHORT' && deltaZ < 0));
-
-    if (canAdd) {
-      const side = position.side === 'LONG' ? 'BUY' : 'SELL';
-      const price = this.deps.expectedPrice(symbol, side, 'MARKET');
-      if (price && price > 0) {
-        const qty = this.computeProbeQuantity({
-          availableBalance: state.availableBalance,
-          expectedPrice: price,
-          deltaZ,
-          obiDeep,
-          execPoor: state.execQuality.poor,
-        });
-        if (qty > 0) {
-          actions.push({
-            type: 'ADD_POSITION',
-            symbol,
-            event_time_ms,
-            side,
-            quantity: qty,
-            reduceOnly: false,
-            expectedPrice: price,
-            reason: 'scale_in_momentum',
-          });
-        }
-      }
-    }
+    const { strategy, params } = this.deps.getStrategy(input.symbol);
+    return strategy.onMetrics({ ...input, params }, this);
+  }
 
-    return actions.length > 0 ? actions : [{ type: 'NOOP', symbol, event_time_ms, reason: 'position_manage' }];
+  onExecution(input: { symbol: string; event: ExecutionEvent; state: SymbolState }): DecisionAction[] {
+    const { strategy, params } = this.deps.getStrategy(input.symbol);
+    return strategy.onExecution ? strategy.onExecution({ ...input, params }, this) : [];
   }
 
   computeCooldownMs(deltaZ: number, printsPerSecond: number, minMs: number, maxMs: number): number {
@@ -131,7 +44,7 @@ export class DecisionEngine {
     return Math.max(minMs, Math.min(maxMs, Math.round(raw)));
   }
 
-  private exitAction(symbol: string, event_time_ms: number, side: 'BUY' | 'SELL', reason: string): DecisionAction {
+  exitAction(symbol: string, event_time_ms: number, side: 'BUY' | 'SELL', reason: string): DecisionAction {
     const expectedPrice = this.deps.expectedPrice(symbol, side, 'MARKET');
     return {
       type: 'EXIT_MARKET',
@@ -144,7 +57,82 @@ export class DecisionEngine {
     };
   }
 
-  private computeProbeQuantity(input: {
+  /**
+   * Trigger prices for the exchange-side stop-loss and take-profit of a
+   * position, measured from its entry price and snapped onto the tick grid
+   * away from the entry.  A leg is null when its distance is not configured.
+   */
+  computeProtectivePrices(symbol: string, position: PositionState): { stopLoss: number | null; takeProfit: number | null } {
+    const cfg = this.deps.getProtectiveOrderConfig();
+    const tick = this.deps.getPriceTickSize(symbol);
+    const long = position.side === 'LONG';
+    const level = (pct: number, away: 1 | -1): number | null => {
+      if (!(pct > 0) || !(position.entryPrice > 0)) {
+        return null;
+      }
+      let price = position.entryPrice * (1 + away * pct / 100);
+      if (tick && tick > 0) {
+        const ticks = price / tick;
+        price = (away > 0 ? Math.ceil(ticks - 1e-9) : Math.floor(ticks + 1e-9)) * tick;
+        price = Number(price.toFixed(this.tickDigits(tick)));
+      }
+      return price > 0 ? price : null;
+    };
+
+    return {
+      stopLoss: level(cfg.stopLossPct, long ? -1 : 1),
+      takeProfit: level(cfg.takeProfitPct, long ? 1 : -1),
+    };
+  }
+
+  /**
+   * Builds the order parameters for entries and adds.  MARKET entries are
+   * priced at the far touch; LIMIT and POST_ONLY entries rest on the near
+   * touch (bid for buys, ask for sells) backed off by the configured offset, rounded
+   * onto the symbol's tick grid away from the spread.
+   */
+  entryOrder(symbol: string, side: 'BUY' | 'SELL', metrics: OrchestratorMetricsInput): EntryOrderParams | null {
+    const cfg = this.deps.getEntryOrderConfig();
+    if (cfg.type === 'MARKET') {
+      const price = this.deps.expectedPrice(symbol, side, 'MARKET');
+      return price && price > 0 ? { orderType: 'MARKET', expectedPrice: price } : null;
+    }
+
+    const touch = side === 'BUY' ? metrics.best_bid : metrics.best_ask;
+    if (typeof touch !== 'number' || !Number.isFinite(touch) || touch <= 0) {
+      return null;
+    }
+
+    const tick = this.deps.getPriceTickSize(symbol);
+    const offset = tick && tick > 0 ? Math.max(0, cfg.offsetTicks) * tick : 0;
+    let price = side === 'BUY' ? touch - offset : touch + offset;
+    if (tick && tick > 0) {
+      const ticks = price / tick;
+      price = (side === 'BUY' ? Math.floor(ticks + 1e-9) : Math.ceil(ticks - 1e-9)) * tick;
+      price = Number(price.toFixed(this.tickDigits(tick)));
+    }
+    if (!(price > 0)) {
+      return null;
+    }
+
+    return {
+      orderType: 'LIMIT',
+      price,
+      timeInForce: cfg.type === 'POST_ONLY' ? 'GTX' : 'GTC',
+      cancelAfterMs: cfg.timeoutMs > 0 ? cfg.timeoutMs : undefined,
+      expectedPrice: this.deps.expectedPrice(symbol, side, 'LIMIT', price) ?? price,
+    };
+  }
+
+  private tickDigits(tick: number): number {
+    const str = tick.toString();
+    if (str.includes('e-')) {
+      return Number(str.split('e-')[1]);
+    }
+    return str.includes('.') ? str.split('.')[1].replace(/0+$/, '').length : 0;
+  }
+
+  probeQuantity(input: {
     availableBalance: number;
     expectedPrice: number;
     deltaZ: number;
@@ -0,0 +1,136 @@
+import { Strategy, StrategyMetricsInput, StrategyParams, StrategyTools } from './Strategy';
+import { DecisionAction } from './types';
+
+/**
+ * The original liquidity-pressure rules: enter on the deltaZ sign, lock
+ * profits after a drawdown from the peak, exit on a deltaZ/CVD reversal
+ * and scale in while the position is in profit and momentum agrees.
+ */
+export class DefaultStrategy implements Strategy {
+  readonly name = 'default';
+
+  // PnL thresholds (*Pct) are in percent of position margin.
+  readonly defaultParams: StrategyParams = {
+    entryMinAbsDeltaZ: 0,
+    profitLockPeakPct: 0.5,
+    profitLockDrawdownPct: 0.2,
+    reversalDeltaZ: 3,
+    reversalCvdSlope: 0.5,
+    addMinPnlPct: 0.10,
+    maxAdds: 2,
+  };
+
+  onMetrics(input: StrategyMetricsInput, tools: StrategyTools): DecisionAction[] {
+    const { gate, metrics, state, symbol, event_time_ms, params } = input;
+    const actions: DecisionAction[] = [];
+
+    // A liquidation cascade only keeps new risk out; an open position is still managed.
+    const cascadeHold = gate.reason === 'liquidation_cascade' && state.position !== null;
+    if (!gate.passed && !cascadeHold) {
+      return [{ type: 'NOOP', symbol, event_time_ms, reason: `gate_fail:${gate.reason || 'unknown'}` }];
+    }
+
+    const deltaZ = metrics.legacyMetrics?.deltaZ as number;
+    const cvdSlope = metrics.legacyMetrics?.cvdSlope as number;
+    const obiDeep = metrics.legacyMetrics?.obiDeep as number;
+
+    const inCooldown = event_time_ms < state.cooldown_until_ms;
+
+    if (state.halted && state.hasOpenEntryOrder) {
+      actions.push({
+        type: 'CANCEL_OPEN_ENTRY_ORDERS',
+        symbol,
+        event_time_ms,
+        reason: 'halt_mode_cancel_entry',
+      });
+    }
+
+    if (state.position === null) {
+      if (!state.halted && !state.hasOpenEntryOrder && state.openOrders.size === 0 && !inCooldown) {
+        const side = deltaZ > params.entryMinAbsDeltaZ ? 'BUY' : deltaZ < -params.entryMinAbsDeltaZ ? 'SELL' : null;
+        if (side) {
+          const order = tools.entryOrder(symbol, side, metrics);
+          if (order) {
+            const probeQuantity = tools.probeQuantity({
+              availableBalance: state.availableBalance,
+              expectedPrice: order.expectedPrice,
+              deltaZ,
+              obiDeep,
+              execPoor: state.execQuality.poor,
+            });
+
+            if (probeQuantity > 0) {
+              actions.push({
+                type: 'ENTRY_PROBE',
+                symbol,
+                event_time_ms,
+                side,
+                quantity: probeQuantity,
+                reduceOnly: false,
+                ...order,
+                reason: 'entry_probe_liquidity_pressure_context',
+              });
+            }
+          }
+        }
+      }
+      return actions.length > 0 ? actions : [{ type: 'NOOP', symbol, event_time_ms, reason: state.halted ? 'halt_mode' : inCooldown ? 'cooldown' : 'flat_wait' }];
+    }
+
+    const position = state.position;
+
+    const pnlDrawdown = position.peakPnlPct - position.unrealizedPnlPct;
+    if (position.peakPnlPct > params.profitLockPeakPct && pnlDrawdown > params.profitLockDrawdownPct) {
+      actions.push(tools.exitAction(symbol, event_time_ms, position.side === 'LONG' ? 'SELL' : 'BUY', 'profit_lock_drawdown'));
+    }
+
+    if (position.side === 'LONG' && deltaZ < -params.reversalDeltaZ && cvdSlope < -params.reversalCvdSlope) {
+      actions.push(tools.exitAction(symbol, event_time_ms, 'SELL', 'reversal_exit_long'));
+    }
+
+    if (position.side === 'SHORT' && deltaZ > params.reversalDeltaZ && cvdSlope > params.reversalCvdSlope) {
+      actions.push(tools.exitAction(symbol, event_time_ms, 'BUY', 'reversal_exit_short'));
+    }
+
+    if (state.execQuality.poor && state.execQuality.recentLatencyMs.length >= 3) {
+      actions.push(tools.exitAction(symbol, event_time_ms, position.side === 'LONG' ? 'SELL' : 'BUY', 'emergency_exit_exec_quality'));
+    }
+
+    const canAdd =
+      gate.passed &&
+      !state.halted &&
+      !state.hasOpenEntryOrder &&
+      position.addsUsed < params.maxAdds &&
+      position.unrealizedPnlPct > params.addMinPnlPct &&
+      !state.execQuality.poor &&
+      ((position.side === 'LONG' && deltaZ > 0) || (position.side === 'SHORT' && deltaZ < 0));
+
+    if (canAdd) {
+      const side = position.side === 'LONG' ? 'BUY' : 'SELL';
+      const order = tools.entryOrder(symbol, side, metrics);
+      if (order) {
+        const qty = tools.probeQuantity({
+          availableBalance: state.availableBalance,
+          expectedPrice: order.expectedPrice,
+          deltaZ,
+          obiDeep,
+          execPoor: state.execQuality.poor,
+        });
+        if (qty > 0) {
+          actions.push({
+            type: 'ADD_POSITION',
+            symbol,
+            event_time_ms,
+            side,
+            quantity: qty,
+            reduceOnly: false,
+            ...order,
+            reason: 'scale_in_momentum',
+          });
+        }
+      }
+    }
+
+    return actions.length > 0 ? actions : [{ type: 'NOOP', symbol, event_time_ms, reason: 'position_manage' }];
+  }
+}
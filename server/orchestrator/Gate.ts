@@ -27,6 +27,7 @@ export function runGate(input: RunGateInput, cfg: GateConfig): GateResult {
         spreadOk: false,
         obiDeepOk: false,
         networkLatencyOk: cfg.mode === GateMode.V2_NETWORK_LATENCY ? false : null,
+        liquidationOk: cfg.blockOnLiquidationCascade ? false : null,
       },
     };
   }
@@ -42,6 +43,11 @@ export function runGate(input: RunGateInput, cfg: GateConfig): GateResult {
     ? networkLatencyMs !== null && networkLatencyMs <= (cfg.v2?.maxNetworkLatencyMs ?? Number.POSITIVE_INFINITY)
     : null;
 
+  // Liquidation data is optional: no stream data counts as no cascade.
+  const liquidationOk = cfg.blockOnLiquidationCascade
+    ? !input.metrics.liquidations?.cascadeActive
+    : null;
+
   let reason: string | null = null;
   if (!spreadOk) {
     reason = 'spread_too_wide';
@@ -49,6 +55,8 @@ export function runGate(input: RunGateInput, cfg: GateConfig): GateResult {
     reason = 'insufficient_liquidity';
   } else if (cfg.mode === GateMode.V2_NETWORK_LATENCY && !networkLatencyOk) {
     reason = 'network_latency_too_high';
+  } else if (liquidationOk === false) {
+    reason = 'liquidation_cascade';
   }
 
   return {
@@ -61,6 +69,7 @@ export function runGate(input: RunGateInput, cfg: GateConfig): GateResult {
       spreadOk,
       obiDeepOk,
       networkLatencyOk,
+      liquidationOk,
     },
   };
 }
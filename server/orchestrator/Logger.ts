@@ -19,7 +19,8 @@ export interface MetricsLogLine {
 }
 
 export interface OrchestratorLoggerConfig {
-  dir: string;
+  // null disables file output entirely (used by the backtester).
+  dir: string | null;
   queueLimit: number;
   dropHaltThreshold: number;
   onDropSpike: (dropCount: number) => void;
@@ -33,6 +34,9 @@ export class OrchestratorLogger {
   private dropWindowCount = 0;
 
   constructor(private readonly config: OrchestratorLoggerConfig) {
+    if (config.dir === null) {
+      return;
+    }
     fs.mkdirSync(config.dir, { recursive: true });
     setInterval(() => {
       if (this.dropWindowCount >= this.config.dropHaltThreshold) {
@@ -54,6 +58,11 @@ export class OrchestratorLogger {
     this.enqueue({ kind: 'decision', eventTimeMs, payload });
   }
 
+  // Lines dropped because the write queue was full, since start
+  getDropCount(): number {
+    return this.dropCount;
+  }
+
   shutdown() {
     for (const stream of this.streams.values()) {
       stream.end();
@@ -62,6 +71,9 @@ export class OrchestratorLogger {
   }
 
   private enqueue(item: QueueItem) {
+    if (this.config.dir === null) {
+      return;
+    }
     if (this.queue.length >= this.config.queueLimit) {
       this.dropCount++;
       this.dropWindowCount++;
@@ -100,7 +112,7 @@ export class OrchestratorLogger {
       return existing;
     }
 
-    const filePath = path.join(this.config.dir, `${kind}_${date}.jsonl`);
+    const filePath = path.join(this.config.dir as string, `${kind}_${date}.jsonl`);
     const stream = fs.createWriteStream(filePath, { flags: 'a' });
     this.streams.set(key, stream);
     return stream;
@@ -1,47 +1,91 @@
 import * as path from 'path';
-import { ExecutionConnector } from '../connectors/ExecutionConnector';
+import { ExecutionCredentials } from '../auth/CredentialVault';
+import { ExecutionConnector, ExecutionDebugEvent, ExecutionVenue } from '../connectors/ExecutionConnector';
+import { RestScheduler } from '../connectors/RestScheduler';
+import { SimulatedExecutionConnector } from '../connectors/SimulatedExecutionConnector';
 import { ExecutionEvent } from '../connectors/executionTypes';
-import { SymbolActor } from './Actor';
+import { OrderbookState } from '../metrics/OrderbookManager';
+import { ExpectedOrderMeta, SymbolActor } from './Actor';
 import { DecisionEngine } from './Decision';
 import { runGate } from './Gate';
 import { OrchestratorLogger } from './Logger';
+import { PortfolioRiskManager, RiskTransition } from './RiskManager';
+import { createDefaultStrategyRegistry, StrategyRegistry, StrategySelection } from './Strategy';
 import {
   DecisionAction,
   DecisionRecord,
+  EntryOrderType,
   ExecutionEventEnvelope,
+  FlattenResult,
   GateMode,
   MetricsEventEnvelope,
   OrchestratorConfig,
   OrchestratorMetricsInput,
+  OrchestratorNotice,
+  PositionState,
   SymbolState,
 } from './types';
 
+export type NoticeListener = (notice: OrchestratorNotice) => void;
+export type ExecutionDebugListener = (event: ExecutionDebugEvent) => void;
+export type CredentialSource = (profile: string) => ExecutionCredentials;
+export type ExecutionConnectRequest = ExecutionCredentials | { profile: string };
+
 export class Orchestrator {
   private readonly actors = new Map<string, SymbolActor>();
   private readonly decisionEngine: DecisionEngine;
+  private readonly risk: PortfolioRiskManager;
   private readonly logger: OrchestratorLogger;
-  private readonly expectedByOrderId = new Map<string, { expectedPrice: number | null; sentAtMs: number; tag: 'entry' | 'add' | 'exit' }>();
+  private readonly expectedByOrderId = new Map<string, ExpectedOrderMeta>();
   private readonly decisionLedger: DecisionRecord[] = [];
   private readonly executionSymbols = new Set<string>();
+  // Who halted a symbol: manual halts (pause, flatten) are only lifted by
+  // setSymbolHalted, risk halts by the risk manager's daily reset.
+  private readonly haltOwnerBySymbol = new Map<string, 'manual' | 'risk'>();
   private capitalSettings = {
     initialBalanceUsdt: 1000,
     walletUsagePercent: 10,
     leverage: 10,
   };
   private readonly realizedPnlBySymbol = new Map<string, number>();
+  private readonly markBySymbol = new Map<string, number>();
+  // Last position seen per symbol, to tell openings and closings apart
+  private readonly positionBySymbol = new Map<string, PositionState | null>();
+  private readonly noticeListeners = new Set<NoticeListener>();
+  private readonly debugListeners = new Set<ExecutionDebugListener>();
+  private readonly strategyBySymbol = new Map<string, StrategySelection>();
+  private readonly defaultStrategy: StrategySelection;
+  private credentialSource: CredentialSource | null = null;
+  // Vault profile behind the current credentials; null when they were passed in directly
+  private credentialProfile: string | null = null;
 
   constructor(
-    private readonly connector: ExecutionConnector,
-    private readonly config: OrchestratorConfig
+    private readonly connector: ExecutionVenue,
+    private readonly config: OrchestratorConfig,
+    private readonly strategies: StrategyRegistry = createDefaultStrategyRegistry()
   ) {
+    this.defaultStrategy = this.strategies.resolve(config.defaultStrategy);
     this.decisionEngine = new DecisionEngine({
       expectedPrice: (symbol, side, type, limitPrice) => this.connector.expectedPrice(symbol, side, type, limitPrice),
       getRiskPerTradePercent: () => this.capitalSettings.walletUsagePercent,
       getMaxLeverage: () => this.capitalSettings.leverage,
+      getEntryOrderConfig: () => this.config.entryOrder,
+      getProtectiveOrderConfig: () => this.config.protection,
+      getPriceTickSize: (symbol) => this.connector.getPriceTickSize(symbol),
+      getStrategy: (symbol) => {
+        const selection = this.getStrategySelection(symbol);
+        return { strategy: this.strategies.get(selection.name)!, params: selection.params };
+      },
+    });
+
+    this.risk = new PortfolioRiskManager({
+      config: config.risk,
+      getStates: () => Array.from(this.actors.values()).map((a) => a.state),
+      markPrice: (symbol) => this.markBySymbol.get(symbol) ?? null,
     });
 
     this.logger = new OrchestratorLogger({
-      dir: path.resolve(__dirname, '../logs/orchestrator'),
+      dir: config.logDir === undefined ? path.resolve(__dirname, '../logs/orchestrator') : config.logDir,
       queueLimit: config.loggerQueueLimit,
       dropHaltThreshold: config.loggerDropHaltThreshold,
       onDropSpike: (dropCount) => {
@@ -61,13 +105,43 @@ export class Orchestrator {
         const prev = this.realizedPnlBySymbol.get(event.symbol) || 0;
         this.realizedPnlBySymbol.set(event.symbol, prev + event.realizedPnl);
       }
-      this.ingestExecutionReplay(event);
+      // The resume after a user stream reconnect leaves manual and risk halts in place
+      if (event.type !== 'SYSTEM_RESUME' || !this.haltOwnerBySymbol.has(event.symbol)) {
+        this.ingestExecutionReplay(event);
+      }
+      this.applyRiskTransition(this.risk.onExecutionEvent(event), event.event_time_ms);
     });
     this.connector.onDebug((event) => {
       this.logger.logExecution(event.ts, event);
+      for (const listener of this.debugListeners) {
+        listener(event);
+      }
+      if (event.type === 'order_error') {
+        this.emitNotice({
+          type: 'ORDER_ERROR',
+          symbol: event.symbol || '',
+          event_time_ms: event.ts,
+          message: String(event.payload?.message || 'order_failed'),
+          code: event.payload?.code ?? null,
+          errorClass: event.payload?.error_class ?? null,
+        });
+      }
     });
   }
 
+  onNotice(listener: NoticeListener) {
+    this.noticeListeners.add(listener);
+    return () => this.noticeListeners.delete(listener);
+  }
+
+  /**
+   * Order attempts, results and errors as the execution venue reports them.
+   */
+  onExecutionDebug(listener: ExecutionDebugListener) {
+    this.debugListeners.add(listener);
+    return () => this.debugListeners.delete(listener);
+  }
+
   async start() {
     await this.connector.start();
   }
@@ -78,8 +152,10 @@ export class Orchestrator {
       return;
     }
     this.connector.ensureSymbol(symbol);
+    this.updateMark(symbol, metrics);
 
     const canonical_time_ms = metrics.canonical_time_ms ?? Date.now();
+    this.applyRiskTransition(this.risk.onClock(canonical_time_ms), canonical_time_ms);
     const exchange_event_time_ms =
       typeof metrics.exchange_event_time_ms === 'number' && Number.isFinite(metrics.exchange_event_time_ms)
         ? metrics.exchange_event_time_ms
@@ -109,6 +185,7 @@ export class Orchestrator {
       return;
     }
     this.connector.ensureSymbol(symbol);
+    this.updateMark(symbol, logLine.metrics);
     this.enqueueMetrics(
       symbol,
       logLine.canonical_time_ms,
@@ -166,13 +243,44 @@ export class Orchestrator {
     this.getActor(symbol).enqueue(envelope);
   }
 
+  private updateMark(symbol: string, metrics: OrchestratorMetricsInput) {
+    if (metrics.best_bid && metrics.best_ask) {
+      this.markBySymbol.set(symbol, (metrics.best_bid + metrics.best_ask) / 2);
+    }
+  }
+
+  private applyRiskTransition(transition: RiskTransition | null, eventTimeMs: number) {
+    if (!transition) {
+      return;
+    }
+    for (const symbol of this.actors.keys()) {
+      const owner = this.haltOwnerBySymbol.get(symbol);
+      if (transition.type === 'SYSTEM_HALT') {
+        if (owner) {
+          continue;
+        }
+        this.haltOwnerBySymbol.set(symbol, 'risk');
+      } else {
+        if (owner !== 'risk') {
+          continue;
+        }
+        this.haltOwnerBySymbol.delete(symbol);
+      }
+      this.ingestExecutionReplay({ type: transition.type, symbol, event_time_ms: eventTimeMs, reason: transition.reason });
+    }
+  }
+
   async flush() {
     // Wait until all actor queues are drained.
-    while (Array.from(this.actors.values()).some((a) => !a.isIdle())) {
+    while (!this.isIdle()) {
       await new Promise((resolve) => setTimeout(resolve, 5));
     }
   }
 
+  isIdle(): boolean {
+    return Array.from(this.actors.values()).every((a) => a.isIdle());
+  }
+
   resetForReplay() {
     this.actors.clear();
     this.expectedByOrderId.clear();
@@ -183,6 +291,7 @@ export class Orchestrator {
     return this.decisionLedger.map((r) => ({
       ...r,
       actions: r.actions.map((a) => ({ ...a })),
+      rejections: r.rejections.map((x) => ({ action: { ...x.action }, reason: x.reason })),
       stateSnapshot: {
         ...r.stateSnapshot,
         position: r.stateSnapshot.position ? { ...r.stateSnapshot.position } : null,
@@ -208,6 +317,17 @@ export class Orchestrator {
     return out;
   }
 
+  getTelemetry() {
+    const actorQueueDepth: Record<string, number> = {};
+    for (const [symbol, actor] of this.actors) {
+      actorQueueDepth[symbol] = actor.getQueueDepth();
+    }
+    return {
+      actorQueueDepth,
+      loggerDropCount: this.logger.getDropCount(),
+    };
+  }
+
   getExecutionStatus() {
     const connectorStatus = this.connector.getStatus();
     const selectedSymbols = Array.from(this.executionSymbols);
@@ -233,16 +353,19 @@ export class Orchestrator {
             walletFound = true;
           }
           totalRealized += (this.realizedPnlBySymbol.get(sym) || 0);
-          totalUnrealized += (state.position?.unrealizedPnlPct || 0);
+          totalUnrealized += (state.position?.unrealizedPnlUsdt || 0);
         }
       }
     }
 
     return {
       connection: connectorStatus,
+      credentialProfile: this.credentialProfile,
       selectedSymbol: primarySymbol, // Legacy
       selectedSymbols, // New
       settings: this.capitalSettings,
+      strategies: this.getStrategySettings(),
+      risk: this.risk.getStatus(),
       wallet: {
         totalWalletUsdt: totalWallet,
         availableBalanceUsdt: totalAvailable,
@@ -284,12 +407,69 @@ export class Orchestrator {
     return this.capitalSettings;
   }
 
+  /**
+   * Selects the strategy and parameters per symbol.  A missing name keeps
+   * the symbol's current strategy; params replace its overrides.  Throws
+   * on an unknown strategy without applying any of the input.
+   */
+  updateStrategySettings(input: Record<string, { name?: string; params?: Record<string, unknown> }>) {
+    const next = new Map<string, StrategySelection>();
+    for (const [rawSymbol, entry] of Object.entries(input || {})) {
+      const symbol = rawSymbol.toUpperCase();
+      const name = entry?.name ? String(entry.name) : this.getStrategySelection(symbol).name;
+      next.set(symbol, this.strategies.resolve(name, entry?.params || {}));
+    }
+    for (const [symbol, selection] of next) {
+      this.strategyBySymbol.set(symbol, selection);
+    }
+    return this.getStrategySettings();
+  }
+
+  getStrategySettings() {
+    const bySymbol: Record<string, StrategySelection> = {};
+    for (const symbol of this.executionSymbols) {
+      bySymbol[symbol] = this.getStrategySelection(symbol);
+    }
+    for (const [symbol, selection] of this.strategyBySymbol) {
+      bySymbol[symbol] = selection;
+    }
+    return {
+      available: this.strategies.list(),
+      default: this.defaultStrategy,
+      bySymbol,
+    };
+  }
+
+  private getStrategySelection(symbol: string): StrategySelection {
+    return this.strategyBySymbol.get(symbol) || this.defaultStrategy;
+  }
+
   async setExecutionEnabled(enabled: boolean) {
     this.connector.setExecutionEnabled(enabled);
   }
 
-  async connectExecution(apiKey: string, apiSecret: string) {
-    this.connector.setCredentials(apiKey, apiSecret);
+  setCredentialSource(source: CredentialSource | null) {
+    this.credentialSource = source;
+  }
+
+  /**
+   * Connects with explicit keys or with a named profile from the
+   * credential source, so stored secrets never leave the server.
+   */
+  async connectExecution(request: ExecutionConnectRequest) {
+    let credentials: ExecutionCredentials;
+    let profile: string | null = null;
+    if ('profile' in request) {
+      if (!this.credentialSource) {
+        throw new Error('no credential source configured');
+      }
+      profile = request.profile;
+      credentials = this.credentialSource(profile);
+    } else {
+      credentials = request;
+    }
+    this.connector.setCredentials(credentials.apiKey, credentials.apiSecret);
+    this.credentialProfile = profile;
     await this.connector.connect();
   }
 
@@ -315,6 +495,82 @@ export class Orchestrator {
     await this.connector.disconnect();
   }
 
+  /**
+   * Halts or resumes one execution symbol the way a risk halt does: no new
+   * entries and open entry orders are cancelled, while an open position
+   * keeps its exits.  Returns false for a symbol not selected for execution.
+   */
+  setSymbolHalted(symbol: string, halted: boolean, reason: string): boolean {
+    const normalized = symbol.toUpperCase();
+    if (!this.executionSymbols.has(normalized)) {
+      return false;
+    }
+    if (halted) {
+      this.haltOwnerBySymbol.set(normalized, 'manual');
+    } else {
+      this.haltOwnerBySymbol.delete(normalized);
+    }
+    this.ingestExecutionReplay({
+      type: halted ? 'SYSTEM_HALT' : 'SYSTEM_RESUME',
+      symbol: normalized,
+      event_time_ms: Date.now(),
+      reason,
+    });
+    return true;
+  }
+
+  /**
+   * Halts every execution symbol so the strategy cannot re-enter, then
+   * cancels its open orders and closes its position with a reduce-only
+   * market order.  A symbol that fails is reported and the rest are still
+   * flattened.  With execution disabled or disconnected nothing is
+   * cancelled, so protective orders stay in place, and every symbol is
+   * reported as failed.
+   */
+  async flattenPositions(): Promise<FlattenResult> {
+    const result: FlattenResult = { closed: [], failed: [] };
+    for (const symbol of this.executionSymbols) {
+      this.setSymbolHalted(symbol, true, 'flatten');
+      const unavailable = !this.connector.isExecutionEnabled()
+        ? 'execution_disabled'
+        : !this.connector.isConnected() ? 'disconnected' : null;
+      if (unavailable) {
+        result.failed.push({ symbol, error: unavailable });
+        continue;
+      }
+      try {
+        await this.connector.cancelAllOpenOrders(symbol);
+        const position = this.actors.get(symbol)?.state.position;
+        if (!position) {
+          continue;
+        }
+        const eventTimeMs = Date.now();
+        const decisionId = `${symbol}_${eventTimeMs}`;
+        const response = await this.connector.placeOrder({
+          symbol,
+          side: position.side === 'LONG' ? 'SELL' : 'BUY',
+          type: 'MARKET',
+          quantity: position.qty,
+          reduceOnly: true,
+          clientOrderId: this.clientOrderId('flatten', symbol, eventTimeMs),
+        }, { decisionId, orderAttemptId: `${decisionId}_FLATTEN` });
+        // Execution was switched off after the check above; nothing was sent
+        if (response.orderId.startsWith('dry-')) {
+          throw new Error('execution_disabled');
+        }
+        this.expectedByOrderId.set(response.orderId, {
+          expectedPrice: null,
+          sentAtMs: eventTimeMs,
+          tag: 'exit',
+        });
+        result.closed.push(symbol);
+      } catch (e: any) {
+        result.failed.push({ symbol, error: e?.message || String(e) });
+      }
+    }
+    return result;
+  }
+
   async listTestnetFuturesPairs() {
     return this.connector.fetchTestnetFuturesPairs();
   }
@@ -344,6 +600,37 @@ export class Orchestrator {
     await this.connector.ensureSymbolsReady();
   }
 
+  private noticeExecution(event: ExecutionEvent, state: SymbolState) {
+    if (event.type === 'SYSTEM_HALT' || event.type === 'SYSTEM_RESUME') {
+      this.emitNotice({ type: event.type, symbol: event.symbol, event_time_ms: event.event_time_ms, reason: event.reason });
+      return;
+    }
+    const before = this.positionBySymbol.get(state.symbol) || null;
+    const after = state.position;
+    this.positionBySymbol.set(state.symbol, after ? { ...after } : null);
+    // A flip closes one side and opens the other.
+    if (before && before.side !== after?.side) {
+      this.emitNotice({
+        type: 'POSITION_CLOSED',
+        symbol: state.symbol,
+        event_time_ms: event.event_time_ms,
+        side: before.side,
+        qty: before.qty,
+        entryPrice: before.entryPrice,
+        realizedPnl: this.realizedPnlBySymbol.get(state.symbol) || 0,
+      });
+    }
+    if (after && after.side !== before?.side) {
+      this.emitNotice({ type: 'POSITION_OPENED', symbol: state.symbol, event_time_ms: event.event_time_ms, side: after.side, qty: after.qty, entryPrice: after.entryPrice });
+    }
+  }
+
+  private emitNotice(notice: OrchestratorNotice) {
+    for (const listener of this.noticeListeners) {
+      listener(notice);
+    }
+  }
+
   private getActor(symbol: string): SymbolActor {
     let actor = this.actors.get(symbol);
     if (actor) {
@@ -356,13 +643,16 @@ export class Orchestrator {
       onActions: async (actions) => {
         await this.executeActions(symbol, actions);
       },
-      onDecisionLogged: ({ symbol: s, canonical_time_ms, exchange_event_time_ms, gate, actions, state }) => {
+      vetActions: (actions) => this.risk.vet(symbol, actions),
+      onDecisionLogged: ({ symbol: s, canonical_time_ms, exchange_event_time_ms, gate, actions, rejections, state }) => {
         const record: DecisionRecord = {
           symbol: s,
+          strategy: this.getStrategySelection(s).name,
           canonical_time_ms,
           exchange_event_time_ms,
           gate,
           actions,
+          rejections,
           stateSnapshot: {
             halted: state.halted,
             availableBalance: state.availableBalance,
@@ -376,6 +666,8 @@ export class Orchestrator {
         this.logger.logDecision(canonical_time_ms, record);
       },
       onExecutionLogged: (event, state) => {
+        // Halts and position changes are noticed even with execution disabled; only file logging is gated.
+        this.noticeExecution(event, state);
         if (!this.connector.isExecutionEnabled()) {
           return;
         }
@@ -399,6 +691,7 @@ export class Orchestrator {
       markAddUsed: () => {
         // kept for future hook extensions
       },
+      getLeverage: () => this.capitalSettings.leverage,
       cooldownConfig: {
         minMs: this.config.cooldownMinMs,
         maxMs: this.config.cooldownMaxMs,
@@ -428,6 +721,9 @@ export class Orchestrator {
           symbol,
           payload: { why_not_sent: 'disabled' },
         });
+        if (action.type === 'PLACE_PROTECTIVE' && action.clientOrderId) {
+          actor.protectiveOrderFailed(action.clientOrderId);
+        }
         continue;
       }
 
@@ -441,18 +737,63 @@ export class Orchestrator {
           symbol,
           payload: { why_not_sent: 'not_connected' },
         });
+        if (action.type === 'PLACE_PROTECTIVE' && action.clientOrderId) {
+          actor.protectiveOrderFailed(action.clientOrderId);
+        }
         continue;
       }
 
       if (action.type === 'CANCEL_OPEN_ENTRY_ORDERS') {
         for (const order of actor.state.openOrders.values()) {
-          if (!order.reduceOnly) {
+          if (order.role === 'ENTRY') {
             await this.connector.cancelOrder({ symbol, orderId: order.orderId, clientOrderId: order.clientOrderId });
           }
         }
         continue;
       }
 
+      if (action.type === 'CANCEL_ORDER') {
+        if (action.orderId || action.clientOrderId) {
+          try {
+            await this.connector.cancelOrder({ symbol, orderId: action.orderId, clientOrderId: action.clientOrderId });
+          } catch (e: any) {
+            console.error(`[EXEC] Cancel FAILED:`, e.message || e);
+          }
+        }
+        continue;
+      }
+
+      if (action.type === 'PLACE_PROTECTIVE') {
+        if (!action.side || !action.orderType || !action.stopPrice || !action.clientOrderId) {
+          continue;
+        }
+        try {
+          const response = await this.connector.placeOrder({
+            symbol,
+            side: action.side,
+            type: action.orderType,
+            quantity: action.quantity || 0,
+            stopPrice: action.stopPrice,
+            closePosition: true,
+            reduceOnly: true,
+            clientOrderId: action.clientOrderId,
+          }, { decisionId, orderAttemptId: `${orderAttemptId}_${action.orderType}` });
+          if (response.orderId.startsWith('dry-')) {
+            actor.protectiveOrderFailed(action.clientOrderId);
+            continue;
+          }
+          this.expectedByOrderId.set(response.orderId, {
+            expectedPrice: action.stopPrice,
+            sentAtMs: action.event_time_ms,
+            tag: 'exit',
+          });
+        } catch (e: any) {
+          console.error(`[EXEC] Protective order FAILED:`, e.message || e);
+          actor.protectiveOrderFailed(action.clientOrderId);
+        }
+        continue;
+      }
+
       if (action.type === 'EXIT_MARKET') {
         const position = actor.state.position;
         if (!position || !action.side) {
@@ -482,8 +823,10 @@ export class Orchestrator {
           const response = await this.connector.placeOrder({
             symbol,
             side: action.side,
-            type: 'MARKET',
+            type: action.orderType || 'MARKET',
             quantity: action.quantity,
+            price: action.orderType === 'LIMIT' ? action.price : undefined,
+            timeInForce: action.orderType === 'LIMIT' ? action.timeInForce : undefined,
             reduceOnly: false,
             clientOrderId,
           }, { decisionId, orderAttemptId });
@@ -492,6 +835,7 @@ export class Orchestrator {
             expectedPrice: action.expectedPrice || null,
             sentAtMs: action.event_time_ms,
             tag,
+            cancelAfterMs: action.orderType === 'LIMIT' ? action.cancelAfterMs : undefined,
           });
         } catch (e: any) {
           console.error(`[EXEC] Order FAILED:`, e.message || e);
@@ -505,39 +849,97 @@ export class Orchestrator {
   }
 }
 
-export function createOrchestratorFromEnv(): Orchestrator {
+export interface OrchestratorEnvDeps {
+  getOrderbook?: (symbol: string) => OrderbookState | null;
+  listSymbols?: () => Promise<string[]>;
+  // Shared with the market-data REST calls; the testnet connector gets its own otherwise.
+  restScheduler?: RestScheduler;
+  // Resolves named credential profiles for connectExecution({ profile })
+  credentials?: CredentialSource;
+}
+
+export function createOrchestratorFromEnv(deps: OrchestratorEnvDeps = {}): Orchestrator {
   const executionEnabledEnv = String(process.env.EXECUTION_ENABLED || 'false').toLowerCase();
+  const executionEnabled = executionEnabledEnv === 'true' || executionEnabledEnv === '1';
+  const executionMode = String(process.env.EXECUTION_MODE || 'testnet').toLowerCase();
+
+  let connector: ExecutionVenue;
+  if (executionMode === 'paper') {
+    if (!deps.getOrderbook) {
+      throw new Error('EXECUTION_MODE=paper requires an orderbook source');
+    }
+    connector = new SimulatedExecutionConnector({
+      enabled: executionEnabled,
+      initialBalanceUsdt: Number(process.env.PAPER_INITIAL_BALANCE_USDT || 10000),
+      takerFeeRate: Number(process.env.PAPER_TAKER_FEE_RATE || 0.0004),
+      makerFeeRate: Number(process.env.PAPER_MAKER_FEE_RATE || 0.0002),
+      leverage: Number(process.env.DEFAULT_SYMBOL_LEVERAGE || 20),
+      getOrderbook: deps.getOrderbook,
+      listSymbols: deps.listSymbols,
+    });
+  } else {
+    connector = new ExecutionConnector({
+      enabled: executionEnabled,
+      apiKey: process.env.BINANCE_TESTNET_API_KEY,
+      apiSecret: process.env.BINANCE_TESTNET_API_SECRET,
+      restBaseUrl: process.env.BINANCE_TESTNET_REST_BASE || 'https://testnet.binancefuture.com',
+      userDataWsBaseUrl: process.env.BINANCE_TESTNET_USER_WS_BASE || 'wss://stream.binancefuture.com',
+      marketWsBaseUrl: process.env.BINANCE_TESTNET_MARKET_WS_BASE || 'wss://stream.binancefuture.com',
+      recvWindowMs: Number(process.env.BINANCE_RECV_WINDOW_MS || 5000),
+      defaultMarginType: (String(process.env.DEFAULT_MARGIN_TYPE || 'ISOLATED').toUpperCase() === 'CROSSED' ? 'CROSSED' : 'ISOLATED'),
+      defaultLeverage: Number(process.env.DEFAULT_SYMBOL_LEVERAGE || 20),
+      dualSidePosition: String(process.env.POSITION_MODE || 'ONE-WAY').toUpperCase() === 'HEDGE',
+    }, deps.restScheduler);
+  }
+
+  const orchestrator = new Orchestrator(connector, orchestratorConfigFromEnv());
+  if (deps.credentials) {
+    orchestrator.setCredentialSource(deps.credentials);
+  }
+  return orchestrator;
+}
+
+export function orchestratorConfigFromEnv(): OrchestratorConfig {
+  const entryOrderTypeEnv = String(process.env.ENTRY_ORDER_TYPE || 'MARKET').toUpperCase();
+  const entryOrderType: EntryOrderType = entryOrderTypeEnv === 'LIMIT' || entryOrderTypeEnv === 'POST_ONLY'
+    ? entryOrderTypeEnv
+    : 'MARKET';
   const gateMode = process.env.ENABLE_GATE_V2 === 'true'
     ? GateMode.V2_NETWORK_LATENCY
     : GateMode.V1_NO_LATENCY;
 
-  const connector = new ExecutionConnector({
-    enabled: executionEnabledEnv === 'true' || executionEnabledEnv === '1',
-    apiKey: process.env.BINANCE_TESTNET_API_KEY,
-    apiSecret: process.env.BINANCE_TESTNET_API_SECRET,
-    restBaseUrl: process.env.BINANCE_TESTNET_REST_BASE || 'https://testnet.binancefuture.com',
-    userDataWsBaseUrl: process.env.BINANCE_TESTNET_USER_WS_BASE || 'wss://stream.binancefuture.com',
-    marketWsBaseUrl: process.env.BINANCE_TESTNET_MARKET_WS_BASE || 'wss://stream.binancefuture.com',
-    recvWindowMs: Number(process.env.BINANCE_RECV_WINDOW_MS || 5000),
-    defaultMarginType: (String(process.env.DEFAULT_MARGIN_TYPE || 'ISOLATED').toUpperCase() === 'CROSSED' ? 'CROSSED' : 'ISOLATED'),
-    defaultLeverage: Number(process.env.DEFAULT_SYMBOL_LEVERAGE || 20),
-    dualSidePosition: String(process.env.POSITION_MODE || 'ONE-WAY').toUpperCase() === 'HEDGE',
-  });
-
-  return new Orchestrator(connector, {
+  return {
     gate: {
       mode: gateMode,
       maxSpreadPct: Number(process.env.MAX_SPREAD_PCT || 0.08),
       minObiDeep: Number(process.env.MIN_OBI_DEEP || 0.05),
+      blockOnLiquidationCascade: String(process.env.GATE_BLOCK_ON_LIQUIDATION_CASCADE || 'true').toLowerCase() === 'true',
       v2: {
         maxNetworkLatencyMs: Number(process.env.MAX_NETWORK_LATENCY_MS || 1500),
       },
     },
     riskPerTradePercent: Number(process.env.RISK_PER_TRADE_PERCENT || 0.5),
     maxLeverage: Number(process.env.MAX_LEVERAGE || 100),
+    entryOrder: {
+      type: entryOrderType,
+      offsetTicks: Number(process.env.ENTRY_LIMIT_OFFSET_TICKS || 0),
+      timeoutMs: Number(process.env.ENTRY_LIMIT_TIMEOUT_MS || 5000),
+    },
+    protection: {
+      stopLossPct: Number(process.env.PROTECTIVE_STOP_LOSS_PCT || 1),
+      takeProfitPct: Number(process.env.PROTECTIVE_TAKE_PROFIT_PCT || 2),
+    },
+    risk: {
+      maxGrossNotionalUsdt: Number(process.env.RISK_MAX_GROSS_NOTIONAL_USDT || 0),
+      maxNetNotionalUsdt: Number(process.env.RISK_MAX_NET_NOTIONAL_USDT || 0),
+      maxSymbolNotionalUsdt: Number(process.env.RISK_MAX_SYMBOL_NOTIONAL_USDT || 0),
+      maxConcurrentPositions: Number(process.env.RISK_MAX_CONCURRENT_POSITIONS || 0),
+      dailyLossLimitUsdt: Number(process.env.RISK_DAILY_LOSS_LIMIT_USDT || 0),
+    },
+    defaultStrategy: process.env.DEFAULT_STRATEGY || 'default',
     cooldownMinMs: Number(process.env.COOLDOWN_MIN_MS || 2000),
     cooldownMaxMs: Number(process.env.COOLDOWN_MAX_MS || 30000),
     loggerQueueLimit: Number(process.env.LOGGER_QUEUE_LIMIT || 5000),
     loggerDropHaltThreshold: Number(process.env.LOGGER_DROP_HALT_THRESHOLD || 200),
-  });
+  };
 }
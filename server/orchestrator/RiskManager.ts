@@ -0,0 +1,206 @@
+import { ExecutionEvent } from '../connectors/executionTypes';
+import { DecisionAction, RiskLimitsConfig, RiskRejection, SymbolState } from './types';
+
+const DAY_MS = 86_400_000;
+
+export interface RiskManagerDeps {
+  config: RiskLimitsConfig;
+  getStates: () => SymbolState[];
+  // Current mark for notional; positions fall back to their entry price.
+  markPrice: (symbol: string) => number | null;
+}
+
+export interface RiskTransition {
+  type: 'SYSTEM_HALT' | 'SYSTEM_RESUME';
+  reason: string;
+}
+
+/**
+ * Cross-symbol risk layer between the actors and the connector.  Entries
+ * and adds are checked against gross / net / per-symbol notional caps and
+ * the concurrent position limit, counting open positions plus the unfilled
+ * part of resting entry orders.  Exits, cancels and protective orders
+ * always pass.
+ *
+ * The daily loss is realized PnL net of USDT commissions since 00:00 UTC
+ * plus the actors' mark-to-market unrealized PnL, checked on every
+ * execution event and metrics tick.  Crossing the limit yields a
+ * SYSTEM_HALT for the orchestrator to send to every actor; the first event
+ * of the next UTC day yields the matching SYSTEM_RESUME.
+ */
+export class PortfolioRiskManager {
+  private dayIndex = -1;
+  private realizedToday = 0;
+  private haltReason: string | null = null;
+  private rejectedCount = 0;
+
+  constructor(private readonly deps: RiskManagerDeps) { }
+
+  vet(symbol: string, actions: DecisionAction[]): { accepted: DecisionAction[]; rejections: RiskRejection[] } {
+    const accepted: DecisionAction[] = [];
+    const rejections: RiskRejection[] = [];
+    let exposure: Map<string, number> | null = null;
+
+    for (const action of actions) {
+      if (action.type !== 'ENTRY_PROBE' && action.type !== 'ADD_POSITION') {
+        accepted.push(action);
+        continue;
+      }
+      exposure = exposure || this.exposure();
+      const price = action.price ?? action.expectedPrice ?? this.deps.markPrice(symbol);
+      const delta = price && price > 0 && action.quantity
+        ? (action.side === 'SELL' ? -1 : 1) * action.quantity * price
+        : null;
+      const reason = delta === null ? 'risk_price_unavailable' : this.checkEntry(symbol, delta, exposure);
+      if (reason) {
+        rejections.push({ action, reason });
+        continue;
+      }
+      exposure.set(symbol, (exposure.get(symbol) || 0) + (delta as number));
+      accepted.push(action);
+    }
+
+    this.rejectedCount += rejections.length;
+    return { accepted, rejections };
+  }
+
+  onExecutionEvent(event: ExecutionEvent): RiskTransition | null {
+    const rollover = this.rollDay(event.event_time_ms);
+    if (event.type === 'TRADE_UPDATE') {
+      const commission = event.commissionAsset === 'USDT' ? event.commission : 0;
+      this.realizedToday += event.realizedPnl - commission;
+    }
+    return rollover || this.checkDailyLoss();
+  }
+
+  /**
+   * Resets the daily realized PnL on a UTC day change, lifting a loss-limit
+   * halt, and re-checks the loss limit against the current marks.
+   */
+  onClock(nowMs: number): RiskTransition | null {
+    return this.rollDay(nowMs) || this.checkDailyLoss();
+  }
+
+  getStatus() {
+    const exposure = this.exposure();
+    let gross = 0;
+    let net = 0;
+    for (const value of exposure.values()) {
+      gross += Math.abs(value);
+      net += value;
+    }
+    return {
+      limits: { ...this.deps.config },
+      halted: this.haltReason !== null,
+      haltReason: this.haltReason,
+      dailyRealizedPnl: this.realizedToday,
+      unrealizedPnl: this.unrealized(),
+      dailyPnl: this.dailyPnl(),
+      grossNotionalUsdt: gross,
+      netNotionalUsdt: net,
+      openPositions: Array.from(exposure.values()).filter((v) => v !== 0).length,
+      rejectedCount: this.rejectedCount,
+    };
+  }
+
+  private checkDailyLoss(): RiskTransition | null {
+    const limit = this.deps.config.dailyLossLimitUsdt;
+    const pnl = this.dailyPnl();
+    if (this.haltReason === null && limit > 0 && pnl <= -limit) {
+      this.haltReason = `daily_loss_limit:${pnl.toFixed(2)}`;
+      return { type: 'SYSTEM_HALT', reason: this.haltReason };
+    }
+    return null;
+  }
+
+  private rollDay(nowMs: number): RiskTransition | null {
+    const dayIndex = Math.floor(nowMs / DAY_MS);
+    if (dayIndex <= this.dayIndex) {
+      return null;
+    }
+    const first = this.dayIndex < 0;
+    this.dayIndex = dayIndex;
+    if (first) {
+      return null;
+    }
+    this.realizedToday = 0;
+    if (this.haltReason === null) {
+      return null;
+    }
+    this.haltReason = null;
+    return { type: 'SYSTEM_RESUME', reason: 'daily_loss_reset' };
+  }
+
+  private checkEntry(symbol: string, delta: number, exposure: Map<string, number>): string | null {
+    const limits = this.deps.config;
+    if (this.haltReason !== null) {
+      return 'risk_halted';
+    }
+
+    const before = exposure.get(symbol) || 0;
+    const after = before + delta;
+    let grossBefore = 0;
+    let netBefore = 0;
+    let open = 0;
+    for (const value of exposure.values()) {
+      grossBefore += Math.abs(value);
+      netBefore += value;
+      if (value !== 0) {
+        open++;
+      }
+    }
+    const grossAfter = grossBefore - Math.abs(before) + Math.abs(after);
+    const netAfter = netBefore + delta;
+
+    // Limits only block actions that make the breached measure worse.
+    if (limits.maxConcurrentPositions > 0 && before === 0 && open >= limits.maxConcurrentPositions) {
+      return 'risk_max_positions';
+    }
+    if (limits.maxSymbolNotionalUsdt > 0 && Math.abs(after) > limits.maxSymbolNotionalUsdt && Math.abs(after) > Math.abs(before)) {
+      return 'risk_symbol_notional';
+    }
+    if (limits.maxGrossNotionalUsdt > 0 && grossAfter > limits.maxGrossNotionalUsdt && grossAfter > grossBefore) {
+      return 'risk_gross_notional';
+    }
+    if (limits.maxNetNotionalUsdt > 0 && Math.abs(netAfter) > limits.maxNetNotionalUsdt && Math.abs(netAfter) > Math.abs(netBefore)) {
+      return 'risk_net_notional';
+    }
+    return null;
+  }
+
+  /**
+   * Signed notional per symbol: long positive, short negative.
+   */
+  private exposure(): Map<string, number> {
+    const out = new Map<string, number>();
+    for (const state of this.deps.getStates()) {
+      const mark = this.deps.markPrice(state.symbol);
+      let signed = 0;
+      if (state.position) {
+        const sign = state.position.side === 'LONG' ? 1 : -1;
+        signed += sign * state.position.qty * (mark ?? state.position.entryPrice);
+      }
+      for (const order of state.openOrders.values()) {
+        const remaining = order.origQty - order.executedQty;
+        if (order.role !== 'ENTRY' || remaining <= 0 || !mark) {
+          continue;
+        }
+        signed += (order.side === 'BUY' ? 1 : -1) * remaining * mark;
+      }
+      out.set(state.symbol, signed);
+    }
+    return out;
+  }
+
+  private unrealized(): number {
+    let total = 0;
+    for (const state of this.deps.getStates()) {
+      total += state.position?.unrealizedPnlUsdt || 0;
+    }
+    return total;
+  }
+
+  private dailyPnl(): number {
+    return this.realizedToday + this.unrealized();
+  }
+}
@@ -0,0 +1,97 @@
+import { ExecutionEvent } from '../connectors/executionTypes';
+import { DefaultStrategy } from './DefaultStrategy';
+import { DecisionAction, GateResult, OrchestratorMetricsInput, SymbolState } from './types';
+
+export type StrategyParams = Record<string, number>;
+
+export type EntryOrderParams = Pick<DecisionAction, 'orderType' | 'price' | 'timeInForce' | 'cancelAfterMs'> & { expectedPrice: number };
+
+export interface StrategyMetricsInput {
+  symbol: string;
+  event_time_ms: number;
+  gate: GateResult;
+  metrics: OrchestratorMetricsInput;
+  state: SymbolState;
+  params: StrategyParams;
+}
+
+export interface StrategyExecutionInput {
+  symbol: string;
+  event: ExecutionEvent;
+  state: SymbolState;
+  params: StrategyParams;
+}
+
+/**
+ * Order helpers a strategy gets from the DecisionEngine, so entry pricing,
+ * sizing and exit pricing stay the same whichever rule set is selected.
+ */
+export interface StrategyTools {
+  entryOrder(symbol: string, side: 'BUY' | 'SELL', metrics: OrchestratorMetricsInput): EntryOrderParams | null;
+  probeQuantity(input: {
+    availableBalance: number;
+    expectedPrice: number;
+    deltaZ: number;
+    obiDeep: number;
+    execPoor: boolean;
+  }): number;
+  exitAction(symbol: string, event_time_ms: number, side: 'BUY' | 'SELL', reason: string): DecisionAction;
+}
+
+export interface Strategy {
+  readonly name: string;
+  // Every tunable parameter with its default; overrides for other keys are ignored.
+  readonly defaultParams: StrategyParams;
+  onMetrics(input: StrategyMetricsInput, tools: StrategyTools): DecisionAction[];
+  onExecution?(input: StrategyExecutionInput, tools: StrategyTools): DecisionAction[];
+}
+
+export interface StrategySelection {
+  name: string;
+  params: StrategyParams;
+}
+
+export class StrategyRegistry {
+  private readonly strategies = new Map<string, Strategy>();
+
+  register(strategy: Strategy) {
+    if (this.strategies.has(strategy.name)) {
+      throw new Error(`strategy_already_registered:${strategy.name}`);
+    }
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  get(name: string): Strategy | null {
+    return this.strategies.get(name) || null;
+  }
+
+  list(): Array<{ name: string; defaultParams: StrategyParams }> {
+    return Array.from(this.strategies.values()).map((s) => ({ name: s.name, defaultParams: { ...s.defaultParams } }));
+  }
+
+  /**
+   * Builds a selection from a strategy name and parameter overrides.
+   * Unknown strategies throw; unknown or non-numeric parameters are dropped.
+   */
+  resolve(name: string, overrides: Record<string, unknown> = {}): StrategySelection {
+    const strategy = this.get(name);
+    if (!strategy) {
+      throw new Error(`unknown_strategy:${name}`);
+    }
+
+    const params: StrategyParams = { ...strategy.defaultParams };
+    for (const [key, value] of Object.entries(overrides)) {
+      const num = Number(value);
+      if (Object.prototype.hasOwnProperty.call(params, key) && value !== null && value !== '' && Number.isFinite(num)) {
+        params[key] = num;
+      }
+    }
+    return { name, params };
+  }
+}
+
+export function createDefaultStrategyRegistry(): StrategyRegistry {
+  const registry = new StrategyRegistry();
+  registry.register(new DefaultStrategy());
+  return registry;
+}
@@ -1,4 +1,4 @@
-import { ExecutionEvent } from '../connectors/executionTypes';
+import { ExecutionEvent, OrderType, TimeInForce } from '../connectors/executionTypes';
 
 export interface OrchestratorMetricsInput {
   symbol: string;
@@ -13,6 +13,13 @@ export interface OrchestratorMetricsInput {
     deltaZ?: number | null;
     cvdSlope?: number | null;
   } | null;
+  liquidations?: {
+    longNotional1m: number;
+    shortNotional1m: number;
+    burstActive: boolean;
+    cascadeActive: boolean;
+    cascadeSide: 'long' | 'short' | null;
+  } | null;
 }
 
 export enum GateMode {
@@ -24,6 +31,8 @@ export interface GateConfig {
   mode: GateMode;
   maxSpreadPct: number;
   minObiDeep: number;
+  // Fail the gate while a liquidation cascade is running on the symbol.
+  blockOnLiquidationCascade?: boolean;
   v2?: {
     maxNetworkLatencyMs: number;
   };
@@ -39,6 +48,8 @@ export interface GateResult {
     spreadOk: boolean;
     obiDeepOk: boolean;
     networkLatencyOk: boolean | null;
+    // null when cascade blocking is off.
+    liquidationOk: boolean | null;
   };
 }
 
@@ -60,24 +71,38 @@ export interface ExecutionEventEnvelope {
 
 export type ActorEnvelope = MetricsEventEnvelope | ExecutionEventEnvelope;
 
+// ENTRY opens or adds; EXIT is a reduce-only close; STOP_LOSS / TAKE_PROFIT are the
+// exchange-side protective orders resting while a position is open.
+export type OrderRole = 'ENTRY' | 'EXIT' | 'STOP_LOSS' | 'TAKE_PROFIT';
+
 export interface OpenOrderState {
   orderId: string;
   clientOrderId: string;
   side: 'BUY' | 'SELL';
-  orderType: 'MARKET' | 'LIMIT';
+  orderType: OrderType;
+  role: OrderRole;
   status: string;
   origQty: number;
   executedQty: number;
   reduceOnly: boolean;
   event_time_ms: number;
+  // Trigger price of STOP_LOSS / TAKE_PROFIT orders.
+  stopPrice?: number | null;
+  // Set for resting entry orders placed with a timeout; the actor cancels them once passed.
+  cancel_at_ms?: number | null;
 }
 
 export interface PositionState {
   side: 'LONG' | 'SHORT';
   qty: number;
   entryPrice: number;
+  // Mid price the PnL below was marked at; null until the first book tick.
+  markPrice: number | null;
+  unrealizedPnlUsdt: number;
+  // Unrealized PnL in percent of initial margin (entry notional / leverage).
   unrealizedPnlPct: number;
   addsUsed: number;
+  // Highest unrealizedPnlPct seen since the position was opened on this side.
   peakPnlPct: number;
 }
 
@@ -105,6 +130,8 @@ export type DecisionActionType =
   | 'ADD_POSITION'
   | 'EXIT_MARKET'
   | 'CANCEL_OPEN_ENTRY_ORDERS'
+  | 'CANCEL_ORDER'
+  | 'PLACE_PROTECTIVE'
   | 'NOOP';
 
 export interface DecisionAction {
@@ -113,18 +140,59 @@ export interface DecisionAction {
   event_time_ms: number;
   side?: 'BUY' | 'SELL';
   quantity?: number;
+  orderType?: OrderType;
   price?: number;
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+  cancelAfterMs?: number;
+  orderId?: string;
+  clientOrderId?: string;
   reduceOnly?: boolean;
   reason: string;
   expectedPrice?: number | null;
 }
 
+export type EntryOrderType = 'MARKET' | 'LIMIT' | 'POST_ONLY';
+
+export interface EntryOrderConfig {
+  type: EntryOrderType;
+  // Passive offset from the touch in ticks (bid for buys, ask for sells).
+  offsetTicks: number;
+  // Resting entries still open after this long are cancelled by the actor.
+  timeoutMs: number;
+}
+
+export interface ProtectiveOrderConfig {
+  // Distance from the position entry price in percent; 0 disables that leg.
+  stopLossPct: number;
+  takeProfitPct: number;
+}
+
+export interface RiskLimitsConfig {
+  // Notional caps in USDT at the current mark price; 0 disables a limit.
+  maxGrossNotionalUsdt: number;
+  maxNetNotionalUsdt: number;
+  maxSymbolNotionalUsdt: number;
+  maxConcurrentPositions: number;
+  // Realized + unrealized loss since 00:00 UTC that halts every symbol until the next day.
+  dailyLossLimitUsdt: number;
+}
+
+export interface RiskRejection {
+  action: DecisionAction;
+  reason: string;
+}
+
 export interface DecisionRecord {
   symbol: string;
+  strategy: string;
   canonical_time_ms: number;
   exchange_event_time_ms: number | null;
-  gate: GateResult;
+  // Null for records written from execution events (risk rejections of follow-up actions).
+  gate: GateResult | null;
+  // Actions that passed the portfolio risk check and were sent on.
   actions: DecisionAction[];
+  rejections: RiskRejection[];
   stateSnapshot: {
     halted: boolean;
     availableBalance: number;
@@ -135,12 +203,45 @@ export interface DecisionRecord {
   };
 }
 
+/**
+ * Trading events worth telling a human about, emitted by the
+ * orchestrator as they are logged.
+ */
+export type OrchestratorNotice =
+  | { type: 'POSITION_OPENED'; symbol: string; event_time_ms: number; side: 'LONG' | 'SHORT'; qty: number; entryPrice: number }
+  | {
+    type: 'POSITION_CLOSED';
+    symbol: string;
+    event_time_ms: number;
+    side: 'LONG' | 'SHORT';
+    qty: number;
+    entryPrice: number;
+    // Realized PnL of the symbol since the server started
+    realizedPnl: number;
+  }
+  | { type: 'SYSTEM_HALT' | 'SYSTEM_RESUME'; symbol: string; event_time_ms: number; reason: string }
+  | { type: 'ORDER_ERROR'; symbol: string; event_time_ms: number; message: string; code: number | null; errorClass: string | null };
+
+// Outcome of Orchestrator.flattenPositions()
+export interface FlattenResult {
+  // Symbols whose close order was sent
+  closed: string[];
+  failed: { symbol: string; error: string }[];
+}
+
 export interface OrchestratorConfig {
   gate: GateConfig;
   riskPerTradePercent: number;
   maxLeverage: number;
+  entryOrder: EntryOrderConfig;
+  protection: ProtectiveOrderConfig;
+  risk: RiskLimitsConfig;
+  // Strategy used for symbols without their own selection.
+  defaultStrategy: string;
   cooldownMinMs: number;
   cooldownMaxMs: number;
   loggerQueueLimit: number;
   loggerDropHaltThreshold: number;
+  // Defaults to logs/orchestrator; null disables file logging.
+  logDir?: string | null;
 }
@@ -0,0 +1,324 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+
+export interface MarketDataRecorderConfig {
+  enabled: boolean;
+  dir: string;
+  // Empty records every symbol the server is streaming.
+  symbols: string[];
+  retentionDays: number;
+  maxTotalBytes: number;
+  maxFileBytes: number;
+  // Per-file gzip backlog above which entries are dropped instead of queued.
+  maxBufferedBytes: number;
+  flushIntervalMs: number;
+  now?: () => number;
+  onError?: (error: Error) => void;
+}
+
+export interface RecorderSnapshot {
+  lastUpdateId: number;
+  E?: number;
+  bids: [string, string][];
+  asks: [string, string][];
+}
+
+export interface MarketDataRecorderStatus {
+  enabled: boolean;
+  dir: string;
+  symbols: string[];
+  retentionDays: number;
+  maxTotalBytes: number;
+  maxFileBytes: number;
+  openFiles: string[];
+  recorded: number;
+  dropped: number;
+  bytesWritten: number;
+  lastPruneMs: number;
+  prunedFiles: number;
+}
+
+type RecordingFile = {
+  day: string;
+  filePath: string;
+  gzip: zlib.Gzip;
+  out: fs.WriteStream;
+};
+
+/**
+ * Writes raw combined-stream messages and REST depth snapshots to
+ * <dir>/<SYMBOL>/<SYMBOL>_<YYYYMMDD>_<HHmmss>.jsonl.gz, one file per symbol
+ * and UTC day, rotated early once a file reaches maxFileBytes on disk.
+ *
+ * Every line is the original `{ stream, data }` message with a leading
+ * `recv_ms` receive timestamp, so recordings replay through the backtester
+ * unchanged. Writes never wait: when a file's gzip backlog is over budget
+ * the entry is dropped and counted instead of growing a queue.
+ */
+export class MarketDataRecorder {
+  private readonly files = new Map<string, RecordingFile>();
+  private readonly pending = new Set<Promise<void>>();
+  private readonly now: () => number;
+  private symbols: Set<string>;
+  private enabled = false;
+  private recorded = 0;
+  private dropped = 0;
+  private bytesWritten = 0;
+  private lastPruneMs = 0;
+  private prunedFiles = 0;
+  private pruning: Promise<void> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly config: MarketDataRecorderConfig) {
+    this.now = config.now || (() => Date.now());
+    this.symbols = new Set(config.symbols.map((s) => s.toUpperCase()));
+    this.setEnabled(config.enabled);
+  }
+
+  isRecording(symbol: string): boolean {
+    return this.enabled && (this.symbols.size === 0 || this.symbols.has(symbol));
+  }
+
+  /**
+   * `raw` is the combined-stream message text exactly as received.
+   */
+  recordMessage(symbol: string, raw: string) {
+    if (!this.isRecording(symbol) || raw.charCodeAt(0) !== 123 /* { */) {
+      return;
+    }
+    const recvMs = this.now();
+    this.write(symbol, recvMs, `{"recv_ms":${recvMs},${raw.slice(1)}\n`);
+  }
+
+  recordSnapshot(symbol: string, snapshot: RecorderSnapshot) {
+    if (!this.isRecording(symbol)) {
+      return;
+    }
+    const recvMs = this.now();
+    const line = JSON.stringify({
+      recv_ms: recvMs,
+      stream: `${symbol.toLowerCase()}@depthSnapshot`,
+      data: {
+        e: 'depthSnapshot',
+        s: symbol,
+        E: snapshot.E ?? recvMs,
+        lastUpdateId: snapshot.lastUpdateId,
+        bids: snapshot.bids,
+        asks: snapshot.asks,
+      },
+    });
+    this.write(symbol, recvMs, `${line}\n`);
+  }
+
+  setEnabled(enabled: boolean) {
+    if (enabled === this.enabled) {
+      return;
+    }
+    this.enabled = enabled;
+    if (enabled) {
+      fs.mkdirSync(this.config.dir, { recursive: true });
+      this.flushTimer = setInterval(() => this.flushAll(), this.config.flushIntervalMs);
+      this.flushTimer.unref();
+      this.prune();
+      return;
+    }
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    for (const symbol of [...this.files.keys()]) {
+      this.close(symbol);
+    }
+  }
+
+  setSymbols(symbols: string[]) {
+    this.symbols = new Set(symbols.map((s) => s.toUpperCase()));
+    for (const symbol of [...this.files.keys()]) {
+      if (!this.isRecording(symbol)) {
+        this.close(symbol);
+      }
+    }
+  }
+
+  getStatus(): MarketDataRecorderStatus {
+    return {
+      enabled: this.enabled,
+      dir: this.config.dir,
+      symbols: [...this.symbols],
+      retentionDays: this.config.retentionDays,
+      maxTotalBytes: this.config.maxTotalBytes,
+      maxFileBytes: this.config.maxFileBytes,
+      openFiles: [...this.files.values()].map((f) => path.relative(this.config.dir, f.filePath)),
+      recorded: this.recorded,
+      dropped: this.dropped,
+      bytesWritten: this.bytesWritten,
+      lastPruneMs: this.lastPruneMs,
+      prunedFiles: this.prunedFiles,
+    };
+  }
+
+  /**
+   * Disables recording and resolves once every open file is fully written.
+   */
+  async shutdown() {
+    this.setEnabled(false);
+    await Promise.all([...this.pending]);
+  }
+
+  /**
+   * Deletes recordings older than retentionDays, then the oldest files until
+   * the directory fits in maxTotalBytes. Files still being written are kept.
+   * A call made while a pass is running returns that pass.
+   */
+  prune(): Promise<void> {
+    if (!this.pruning) {
+      this.pruning = this.runPrune().finally(() => {
+        this.pruning = null;
+      });
+    }
+    return this.pruning;
+  }
+
+  private async runPrune() {
+    try {
+      const open = new Set([...this.files.values()].map((f) => f.filePath));
+      const entries = (await this.listRecordings()).filter((e) => !open.has(e.filePath));
+      entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+
+      const cutoff = this.now() - this.config.retentionDays * 86_400_000;
+      let total = entries.reduce((sum, e) => sum + e.size, 0);
+      for (const entry of entries) {
+        const expired = this.config.retentionDays > 0 && entry.mtimeMs < cutoff;
+        const overBudget = this.config.maxTotalBytes > 0 && total > this.config.maxTotalBytes;
+        if (!expired && !overBudget) {
+          continue;
+        }
+        try {
+          await fs.promises.unlink(entry.filePath);
+          total -= entry.size;
+          this.prunedFiles++;
+        } catch (e: any) {
+          this.reportError(e);
+        }
+      }
+      this.lastPruneMs = this.now();
+    } catch (e: any) {
+      this.reportError(e);
+    }
+  }
+
+  private write(symbol: string, recvMs: number, line: string) {
+    const file = this.getFile(symbol, recvMs);
+    if (file.gzip.writableLength > this.config.maxBufferedBytes) {
+      this.dropped++;
+      return;
+    }
+    file.gzip.write(line);
+    this.recorded++;
+    this.bytesWritten += line.length;
+  }
+
+  private getFile(symbol: string, recvMs: number): RecordingFile {
+    const day = this.dateToken(recvMs);
+    const existing = this.files.get(symbol);
+    if (existing && existing.day === day && existing.out.bytesWritten < this.config.maxFileBytes) {
+      return existing;
+    }
+    if (existing) {
+      this.close(symbol);
+      this.prune();
+    }
+
+    const dir = path.join(this.config.dir, symbol);
+    fs.mkdirSync(dir, { recursive: true });
+    // Appending to an existing name adds a gzip member, which gunzip reads through.
+    const filePath = path.join(dir, `${symbol}_${day}_${this.timeToken(recvMs)}.jsonl.gz`);
+    const gzip = zlib.createGzip();
+    const out = fs.createWriteStream(filePath, { flags: 'a' });
+    gzip.on('error', (e) => this.reportError(e));
+    out.on('error', (e) => this.reportError(e));
+    gzip.pipe(out);
+
+    const file: RecordingFile = { day, filePath, gzip, out };
+    this.files.set(symbol, file);
+    return file;
+  }
+
+  private close(symbol: string) {
+    const file = this.files.get(symbol);
+    if (!file) {
+      return;
+    }
+    this.files.delete(symbol);
+    const done = new Promise<void>((resolve) => {
+      file.out.once('close', () => resolve());
+      file.out.once('error', () => resolve());
+    });
+    this.pending.add(done);
+    done.then(() => this.pending.delete(done));
+    file.gzip.end();
+  }
+
+  private flushAll() {
+    // Sync-flush so a crash loses at most one interval of compressed output.
+    for (const file of this.files.values()) {
+      file.gzip.flush();
+    }
+  }
+
+  private async listRecordings(): Promise<Array<{ filePath: string; size: number; mtimeMs: number }>> {
+    const result: Array<{ filePath: string; size: number; mtimeMs: number }> = [];
+    const symbolDirs = await fs.promises.readdir(this.config.dir, { withFileTypes: true }).catch(() => []);
+    for (const symbolDir of symbolDirs) {
+      if (!symbolDir.isDirectory()) {
+        continue;
+      }
+      const dir = path.join(this.config.dir, symbolDir.name);
+      for (const name of await fs.promises.readdir(dir)) {
+        if (!name.endsWith('.jsonl.gz')) {
+          continue;
+        }
+        const filePath = path.join(dir, name);
+        const stat = await fs.promises.stat(filePath);
+        result.push({ filePath, size: stat.size, mtimeMs: stat.mtimeMs });
+      }
+    }
+    return result;
+  }
+
+  private reportError(error: Error) {
+    if (this.config.onError) {
+      this.config.onError(error);
+    }
+  }
+
+  private dateToken(ms: number): string {
+    const d = new Date(ms);
+    const yyyy = d.getUTCFullYear();
+    const mm = String(d.getUTCMonth() + 1).padStart(2, '0');
+    const dd = String(d.getUTCDate()).padStart(2, '0');
+    return `${yyyy}${mm}${dd}`;
+  }
+
+  private timeToken(ms: number): string {
+    const d = new Date(ms);
+    return [d.getUTCHours(), d.getUTCMinutes(), d.getUTCSeconds()]
+      .map((n) => String(n).padStart(2, '0'))
+      .join('');
+  }
+}
+
+export function createMarketDataRecorderFromEnv(onError?: (error: Error) => void): MarketDataRecorder {
+  return new MarketDataRecorder({
+    enabled: String(process.env.RECORDER_ENABLED || 'false').toLowerCase() === 'true',
+    dir: process.env.RECORDER_DIR || path.resolve(__dirname, '../logs/recordings'),
+    symbols: String(process.env.RECORDER_SYMBOLS || '').split(',').map((s) => s.trim()).filter(Boolean),
+    retentionDays: Number(process.env.RECORDER_RETENTION_DAYS || 7),
+    maxTotalBytes: Number(process.env.RECORDER_MAX_TOTAL_MB || 10240) * 1024 * 1024,
+    maxFileBytes: Number(process.env.RECORDER_MAX_FILE_MB || 256) * 1024 * 1024,
+    maxBufferedBytes: Number(process.env.RECORDER_MAX_BUFFERED_KB || 4096) * 1024,
+    flushIntervalMs: Number(process.env.RECORDER_FLUSH_INTERVAL_MS || 5000),
+    onError,
+  });
+}
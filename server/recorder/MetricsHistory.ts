@@ -0,0 +1,303 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface MetricsHistoryConfig {
+  // One sample per symbol per interval; later payloads in the interval replace it.
+  sampleIntervalMs: number;
+  // Ring buffer capacity per symbol.
+  maxSamples: number;
+  // Null keeps history in memory only.
+  dir: string | null;
+  flushIntervalMs: number;
+  now?: () => number;
+  onError?: (error: Error) => void;
+}
+
+export interface HistoryQuery {
+  // Field names or prefixes such as `legacyMetrics`; empty selects every field.
+  fields?: string[];
+  from?: number;
+  to?: number;
+  // Bucket width in ms; the last sample of each bucket is kept.
+  resolutionMs?: number;
+}
+
+export interface HistorySeries {
+  symbol: string;
+  resolutionMs: number;
+  fields: string[];
+  // Sample times, oldest first, aligned with every series.
+  t: number[];
+  series: Record<string, (number | null)[]>;
+}
+
+export interface MetricsHistoryStatus {
+  dir: string | null;
+  sampleIntervalMs: number;
+  maxSamples: number;
+  symbols: Record<string, { samples: number; from: number | null; to: number | null }>;
+  persisted: number;
+}
+
+type Sample = {
+  ts: number;
+  values: Record<string, number | null>;
+};
+
+type SymbolHistory = {
+  ring: (Sample | undefined)[];
+  // Next write position; the ring is full once `size` reaches capacity.
+  head: number;
+  size: number;
+  // Lines appended to the file since it was last rewritten.
+  appended: number;
+  // Newest sample queued for or read from the file
+  persistedTs: number;
+};
+
+// Payload sections kept in history; order books and debug counters are left out.
+const HISTORY_SECTIONS = [
+  'midPrice', 'spreadPct', 'absorption', 'markPrice', 'indexPrice', 'premiumPct',
+  'legacyMetrics', 'cvd', 'timeAndSales', 'openInterest', 'funding', 'liquidations',
+];
+
+/**
+ * Numeric leaves of a metrics payload keyed by dotted path, e.g.
+ * `legacyMetrics.deltaZ` or `cvd.tf5m.exhaustion`.  Booleans become 1 / 0.
+ */
+export function flattenMetrics(payload: Record<string, any>): Record<string, number | null> {
+  const out: Record<string, number | null> = {};
+  const visit = (value: any, key: string) => {
+    if (typeof value === 'number') {
+      out[key] = Number.isFinite(value) ? value : null;
+    } else if (typeof value === 'boolean') {
+      out[key] = value ? 1 : 0;
+    } else if (value === null) {
+      out[key] = null;
+    } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const [k, v] of Object.entries(value)) visit(v, `${key}.${k}`);
+    }
+  };
+  for (const section of HISTORY_SECTIONS) {
+    if (payload[section] !== undefined) visit(payload[section], section);
+  }
+  return out;
+}
+
+/**
+ * Downsampled history of the metrics broadcast per symbol, kept in a
+ * fixed-size ring so memory stays bounded however long the server runs.
+ *
+ * With a directory configured, every completed sample is appended to
+ * <dir>/<SYMBOL>.jsonl (`:` in venue symbols becomes `-`) and load()
+ * restores the newest maxSamples per symbol after a restart.  A file is
+ * rewritten from its ring once it holds twice the ring's capacity.
+ */
+export class MetricsHistory {
+  private readonly symbols = new Map<string, SymbolHistory>();
+  private readonly unwritten = new Map<string, string[]>();
+  private readonly now: () => number;
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private persisted = 0;
+
+  constructor(private readonly config: MetricsHistoryConfig) {
+    this.now = config.now || (() => Date.now());
+    if (config.dir) {
+      this.flushTimer = setInterval(() => this.flush(), config.flushIntervalMs);
+      this.flushTimer.unref();
+    }
+  }
+
+  record(symbol: string, payload: Record<string, any>) {
+    const ts = this.now();
+    const history = this.historyFor(symbol);
+    const last = this.latest(history);
+    const sample = { ts, values: flattenMetrics(payload) };
+    if (last && Math.floor(last.ts / this.config.sampleIntervalMs) === Math.floor(ts / this.config.sampleIntervalMs)) {
+      history.ring[(history.head - 1 + this.config.maxSamples) % this.config.maxSamples] = sample;
+      return;
+    }
+    if (last && last.ts > history.persistedTs) {
+      this.persist(symbol, last);
+      history.persistedTs = last.ts;
+    }
+    this.push(history, sample);
+  }
+
+  query(symbol: string, q: HistoryQuery = {}): HistorySeries | null {
+    const history = this.symbols.get(symbol);
+    if (!history) return null;
+    const from = q.from ?? -Infinity;
+    const to = q.to ?? Infinity;
+    const resolutionMs = Math.max(this.config.sampleIntervalMs, q.resolutionMs || 0);
+
+    const samples: Sample[] = [];
+    for (const sample of this.samples(history)) {
+      if (sample.ts < from || sample.ts > to) continue;
+      const prev = samples[samples.length - 1];
+      if (prev && Math.floor(prev.ts / resolutionMs) === Math.floor(sample.ts / resolutionMs)) {
+        samples[samples.length - 1] = sample;
+      } else {
+        samples.push(sample);
+      }
+    }
+
+    const known = new Set<string>();
+    samples.forEach((s) => Object.keys(s.values).forEach((k) => known.add(k)));
+    const wanted = (q.fields || []).filter(Boolean);
+    const fields = [...known]
+      .filter((f) => wanted.length === 0 || wanted.some((w) => f === w || f.startsWith(`${w}.`)))
+      .sort();
+
+    const series: Record<string, (number | null)[]> = {};
+    for (const field of fields) {
+      series[field] = samples.map((s) => s.values[field] ?? null);
+    }
+    return { symbol, resolutionMs, fields, t: samples.map((s) => s.ts), series };
+  }
+
+  getStatus(): MetricsHistoryStatus {
+    const symbols: MetricsHistoryStatus['symbols'] = {};
+    this.symbols.forEach((history, symbol) => {
+      const samples = this.samples(history);
+      symbols[symbol] = {
+        samples: samples.length,
+        from: samples.length ? samples[0].ts : null,
+        to: samples.length ? samples[samples.length - 1].ts : null,
+      };
+    });
+    return {
+      dir: this.config.dir,
+      sampleIntervalMs: this.config.sampleIntervalMs,
+      maxSamples: this.config.maxSamples,
+      symbols,
+      persisted: this.persisted,
+    };
+  }
+
+  /**
+   * Reads persisted samples back into the rings.  Unreadable lines are skipped.
+   */
+  async load() {
+    const dir = this.config.dir;
+    if (!dir) return;
+    await fs.promises.mkdir(dir, { recursive: true });
+    for (const name of await fs.promises.readdir(dir)) {
+      if (!name.endsWith('.jsonl')) continue;
+      const symbol = name.slice(0, -'.jsonl'.length).replace('-', ':');
+      const text = await fs.promises.readFile(path.join(dir, name), 'utf8');
+      const history = this.historyFor(symbol);
+      for (const line of text.split('\n')) {
+        try {
+          const sample = line ? JSON.parse(line) : null;
+          if (sample && typeof sample.ts === 'number' && sample.values) {
+            this.push(history, sample);
+            history.persistedTs = Math.max(history.persistedTs, sample.ts);
+          }
+        } catch {
+          // Torn last line from an unclean shutdown
+        }
+      }
+      // Rewritten on the next flush, which also drops a torn line
+      history.appended = 2 * this.config.maxSamples;
+    }
+  }
+
+  /**
+   * Appends samples completed since the last flush.  A call made while a
+   * flush is running returns that flush.
+   */
+  flush(): Promise<void> {
+    if (!this.flushing) {
+      this.flushing = this.runFlush().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  async shutdown() {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  private async runFlush() {
+    const dir = this.config.dir;
+    if (!dir) return;
+    const batches = [...this.unwritten.entries()];
+    this.unwritten.clear();
+    for (const [symbol, lines] of batches) {
+      const filePath = path.join(dir, `${symbol.replace(':', '-')}.jsonl`);
+      const history = this.symbols.get(symbol)!;
+      try {
+        await fs.promises.mkdir(dir, { recursive: true });
+        if (history.appended + lines.length > 2 * this.config.maxSamples) {
+          // Completed samples only; the open one is appended once it completes.
+          const kept = this.samples(history).slice(0, -1).map((s) => JSON.stringify(s));
+          await fs.promises.writeFile(filePath, kept.length ? `${kept.join('\n')}\n` : '');
+          history.appended = kept.length;
+        } else {
+          await fs.promises.appendFile(filePath, `${lines.join('\n')}\n`);
+          history.appended += lines.length;
+        }
+        this.persisted += lines.length;
+      } catch (e: any) {
+        if (this.config.onError) this.config.onError(e);
+      }
+    }
+  }
+
+  private persist(symbol: string, sample: Sample) {
+    if (!this.config.dir) return;
+    let lines = this.unwritten.get(symbol);
+    if (!lines) {
+      lines = [];
+      this.unwritten.set(symbol, lines);
+    }
+    lines.push(JSON.stringify(sample));
+  }
+
+  private historyFor(symbol: string): SymbolHistory {
+    let history = this.symbols.get(symbol);
+    if (!history) {
+      history = { ring: new Array(this.config.maxSamples), head: 0, size: 0, appended: 0, persistedTs: -Infinity };
+      this.symbols.set(symbol, history);
+    }
+    return history;
+  }
+
+  private push(history: SymbolHistory, sample: Sample) {
+    history.ring[history.head] = sample;
+    history.head = (history.head + 1) % this.config.maxSamples;
+    history.size = Math.min(history.size + 1, this.config.maxSamples);
+  }
+
+  private latest(history: SymbolHistory): Sample | undefined {
+    return history.size > 0 ? history.ring[(history.head - 1 + this.config.maxSamples) % this.config.maxSamples] : undefined;
+  }
+
+  // Oldest first
+  private samples(history: SymbolHistory): Sample[] {
+    const out: Sample[] = [];
+    const start = (history.head - history.size + this.config.maxSamples) % this.config.maxSamples;
+    for (let i = 0; i < history.size; i++) {
+      out.push(history.ring[(start + i) % this.config.maxSamples]!);
+    }
+    return out;
+  }
+}
+
+export function createMetricsHistoryFromEnv(onError?: (error: Error) => void): MetricsHistory {
+  const persist = String(process.env.HISTORY_PERSIST || 'false').toLowerCase() === 'true';
+  return new MetricsHistory({
+    sampleIntervalMs: Number(process.env.HISTORY_SAMPLE_INTERVAL_MS || 1000),
+    maxSamples: Number(process.env.HISTORY_MAX_SAMPLES || 21600),
+    dir: persist ? (process.env.HISTORY_DIR || path.resolve(__dirname, '../logs/history')) : null,
+    flushIntervalMs: Number(process.env.HISTORY_FLUSH_INTERVAL_MS || 10000),
+    onError,
+  });
+}
@@ -0,0 +1,158 @@
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Seconds; suits both local processing and exchange round trips.
+export const DEFAULT_LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface RenderableMetric {
+  readonly name: string;
+  readonly help: string;
+  readonly type: MetricType;
+  lines(): string[];
+}
+
+/**
+ * Counter or gauge with one value per label set.  Counters are normally
+ * only incremented; `set` is for totals kept elsewhere and read at scrape
+ * time.
+ */
+export class ValueMetric implements RenderableMetric {
+  private readonly series = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge') {}
+
+  inc(labels: MetricLabels = {}, value = 1) {
+    const key = labelKey(labels);
+    this.series.set(key, (this.series.get(key) || 0) + value);
+  }
+
+  set(labels: MetricLabels, value: number) {
+    this.series.set(labelKey(labels), value);
+  }
+
+  get(labels: MetricLabels = {}): number {
+    return this.series.get(labelKey(labels)) || 0;
+  }
+
+  // Drops every series, e.g. before a scrape-time gauge is refilled.
+  reset() {
+    this.series.clear();
+  }
+
+  lines(): string[] {
+    return [...this.series].map(([key, value]) => `${this.name}${key ? `{${key}}` : ''} ${formatValue(value)}`);
+  }
+}
+
+type HistogramSeries = {
+  labels: string;
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+export class Histogram implements RenderableMetric {
+  readonly type = 'histogram';
+  private readonly series = new Map<string, HistogramSeries>();
+  private readonly buckets: number[];
+
+  constructor(readonly name: string, readonly help: string, buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    if (!Number.isFinite(value)) return;
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: key, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    const index = this.buckets.findIndex((b) => value <= b);
+    if (index >= 0) series.counts[index]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  lines(): string[] {
+    const out: string[] = [];
+    for (const series of this.series.values()) {
+      const prefix = series.labels ? `${series.labels},` : '';
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.counts[i];
+        out.push(`${this.name}_bucket{${prefix}le="${formatValue(bound)}"} ${cumulative}`);
+      });
+      out.push(`${this.name}_bucket{${prefix}le="+Inf"} ${series.count}`);
+      const labels = series.labels ? `{${series.labels}}` : '';
+      out.push(`${this.name}_sum${labels} ${formatValue(series.sum)}`);
+      out.push(`${this.name}_count${labels} ${series.count}`);
+    }
+    return out;
+  }
+}
+
+/**
+ * Minimal Prometheus text-format (0.0.4) registry.  Values that live in
+ * other components are read by collectors run before each render.
+ */
+export class PrometheusRegistry {
+  private readonly metrics = new Map<string, RenderableMetric>();
+  private readonly collectors: Array<() => void> = [];
+
+  counter(name: string, help: string): ValueMetric {
+    return this.register(new ValueMetric(name, help, 'counter'));
+  }
+
+  gauge(name: string, help: string): ValueMetric {
+    return this.register(new ValueMetric(name, help, 'gauge'));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  onCollect(collector: () => void) {
+    this.collectors.push(collector);
+  }
+
+  render(): string {
+    for (const collect of this.collectors) {
+      collect();
+    }
+    const out: string[] = [];
+    for (const metric of this.metrics.values()) {
+      out.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      out.push(`# TYPE ${metric.name} ${metric.type}`);
+      out.push(...metric.lines());
+    }
+    return `${out.join('\n')}\n`;
+  }
+
+  private register<T extends RenderableMetric>(metric: T): T {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(metric.name)) {
+      throw new Error(`invalid metric name: ${metric.name}`);
+    }
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`metric already registered: ${metric.name}`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function labelKey(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((k) => `${k}="${String(labels[k]).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`)
+    .join(',');
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
@@ -0,0 +1,130 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AlertEngine, FiredAlert } from '../alerts/AlertEngine';
+import { compileExpression } from '../alerts/AlertExpression';
+
+const payload = (deltaZ: number, extra: Record<string, any> = {}) => ({
+  absorption: 0,
+  legacyMetrics: { deltaZ, obiDeep: 0.2 },
+  cvd: { tf5m: { cvd: 1, delta: 1, exhaustion: false } },
+  openInterest: { deltaPercent: -2.5, signal: 'bearish' },
+  ...extra,
+});
+
+function testExpressions() {
+  const p = payload(3.5, { cvd: { tf5m: { exhaustion: true } } });
+  assert(compileExpression('deltaZ > 3 && cvd.tf5m.exhaustion').evaluate(p), 'bare names read legacyMetrics');
+  assert(compileExpression('abs(openInterest.deltaPercent) >= 2 && openInterest.signal == \'bearish\'').evaluate(p), 'functions and strings');
+  assert(compileExpression('-(deltaZ - 0.5) * 2 == -6').evaluate(p), 'arithmetic and precedence');
+  assert(!compileExpression('funding.rate > 0').evaluate(p) && !compileExpression('missing != 1').evaluate(p), 'missing values compare false');
+  assert(!compileExpression('constructor').evaluate(p), 'inherited properties are not readable');
+  assert(compileExpression('absorption === 1 || deltaZ > 3').values(p).deltaZ === 3.5, 'values of the fields read');
+  for (const bad of ['deltaZ >', 'deltaZ > 3)', 'eval(1)', 'deltaZ ; 1', '', '__defineGetter__(1, 2) > 0', 'constructor(1)', 'toString()']) {
+    let threw = false;
+    try {
+      compileExpression(bad);
+    } catch {
+      threw = true;
+    }
+    assert(threw, `rejects ${JSON.stringify(bad)}`);
+  }
+}
+
+/**
+ * Fires once per crossing: disarmed until the clear expression holds,
+ * then held back by the cooldown; forMs delays the first firing.
+ */
+function testHysteresisAndCooldown() {
+  let now = 0;
+  const engine = new AlertEngine({ file: null, maxHistory: 10, now: () => now });
+  const fired: FiredAlert[] = [];
+  engine.onAlert((a) => fired.push(a));
+  engine.createRule({ name: 'delta spike', expression: 'deltaZ > 3', clearExpression: 'deltaZ < 2', cooldownMs: 10_000, severity: 'critical' });
+
+  const step = (t: number, deltaZ: number) => {
+    now = t;
+    engine.evaluate('BTCUSDT', payload(deltaZ));
+  };
+  step(0, 3.5);
+  step(1000, 2.5);
+  step(2000, 3.5);
+  assert(fired.length === 1 && fired[0].severity === 'critical' && fired[0].values.deltaZ === 3.5, 'no refire until cleared');
+  step(3000, 1.5);
+  step(4000, 3.5);
+  assert(fired.length === 1, 'cooldown holds back a re-armed rule');
+  step(11_000, 3.5);
+  assert(fired.length === 2, 'fires after the cooldown');
+
+  engine.createRule({ name: 'sustained', expression: 'deltaZ > 3', forMs: 5000, cooldownMs: 0, symbols: ['ETHUSDT'] });
+  const sustained = () => fired.filter((a) => a.ruleName === 'sustained').length;
+  now = 20_000;
+  engine.evaluate('ETHUSDT', payload(4));
+  engine.evaluate('BTCUSDT', payload(4));
+  now = 26_000;
+  engine.evaluate('ETHUSDT', payload(4));
+  engine.evaluate('BTCUSDT', payload(4));
+  assert(sustained() === 1, 'forMs and symbol scope');
+  // The unscoped spike rule fired for ETHUSDT too
+  assert(engine.getHistory(10, 'ETHUSDT').length === 2 && engine.getHistory(1)[0].ruleName === 'sustained', 'history by symbol and limit');
+}
+
+/**
+ * A rule that throws while evaluating is reported once and skipped;
+ * the other rules keep running.
+ */
+function testFailingRuleIsIsolated() {
+  const errors: Error[] = [];
+  const engine = new AlertEngine({ file: null, maxHistory: 10, onError: (e) => errors.push(e) });
+  const fired: FiredAlert[] = [];
+  engine.onAlert((a) => fired.push(a));
+  const broken = engine.createRule({ name: 'broken', expression: 'cvd.tf5m.delta > 0', cooldownMs: 0 });
+  engine.createRule({ name: 'healthy', expression: 'deltaZ > 3', cooldownMs: 0 });
+  const throwing = payload(4, { cvd: { tf5m: { get delta(): number { throw new Error('boom'); } } } });
+
+  engine.evaluate('BTCUSDT', throwing);
+  engine.evaluate('BTCUSDT', throwing);
+  assert(fired.length === 1 && fired[0].ruleName === 'healthy', 'other rules still fire');
+  assert(errors.length === 1 && errors[0].message.startsWith(`alert_rule_failed:${broken.id}`), 'failure reported once');
+}
+
+async function testCrudAndPersistence() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'alerts-test-'));
+  try {
+    const file = path.join(dir, 'rules.json');
+    const engine = new AlertEngine({ file, maxHistory: 10 });
+    let error = '';
+    try {
+      engine.createRule({ name: 'bad', expression: 'deltaZ >' });
+    } catch (e: any) {
+      error = e.message;
+    }
+    assert(error.startsWith('invalid expression') && engine.listRules().length === 0, 'invalid rules are rejected');
+
+    const rule = engine.createRule({ name: 'absorption', expression: 'absorption === 1', symbols: ['btcusdt'] });
+    const kept = engine.createRule({ name: 'oi', expression: 'openInterest.deltaPercent > 2' });
+    assert(rule.symbols[0] === 'BTCUSDT' && rule.enabled && rule.cooldownMs === 60_000, 'defaults and normalised symbols');
+    assert(engine.updateRule(rule.id, { severity: 'info', enabled: false })!.severity === 'info', 'update');
+    assert(engine.updateRule('nope', {}) === null, 'update of unknown rule');
+    assert(engine.deleteRule(rule.id) && !engine.deleteRule(rule.id), 'delete');
+    await engine.flush();
+
+    const reloaded = new AlertEngine({ file, maxHistory: 10 });
+    await reloaded.load();
+    const rules = reloaded.listRules();
+    assert(rules.length === 1 && rules[0].id === kept.id && rules[0].expression === kept.expression, 'rules survive a restart');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+export async function runTests() {
+  testExpressions();
+  testHysteresisAndCooldown();
+  testFailingRuleIsIsolated();
+  await testCrudAndPersistence();
+}
@@ -0,0 +1,98 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { createAuth } from '../auth/middleware';
+import { TokenStore } from '../auth/TokenStore';
+
+async function testTokensAndSessions() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-test-'));
+  try {
+    let now = 0;
+    const file = path.join(dir, 'tokens.json');
+    const store = new TokenStore({ file, sessionTtlMs: 60_000, now: () => now });
+    const admin = store.createToken('ops', 'admin');
+    const viewer = store.createToken('wall screen', 'viewer');
+    assert(admin.token.startsWith('tc_') && store.authenticate(admin.token)?.role === 'admin', 'tokens authenticate');
+    assert(store.authenticate('tc_nope') === null && store.authenticate('') === null, 'unknown tokens are rejected');
+
+    const login = store.login(viewer.token)!;
+    assert(login.principal.role === 'viewer' && store.authenticate(login.session)?.name === 'wall screen', 'login issues a session');
+    assert(store.login('tc_nope') === null, 'login needs a valid token');
+    now = 60_000;
+    assert(store.authenticate(login.session) === null, 'sessions expire');
+    const second = store.login(viewer.token)!;
+    assert(store.revokeToken(viewer.info.id) && store.authenticate(second.session) === null, 'revoking a token ends its sessions');
+    await store.flush();
+
+    const text = fs.readFileSync(file, 'utf8');
+    assert(!text.includes(admin.token) && text.includes(admin.info.id), 'only hashes are stored');
+    const reloaded = new TokenStore({ file, sessionTtlMs: 60_000 });
+    await reloaded.load();
+    assert(reloaded.listTokens().length === 1 && reloaded.authenticate(admin.token)?.name === 'ops', 'tokens survive a restart');
+
+    let error = '';
+    try {
+      store.createToken('x', 'root' as any);
+    } catch (e: any) {
+      error = e.message;
+    }
+    assert(error.startsWith('role must be'), 'unknown roles are rejected');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 401 without a valid token, 403 below the route's role, public paths open.
+ */
+async function testMiddleware() {
+  const store = new TokenStore({ file: null, sessionTtlMs: 60_000 });
+  const viewer = store.createToken('viewer', 'viewer').token;
+  const trader = store.createToken('trader', 'trader').token;
+  const auth = createAuth(store, { enabled: true, publicPaths: ['/api/health'] });
+
+  const app = express();
+  app.use(auth.authenticate);
+  app.get('/api/health', (req, res) => res.json({ ok: true }));
+  app.get('/api/status', (req, res) => res.json({ role: res.locals.principal.role }));
+  app.post('/api/execution/enabled', auth.requireRole('trader'), (req, res) => res.json({ ok: true }));
+  app.post('/api/execution/connect', auth.requireRole('admin'), (req, res) => res.json({ ok: true }));
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const call = async (method: string, url: string, token?: string) => {
+    const res = await fetch(`${base}${url}`, { method, headers: token ? { Authorization: `Bearer ${token}` } : {} });
+    await res.arrayBuffer();
+    return res.status;
+  };
+
+  try {
+    assert(await call('GET', '/api/health') === 200, 'public path');
+    assert(await call('GET', '/api/status') === 401 && await call('GET', '/api/status', 'tc_nope') === 401, 'missing or invalid token');
+    assert(await call('GET', '/api/status', viewer) === 200, 'viewer reads');
+    assert(await call('POST', '/api/execution/enabled', viewer) === 403, 'viewer cannot enable execution');
+    assert(await call('POST', '/api/execution/enabled', trader) === 200, 'trader enables execution');
+    assert(await call('POST', '/api/execution/connect', trader) === 403, 'only admins set credentials');
+
+    const upgrade = (url: string) => ({ url, headers: {} }) as http.IncomingMessage;
+    assert(auth.authenticateUpgrade(upgrade(`/ws?token=${viewer}`))?.role === 'viewer', 'ws token in the query');
+    assert(auth.authenticateUpgrade(upgrade('/ws?symbols=BTCUSDT')) === null, 'ws without token is refused');
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  const open = createAuth(store, { enabled: false, publicPaths: [] });
+  assert(open.authenticateUpgrade({ url: '/ws', headers: {} } as http.IncomingMessage)?.role === 'admin', 'disabled auth lets everything through');
+}
+
+export async function runTests() {
+  await testTokensAndSessions();
+  await testMiddleware();
+}
@@ -0,0 +1,120 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { Backtester, RecordedMessage } from '../backtest/Backtester';
+import { Strategy, StrategyRegistry } from '../orchestrator/Strategy';
+
+/**
+ * Replays a snapshot, a depth update and trades through the backtester with
+ * a scripted strategy: buy 1 when flat, sell once the bid reaches 102.
+ * The round trip should show up in the trade list, equity and summary.
+ */
+async function testRoundTrip() {
+  const scripted: Strategy = {
+    name: 'scripted',
+    defaultParams: { exitBid: 102 },
+    onMetrics: ({ symbol, event_time_ms, metrics, state, params }, tools) => {
+      if (!state.position && state.openOrders.size === 0 && state.last_exit_event_time_ms === 0) {
+        return [{
+          type: 'ENTRY_PROBE',
+          symbol,
+          event_time_ms,
+          side: 'BUY',
+          quantity: 1,
+          orderType: 'MARKET',
+          expectedPrice: metrics.best_ask ?? null,
+          reason: 'scripted_entry',
+        }];
+      }
+      if (state.position && (metrics.best_bid ?? 0) >= params.exitBid) {
+        return [tools.exitAction(symbol, event_time_ms, 'SELL', 'scripted_exit')];
+      }
+      return [{ type: 'NOOP', symbol, event_time_ms, reason: 'scripted_wait' }];
+    },
+  };
+  const registry = new StrategyRegistry();
+  registry.register(scripted);
+
+  const backtester = new Backtester({
+    symbols: ['BTCUSDT'],
+    initialBalanceUsdt: 1000,
+    walletUsagePercent: 10,
+    leverage: 10,
+    takerFeeRate: 0.0004,
+    makerFeeRate: 0.0002,
+    strategyRegistry: registry,
+    orchestrator: {
+      defaultStrategy: 'scripted',
+      protection: { stopLossPct: 0, takeProfitPct: 0 },
+    },
+    equityIntervalMs: 1000,
+  });
+
+  const messages: RecordedMessage[] = [
+    { stream: 'btcusdt@depthSnapshot', data: { e: 'depthSnapshot', s: 'BTCUSDT', E: 1000, lastUpdateId: 10, bids: [['100', '5']], asks: [['100.5', '5']] } },
+    { stream: 'btcusdt@trade', data: { e: 'trade', s: 'BTCUSDT', T: 1500, p: '100.5', q: '0.2', m: false } },
+    { stream: 'ethusdt@trade', data: { e: 'trade', s: 'ETHUSDT', T: 1600, p: '10', q: '1', m: false } },
+    { stream: 'btcusdt@depth@100ms', data: { e: 'depthUpdate', s: 'BTCUSDT', E: 2000, U: 11, u: 11, b: [['100', '0'], ['102', '5']], a: [['100.5', '0'], ['102.5', '5']] } },
+    { stream: 'btcusdt@trade', data: { e: 'trade', s: 'BTCUSDT', T: 3000, p: '102', q: '0.1', m: true } },
+  ];
+
+  const result = await backtester.run(messages);
+
+  assert(result.stats.messages === 4, 'messages for other symbols are skipped');
+  assert(result.stats.snapshots === 1 && result.stats.reseeds === 0, 'snapshot seeds the book and the diff applies in sequence');
+  assert(result.trades.length === 1, `expected one round trip, got ${result.trades.length}`);
+
+  const trade = result.trades[0];
+  assert(trade.side === 'LONG' && trade.entryPrice === 100.5 && trade.exitPrice === 102, 'round trip prices come from the replayed book');
+  assert(Math.abs(trade.realizedPnl - 1.5) < 1e-9, `realized PnL should be 1.5, got ${trade.realizedPnl}`);
+  const fees = (100.5 + 102) * 0.0004;
+  assert(Math.abs(trade.fees - fees) < 1e-9, 'fees are taker commissions on both legs');
+
+  const { summary } = result;
+  assert(Math.abs(summary.totalPnl - (1.5 - fees)) < 1e-9, 'summary PnL is net of fees');
+  assert(summary.winRate === 1 && summary.wins === 1, 'single winning trade');
+  assert(summary.startTimeMs === 1000 && summary.endTimeMs === 3000, 'summary spans recorded event time');
+  assert(result.equityCurve.length >= 2, 'equity curve is sampled on event time');
+  assert(summary.maxDrawdown >= 0 && Number.isFinite(summary.sharpe), 'drawdown and Sharpe are computed');
+}
+
+/**
+ * One recording per symbol, as the recorder writes them: the files are
+ * replayed interleaved by event time, so neither symbol's throttle sees
+ * the other file's clock.
+ */
+async function testMergedFiles() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-test-'));
+  try {
+    const trade = (symbol: string, T: number) => JSON.stringify({ stream: `${symbol.toLowerCase()}@trade`, data: { e: 'trade', s: symbol, T, p: '100', q: '1', m: false } });
+    const btc = path.join(dir, 'BTCUSDT.jsonl');
+    const eth = path.join(dir, 'ETHUSDT.jsonl.gz');
+    fs.writeFileSync(btc, [1000, 2000, 3000].map((t) => trade('BTCUSDT', t)).join('\n'));
+    fs.writeFileSync(eth, zlib.gzipSync([1500, 2500, 3500].map((t) => trade('ETHUSDT', t)).join('\n')));
+
+    const backtester = new Backtester({
+      symbols: ['BTCUSDT', 'ETHUSDT'],
+      initialBalanceUsdt: 1000,
+      walletUsagePercent: 10,
+      leverage: 10,
+      takerFeeRate: 0.0004,
+      makerFeeRate: 0.0002,
+      metricsThrottleMs: 250,
+    });
+    const result = await backtester.runFiles([btc, eth]);
+    assert(result.stats.messages === 6 && result.stats.evaluations === 6, `every message evaluates, got ${result.stats.evaluations}`);
+    assert(result.summary.startTimeMs === 1000 && result.summary.endTimeMs === 3500, 'replay spans both files');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+export async function runTests() {
+  await testRoundTrip();
+  await testMergedFiles();
+}
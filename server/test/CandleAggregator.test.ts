@@ -0,0 +1,65 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { CandleAggregator, isCandleTimeframe, parseKlines } from '../metrics/CandleAggregator';
+import { TradeEvent } from '../metrics/TimeAndSales';
+
+const trade = (side: 'buy' | 'sell', price: number, quantity: number, timestamp: number): TradeEvent => ({ price, quantity, side, timestamp });
+
+function kline(openTime: number, o: number, h: number, l: number, c: number, volume: number, buyVolume: number, trades: number) {
+  return [openTime, String(o), String(h), String(l), String(c), String(volume), openTime + 59_999, '0', trades, String(buyVolume), '0', '0'];
+}
+
+function testBars() {
+  const agg = new CandleAggregator();
+  agg.addTrade(trade('buy', 100, 2, 60_100));
+  agg.addTrade(trade('sell', 102, 1, 60_500));
+  agg.addTrade(trade('sell', 99, 3, 61_200));
+  agg.addTrade(trade('buy', 101, 1, 125_000));
+
+  const [bar, next] = agg.getCandles('1m', 10);
+  assert(bar.openTime === 60_000 && bar.open === 100 && bar.high === 102 && bar.low === 99 && bar.close === 99, 'OHLC from trades');
+  assert(bar.volume === 6 && bar.buyVolume === 2 && bar.sellVolume === 4 && bar.delta === -2 && bar.trades === 3, 'volume split by aggressor');
+  assert(next.openTime === 120_000 && next.delta === 1, 'next minute opens a new bar');
+  assert(agg.getCandles('1s', 10).length === 3, 'one 1s bar per second with trades');
+  assert(agg.getCandles('15m', 10).length === 1, 'longer timeframes share a bar');
+
+  // A late trade lands in its own bar without moving the close
+  agg.addTrade(trade('buy', 98, 1, 70_000));
+  const late = agg.getCandles('1m', 2)[0];
+  assert(late.low === 98 && late.close === 99 && late.volume === 7, 'late trade updates its bar');
+  assert(isCandleTimeframe('5m') && !isCandleTimeframe('1h'), 'supported timeframes');
+}
+
+/**
+ * Closed klines replace live bars; the bar still open at fetch time keeps
+ * the kline's open and the live close.
+ */
+function testBackfill() {
+  const agg = new CandleAggregator({ maxBars: 3 });
+  agg.addTrade(trade('buy', 105, 1, 120_500));
+  agg.addTrade(trade('sell', 104, 4, 150_000));
+
+  const klines = parseKlines([
+    kline(0, 100, 101, 99, 100, 10, 6, 5),
+    kline(60_000, 100, 103, 100, 103, 8, 2, 4),
+    kline(120_000, 103, 106, 103, 105, 3, 3, 2),
+  ]);
+  assert(klines[0].sellVolume === 4 && klines[0].delta === 2, 'klines carry taker buy volume');
+  agg.backfill('1m', klines, 130_000);
+
+  const bars = agg.getCandles('1m', 10);
+  assert(bars.length === 3 && bars[0].openTime === 0, 'history fills in before live bars');
+  const open = bars[2];
+  assert(open.open === 103 && open.high === 106 && open.low === 103 && open.close === 104, 'open bar merges kline start and live end');
+  assert(open.buyVolume === 3 && open.sellVolume === 4 && open.delta === -1, 'open bar keeps the larger side volumes');
+
+  agg.backfill('1m', parseKlines([kline(180_000, 1, 1, 1, 1, 1, 1, 1)]), 300_000);
+  assert(agg.getCandles('1m', 10)[0].openTime === 60_000, 'bars are capped at maxBars');
+}
+
+export function runTests() {
+  testBars();
+  testBackfill();
+}
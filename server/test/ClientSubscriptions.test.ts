@@ -0,0 +1,81 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { ClientSubscriptionDeps, handleClientMessage } from '../ws/ClientSubscriptions';
+
+class FakeClient {
+  readonly sent: any[] = [];
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  last(): any {
+    return this.sent[this.sent.length - 1];
+  }
+}
+
+function setup(initial: string[] = []) {
+  const client = new FakeClient();
+  let updates = 0;
+  const seeded: string[] = [];
+  const deps: ClientSubscriptionDeps<FakeClient> = {
+    clientSubs: new Map([[client, new Set(initial)]]),
+    updateStreams: () => { updates++; },
+    seedSymbols: (symbols) => seeded.push(...symbols),
+  };
+  const send = (msg: unknown) => handleClientMessage(client, typeof msg === 'string' ? msg : JSON.stringify(msg), deps);
+  return { client, deps, send, seeded, updates: () => updates };
+}
+
+function testInvalidJson() {
+  const { client, send, updates } = setup(['BTCUSDT']);
+  send('{not json');
+  assert(client.last().type === 'error' && client.last().error === 'invalid_json' && client.last().id === null, 'invalid JSON is rejected');
+  send({ type: 'resubscribe', id: 7 });
+  assert(client.last().error === 'unknown_type' && client.last().id === 7, 'unknown type is rejected with its id');
+  assert(updates() === 0, 'rejected messages leave the streams alone');
+}
+
+function testInvalidSymbols() {
+  const { client, deps, send, updates } = setup(['BTCUSDT']);
+  send({ type: 'subscribe', id: 1, symbols: ['ethusdt', 'NOPE:ETHUSDT', 'bad!'] });
+  const reply = client.last();
+  assert(reply.error === 'invalid_symbols' && reply.id === 1, 'invalid symbols are rejected');
+  assert(reply.symbols.join() === 'NOPE:ETHUSDT,BAD!', `invalid symbols are listed, got ${reply.symbols.join()}`);
+  assert([...deps.clientSubs.get(client)!].join() === 'BTCUSDT', 'nothing is subscribed when any symbol is invalid');
+  send({ type: 'subscribe', id: 2, symbols: [] });
+  assert(client.last().error === 'invalid_symbols', 'an empty list is rejected');
+  assert(updates() === 0, 'invalid subscriptions leave the streams alone');
+}
+
+function testSubscribeAndUnsubscribe() {
+  const { client, send, seeded, updates } = setup(['BTCUSDT']);
+  send({ type: 'subscribe', id: 'a', symbols: [' ethusdt ', 'bybit:solusdt'] });
+  assert(client.last().type === 'subscriptions' && client.last().id === 'a', 'subscribe is answered');
+  assert(client.last().symbols.join() === 'BTCUSDT,ETHUSDT,BYBIT:SOLUSDT', `symbols are canonical, got ${client.last().symbols.join()}`);
+  assert(seeded.join() === 'ETHUSDT,BYBIT:SOLUSDT', 'new symbols are seeded');
+
+  send({ type: 'unsubscribe', id: 'b', symbols: ['BTCUSDT', 'BYBIT:SOLUSDT'] });
+  assert(client.last().symbols.join() === 'ETHUSDT', `unsubscribe removes symbols, got ${client.last().symbols.join()}`);
+  assert(updates() === 2, 'each change updates the streams');
+}
+
+function testList() {
+  const { client, send, updates } = setup(['BTCUSDT', 'OKX:BTCUSDT']);
+  send({ type: 'list', id: 3 });
+  assert(client.last().type === 'subscriptions' && client.last().id === 3, 'list is answered');
+  assert(client.last().symbols.join() === 'BTCUSDT,OKX:BTCUSDT', 'list returns the current set');
+  send({ type: 'subscribe', symbols: ['ETHUSDT'] });
+  send({ type: 'list' });
+  assert(client.last().symbols.join() === 'BTCUSDT,OKX:BTCUSDT,ETHUSDT' && client.last().id === null, 'list follows changes');
+  assert(updates() === 1, 'list does not touch the streams');
+}
+
+export async function runTests() {
+  testInvalidJson();
+  testInvalidSymbols();
+  testSubscribeAndUnsubscribe();
+  testList();
+}
@@ -0,0 +1,98 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CredentialVault } from '../auth/CredentialVault';
+
+// Cheap scrypt parameters; the format is the same as with the defaults
+const FAST_SCRYPT = { N: 1024, r: 8, p: 1 };
+
+async function expectError(fn: () => unknown, message: string): Promise<string> {
+  try {
+    await fn();
+  } catch (e: any) {
+    return e.message;
+  }
+  throw new Error(message);
+}
+
+async function testProfilesAtRest() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-test-'));
+  try {
+    const file = path.join(dir, 'vault.json');
+    const vault = new CredentialVault({ file, scrypt: FAST_SCRYPT });
+    await vault.load();
+    assert(!vault.isInitialized() && !vault.isUnlocked(), 'no vault before the first unlock');
+    assert(await expectError(() => vault.setProfile('testnet', { apiKey: 'k', apiSecret: 's' }), 'locked vault accepted a profile') === 'vault_locked', 'locked vault');
+
+    await vault.unlock('correct horse');
+    vault.setProfile('testnet', { apiKey: 'TESTNETKEY1234', apiSecret: 'TESTNETSECRET' });
+    vault.setProfile('sub-1', { apiKey: 'SUBKEY5678', apiSecret: 'SUBSECRET' });
+    assert(vault.getCredentials('testnet').apiSecret === 'TESTNETSECRET', 'profiles decrypt');
+    assert(vault.listProfiles().map((p) => `${p.name}:${p.apiKeyHint}`).join(',') === 'sub-1:5678,testnet:1234', 'profiles list without secrets');
+    await expectError(() => vault.setProfile('bad name', { apiKey: 'k', apiSecret: 's' }), 'invalid profile name accepted');
+    await vault.flush();
+
+    const text = fs.readFileSync(file, 'utf8');
+    assert(!text.includes('TESTNETSECRET') && !text.includes('TESTNETKEY1234') && !text.includes('correct horse'), 'nothing in plaintext on disk');
+    assert((fs.statSync(file).mode & 0o077) === 0, 'vault file is private');
+
+    vault.lock();
+    assert(await expectError(() => vault.getCredentials('testnet'), 'locked vault decrypted') === 'vault_locked', 'lock drops the key');
+
+    const reloaded = new CredentialVault({ file, scrypt: FAST_SCRYPT });
+    await reloaded.load();
+    assert(reloaded.isInitialized() && !reloaded.isUnlocked() && reloaded.listProfiles().length === 2, 'vault survives a restart locked');
+    assert(await expectError(() => reloaded.unlock('wrong'), 'wrong passphrase accepted') === 'invalid_passphrase', 'wrong passphrase');
+    await reloaded.unlock('correct horse');
+    assert(reloaded.getCredentials('sub-1').apiKey === 'SUBKEY5678', 'reloaded profile decrypts');
+
+    // Swapping sealed entries in the file must not decrypt under the other name
+    const stored = JSON.parse(text);
+    [stored.profiles.testnet, stored.profiles['sub-1']] = [stored.profiles['sub-1'], stored.profiles.testnet];
+    fs.writeFileSync(file, JSON.stringify(stored));
+    const tampered = new CredentialVault({ file, scrypt: FAST_SCRYPT });
+    await tampered.load();
+    await tampered.unlock('correct horse');
+    await expectError(() => tampered.getCredentials('testnet'), 'swapped profile decrypted');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function testRotation() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-test-'));
+  try {
+    let now = 1000;
+    const file = path.join(dir, 'vault.json');
+    const vault = new CredentialVault({ file, scrypt: FAST_SCRYPT, now: () => now });
+    await vault.unlock('old pass');
+    const created = vault.setProfile('main', { apiKey: 'KEY-A', apiSecret: 'SECRET-A' });
+    now = 2000;
+    const rotated = vault.setProfile('main', { apiKey: 'KEY-B', apiSecret: 'SECRET-B' });
+    assert(rotated.createdAt === created.createdAt && rotated.updatedAt === 2000, 'key rotation keeps the profile');
+    assert(vault.getCredentials('main').apiSecret === 'SECRET-B', 'rotated keys are used');
+
+    assert(await expectError(() => vault.changePassphrase('nope', 'new pass'), 'wrong current passphrase accepted') === 'invalid_passphrase', 'passphrase change checks the current one');
+    await vault.changePassphrase('old pass', 'new pass');
+    assert(vault.isUnlocked() && vault.getCredentials('main').apiKey === 'KEY-B', 'still unlocked after a passphrase change');
+    await vault.flush();
+
+    const reloaded = new CredentialVault({ file, scrypt: FAST_SCRYPT });
+    await reloaded.load();
+    assert(await expectError(() => reloaded.unlock('old pass'), 'old passphrase still works') === 'invalid_passphrase', 'old passphrase rejected');
+    await reloaded.unlock('new pass');
+    assert(reloaded.getCredentials('main').apiSecret === 'SECRET-B', 'profiles re-encrypted under the new passphrase');
+    assert(reloaded.deleteProfile('main') && !reloaded.deleteProfile('main') && !reloaded.hasProfile('main'), 'profiles can be deleted');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+export async function runTests() {
+  await testProfilesAtRest();
+  await testRotation();
+}
@@ -0,0 +1,159 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { EventEmitter } from 'events';
+import { StreamManager, StreamSocket } from '../connectors/StreamManager';
+import { RestScheduler } from '../connectors/RestScheduler';
+import { BinanceFuturesAdapter } from '../exchanges/BinanceFuturesAdapter';
+import { BybitLinearAdapter } from '../exchanges/BybitLinearAdapter';
+import { MarketEvent, parseVenueSymbol, qualifySymbol } from '../exchanges/ExchangeAdapter';
+import { OkxSwapAdapter, okxInstId } from '../exchanges/OkxSwapAdapter';
+import { applyDepthUpdate, applySnapshot, bestBid, createOrderbookState } from '../metrics/OrderbookManager';
+
+class FakeSocket extends EventEmitter {
+  readyState = 0;
+  readonly sent: string[] = [];
+
+  constructor(readonly url: string) {
+    super();
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3;
+    this.emit('close');
+  }
+
+  open() {
+    this.readyState = 1;
+    this.emit('open');
+  }
+}
+
+function only<T extends MarketEvent['type']>(events: MarketEvent[], type: T): Extract<MarketEvent, { type: T }> {
+  assert(events.length === 1 && events[0].type === type, `expected one ${type} event`);
+  return events[0] as Extract<MarketEvent, { type: T }>;
+}
+
+function testSymbols() {
+  assert(parseVenueSymbol('BTCUSDT')!.venue === 'BINANCE', 'bare symbols are Binance');
+  const bybit = parseVenueSymbol('BYBIT:ETHUSDT')!;
+  assert(bybit.venue === 'BYBIT' && bybit.symbol === 'ETHUSDT', 'qualified symbols split into venue and symbol');
+  assert(parseVenueSymbol('KRAKEN:BTCUSD') === null && parseVenueSymbol('OKX:') === null, 'unknown venues and empty symbols are rejected');
+  assert(qualifySymbol('BINANCE', 'BTCUSDT') === 'BTCUSDT' && qualifySymbol('OKX', 'BTCUSDT') === 'OKX:BTCUSDT', 'Binance stays bare');
+  assert(okxInstId('BTCUSDT') === 'BTC-USDT-SWAP' && okxInstId('BTCUSD') === null, 'OKX instrument ids for linear swaps');
+}
+
+function testBinance() {
+  const adapter = new BinanceFuturesAdapter({ wsUrl: 'wss://b', restBase: 'https://b', maxStreamsPerSocket: 200 });
+  const trade = only(adapter.parseMessage(JSON.stringify({ stream: 'btcusdt@trade', data: { e: 'trade', s: 'BTCUSDT', p: '100', q: '2', m: true, T: 5 } })), 'trade');
+  assert(trade.trade.side === 'sell' && trade.trade.quantity === 2, 'buyer-maker trade is a taker sell');
+  const depth = only(adapter.parseMessage(JSON.stringify({ data: { e: 'depthUpdate', s: 'BTCUSDT', E: 7, U: 10, u: 12, b: [], a: [] } })), 'depth');
+  assert(depth.update.U === 10 && depth.update.u === 12 && depth.eventTime === 7, 'depth ids pass through');
+  const liq = only(adapter.parseMessage(JSON.stringify({ data: { e: 'forceOrder', E: 9, o: { s: 'BTCUSDT', S: 'SELL', ap: '99', z: '1', T: 9 } } })), 'liquidation');
+  assert(liq.symbol === 'BTCUSDT' && liq.liquidation.side === 'long', 'forced sell liquidates a long');
+  only(adapter.parseMessage(JSON.stringify({ id: 3, error: { code: 2 } })), 'error');
+  assert(adapter.snapshotUrl('BTCUSDT') === 'https://b/fapi/v1/depth?symbol=BTCUSDT&limit=1000', 'REST snapshot URL');
+}
+
+/**
+ * Bybit deltas apply only on top of u - 1; a skipped delta is a gap.
+ */
+function testBybit() {
+  const adapter = new BybitLinearAdapter({ wsUrl: 'wss://y', maxStreamsPerSocket: 200 });
+  const book = (type: string, u: number, b: string[][]) =>
+    adapter.parseMessage(JSON.stringify({ topic: 'orderbook.200.BTCUSDT', type, ts: 1, data: { s: 'BTCUSDT', b, a: [['101', '1']], u, seq: 1 } }));
+
+  const ob = createOrderbookState('strict');
+  const snapshot = only(book('snapshot', 50, [['100', '1']]), 'snapshot');
+  applySnapshot(ob, snapshot.snapshot);
+  assert(applyDepthUpdate(ob, only(book('delta', 51, [['100.5', '2']]), 'depth').update), 'next delta applies');
+  assert(bestBid(ob) === 100.5, 'delta updates the book');
+  assert(!applyDepthUpdate(ob, only(book('delta', 53, []), 'depth').update), 'skipped delta is a gap');
+
+  const trades = adapter.parseMessage(JSON.stringify({ topic: 'publicTrade.BTCUSDT', type: 'snapshot', data: [
+    { T: 1, s: 'BTCUSDT', S: 'Buy', v: '0.5', p: '100' },
+    { T: 2, s: 'BTCUSDT', S: 'Sell', v: '1', p: '99' },
+  ] }));
+  assert(trades.length === 2 && trades.every((t) => t.type === 'trade'), 'one event per trade');
+  const liq = only(adapter.parseMessage(JSON.stringify({ topic: 'allLiquidation.BTCUSDT', data: [{ T: 1, s: 'BTCUSDT', S: 'Buy', v: '1', p: '100' }] })), 'liquidation');
+  assert(liq.liquidation.side === 'long', 'Buy is a liquidated long');
+  assert(adapter.parseMessage(JSON.stringify({ op: 'pong', success: true })).length === 0, 'pongs are ignored');
+}
+
+/**
+ * OKX sizes are scaled by ctVal and updates chain by prevSeqId.
+ */
+async function testOkx() {
+  const requested: string[] = [];
+  const rest = new RestScheduler({
+    maxWeightPerMinute: 100,
+    fetch: async (url) => {
+      requested.push(url);
+      return new Response(JSON.stringify({ code: '0', data: [{ instId: 'BTC-USDT-SWAP', ctType: 'linear', ctVal: '0.01' }] }), { status: 200 });
+    },
+  });
+  const adapter = new OkxSwapAdapter({ wsUrl: 'wss://o', restBase: 'https://o', maxStreamsPerSocket: 200, rest });
+  const books = (action: string, prevSeqId: number, seqId: number) =>
+    adapter.parseMessage(JSON.stringify({ arg: { channel: 'books', instId: 'BTC-USDT-SWAP' }, action, data: [{ bids: [['100', '200', '0', '3']], asks: [['101', '100', '0', '1']], ts: '5', prevSeqId, seqId }] }));
+
+  assert(books('snapshot', -1, 10).length === 0, 'messages wait for contract values');
+  await adapter.prepareSymbols(['BTCUSDT']);
+  await adapter.prepareSymbols(['BTCUSDT']);
+  assert(requested.length === 1, 'instruments load once');
+
+  const ob = createOrderbookState('strict');
+  const snapshot = only(books('snapshot', -1, 10), 'snapshot');
+  assert(snapshot.symbol === 'BTCUSDT' && snapshot.snapshot.bids[0][1] === '2', 'contracts convert to base size');
+  applySnapshot(ob, snapshot.snapshot);
+  assert(applyDepthUpdate(ob, only(books('update', 10, 15), 'depth').update) && ob.lastUpdateId === 15, 'update chained on prevSeqId applies');
+  assert(applyDepthUpdate(ob, only(books('update', 15, 15), 'depth').update) && ob.stats.dropped === 1, 'unchanged heartbeat is dropped');
+  assert(!applyDepthUpdate(ob, only(books('update', 20, 25), 'depth').update), 'broken chain is a gap');
+
+  const trade = only(adapter.parseMessage(JSON.stringify({ arg: { channel: 'trades', instId: 'BTC-USDT-SWAP' }, data: [{ px: '100', sz: '50', side: 'sell', ts: '9' }] })), 'trade');
+  assert(trade.trade.quantity === 0.5 && trade.trade.side === 'sell', 'trade size in base asset');
+}
+
+/**
+ * Venues that subscribe after open get their streams once the socket
+ * opens, and resubscribing sends both frames.
+ */
+function testStreamProtocol() {
+  const adapter = new BybitLinearAdapter({ wsUrl: 'wss://y', maxStreamsPerSocket: 200 });
+  const sockets: FakeSocket[] = [];
+  const manager = new StreamManager({
+    baseUrl: adapter.wsUrl,
+    streamsFor: (s) => adapter.streamsFor(s),
+    protocol: adapter.protocol,
+    maxStreamsPerSocket: adapter.maxStreamsPerSocket,
+    minBackoffMs: 10,
+    maxBackoffMs: 40,
+    onMessage: () => undefined,
+    createSocket: (url) => {
+      const socket = new FakeSocket(url);
+      sockets.push(socket);
+      return socket as unknown as StreamSocket;
+    },
+  });
+
+  manager.setSymbols(['BTCUSDT']);
+  assert(sockets[0].url === 'wss://y', 'socket opens on the bare endpoint');
+  sockets[0].open();
+  const subscribe = JSON.parse(sockets[0].sent[0]);
+  assert(subscribe.op === 'subscribe' && subscribe.args.join() === 'orderbook.200.BTCUSDT,publicTrade.BTCUSDT,allLiquidation.BTCUSDT', 'streams are subscribed after open');
+  manager.resubscribe(['BTCUSDT']);
+  assert(sockets[0].sent.slice(1).map((f) => JSON.parse(f).op).join() === 'unsubscribe,subscribe', 'resubscribe sends both frames');
+  manager.shutdown();
+}
+
+export async function runTests() {
+  testSymbols();
+  testBinance();
+  testBybit();
+  await testOkx();
+  testStreamProtocol();
+}
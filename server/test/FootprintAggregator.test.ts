@@ -0,0 +1,83 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { FootprintAggregator } from '../metrics/FootprintAggregator';
+import { TradeEvent } from '../metrics/TimeAndSales';
+
+const buy = (price: number, quantity: number, timestamp: number): TradeEvent => ({ price, quantity, side: 'buy', timestamp });
+const sell = (price: number, quantity: number, timestamp: number): TradeEvent => ({ price, quantity, side: 'sell', timestamp });
+
+/**
+ * Trades land in their candle's level; levels group by ticksPerLevel
+ * and can be merged further when read.
+ */
+function testLevelsAndCandles() {
+  const fp = new FootprintAggregator({ tickSize: 0.1, ticksPerLevel: 5, intervalMs: 60_000 });
+  fp.addTrade(buy(100.0, 1, 1_000));
+  fp.addTrade(buy(100.45, 2, 2_000));
+  fp.addTrade(sell(100.5, 3, 3_000));
+  fp.addTrade(sell(100.5, 1, 61_000));
+
+  assert(fp.getLevelSize() === 0.5, 'level is ticksPerLevel ticks wide');
+  const candles = fp.getCandles(10);
+  assert(candles.length === 2, 'one footprint per interval');
+  const first = candles[0];
+  assert(first.levels!.length === 2 && first.levels![0].price === 100 && first.levels![0].buy === 3, 'trades within a level are summed');
+  assert(first.volume === 6 && first.delta === 0, 'candle totals');
+  assert(candles[1].startTime === 60_000 && candles[1].volume === 1, 'next interval opens a new candle');
+
+  const grouped = fp.getCandles(1, 2)[0];
+  assert(grouped.levelSize === 1 && grouped.levels!.length === 1 && grouped.levels![0].price === 100, 'group merges adjacent levels');
+  assert(new FootprintAggregator().getCandles(5).length === 0, 'no candles before trades');
+}
+
+/**
+ * The value area grows from the POC towards the heavier side.
+ */
+function testProfile() {
+  const fp = new FootprintAggregator({ tickSize: 1, valueAreaPct: 0.7 });
+  [[100, 10], [101, 30], [102, 20], [103, 5], [104, 35]].forEach(([price, qty], i) => fp.addTrade(buy(price, qty, i)));
+  const profile = fp.getSessionProfile()!;
+  assert(profile.volume === 100 && profile.poc === 104, 'POC is the heaviest level');
+  // 104 (35) -> 103 (5) -> 102 (20) -> 101 (30) = 90 >= 70 after 101
+  assert(profile.valueAreaHigh === 104 && profile.valueAreaLow === 101, 'value area covers 70% of volume');
+  assert(fp.getSessionProfile(1, false)!.levels === undefined, 'summaries leave out levels');
+}
+
+/**
+ * Diagonal imbalances, stacked runs, and the session / rolling windows.
+ */
+function testImbalancesAndWindows() {
+  const fp = new FootprintAggregator({ tickSize: 1, imbalanceRatio: 3, stackedMinLevels: 3, rollingWindowMs: 120_000 });
+  fp.addTrade(sell(99, 1, 0));
+  fp.addTrade(buy(100, 3, 0));
+  fp.addTrade(sell(100, 1, 0));
+  fp.addTrade(buy(101, 4, 0));
+  fp.addTrade(sell(101, 1, 0));
+  fp.addTrade(buy(102, 6, 0));
+  fp.addTrade(sell(102, 1, 0));
+  fp.addTrade(buy(103, 2, 0));
+  fp.addTrade(sell(103, 1, 0));
+
+  const profile = fp.getSessionProfile()!;
+  const at = (price: number) => profile.levels!.find((l) => l.price === price)!;
+  assert(at(100).buyImbalance && !at(103).buyImbalance, 'buying against selling one level below');
+  assert(!at(99).sellImbalance, 'selling below heavier buying is not an imbalance');
+  const stacked = profile.stackedImbalances;
+  assert(stacked.length === 1 && stacked[0].side === 'buy' && stacked[0].fromPrice === 100 && stacked[0].toPrice === 102 && stacked[0].levels === 3, 'three adjacent buy imbalances stack');
+
+  // A day later: new session, and the rolling window only keeps recent candles.
+  const day = 24 * 60 * 60_000;
+  fp.addTrade(sell(200, 2, day + 1_000));
+  const session = fp.getSessionProfile()!;
+  assert(session.startTime === day && session.volume === 2, 'session resets at the UTC day boundary');
+  const rolling = fp.getRollingProfile()!;
+  assert(rolling.volume === 2 && rolling.poc === 200, 'rolling profile drops candles outside its window');
+}
+
+export function runTests() {
+  testLevelsAndCandles();
+  testProfile();
+  testImbalancesAndWindows();
+}
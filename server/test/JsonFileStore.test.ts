@@ -0,0 +1,35 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore } from '../common/JsonFileStore';
+
+async function testSaveAndRead() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-store-test-'));
+  try {
+    const file = path.join(dir, 'nested', 'state.json');
+    const store = new JsonFileStore<{ n: number }>({ file, mode: 0o600 });
+    assert(await store.read() === null, 'missing file reads as null');
+
+    for (let n = 1; n <= 3; n++) store.save({ n });
+    await store.flush();
+    assert((await store.read())?.n === 3, 'last save wins');
+    assert((fs.statSync(file).mode & 0o077) === 0, 'mode is applied');
+    assert(!fs.existsSync(`${file}.tmp`), 'temp file is renamed away');
+
+    const errors: Error[] = [];
+    const blocked = new JsonFileStore({ file: path.join(file, 'below-a-file.json'), onError: (e) => errors.push(e) });
+    blocked.save({ n: 4 });
+    await blocked.flush();
+    assert(errors.length === 1, 'write errors go to onError');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+export async function runTests() {
+  await testSaveAndRead();
+}
@@ -0,0 +1,79 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { LiquidationTracker, parseForceOrder } from '../metrics/LiquidationTracker';
+import { runGate } from '../orchestrator/Gate';
+import { GateMode } from '../orchestrator/types';
+
+/**
+ * Forced orders roll up into long / short notional, a burst flags a
+ * window far above its recent average, and a one-sided run into a falling
+ * price is a cascade that keeps the gate closed until it cools down.
+ */
+export function runTests() {
+  const parsed = parseForceOrder({
+    e: 'forceOrder',
+    E: 1_000,
+    o: { s: 'BTCUSDT', S: 'SELL', q: '0.5', p: '99', ap: '100', z: '0.4', T: 999 },
+  });
+  assert(parsed !== null && parsed.side === 'long' && parsed.price === 100 && parsed.quantity === 0.4 && parsed.timestamp === 999, 'a forced SELL liquidates a long at the average fill');
+  assert(parseForceOrder({ o: { S: 'BUY', q: '0', p: '1', T: 1 } }) === null, 'empty orders are ignored');
+
+  const tracker = new LiquidationTracker({
+    burstWindowMs: 5_000,
+    burstMultiplier: 5,
+    burstMinNotionalUsdt: 1_000,
+    cascadeWindowMs: 30_000,
+    cascadeMinEvents: 3,
+    cascadeMinNotionalUsdt: 2_500,
+    cascadeMinDominance: 0.8,
+    cascadeMinMovePct: 1,
+    cascadeCooldownMs: 10_000,
+  });
+  const t0 = 1_000_000;
+  tracker.addLiquidation({ side: 'short', price: 100, quantity: 2, timestamp: t0 });
+  let m = tracker.computeMetrics(t0 + 10_000);
+  assert(m.shortNotional1m === 200 && m.longNotional1m === 0 && m.count1m === 1, 'notional rolls up by liquidated side');
+  assert(!m.burst.active && !m.cascade.active, 'a single small liquidation is neither burst nor cascade');
+
+  // Longs liquidated into a 2% drop.
+  tracker.addLiquidation({ side: 'long', price: 100, quantity: 10, timestamp: t0 + 20_000 });
+  tracker.addLiquidation({ side: 'long', price: 99, quantity: 10, timestamp: t0 + 21_000 });
+  m = tracker.computeMetrics(t0 + 21_000);
+  assert(m.burst.active && m.burst.side === 'long' && !m.cascade.active, 'two liquidations make a burst but not yet a cascade');
+  tracker.addLiquidation({ side: 'long', price: 98, quantity: 10, timestamp: t0 + 22_000 });
+  m = tracker.computeMetrics(t0 + 22_000);
+  assert(m.cascade.active && m.cascade.side === 'long' && m.cascade.events === 3 && m.cascade.startedAt === t0 + 20_000, 'repeated long liquidations into a falling price are a cascade');
+  assert(Math.abs(m.longNotional1m - 2970) < 1e-9, 'long notional is price times quantity');
+
+  const gateInput = (now: number) => ({
+    canonical_time_ms: now,
+    exchange_event_time_ms: now,
+    metrics: {
+      symbol: 'BTCUSDT',
+      spread_pct: 0.01,
+      prints_per_second: 4,
+      legacyMetrics: { obiDeep: 0.3, deltaZ: 1, cvdSlope: 0.2 },
+      liquidations: {
+        longNotional1m: m.longNotional1m,
+        shortNotional1m: m.shortNotional1m,
+        burstActive: m.burst.active,
+        cascadeActive: m.cascade.active,
+        cascadeSide: m.cascade.side,
+      },
+    },
+  });
+  const cfg = { mode: GateMode.V1_NO_LATENCY, maxSpreadPct: 0.08, minObiDeep: 0.05, blockOnLiquidationCascade: true };
+  const blocked = runGate(gateInput(t0 + 22_000), cfg);
+  assert(!blocked.passed && blocked.reason === 'liquidation_cascade' && blocked.checks.liquidationOk === false, 'the gate stays closed during a cascade');
+  const unblocked = runGate(gateInput(t0 + 22_000), { ...cfg, blockOnLiquidationCascade: false });
+  assert(unblocked.passed && unblocked.checks.liquidationOk === null, 'cascade blocking can be turned off');
+
+  m = tracker.computeMetrics(t0 + 40_000);
+  assert(m.cascade.active, 'a cascade is held through its cooldown');
+  m = tracker.computeMetrics(t0 + 60_000);
+  assert(!m.cascade.active && !m.burst.active, 'a cascade ends once the cooldown passes without new liquidations');
+  m = tracker.computeMetrics(t0 + 400_000);
+  assert(m.longNotional5m === 0 && m.count1m === 0, 'old liquidations expire');
+}
@@ -0,0 +1,55 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { RestScheduler } from '../connectors/RestScheduler';
+import { MarketContextService } from '../metrics/MarketContextService';
+
+/**
+ * Mark, index and funding come from markPrice events, open interest is
+ * polled through the scheduler per subscribed symbol, and unsubscribing
+ * drops the context.
+ */
+export async function runTests() {
+  let now = 1_000_000;
+  const polled: string[] = [];
+  let openInterest = 100;
+  const scheduler = new RestScheduler({
+    maxWeightPerMinute: 100,
+    fetch: async (url) => {
+      polled.push(url);
+      return new Response(JSON.stringify({ openInterest: String(openInterest), time: now }), { status: 200 });
+    },
+    now: () => now,
+  });
+  const service = new MarketContextService(scheduler, { restBase: 'https://rest', openInterestIntervalMs: 60_000, now: () => now });
+  const settle = async () => {
+    for (let i = 0; i < 5; i++) await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  service.setSymbols(['BTCUSDT']);
+  await settle();
+  assert(polled.join() === 'https://rest/fapi/v1/openInterest?symbol=BTCUSDT', 'open interest is polled when a symbol is added');
+  assert(service.getContext('BTCUSDT')!.openInterest!.openInterest === 100, 'polled open interest is exposed');
+
+  service.onMarkPrice({ e: 'markPriceUpdate', E: now, s: 'BTCUSDT', p: '101', i: '100', r: '0.0001', T: now + 3_600_000 });
+  let ctx = service.getContext('BTCUSDT')!;
+  assert(ctx.markPrice === 101 && ctx.indexPrice === 100 && Math.abs(ctx.premiumPct! - 1) < 1e-9, 'premium is mark over index');
+  assert(ctx.funding!.rate === 0.0001, 'funding comes from the mark price stream');
+  service.onMarkPrice({ e: 'markPriceUpdate', E: now, s: 'ETHUSDT', p: '1', i: '1', r: '0', T: now });
+  assert(service.getContext('ETHUSDT') === null, 'unsubscribed symbols are ignored');
+
+  (service as any).pollDue();
+  await settle();
+  assert(polled.length === 1, 'open interest is not polled again before its interval');
+  now += 60_000;
+  openInterest = 150;
+  (service as any).pollDue();
+  await settle();
+  ctx = service.getContext('BTCUSDT')!;
+  assert(polled.length === 2 && ctx.openInterest!.delta === 50, 'open interest delta tracks successive polls');
+
+  service.setSymbols([]);
+  assert(service.getContext('BTCUSDT') === null && service.getSymbols().length === 0, 'unsubscribing drops the context');
+  service.shutdown();
+}
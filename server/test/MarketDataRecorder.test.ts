@@ -0,0 +1,91 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { MarketDataRecorder } from '../recorder/MarketDataRecorder';
+
+/**
+ * Records a snapshot and raw stream messages across a UTC day boundary,
+ * then reads the gzipped files back. Also checks that an over-budget gzip
+ * backlog drops entries and that retention deletes expired recordings.
+ */
+export async function runTests() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'recorder-test-'));
+  try {
+    const day1 = Date.UTC(2026, 0, 1, 23, 59, 59);
+    const day2 = Date.UTC(2026, 0, 2, 0, 0, 1);
+    let now = day1;
+    const recorder = new MarketDataRecorder({
+      enabled: true,
+      dir,
+      symbols: ['BTCUSDT'],
+      retentionDays: 7,
+      maxTotalBytes: 0,
+      maxFileBytes: 1024 * 1024,
+      maxBufferedBytes: 1024 * 1024,
+      flushIntervalMs: 60_000,
+      now: () => now,
+    });
+
+    const trade = '{"stream":"btcusdt@trade","data":{"e":"trade","s":"BTCUSDT","T":1,"p":"100","q":"1","m":false}}';
+    recorder.recordSnapshot('BTCUSDT', { lastUpdateId: 10, bids: [['100', '1']], asks: [['101', '1']] });
+    recorder.recordMessage('BTCUSDT', trade);
+    recorder.recordMessage('ETHUSDT', trade.replace(/BTCUSDT/g, 'ETHUSDT'));
+    now = day2;
+    recorder.recordMessage('BTCUSDT', trade);
+    await recorder.shutdown();
+
+    const files = fs.readdirSync(path.join(dir, 'BTCUSDT')).sort();
+    assert(files.length === 2, `day change rotates the file, got ${files.join(',')}`);
+    assert(files[0] === 'BTCUSDT_20260101_235959.jsonl.gz', `file name carries symbol, day and time: ${files[0]}`);
+    assert(!fs.existsSync(path.join(dir, 'ETHUSDT')), 'symbols outside the filter are not recorded');
+
+    const read = (name: string) => zlib.gunzipSync(fs.readFileSync(path.join(dir, 'BTCUSDT', name)))
+      .toString()
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    const first = read(files[0]);
+    assert(first.length === 2, 'first day holds the snapshot and one trade');
+    assert(first[0].stream === 'btcusdt@depthSnapshot' && first[0].data.lastUpdateId === 10, 'snapshot is stored in replay format');
+    assert(first[0].recv_ms === day1 && first[0].data.E === day1, 'snapshot without exchange time uses receive time');
+    assert(first[1].recv_ms === day1 && first[1].data.p === '100' && first[1].stream === 'btcusdt@trade', 'raw message keeps its payload');
+    assert(read(files[1])[0].recv_ms === day2, 'second day file has its own receive time');
+
+    const status = recorder.getStatus();
+    assert(!status.enabled && status.recorded === 3 && status.dropped === 0, 'status counts recorded entries');
+
+    const lossy = new MarketDataRecorder({
+      enabled: true,
+      dir,
+      symbols: [],
+      retentionDays: 1,
+      maxTotalBytes: 0,
+      maxFileBytes: 1024 * 1024,
+      maxBufferedBytes: 0,
+      flushIntervalMs: 60_000,
+    });
+    for (let i = 0; i < 10; i++) {
+      lossy.recordMessage('BTCUSDT', trade);
+    }
+    assert(lossy.getStatus().dropped > 0, 'entries are dropped instead of queued when the gzip backlog is full');
+
+    // Written on day1/day2 (mtime = now) so age them explicitly.
+    const old = Date.now() / 1000 - 3 * 86_400;
+    for (const name of files) {
+      fs.utimesSync(path.join(dir, 'BTCUSDT', name), old, old);
+    }
+    await lossy.prune(); // startup pass
+    await lossy.prune();
+    const left = fs.readdirSync(path.join(dir, 'BTCUSDT'));
+    assert(files.every((name) => !left.includes(name)), 'recordings older than the retention window are deleted');
+    assert(lossy.getStatus().openFiles.length === 1 && left.length === 1, 'the open file is kept');
+    await lossy.shutdown();
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,92 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { flattenMetrics, MetricsHistory } from '../recorder/MetricsHistory';
+
+const payload = (deltaZ: number, exhaustion = false) => ({
+  type: 'metrics',
+  symbol: 'BTCUSDT',
+  midPrice: 100,
+  absorption: 0,
+  legacyMetrics: { obiWeighted: 0.5, deltaZ },
+  cvd: { tf5m: { cvd: 10, delta: 1, exhaustion } },
+  funding: null,
+  bids: [[100, 1, 1]],
+});
+
+function testFlatten() {
+  const flat = flattenMetrics(payload(2, true));
+  assert(flat['legacyMetrics.deltaZ'] === 2 && flat['cvd.tf5m.exhaustion'] === 1, 'numeric leaves by dotted path, booleans as 1 / 0');
+  assert(flat.funding === null && flat.bids === undefined && flat.type === undefined, 'nulls kept, books and strings left out');
+}
+
+/**
+ * One sample per interval, a bounded ring, and queries by field prefix,
+ * time range and coarser resolution.
+ */
+function testRingAndQuery() {
+  let now = 0;
+  const history = new MetricsHistory({ sampleIntervalMs: 1000, maxSamples: 5, dir: null, flushIntervalMs: 1000, now: () => now });
+  for (let i = 0; i < 8; i++) {
+    now = i * 1000;
+    history.record('BTCUSDT', payload(i - 0.5));
+    now += 500;
+    history.record('BTCUSDT', payload(i));
+  }
+
+  const all = history.query('BTCUSDT')!;
+  assert(all.t.length === 5 && all.t[0] === 3500 && all.t[4] === 7500, 'ring keeps the newest maxSamples');
+  assert(all.series['legacyMetrics.deltaZ'].join() === '3,4,5,6,7', 'last payload of an interval wins');
+
+  const some = history.query('BTCUSDT', { fields: ['legacyMetrics'], from: 4000, to: 7000, resolutionMs: 2000 })!;
+  assert(some.fields.join() === 'legacyMetrics.deltaZ,legacyMetrics.obiWeighted', 'prefix selects a section');
+  assert(some.t.join() === '5500,6500' && some.series['legacyMetrics.deltaZ'].join() === '5,6', 'range and resolution buckets');
+  assert(history.query('ETHUSDT') === null, 'unknown symbol');
+  assert(history.getStatus().symbols.BTCUSDT.samples === 5, 'status counts samples');
+}
+
+/**
+ * Completed samples are appended to disk and read back after a restart.
+ */
+async function testPersistence() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'history-test-'));
+  try {
+    let now = 0;
+    const config = { sampleIntervalMs: 1000, maxSamples: 3, dir, flushIntervalMs: 60_000, now: () => now };
+    const first = new MetricsHistory(config);
+    for (let i = 0; i < 8; i++) {
+      now = i * 1000;
+      first.record('BYBIT:BTCUSDT', payload(i));
+    }
+    await first.shutdown();
+    const file = path.join(dir, 'BYBIT-BTCUSDT.jsonl');
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    // 7 completed samples pass twice the ring size, so the file is rewritten from the ring
+    assert(lines.length === 2, `file compacted to completed ring samples (${lines.length})`);
+    fs.appendFileSync(file, '{"ts":');
+
+    const second = new MetricsHistory(config);
+    await second.load();
+    const restored = second.query('BYBIT:BTCUSDT')!;
+    assert(restored.series['legacyMetrics.deltaZ'].join() === '5,6', 'samples restored, torn line skipped');
+    now = 9000;
+    second.record('BYBIT:BTCUSDT', payload(9));
+    now = 10_000;
+    second.record('BYBIT:BTCUSDT', payload(10));
+    await second.shutdown();
+    const after = fs.readFileSync(file, 'utf8').split('\n').filter((l) => l.startsWith('{"ts":9000'));
+    assert(after.length === 1, 'restored samples are not written twice');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+export async function runTests() {
+  testFlatten();
+  testRingAndQuery();
+  await testPersistence();
+}
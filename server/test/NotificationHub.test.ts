@@ -0,0 +1,100 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { FileChannel, TelegramChannel, WebhookChannel } from '../notify/channels';
+import { alertNotification, Notification, NotificationHub, orchestratorNotification, renderTemplate } from '../notify/NotificationHub';
+
+type Received = { url: string; body: any };
+
+/**
+ * Local stand-in for the Telegram Bot API and a webhook receiver.
+ */
+async function startMockApi(received: Received[]): Promise<{ base: string; close: () => Promise<void> }> {
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : null;
+      received.push({ url: req.url || '', body });
+      if (req.url === '/hook/fail') {
+        res.writeHead(500).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(req.url?.startsWith('/botbad') ? { ok: false, description: 'Unauthorized' } : { ok: true, result: {} }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { base: `http://127.0.0.1:${port}`, close: () => new Promise((resolve) => server.close(() => resolve())) };
+}
+
+const halt: Notification = orchestratorNotification({ type: 'SYSTEM_HALT', symbol: 'BTCUSDT', event_time_ms: 0, reason: 'logger_drop_spike:250' });
+
+function testTemplates() {
+  assert(renderTemplate('{{symbol}} halted: {{reason}} {{missing}}', halt) === 'BTCUSDT halted: logger_drop_spike:250 -', 'fields and missing placeholders');
+  const alert = alertNotification({
+    id: 'a', ruleId: 'r', ruleName: 'spike', symbol: 'ETHUSDT', severity: 'critical', expression: 'deltaZ > 3', values: { deltaZ: 3.2 }, firedAt: 0,
+  });
+  assert(alert.kind === 'alert' && renderTemplate('{{ruleName}} {{values}}', alert) === 'spike {"deltaZ":3.2}', 'alert fields');
+  const exit = orchestratorNotification({ type: 'POSITION_CLOSED', symbol: 'BTCUSDT', event_time_ms: 0, side: 'LONG', qty: 1, entryPrice: 100, realizedPnl: 5 });
+  assert(exit.kind === 'exit' && exit.data.realizedPnl === 5 && halt.severity === 'critical', 'orchestrator notices map to kinds');
+}
+
+/**
+ * Delivery through a mock Bot API and webhook, with filters, rate limits,
+ * templates and per-channel failures.
+ */
+async function testDelivery() {
+  const received: Received[] = [];
+  const api = await startMockApi(received);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'notify-test-'));
+  const errors: string[] = [];
+  try {
+    const hub = new NotificationHub({
+      templates: { entry: 'IN {{symbol}} {{side}}' },
+      now: () => 0,
+      onError: (e, channel) => errors.push(`${channel}:${e.message}`),
+    });
+    hub.addChannel({ channel: new TelegramChannel({ botToken: 'T', chatId: '42', apiBase: api.base }), maxPerMinute: 1 });
+    hub.addChannel({ channel: new WebhookChannel({ url: `${api.base}/hook` }), filter: { kinds: ['halt'] } });
+    hub.addChannel({ channel: new WebhookChannel({ url: `${api.base}/hook/fail` }), filter: { minSeverity: 'critical' } });
+    hub.addChannel({ channel: new FileChannel(path.join(dir, 'out.jsonl')), filter: { symbols: ['ETHUSDT'] } });
+    hub.addChannel({ channel: new TelegramChannel({ botToken: 'bad', chatId: '42', apiBase: api.base }), filter: { kinds: ['resume'] } });
+
+    const entry = orchestratorNotification({ type: 'POSITION_OPENED', symbol: 'ETHUSDT', event_time_ms: 0, side: 'SHORT', qty: 2, entryPrice: 3000 });
+    hub.notify(entry);
+    hub.notify(entry);
+    hub.notify(halt);
+    hub.notify(orchestratorNotification({ type: 'SYSTEM_RESUME', symbol: 'BTCUSDT', event_time_ms: 0, reason: 'reconnected' }));
+    await hub.flush();
+
+    const telegram = received.filter((r) => r.url === '/botT/sendMessage');
+    assert(telegram.length === 2, 'telegram: one notification within the rate limit, plus the critical halt');
+    assert(telegram[0].body.chat_id === '42' && telegram[0].body.text === 'IN ETHUSDT SHORT', 'template override');
+    assert(telegram[1].body.text === '⛔ BTCUSDT halted: logger_drop_spike:250', 'default template');
+    const hook = received.filter((r) => r.url === '/hook');
+    assert(hook.length === 1 && hook[0].body.kind === 'halt' && hook[0].body.data.reason === 'logger_drop_spike:250', 'webhook gets the filtered kind as JSON');
+    const lines = fs.readFileSync(path.join(dir, 'out.jsonl'), 'utf8').trim().split('\n');
+    assert(lines.length === 2 && JSON.parse(lines[0]).symbol === 'ETHUSDT', 'file sink filtered by symbol');
+
+    const status = hub.getStatus();
+    assert(status[0].sent === 2 && status[0].rateLimited === 2, 'rate limited notifications are counted');
+    assert(status[2].failed === 1 && status[4].lastError!.includes('Unauthorized'), 'failures are reported per channel');
+    assert(errors.length === 2, 'errors reach onError');
+  } finally {
+    await api.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+export async function runTests() {
+  testTemplates();
+  await testDelivery();
+}
@@ -0,0 +1,186 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { SimulatedExecutionConnector } from '../connectors/SimulatedExecutionConnector';
+import { applySnapshot, createOrderbookState } from '../metrics/OrderbookManager';
+import { Orchestrator, orchestratorConfigFromEnv } from '../orchestrator/Orchestrator';
+import { OrchestratorConfig, OrchestratorNotice } from '../orchestrator/types';
+
+function createOrchestrator(enabled: boolean, config: Partial<OrchestratorConfig> = {}) {
+  const ob = createOrderbookState();
+  applySnapshot(ob, { lastUpdateId: 1, bids: [['100', '5']], asks: [['101', '5']] });
+  const connector = new SimulatedExecutionConnector({
+    enabled,
+    initialBalanceUsdt: 1000,
+    takerFeeRate: 0.0004,
+    makerFeeRate: 0.0002,
+    leverage: 10,
+    getOrderbook: () => ob,
+  });
+  const orchestrator = new Orchestrator(connector, {
+    ...orchestratorConfigFromEnv(),
+    protection: { stopLossPct: 0, takeProfitPct: 0 },
+    logDir: null,
+    ...config,
+  });
+  return { connector, orchestrator };
+}
+
+/**
+ * Halts, resumes and position changes reach notice listeners while
+ * execution is disabled; only the execution file log is gated on it.
+ */
+async function testNoticesWithExecutionDisabled() {
+  const { connector, orchestrator } = createOrchestrator(false);
+  const notices: OrchestratorNotice[] = [];
+  orchestrator.onNotice((n) => notices.push(n));
+  await connector.connect();
+  await orchestrator.setExecutionSymbols(['BTCUSDT']);
+
+  try {
+    assert(orchestrator.setSymbolHalted('BTCUSDT', true, 'user_stream_disconnected'), 'symbol halts');
+    orchestrator.ingestExecutionReplay({
+      type: 'ACCOUNT_UPDATE',
+      symbol: 'BTCUSDT',
+      event_time_ms: 2,
+      availableBalance: 1000,
+      walletBalance: 1000,
+      positionAmt: 1,
+      entryPrice: 100,
+      unrealizedPnL: 0,
+    });
+    orchestrator.setSymbolHalted('BTCUSDT', false, 'manual');
+    await orchestrator.flush();
+
+    const types = notices.map((n) => n.type).join();
+    assert(types === 'SYSTEM_HALT,POSITION_OPENED,SYSTEM_RESUME', `notices with execution disabled, got ${types}`);
+  } finally {
+    await connector.disconnect();
+  }
+}
+
+/**
+ * Flatten halts every symbol first, and a symbol whose cancel is rejected
+ * is reported without stopping the others from closing.
+ */
+async function testFlattenContinuesPastFailures() {
+  const { connector, orchestrator } = createOrchestrator(true);
+  await connector.connect();
+  await orchestrator.setExecutionSymbols(['BTCUSDT', 'ETHUSDT']);
+
+  try {
+    await connector.placeOrder({ symbol: 'ETHUSDT', side: 'BUY', type: 'MARKET', quantity: 1, clientOrderId: 'entry_eth' });
+    await new Promise((resolve) => setImmediate(resolve));
+    await orchestrator.flush();
+    assert(orchestrator.getStateSnapshot().ETHUSDT.position?.qty === 1, 'ETH position is open');
+
+    const cancelAll = connector.cancelAllOpenOrders.bind(connector);
+    connector.cancelAllOpenOrders = async (symbol: string) => {
+      if (symbol === 'BTCUSDT') throw new Error('rejected');
+      return cancelAll(symbol);
+    };
+    const result = await orchestrator.flattenPositions();
+    await new Promise((resolve) => setImmediate(resolve));
+    await orchestrator.flush();
+
+    assert(result.closed.join() === 'ETHUSDT', `ETH is closed after BTC fails, got ${result.closed.join()}`);
+    assert(result.failed.length === 1 && result.failed[0].symbol === 'BTCUSDT' && result.failed[0].error === 'rejected', 'BTC failure is reported');
+    const states = orchestrator.getStateSnapshot();
+    assert(states.BTCUSDT.halted && states.ETHUSDT.halted, 'flatten halts every symbol');
+    assert(!states.ETHUSDT.position, 'ETH position is flat');
+  } finally {
+    await connector.disconnect();
+  }
+}
+
+/**
+ * With execution disabled, flatten halts but cancels nothing, so the
+ * protective orders stay, and reports every symbol as failed.
+ */
+async function testFlattenWithExecutionDisabled() {
+  const { connector, orchestrator } = createOrchestrator(true);
+  await connector.connect();
+  await orchestrator.setExecutionSymbols(['BTCUSDT']);
+
+  try {
+    await connector.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 1, clientOrderId: 'entry_btc' });
+    await new Promise((resolve) => setImmediate(resolve));
+    await connector.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', quantity: 1, stopPrice: 90, reduceOnly: true, clientOrderId: 'sl_btc' });
+    await new Promise((resolve) => setImmediate(resolve));
+    await orchestrator.flush();
+
+    connector.setExecutionEnabled(false);
+    let cancels = 0;
+    const cancelAll = connector.cancelAllOpenOrders.bind(connector);
+    connector.cancelAllOpenOrders = async (symbol: string) => {
+      cancels++;
+      return cancelAll(symbol);
+    };
+    const result = await orchestrator.flattenPositions();
+    await new Promise((resolve) => setImmediate(resolve));
+    await orchestrator.flush();
+
+    assert(result.closed.length === 0, `nothing is reported closed, got ${result.closed.join()}`);
+    assert(result.failed.length === 1 && result.failed[0].error === 'execution_disabled', 'BTC is reported as not flattened');
+    assert(cancels === 0, 'protective orders are not cancelled');
+    const state = orchestrator.getStateSnapshot().BTCUSDT;
+    assert(state.halted && state.position?.qty === 1, 'symbol is halted and the position is untouched');
+    assert([...state.openOrders.values()].some((o) => o.clientOrderId === 'sl_btc'), 'stop loss is still open');
+  } finally {
+    await connector.disconnect();
+  }
+}
+
+/**
+ * The daily loss reset resumes only the symbols the loss limit halted; a
+ * symbol paused by hand stays halted.
+ */
+async function testDailyResetKeepsManualHalts() {
+  const defaults = orchestratorConfigFromEnv();
+  const { connector, orchestrator } = createOrchestrator(false, { risk: { ...defaults.risk, dailyLossLimitUsdt: 10 } });
+  const notices: OrchestratorNotice[] = [];
+  orchestrator.onNotice((n) => notices.push(n));
+  await connector.connect();
+  await orchestrator.setExecutionSymbols(['BTCUSDT', 'ETHUSDT']);
+  // The connector stamps its events with the wall clock, so the risk day follows it
+  const day = Date.now();
+  const tick = (canonical_time_ms: number) => orchestrator.ingest({ symbol: 'BTCUSDT', canonical_time_ms, best_bid: 50, best_ask: 51 });
+
+  try {
+    tick(day);
+    orchestrator.setSymbolHalted('ETHUSDT', true, 'telegram_pause');
+    orchestrator.ingestExecutionReplay({
+      type: 'ACCOUNT_UPDATE',
+      symbol: 'BTCUSDT',
+      event_time_ms: day + 1,
+      availableBalance: 1000,
+      walletBalance: 1000,
+      positionAmt: 1,
+      entryPrice: 100,
+      unrealizedPnL: -50,
+    });
+    await orchestrator.flush();
+    tick(day + 2);
+    await orchestrator.flush();
+    let states = orchestrator.getStateSnapshot();
+    assert(states.BTCUSDT.halted && states.ETHUSDT.halted, 'loss limit halts');
+
+    notices.length = 0;
+    tick(day + 24 * 60 * 60 * 1000);
+    await orchestrator.flush();
+    states = orchestrator.getStateSnapshot();
+    const resumes = notices.filter((n) => n.type === 'SYSTEM_RESUME').map((n) => n.symbol).join();
+    assert(resumes === 'BTCUSDT', `daily reset resumes the risk-halted symbol only, got ${resumes}`);
+    assert(!states.BTCUSDT.halted && states.ETHUSDT.halted, 'paused symbol stays halted');
+  } finally {
+    await connector.disconnect();
+  }
+}
+
+export async function runTests() {
+  await testNoticesWithExecutionDisabled();
+  await testFlattenContinuesPastFailures();
+  await testFlattenWithExecutionDisabled();
+  await testDailyResetKeepsManualHalts();
+}
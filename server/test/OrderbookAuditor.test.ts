@@ -0,0 +1,71 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { OrderbookAuditor, OrderbookAuditReport } from '../metrics/OrderbookAuditor';
+import { DepthCache, applyDepthUpdate, applySnapshot, createOrderbookState } from '../metrics/OrderbookManager';
+
+/**
+ * Gap modes per book, and REST audits compared at the same lastUpdateId:
+ * a clean book scores zero drift, a book that skipped a diff over a
+ * tolerated gap is resynced, and the weight budget caps the audit rate.
+ */
+export async function runTests() {
+  const strict = createOrderbookState('strict');
+  const tolerant = createOrderbookState('tolerant');
+  for (const ob of [strict, tolerant]) {
+    applySnapshot(ob, { lastUpdateId: 10, bids: [], asks: [] });
+  }
+  assert(applyDepthUpdate(strict, { U: 13, u: 13, b: [], a: [] }) === false, 'strict book rejects any gap');
+  assert(applyDepthUpdate(tolerant, { U: 13, u: 13, b: [], a: [] }) === true, 'tolerant book applies a small gap');
+
+  const book = createOrderbookState('tolerant');
+  applySnapshot(book, { lastUpdateId: 10, bids: [['100', '5'], ['99', '3']], asks: [['101', '4'], ['102', '6']] });
+
+  let now = 1_000;
+  let resolveDepth: (snapshot: DepthCache) => void = () => undefined;
+  const drifts: string[] = [];
+  const auditor = new OrderbookAuditor({
+    config: { enabled: true, intervalMs: 1000, depthLimit: 5, driftThreshold: 0.05, weightBudgetPerMinute: 4, maxPendingMs: 5000 },
+    listSymbols: () => ['BTCUSDT'],
+    getOrderbook: () => book,
+    fetchDepth: () => new Promise((resolve) => { resolveDepth = resolve; }),
+    onDrift: (symbol: string, report: OrderbookAuditReport) => drifts.push(`${symbol}:${report.mismatchedLevels}`),
+    now: () => now,
+  });
+  const deliver = (update: { U: number; u: number; b: [string, string][]; a: [string, string][] }) => {
+    applyDepthUpdate(book, update);
+    auditor.onDepthUpdate('BTCUSDT', update);
+  };
+
+  // Snapshot at 11 arrives after the live book has already applied 12.
+  assert(auditor.getStatus('BTCUSDT') === null, 'no status before the first audit');
+  const first = auditor.auditNext();
+  deliver({ U: 11, u: 11, b: [['99', '2']], a: [] });
+  deliver({ U: 12, u: 12, b: [], a: [['101', '1']] });
+  resolveDepth({ lastUpdateId: 11, bids: [['100', '5'], ['99', '2']], asks: [['101', '4'], ['102', '6']] });
+  assert(await first === 'BTCUSDT', 'audit picks the live symbol');
+  let status = auditor.getStatus('BTCUSDT')!;
+  assert(status.audits === 1 && status.lastReport!.driftScore === 0 && status.lastReport!.lastUpdateId === 12, 'buffered diffs bring the snapshot to the live update id');
+  assert(drifts.length === 0, 'a clean book is not resynced');
+
+  // The live book misses 13 but tolerates the gap; the exchange book has it.
+  now += 1000;
+  const second = auditor.auditNext();
+  resolveDepth({ lastUpdateId: 13, bids: [['100', '9'], ['99', '2']], asks: [['101', '1'], ['102', '6']] });
+  await second;
+  assert(auditor.getStatus('BTCUSDT')!.pending, 'audit waits for the live book to reach the snapshot');
+  deliver({ U: 14, u: 14, b: [], a: [['102', '7']] });
+  status = auditor.getStatus('BTCUSDT')!;
+  assert(status.lastReport!.resynced && status.resyncs === 1, `drift above the threshold forces a resync, got ${status.lastReport!.driftScore}`);
+  assert(drifts.join() === 'BTCUSDT:1', 'only the missed level differs');
+
+  now += 1000;
+  assert(await auditor.auditNext() === null, 'weight budget caps audits per minute');
+  now += 60_000;
+  const third = auditor.auditNext();
+  deliver({ U: 17, u: 17, b: [], a: [] });
+  resolveDepth({ lastUpdateId: 15, bids: [], asks: [] });
+  await third;
+  assert(auditor.getStatus('BTCUSDT')!.inconclusive === 1 && !auditor.getStatus('BTCUSDT')!.pending, 'a gap inside the audit window is inconclusive');
+}
@@ -0,0 +1,98 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { SymbolActor } from '../orchestrator/Actor';
+import { DecisionEngine } from '../orchestrator/Decision';
+import { DefaultStrategy } from '../orchestrator/DefaultStrategy';
+import { ActorEnvelope, DecisionAction, GateMode, GateResult } from '../orchestrator/types';
+
+const gate: GateResult = {
+  mode: GateMode.V1_NO_LATENCY,
+  passed: true,
+  reason: null,
+  network_latency_ms: null,
+  checks: { hasRequiredMetrics: true, spreadOk: true, obiDeepOk: true, networkLatencyOk: null, liquidationOk: null },
+};
+
+function createActor(symbol: string, sent: DecisionAction[]) {
+  const strategy = new DefaultStrategy();
+  const engine = new DecisionEngine({
+    expectedPrice: () => null,
+    getRiskPerTradePercent: () => 10,
+    getMaxLeverage: () => 10,
+    getEntryOrderConfig: () => ({ type: 'MARKET', offsetTicks: 0, timeoutMs: 0 }),
+    getProtectiveOrderConfig: () => ({ stopLossPct: 0, takeProfitPct: 0 }),
+    getPriceTickSize: () => null,
+    getStrategy: () => ({ strategy, params: strategy.defaultParams }),
+  });
+  const actor = new SymbolActor({
+    symbol,
+    decisionEngine: engine,
+    onActions: async (actions) => {
+      sent.push(...actions);
+    },
+    vetActions: (actions) => ({ accepted: actions, rejections: [] }),
+    onDecisionLogged: () => undefined,
+    onExecutionLogged: () => undefined,
+    getExpectedOrderMeta: () => null,
+    markAddUsed: () => undefined,
+    getLeverage: () => 10,
+    cooldownConfig: { minMs: 0, maxMs: 0 },
+  });
+  const deliver = async (envelope: ActorEnvelope) => {
+    actor.enqueue(envelope);
+    while (!actor.isIdle()) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+  const tick = (t: number, mid: number) => deliver({
+    kind: 'metrics',
+    symbol,
+    canonical_time_ms: t,
+    exchange_event_time_ms: t,
+    // Neutral flow so only the PnL rules can act.
+    metrics: { symbol, best_bid: mid, best_ask: mid, spread_pct: 0, prints_per_second: 0, legacyMetrics: { obiDeep: 0, deltaZ: 0, cvdSlope: 0 } },
+    gate,
+  });
+  const account = (t: number, positionAmt: number, entryPrice: number, unrealizedPnL: number) => deliver({
+    kind: 'execution',
+    symbol,
+    event_time_ms: t,
+    execution: { type: 'ACCOUNT_UPDATE', symbol, event_time_ms: t, availableBalance: 1000, walletBalance: 1000, positionAmt, entryPrice, unrealizedPnL },
+  });
+  return { actor, tick, account };
+}
+
+/**
+ * Unrealized PnL is marked to the mid on every metrics tick, in USDT and in
+ * percent of margin, so the same relative move yields the same percentage
+ * at any price level and drives the profit-lock rule.
+ */
+export async function runTests() {
+  const sent: DecisionAction[] = [];
+  const cheap = createActor('XRPUSDT', sent);
+  const dear = createActor('BTCUSDT', sent);
+
+  await cheap.account(1, 200, 1, 1);
+  const seeded = cheap.actor.state.position!;
+  assert(Math.abs(seeded.unrealizedPnlUsdt - 1) < 1e-9 && Math.abs(seeded.unrealizedPnlPct - 5) < 1e-9 && seeded.markPrice === null, 'exchange PnL is used until the first tick');
+
+  await cheap.tick(2, 1.01);
+  await dear.account(1, 0.004, 50000, 0);
+  await dear.tick(2, 50500);
+  const a = cheap.actor.state.position!;
+  const b = dear.actor.state.position!;
+  assert(Math.abs(a.unrealizedPnlUsdt - 2) < 1e-9 && Math.abs(b.unrealizedPnlUsdt - 2) < 1e-9, 'USDT PnL is (mid - entry) * qty');
+  assert(Math.abs(a.unrealizedPnlPct - 10) < 1e-9 && Math.abs(b.unrealizedPnlPct - 10) < 1e-9, 'a 1% move at 10x is 10% of margin at any price');
+  assert(a.markPrice === 1.01 && a.peakPnlPct === a.unrealizedPnlPct, 'peak follows the marked PnL');
+
+  sent.length = 0;
+  await cheap.tick(3, 1.005);
+  assert(Math.abs(cheap.actor.state.position!.peakPnlPct - 10) < 1e-9, 'peak is kept through a drawdown');
+  assert(sent.some((x) => x.type === 'EXIT_MARKET' && x.reason === 'profit_lock_drawdown'), 'percent drawdown from the peak locks profit');
+
+  await cheap.account(4, -100, 1.005, 0);
+  const flipped = cheap.actor.state.position!;
+  assert(flipped.side === 'SHORT' && flipped.peakPnlPct === flipped.unrealizedPnlPct, 'peak restarts when the side flips');
+}
@@ -0,0 +1,56 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { PriceLevels } from '../metrics/PriceLevels';
+import { applyDepthUpdate, applySnapshot, createOrderbookState, getTopLevels } from '../metrics/OrderbookManager';
+
+/**
+ * Sorted price levels give the best price, top-N and cumulative depth in
+ * book order and stay consistent with a naive sort under random churn.
+ */
+export function runTests() {
+  const bids = new PriceLevels('bid');
+  bids.set(99, 1).set(101, 2).set(100, 3);
+  assert(bids.best() === 101, 'best bid is the highest price');
+  assert([...bids.keys()].join() === '101,100,99', 'bids iterate best first');
+  assert(bids.depth(2) === 5 && bids.depth(10) === 6, 'depth sums the best levels');
+  bids.set(100, 4);
+  assert(bids.depth(2) === 6, 'size change invalidates cached depth');
+  assert(bids.delete(101) && !bids.delete(101), 'delete reports whether the level existed');
+  assert(bids.best() === 100 && bids.size === 2, 'best moves down after a delete');
+
+  const asks = new PriceLevels('ask');
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+  const reference = new Map<number, number>();
+  for (let i = 0; i < 2000; i++) {
+    const price = 100 + Math.floor(random() * 200) / 10;
+    if (random() < 0.3) {
+      asks.delete(price);
+      reference.delete(price);
+    } else {
+      const size = Math.ceil(random() * 10);
+      asks.set(price, size);
+      reference.set(price, size);
+    }
+    if (i % 100 === 0) {
+      asks.depth(20);
+    }
+  }
+  const sorted = [...reference.entries()].sort((a, b) => a[0] - b[0]);
+  let total = 0;
+  const expected = sorted.slice(0, 20).map(([p, q]) => [p, q, (total += q)].join(':'));
+  assert(asks.top(20).map((l) => l.join(':')).join() === expected.join(), 'top levels match a full sort after churn');
+  assert(asks.best() === sorted[0][0] && asks.size === sorted.length, 'best ask is the lowest price');
+
+  const ob = createOrderbookState();
+  applySnapshot(ob, { lastUpdateId: 1, bids: [['100', '1'], ['99', '2']], asks: [['101', '3'], ['102', '4']] });
+  applyDepthUpdate(ob, { U: 2, u: 2, b: [['100.5', '5'], ['99', '0']], a: [['101', '0']] });
+  const top = getTopLevels(ob, 5);
+  assert(top.bids.map((l) => l.join(':')).join() === '100.5:5:5,100:1:6', 'orderbook bids are sorted with cumulative totals');
+  assert(top.asks.map((l) => l.join(':')).join() === '102:4:4', 'orderbook asks drop zero-size levels');
+}
@@ -0,0 +1,60 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { PrometheusRegistry } from '../telemetry/PrometheusRegistry';
+
+function testCountersAndGauges() {
+  const registry = new PrometheusRegistry();
+  const messages = registry.counter('test_messages_total', 'Messages per symbol');
+  const state = registry.gauge('test_state', 'State\nper symbol');
+  messages.inc({ symbol: 'BTCUSDT' });
+  messages.inc({ symbol: 'BTCUSDT' }, 2);
+  messages.inc({ symbol: 'BYBIT:BTC"USDT' });
+  let collected = 0;
+  registry.onCollect(() => {
+    collected++;
+    state.reset();
+    state.set({ symbol: 'BTCUSDT', state: 'LIVE' }, 1);
+  });
+  state.set({ symbol: 'ETHUSDT', state: 'STALE' }, 1);
+
+  const text = registry.render();
+  const lines = text.split('\n');
+  assert(text.endsWith('\n') && collected === 1, 'collectors run on render');
+  assert(lines[0] === '# HELP test_messages_total Messages per symbol' && lines[1] === '# TYPE test_messages_total counter', 'help and type');
+  assert(lines.includes('test_messages_total{symbol="BTCUSDT"} 3'), 'counter value');
+  assert(lines.includes('test_messages_total{symbol="BYBIT:BTC\\"USDT"} 1'), 'label values are escaped');
+  assert(lines.includes('# HELP test_state State\\nper symbol'), 'help is escaped');
+  assert(lines.includes('test_state{state="LIVE",symbol="BTCUSDT"} 1') && !text.includes('ETHUSDT'), 'gauges refilled by collectors, labels sorted');
+
+  let threw = false;
+  try {
+    registry.counter('test_messages_total', 'again');
+  } catch {
+    threw = true;
+  }
+  assert(threw, 'duplicate names are rejected');
+}
+
+function testHistogram() {
+  const registry = new PrometheusRegistry();
+  const latency = registry.histogram('test_latency_seconds', 'Latency', [0.1, 1]);
+  latency.observe({}, 0.05);
+  latency.observe({}, 0.5);
+  latency.observe({}, 3);
+  latency.observe({}, NaN);
+  const lines = registry.render().split('\n');
+  assert(lines.includes('# TYPE test_latency_seconds histogram'), 'type');
+  assert(lines.includes('test_latency_seconds_bucket{le="0.1"} 1') && lines.includes('test_latency_seconds_bucket{le="1"} 2'), 'cumulative buckets');
+  assert(lines.includes('test_latency_seconds_bucket{le="+Inf"} 3') && lines.includes('test_latency_seconds_count 3'), 'count');
+  assert(lines.includes('test_latency_seconds_sum 3.55'), 'sum');
+
+  latency.observe({ symbol: 'BTCUSDT' }, 0.2);
+  assert(registry.render().includes('test_latency_seconds_bucket{symbol="BTCUSDT",le="1"} 1'), 'labelled series');
+}
+
+export function runTests() {
+  testCountersAndGauges();
+  testHistogram();
+}
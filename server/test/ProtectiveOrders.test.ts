@@ -0,0 +1,158 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { ExecutionEvent } from '../connectors/executionTypes';
+import { SymbolActor } from '../orchestrator/Actor';
+import { DecisionEngine } from '../orchestrator/Decision';
+import { DefaultStrategy } from '../orchestrator/DefaultStrategy';
+import { DecisionAction } from '../orchestrator/types';
+
+function createActor() {
+  const strategy = new DefaultStrategy();
+  const engine = new DecisionEngine({
+    expectedPrice: () => null,
+    getRiskPerTradePercent: () => 10,
+    getMaxLeverage: () => 10,
+    getEntryOrderConfig: () => ({ type: 'MARKET', offsetTicks: 0, timeoutMs: 0 }),
+    getProtectiveOrderConfig: () => ({ stopLossPct: 1, takeProfitPct: 2 }),
+    getPriceTickSize: () => 0.1,
+    getStrategy: () => ({ strategy, params: strategy.defaultParams }),
+  });
+
+  const sent: DecisionAction[] = [];
+  const actor = new SymbolActor({
+    symbol: 'BTCUSDT',
+    decisionEngine: engine,
+    onActions: async (actions) => {
+      sent.push(...actions);
+    },
+    vetActions: (actions) => ({ accepted: actions, rejections: [] }),
+    onDecisionLogged: () => undefined,
+    onExecutionLogged: () => undefined,
+    getExpectedOrderMeta: () => null,
+    markAddUsed: () => undefined,
+    getLeverage: () => 10,
+    cooldownConfig: { minMs: 0, maxMs: 0 },
+  });
+
+  const deliver = async (execution: ExecutionEvent) => {
+    actor.enqueue({ kind: 'execution', symbol: 'BTCUSDT', event_time_ms: execution.event_time_ms, execution });
+    while (!actor.isIdle()) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+  const account = (event_time_ms: number, positionAmt: number, entryPrice: number, unrealizedPnL = 0): ExecutionEvent => ({
+    type: 'ACCOUNT_UPDATE',
+    symbol: 'BTCUSDT',
+    event_time_ms,
+    availableBalance: 1000,
+    walletBalance: 1000,
+    positionAmt,
+    entryPrice,
+    unrealizedPnL,
+  });
+  return { actor, sent, deliver, account };
+}
+
+/**
+ * The actor keeps a closePosition stop-loss / take-profit pair on the
+ * exchange for the open position: placed after the entry fill, replaced
+ * after an add and cancelled once the position is flat.
+ */
+async function testPairFollowsPosition() {
+  const { actor, sent, deliver, account } = createActor();
+  await deliver(account(1, 1, 100));
+  const placed = sent.filter((a) => a.type === 'PLACE_PROTECTIVE');
+  assert(placed.length === 2, 'entry fill places stop-loss and take-profit');
+  const sl = placed.find((a) => a.orderType === 'STOP_MARKET')!;
+  const tp = placed.find((a) => a.orderType === 'TAKE_PROFIT_MARKET')!;
+  assert(sl.side === 'SELL' && sl.stopPrice === 99, `long stop-loss sells at 99, got ${sl.stopPrice}`);
+  assert(tp.side === 'SELL' && tp.stopPrice === 102, `long take-profit sells at 102, got ${tp.stopPrice}`);
+
+  await deliver({
+    type: 'ORDER_UPDATE',
+    symbol: 'BTCUSDT',
+    event_time_ms: 2,
+    orderId: '11',
+    clientOrderId: sl.clientOrderId!,
+    side: 'SELL',
+    orderType: 'STOP_MARKET',
+    status: 'NEW',
+    origQty: 0,
+    executedQty: 0,
+    price: 0,
+    reduceOnly: false,
+    stopPrice: 99,
+    closePosition: true,
+  });
+  assert(actor.state.openOrders.get('11')?.role === 'STOP_LOSS', 'stop order is tracked as protective');
+  assert(!actor.state.hasOpenEntryOrder, 'protective orders do not count as entry orders');
+
+  sent.length = 0;
+  await deliver(account(3, 1, 100, 0.5));
+  assert(sent.length === 0, 'unchanged position keeps its protective orders');
+
+  await deliver(account(4, 2, 101));
+  const cancels = sent.filter((a) => a.type === 'CANCEL_ORDER');
+  const replaced = sent.filter((a) => a.type === 'PLACE_PROTECTIVE');
+  assert(cancels.length === 2, 'add cancels the previous pair');
+  assert(cancels.some((a) => a.clientOrderId === tp.clientOrderId), 'in-flight take-profit is cancelled by client id');
+  assert(replaced.length === 2, 'add places a new pair');
+  assert(replaced.find((a) => a.orderType === 'STOP_MARKET')!.stopPrice === 99.9, 'stop-loss rounds away from entry');
+  assert(replaced.find((a) => a.orderType === 'TAKE_PROFIT_MARKET')!.stopPrice === 103.1, 'take-profit rounds away from entry');
+
+  sent.length = 0;
+  await deliver(account(5, 0, 0));
+  const flatCancels = sent.filter((a) => a.type === 'CANCEL_ORDER');
+  assert(flatCancels.length === 2 && sent.length === 2, 'flat account update cancels the protective pair');
+  assert(flatCancels.every((a) => a.reason === 'protective_position_flat'), 'flat cancels carry their reason');
+}
+
+/**
+ * A leg the exchange rejects, or that never goes out, leaves the position
+ * unprotected; the next account update or open-orders snapshot places the
+ * pair again instead of treating it as covered.
+ */
+async function testFailedLegIsPlacedAgain() {
+  const { actor, sent, deliver, account } = createActor();
+  await deliver(account(1, 1, 100));
+  const sl = sent.find((a) => a.orderType === 'STOP_MARKET')!;
+
+  await deliver({
+    type: 'ORDER_UPDATE',
+    symbol: 'BTCUSDT',
+    event_time_ms: 2,
+    orderId: '21',
+    clientOrderId: sl.clientOrderId!,
+    side: 'SELL',
+    orderType: 'STOP_MARKET',
+    status: 'REJECTED',
+    origQty: 0,
+    executedQty: 0,
+    price: 0,
+    reduceOnly: false,
+    stopPrice: 99,
+    closePosition: true,
+  });
+  sent.length = 0;
+  await deliver(account(3, 1, 100, 0.5));
+  const replaced = sent.filter((a) => a.type === 'PLACE_PROTECTIVE');
+  assert(replaced.length === 2, `rejected stop-loss is placed again with an unchanged position, got ${replaced.length}`);
+  assert(sent.filter((a) => a.type === 'CANCEL_ORDER').length === 1, 'the surviving take-profit is replaced with the pair');
+
+  const tp = replaced.find((a) => a.orderType === 'TAKE_PROFIT_MARKET')!;
+  actor.protectiveOrderFailed(tp.clientOrderId!);
+  sent.length = 0;
+  await deliver({ type: 'OPEN_ORDERS_SNAPSHOT', symbol: 'BTCUSDT', event_time_ms: 4, orders: [] });
+  assert(sent.filter((a) => a.type === 'PLACE_PROTECTIVE').length === 2, 'a leg that was never sent is placed again on the next snapshot');
+
+  sent.length = 0;
+  await deliver(account(5, 1, 100, 0.5));
+  assert(sent.length === 0, 'a placed pair is not placed again');
+}
+
+export async function runTests() {
+  await testPairFollowsPosition();
+  await testFailedLegIsPlacedAgain();
+}
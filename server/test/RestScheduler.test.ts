@@ -0,0 +1,171 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { RestScheduler, endpointWeight, isOrderRequest } from '../connectors/RestScheduler';
+
+function response(status: number, headers: Record<string, string> = {}): Response {
+  return new Response('{}', { status, headers });
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Requests queue once the minute's weight budget is spent, the exchange's
+ * used-weight header raises the local count, and a 429 blocks everything
+ * until its Retry-After has passed.
+ */
+async function testWeightBudget() {
+  let now = 0;
+  const sent: string[] = [];
+  let reply = () => response(200);
+  const scheduler = new RestScheduler({
+    maxWeightPerMinute: 10,
+    fetch: async (url) => {
+      sent.push(url);
+      return reply();
+    },
+    now: () => now,
+  });
+
+  await scheduler.request({ url: 'a', priority: 'context', weight: 6 });
+  const queued = scheduler.request({ url: 'b', priority: 'context', weight: 6 });
+  await settle();
+  assert(sent.join() === 'a' && scheduler.getStatus().queued === 1, 'request over the budget waits');
+  now = 60_000;
+  await scheduler.request({ url: 'c', priority: 'context', weight: 1 });
+  await queued;
+  assert(sent.join() === 'a,b,c', 'queued requests go out in order once the weight leaves the window');
+
+  reply = () => response(200, { 'x-mbx-used-weight-1m': '9' });
+  await scheduler.request({ url: 'd', priority: 'context', weight: 1 });
+  assert(scheduler.getStatus().usedWeight === 9, 'exchange used weight counts requests made elsewhere');
+
+  now = 120_000;
+  reply = () => response(429, { 'Retry-After': '30' });
+  const limited = await scheduler.request({ url: 'e', priority: 'context', weight: 1 });
+  assert(limited.status === 429 && scheduler.isBlocked() && scheduler.getStatus().backoffMs === 30_000, '429 backs off for Retry-After');
+  reply = () => response(200);
+  const blocked = scheduler.request({ url: 'f', priority: 'context', weight: 1 });
+  await settle();
+  assert(sent.length === 5, 'nothing is sent during a backoff');
+  now = 150_000;
+  await scheduler.request({ url: 'g', priority: 'context', weight: 1 });
+  await blocked;
+  assert(sent.join() === 'a,b,c,d,e,f,g' && !scheduler.isBlocked(), 'queue resumes after the backoff');
+}
+
+/**
+ * Waiting requests go out orders first, then snapshots, then context
+ * polls, and a different host has its own weight budget.
+ */
+async function testPriorities() {
+  let now = 0;
+  const sent: string[] = [];
+  const scheduler = new RestScheduler({
+    maxWeightPerMinute: 10,
+    fetch: async (url) => {
+      sent.push(url);
+      return response(200);
+    },
+    now: () => now,
+  });
+
+  await scheduler.request({ url: 'https://fapi/fapi/v1/depth?symbol=A&limit=1000', priority: 'snapshot', weight: 10 });
+  const pending = [
+    scheduler.request({ url: 'https://fapi/context', priority: 'context', weight: 5 }),
+    scheduler.request({ url: 'https://fapi/snapshot', priority: 'snapshot', weight: 5 }),
+    scheduler.request({ url: 'https://fapi/order', priority: 'order', weight: 5 }),
+  ];
+  await scheduler.request({ url: 'https://testnet/fapi/v2/balance', priority: 'order' });
+  await settle();
+  assert(sent.length === 2 && sent[1] === 'https://testnet/fapi/v2/balance', 'another host is not held by a spent budget');
+  assert(scheduler.getStatus().queuedByPriority.context === 1, 'status counts the queue per priority');
+  now = 60_000;
+  const later = scheduler.request({ url: 'https://fapi/later', priority: 'context', weight: 1 });
+  await settle();
+  assert(sent.slice(2).join() === 'https://fapi/order,https://fapi/snapshot', 'higher priorities go first once weight frees up');
+  now = 120_000;
+  scheduler.backoff(0);
+  await Promise.all([...pending, later]);
+  assert(sent.slice(4).join() === 'https://fapi/context,https://fapi/later', 'lower priorities follow in order');
+}
+
+/**
+ * New orders are held to the 10s order count without blocking other
+ * calls, and the weight table prices endpoints by their parameters.
+ */
+async function testOrderLimits() {
+  let now = 0;
+  const sent: string[] = [];
+  const scheduler = new RestScheduler({
+    maxWeightPerMinute: 100,
+    maxOrdersPer10s: 2,
+    fetch: async (url) => {
+      sent.push(url);
+      return response(200);
+    },
+    now: () => now,
+  });
+  const order = () => scheduler.request({ url: 'https://fapi/fapi/v1/order?symbol=A', priority: 'order', init: { method: 'POST' } });
+
+  await order();
+  await order();
+  const third = order();
+  await scheduler.request({ url: 'https://fapi/fapi/v1/order?symbol=A', priority: 'order', init: { method: 'DELETE' } });
+  await settle();
+  assert(sent.length === 3 && scheduler.getStatus().orders.count10s === 2, 'third order waits while a cancel goes out');
+  assert(scheduler.getStatus().usedWeight === 1, 'new orders carry no IP weight');
+  now = 10_000;
+  scheduler.backoff(0);
+  await third;
+  assert(sent.length === 4, 'order goes out once the 10s window rolls');
+
+  assert(endpointWeight('GET', 'https://fapi/fapi/v1/depth?symbol=A&limit=1000') === 20, 'depth 1000 weighs 20');
+  assert(endpointWeight('GET', 'https://fapi/fapi/v1/depth?symbol=A&limit=100') === 5, 'depth 100 weighs 5');
+  assert(endpointWeight('GET', 'https://fapi/fapi/v1/openOrders') === 40, 'openOrders without symbol weighs 40');
+  assert(endpointWeight('GET', 'https://fapi/fapi/v1/unknown') === 1, 'unknown endpoints weigh 1');
+  assert(isOrderRequest('POST', 'https://fapi/fapi/v1/order') && !isOrderRequest('DELETE', 'https://fapi/fapi/v1/order'), 'only placements count as orders');
+}
+
+/**
+ * A signed order held behind the order count is built when it goes out,
+ * so its timestamp is fresh, and its timeout only starts then.
+ */
+async function testDispatchTimePrepare() {
+  let now = 0;
+  const sent: { url: string; aborted: boolean }[] = [];
+  const scheduler = new RestScheduler({
+    maxWeightPerMinute: 100,
+    maxOrdersPer10s: 1,
+    fetch: async (url, init) => {
+      sent.push({ url, aborted: Boolean(init?.signal?.aborted) });
+      return response(200);
+    },
+    now: () => now,
+  });
+  const signedOrder = () => scheduler.request({
+    url: 'https://fapi/fapi/v1/order?symbol=A',
+    priority: 'order',
+    init: { method: 'POST' },
+    prepare: () => ({ url: `https://fapi/fapi/v1/order?symbol=A&timestamp=${now}`, init: { method: 'POST' } }),
+    timeoutMs: 20,
+  });
+
+  await signedOrder();
+  const held = signedOrder();
+  // Longer than the timeout while still queued
+  await new Promise((resolve) => setTimeout(resolve, 40));
+  now = 10_000;
+  scheduler.backoff(0);
+  await held;
+  assert(sent[1].url.endsWith('timestamp=10000'), 'held order is signed at dispatch, past recvWindow of its queueing');
+  assert(!sent[1].aborted, 'timeout starts when the fetch does');
+}
+
+export async function runTests() {
+  await testWeightBudget();
+  await testPriorities();
+  await testOrderLimits();
+  await testDispatchTimePrepare();
+}
@@ -0,0 +1,109 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { PortfolioRiskManager } from '../orchestrator/RiskManager';
+import { DecisionAction, OpenOrderState, RiskLimitsConfig, SymbolState } from '../orchestrator/types';
+
+function state(symbol: string, position: SymbolState['position'], openOrders: OpenOrderState[] = []): SymbolState {
+  return {
+    symbol,
+    halted: false,
+    availableBalance: 0,
+    walletBalance: 0,
+    position,
+    openOrders: new Map(openOrders.map((o) => [o.orderId, o])),
+    hasOpenEntryOrder: openOrders.some((o) => o.role === 'ENTRY'),
+    cooldown_until_ms: 0,
+    last_exit_event_time_ms: 0,
+    execQuality: { poor: false, recentLatencyMs: [], recentSlippageBps: [] },
+  };
+}
+
+function entry(symbol: string, side: 'BUY' | 'SELL', quantity: number, type: DecisionAction['type'] = 'ENTRY_PROBE'): DecisionAction {
+  return { type, symbol, event_time_ms: 1, side, quantity, orderType: 'MARKET', reason: 'test' };
+}
+
+/**
+ * Portfolio limits on entries and adds, pass-through of risk-reducing
+ * actions, and the daily loss halt / next-day resume.
+ */
+export function runTests() {
+  const limits: RiskLimitsConfig = {
+    maxGrossNotionalUsdt: 2000,
+    maxNetNotionalUsdt: 1500,
+    maxSymbolNotionalUsdt: 1200,
+    maxConcurrentPositions: 2,
+    dailyLossLimitUsdt: 50,
+  };
+  const marks: Record<string, number> = { BTCUSDT: 100, ETHUSDT: 10, SOLUSDT: 1 };
+  const states = [
+    state('BTCUSDT', { side: 'LONG', qty: 10, entryPrice: 90, markPrice: 100, unrealizedPnlUsdt: 0, unrealizedPnlPct: 0, addsUsed: 0, peakPnlPct: 0 }),
+    state('ETHUSDT', null, [{
+      orderId: '1',
+      clientOrderId: 'entry_ETHUSDT_1',
+      side: 'SELL',
+      orderType: 'LIMIT',
+      role: 'ENTRY',
+      status: 'NEW',
+      origQty: 50,
+      executedQty: 0,
+      reduceOnly: false,
+      event_time_ms: 1,
+    }]),
+    state('SOLUSDT', null),
+  ];
+  const risk = new PortfolioRiskManager({
+    config: limits,
+    getStates: () => states,
+    markPrice: (symbol) => marks[symbol] ?? null,
+  });
+
+  // BTC long 1000 at mark, ETH resting short 500: gross 1500, net 500, two open symbols.
+  const status = risk.getStatus();
+  assert(status.grossNotionalUsdt === 1500 && status.netNotionalUsdt === 500, 'exposure counts positions at mark and resting entries');
+
+  const sol = risk.vet('SOLUSDT', [entry('SOLUSDT', 'BUY', 100)]);
+  assert(sol.rejections[0]?.reason === 'risk_max_positions', 'third symbol exceeds concurrent positions');
+
+  const btcAdd = risk.vet('BTCUSDT', [entry('BTCUSDT', 'BUY', 3, 'ADD_POSITION')]);
+  assert(btcAdd.rejections[0]?.reason === 'risk_symbol_notional', 'add above the per-symbol cap is rejected');
+
+  const btcSmall = risk.vet('BTCUSDT', [entry('BTCUSDT', 'BUY', 1.5, 'ADD_POSITION'), entry('BTCUSDT', 'BUY', 1.5, 'ADD_POSITION')]);
+  assert(btcSmall.accepted.length === 1 && btcSmall.rejections.length === 1, 'earlier actions in a batch count toward the cap');
+
+  const ethShort = risk.vet('ETHUSDT', [entry('ETHUSDT', 'SELL', 40)]);
+  assert(ethShort.accepted.length === 1, 'short reducing net exposure passes');
+  const ethBig = risk.vet('ETHUSDT', [entry('ETHUSDT', 'SELL', 60)]);
+  assert(ethBig.rejections[0]?.reason === 'risk_gross_notional', 'gross cap is enforced');
+  const ethFlip = risk.vet('ETHUSDT', [entry('ETHUSDT', 'BUY', 150)]);
+  assert(ethFlip.rejections[0]?.reason === 'risk_net_notional', 'net cap is enforced');
+
+  const exit: DecisionAction = { type: 'EXIT_MARKET', symbol: 'BTCUSDT', event_time_ms: 1, side: 'SELL', reduceOnly: true, reason: 'test' };
+  assert(risk.vet('BTCUSDT', [exit]).accepted.length === 1, 'exits always pass');
+
+  const day = Date.UTC(2026, 0, 1, 12);
+  assert(risk.onExecutionEvent({
+    type: 'TRADE_UPDATE',
+    symbol: 'BTCUSDT',
+    event_time_ms: day,
+    orderId: '2',
+    tradeId: '2',
+    side: 'SELL',
+    fillQty: 1,
+    fillPrice: 100,
+    commission: 1,
+    commissionAsset: 'USDT',
+    realizedPnl: -30,
+    quoteQty: 100,
+  }) === null, 'loss inside the limit does not halt');
+  states[0].position!.unrealizedPnlUsdt = -20;
+  const halt = risk.onClock(day + 1);
+  assert(halt?.type === 'SYSTEM_HALT' && halt.reason === 'daily_loss_limit:-51.00', `realized + commission + unrealized breaches the limit, got ${halt?.reason}`);
+  assert(risk.vet('SOLUSDT', [entry('SOLUSDT', 'BUY', 1)]).rejections[0]?.reason === 'risk_halted', 'entries are rejected while halted');
+  assert(risk.getStatus().halted, 'status reports the halt');
+
+  const resume = risk.onClock(day + 86_400_000);
+  assert(resume?.type === 'SYSTEM_RESUME', 'next UTC day lifts the halt');
+  assert(risk.getStatus().dailyRealizedPnl === 0, 'realized PnL resets at the day boundary');
+}
@@ -0,0 +1,137 @@
+// Minimal assertion helper
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { SimulatedExecutionConnector } from '../connectors/SimulatedExecutionConnector';
+import { ExecutionEvent } from '../connectors/executionTypes';
+import { applySnapshot, createOrderbookState } from '../metrics/OrderbookManager';
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Tests for the paper-trading connector.  A MARKET buy walks two ask
+ * levels, then a reduce-only sell closes the position against the bid
+ * side and realizes PnL net of commissions.  LIMIT orders cover the
+ * post-only expiry and a resting order filling at the maker fee; a
+ * closePosition stop then closes that position once its trigger is hit.
+ * Orders cancelled in the tick they were placed in never rest or fire.
+ */
+export async function runTests() {
+  const ob = createOrderbookState();
+  applySnapshot(ob, {
+    lastUpdateId: 1,
+    bids: [['100', '1'], ['99', '5']],
+    asks: [['101', '1'], ['102', '5']],
+  });
+
+  const sim = new SimulatedExecutionConnector({
+    enabled: true,
+    initialBalanceUsdt: 1000,
+    takerFeeRate: 0.001,
+    makerFeeRate: 0.0002,
+    leverage: 10,
+    getOrderbook: () => ob,
+  });
+  const events: ExecutionEvent[] = [];
+  sim.onExecutionEvent((e) => events.push(e));
+  sim.setSymbols(['BTCUSDT']);
+  await sim.connect();
+
+  assert(sim.expectedPrice('BTCUSDT', 'BUY', 'MARKET') === 101, 'expected buy price is best ask');
+
+  await sim.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: 2, clientOrderId: 'entry_1' });
+  await tick();
+
+  const buyFills = events.filter((e) => e.type === 'TRADE_UPDATE') as any[];
+  assert(buyFills.length === 2, 'buy should walk two ask levels');
+  assert(buyFills[0].fillPrice === 101 && buyFills[1].fillPrice === 102, 'fills walk asks upward');
+  assert(Math.abs(buyFills[0].commission - 0.101) < 1e-9, 'commission is taker fee on notional');
+
+  const account = events.filter((e) => e.type === 'ACCOUNT_UPDATE').pop() as any;
+  assert(account.positionAmt === 2, 'position amount after buy');
+  assert(Math.abs(account.entryPrice - 101.5) < 1e-9, 'entry price is fill VWAP');
+
+  events.length = 0;
+  await sim.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity: 5, reduceOnly: true, clientOrderId: 'exit_1' });
+  await tick();
+
+  const sellFills = events.filter((e) => e.type === 'TRADE_UPDATE') as any[];
+  const sold = sellFills.reduce((sum, f) => sum + f.fillQty, 0);
+  assert(sold === 2, 'reduce-only sell is capped at position size');
+  const realized = sellFills.reduce((sum, f) => sum + f.realizedPnl, 0);
+  // Sold 1 @ 100 and 1 @ 99 against a 101.5 entry.
+  assert(Math.abs(realized - -4) < 1e-9, `realized PnL should be -4, got ${realized}`);
+
+  const flat = events.filter((e) => e.type === 'ACCOUNT_UPDATE').pop() as any;
+  assert(flat.positionAmt === 0, 'position is flat after reduce-only exit');
+  const fees = (101 + 102 + 100 + 99) * 0.001;
+  assert(Math.abs(flat.walletBalance - (1000 - 4 - fees)) < 1e-9, 'wallet reflects PnL and commissions');
+
+  let rejected = false;
+  try {
+    await sim.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'MARKET', quantity: 1, reduceOnly: true, clientOrderId: 'exit_2' });
+  } catch {
+    rejected = true;
+  }
+  assert(rejected, 'reduce-only order without a position is rejected');
+
+  events.length = 0;
+  await sim.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', price: 101, timeInForce: 'GTX', quantity: 1, clientOrderId: 'entry_2' });
+  await tick();
+  const crossing = events.filter((e) => e.type === 'ORDER_UPDATE').pop() as any;
+  assert(crossing.status === 'EXPIRED', 'post-only order that would cross expires');
+  assert(!events.some((e) => e.type === 'TRADE_UPDATE'), 'crossing post-only order never fills');
+
+  events.length = 0;
+  const resting = await sim.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', price: 100, timeInForce: 'GTX', quantity: 1, clientOrderId: 'entry_3' });
+  await tick();
+  sim.matchRestingOrders();
+  assert(!events.some((e) => e.type === 'TRADE_UPDATE'), 'resting bid does not fill while the ask is above it');
+
+  applySnapshot(ob, {
+    lastUpdateId: 2,
+    bids: [['99', '1']],
+    asks: [['100', '1']],
+  });
+  sim.matchRestingOrders();
+  const makerFill = events.filter((e) => e.type === 'TRADE_UPDATE').pop() as any;
+  assert(makerFill && makerFill.orderId === resting.orderId, 'resting bid fills once the ask trades through it');
+  assert(makerFill.fillPrice === 100, 'resting order fills at its own price');
+  assert(Math.abs(makerFill.commission - 0.02) < 1e-9, 'resting fill pays the maker fee');
+
+  events.length = 0;
+  await sim.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', stopPrice: 98, closePosition: true, quantity: 0, clientOrderId: 'sl_1' });
+  await tick();
+  sim.matchRestingOrders();
+  assert(!events.some((e) => e.type === 'TRADE_UPDATE'), 'stop does not fire above its trigger');
+
+  applySnapshot(ob, {
+    lastUpdateId: 3,
+    bids: [['97', '5']],
+    asks: [['98', '5']],
+  });
+  sim.matchRestingOrders();
+  const stopFill = events.filter((e) => e.type === 'TRADE_UPDATE').pop() as any;
+  assert(stopFill && stopFill.fillPrice === 97 && stopFill.fillQty === 1, 'triggered closePosition stop sells the position at the bid');
+  const stopped = events.filter((e) => e.type === 'ACCOUNT_UPDATE').pop() as any;
+  assert(stopped.positionAmt === 0, 'position is flat after the stop');
+
+  events.length = 0;
+  const bid = await sim.placeOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', price: 90, timeInForce: 'GTC', quantity: 1, clientOrderId: 'entry_4' });
+  await sim.cancelOrder({ symbol: 'BTCUSDT', orderId: bid.orderId });
+  await sim.placeOrder({ symbol: 'BTCUSDT', side: 'SELL', type: 'STOP_MARKET', stopPrice: 98, closePosition: true, quantity: 0, clientOrderId: 'sl_2' });
+  await sim.cancelAllOpenOrders('BTCUSDT');
+  await tick();
+  applySnapshot(ob, {
+    lastUpdateId: 4,
+    bids: [['88', '5']],
+    asks: [['89', '5']],
+  });
+  sim.matchRestingOrders();
+  const statuses = events.filter((e) => e.type === 'ORDER_UPDATE').map((e: any) => `${e.clientOrderId}:${e.status}`);
+  assert(statuses.join() === 'entry_4:NEW,entry_4:CANCELED,sl_2:NEW,sl_2:CANCELED', `same-tick cancels follow their NEW event, got ${statuses.join()}`);
+  assert(!events.some((e) => e.type === 'TRADE_UPDATE'), 'orders cancelled in their placement tick never fill');
+
+  await sim.disconnect();
+}
@@ -0,0 +1,108 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { DecisionEngine } from '../orchestrator/Decision';
+import { Strategy, StrategyRegistry, createDefaultStrategyRegistry } from '../orchestrator/Strategy';
+import { GateMode, GateResult, OpenOrderState, SymbolState } from '../orchestrator/types';
+
+/**
+ * Strategy registry parameter resolution and DecisionEngine dispatch to
+ * the strategy selected for each symbol.
+ */
+export function runTests() {
+  const registry = createDefaultStrategyRegistry();
+  const tuned = registry.resolve('default', { entryMinAbsDeltaZ: '1.5', bogus: 7, maxAdds: 'x' });
+  assert(tuned.params.entryMinAbsDeltaZ === 1.5, 'numeric override is applied');
+  assert(!('bogus' in tuned.params), 'unknown parameters are dropped');
+  assert(tuned.params.maxAdds === 2, 'non-numeric override keeps the default');
+  const inherited = registry.resolve('default', { toString: 1, valueOf: '2' });
+  assert(!Object.prototype.hasOwnProperty.call(inherited.params, 'toString') && !Object.prototype.hasOwnProperty.call(inherited.params, 'valueOf'), 'inherited keys are not parameters');
+
+  let unknownRejected = false;
+  try {
+    registry.resolve('missing');
+  } catch {
+    unknownRejected = true;
+  }
+  assert(unknownRejected, 'unknown strategy is rejected');
+
+  const fadeCalls: string[] = [];
+  const fade: Strategy = {
+    name: 'fade',
+    defaultParams: {},
+    onMetrics: ({ symbol, event_time_ms }) => {
+      fadeCalls.push(symbol);
+      return [{ type: 'NOOP', symbol, event_time_ms, reason: 'fade' }];
+    },
+    onExecution: ({ symbol, event }) => [{ type: 'NOOP', symbol, event_time_ms: event.event_time_ms, reason: 'fade_exec' }],
+  };
+  const custom = new StrategyRegistry();
+  custom.register(fade);
+  let duplicateRejected = false;
+  try {
+    custom.register(fade);
+  } catch {
+    duplicateRejected = true;
+  }
+  assert(duplicateRejected, 'duplicate registration is rejected');
+
+  const selections: Record<string, ReturnType<StrategyRegistry['resolve']>> = {
+    BTCUSDT: tuned,
+    ETHUSDT: registry.resolve('default'),
+  };
+  const engine = new DecisionEngine({
+    expectedPrice: () => 100,
+    getRiskPerTradePercent: () => 10,
+    getMaxLeverage: () => 1,
+    getEntryOrderConfig: () => ({ type: 'MARKET', offsetTicks: 0, timeoutMs: 0 }),
+    getProtectiveOrderConfig: () => ({ stopLossPct: 0, takeProfitPct: 0 }),
+    getPriceTickSize: () => null,
+    getStrategy: (symbol) => symbol === 'SOLUSDT'
+      ? { strategy: fade, params: {} }
+      : { strategy: registry.get(selections[symbol].name)!, params: selections[symbol].params },
+  });
+
+  const gate: GateResult = {
+    mode: GateMode.V1_NO_LATENCY,
+    passed: true,
+    reason: null,
+    network_latency_ms: null,
+    checks: { hasRequiredMetrics: true, spreadOk: true, obiDeepOk: true, networkLatencyOk: null, liquidationOk: null },
+  };
+  const state = (symbol: string): SymbolState => ({
+    symbol,
+    halted: false,
+    availableBalance: 1000,
+    walletBalance: 1000,
+    position: null,
+    openOrders: new Map<string, OpenOrderState>(),
+    hasOpenEntryOrder: false,
+    cooldown_until_ms: 0,
+    last_exit_event_time_ms: 0,
+    execQuality: { poor: false, recentLatencyMs: [], recentSlippageBps: [] },
+  });
+  const evaluate = (symbol: string) => engine.evaluate({
+    symbol,
+    event_time_ms: 1,
+    gate,
+    metrics: { symbol, legacyMetrics: { deltaZ: 1, obiDeep: 0.3, cvdSlope: 0 } },
+    state: state(symbol),
+  });
+
+  assert(evaluate('ETHUSDT')[0].type === 'ENTRY_PROBE', 'default parameters enter on positive deltaZ');
+  assert(evaluate('BTCUSDT')[0].type === 'NOOP', 'tuned entry threshold holds off the entry');
+  assert(evaluate('SOLUSDT')[0].reason === 'fade' && fadeCalls.length === 1, 'custom strategy handles its symbol');
+
+  const execActions = engine.onExecution({
+    symbol: 'SOLUSDT',
+    event: { type: 'SYSTEM_RESUME', symbol: 'SOLUSDT', event_time_ms: 2, reason: 'test' },
+    state: state('SOLUSDT'),
+  });
+  assert(execActions.length === 1 && execActions[0].reason === 'fade_exec', 'onExecution hook is dispatched');
+  assert(engine.onExecution({
+    symbol: 'ETHUSDT',
+    event: { type: 'SYSTEM_RESUME', symbol: 'ETHUSDT', event_time_ms: 2, reason: 'test' },
+    state: state('ETHUSDT'),
+  }).length === 0, 'strategies without an execution hook return no actions');
+}
@@ -0,0 +1,90 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import { EventEmitter } from 'events';
+import { StreamManager, StreamSocket } from '../connectors/StreamManager';
+
+class FakeSocket extends EventEmitter {
+  readyState = 0;
+  readonly sent: any[] = [];
+
+  constructor(readonly url: string) {
+    super();
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.emit('close');
+  }
+
+  open() {
+    this.readyState = 1;
+    this.emit('open');
+  }
+}
+
+/**
+ * Symbols are packed into shards by stream count, changes on an open shard
+ * go out as SUBSCRIBE / UNSUBSCRIBE frames, and a dropped shard reports
+ * its symbols as lost and reconnects on its own.
+ */
+export async function runTests() {
+  const sockets: FakeSocket[] = [];
+  const lost: string[] = [];
+  const messages: string[] = [];
+  const manager = new StreamManager({
+    baseUrl: 'wss://test/stream',
+    streamsFor: (s) => [`${s.toLowerCase()}@depth`, `${s.toLowerCase()}@trade`],
+    maxStreamsPerSocket: 4,
+    minBackoffMs: 10,
+    maxBackoffMs: 40,
+    onMessage: (raw) => messages.push(raw.toString()),
+    onStreamsLost: (symbols) => lost.push(...symbols),
+    createSocket: (url) => {
+      const socket = new FakeSocket(url);
+      sockets.push(socket);
+      return socket as unknown as StreamSocket;
+    },
+    random: () => 0,
+  });
+
+  manager.setSymbols(['AAA', 'BBB', 'CCC']);
+  assert(sockets.length === 2, 'four streams per socket splits three symbols over two shards');
+  assert(sockets[0].url === 'wss://test/stream?streams=aaa@depth/aaa@trade/bbb@depth/bbb@trade', 'first shard opens with its streams');
+  assert(manager.getState() === 'connecting', 'not connected until every shard opens');
+
+  manager.setSymbols(['AAA', 'CCC', 'DDD']);
+  assert(sockets.length === 2, 'changes while connecting do not open sockets');
+  assert(lost.join() === 'BBB', 'removed symbol is reported lost');
+  sockets[0].open();
+  sockets[1].open();
+  assert(manager.getState() === 'connected', 'connected once every shard is open');
+  assert(sockets[0].sent.length === 2, 'open handler applies pending changes');
+  assert(sockets[0].sent[0].method === 'UNSUBSCRIBE' && sockets[0].sent[0].params.join() === 'bbb@depth,bbb@trade', 'removed symbol is unsubscribed');
+  assert(sockets[0].sent[1].method === 'SUBSCRIBE' && sockets[0].sent[1].params.join() === 'ddd@depth,ddd@trade', 'added symbol fills the free slot');
+
+  manager.setSymbols(['AAA', 'CCC', 'DDD', 'EEE']);
+  assert(sockets[1].sent.length === 1 && sockets[1].sent[0].method === 'SUBSCRIBE', 'next symbol is subscribed on the open second shard');
+  assert(sockets.length === 2, 'subscriptions never reconnect');
+
+  sockets[1].emit('message', Buffer.from('{"stream":"ccc@trade"}'));
+  assert(messages.length === 1, 'messages are forwarded');
+
+  lost.length = 0;
+  sockets[1].close();
+  assert(lost.sort().join() === 'CCC,EEE', 'dropped shard reports its symbols lost');
+  const down = manager.getHealth().find((h) => h.id === 1)!;
+  assert(down.state === 'disconnected' && down.reconnects === 1 && down.nextReconnectInMs !== null, 'health shows the pending reconnect');
+  assert(manager.getHealth().find((h) => h.id === 0)!.state === 'connected', 'other shard is unaffected');
+
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert(sockets.length === 3 && sockets[2].url.includes('ccc@depth') && sockets[2].url.includes('eee@trade'), 'shard reconnects with its symbols');
+
+  manager.shutdown();
+  assert(sockets[0].readyState === 3 && manager.getHealth().length === 0, 'shutdown closes every shard');
+}
@@ -0,0 +1,129 @@
+function assert(condition: any, message: string): void {
+  if (!condition) throw new Error(message);
+}
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { TelegramCommandBot, TelegramCommandTarget } from '../notify/TelegramCommandBot';
+
+type FakeBotApi = {
+  base: string;
+  // Queued for the next getUpdates
+  push: (chatId: number, text: string) => void;
+  // sendMessage bodies
+  sent: Array<{ chat_id: string; text: string }>;
+  offsets: number[];
+  close: () => Promise<void>;
+};
+
+/**
+ * Local stand-in for the Bot API: getUpdates returns the queued messages
+ * at or after the requested offset.
+ */
+async function startFakeBotApi(token: string): Promise<FakeBotApi> {
+  const updates: any[] = [];
+  const api: Omit<FakeBotApi, 'base' | 'close'> = {
+    push: (chatId, text) => updates.push({ update_id: updates.length + 100, message: { chat: { id: chatId }, text } }),
+    sent: [],
+    offsets: [],
+  };
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => { raw += chunk; });
+    req.on('end', () => {
+      const body = JSON.parse(raw || '{}');
+      let result: any = true;
+      if (req.url === `/bot${token}/getUpdates`) {
+        api.offsets.push(body.offset);
+        result = updates.filter((u) => u.update_id >= body.offset);
+      } else if (req.url === `/bot${token}/sendMessage`) {
+        api.sent.push(body);
+      } else {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ ok: false, description: 'Not Found' }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ok: true, result }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return { ...api, base: `http://127.0.0.1:${port}`, close: () => new Promise((resolve) => server.close(() => resolve())) };
+}
+
+function fakeOrchestrator(calls: string[]): TelegramCommandTarget {
+  let enabled = true;
+  return {
+    getExecutionStatus: () => ({
+      connection: { state: 'CONNECTED', executionEnabled: enabled },
+      selectedSymbols: ['BTCUSDT', 'ETHUSDT'],
+      risk: { halted: false, haltReason: null, dailyPnl: -12.5 },
+      wallet: { totalWalletUsdt: 1000, availableBalanceUsdt: 900, realizedPnl: -20, unrealizedPnl: 7.5, totalPnl: -12.5 },
+      openPositions: { BTCUSDT: { side: 'LONG', size: 0.01, entryPrice: 60000, leverage: 10 } },
+    }),
+    setExecutionEnabled: async (value) => {
+      enabled = value;
+      calls.push(`enabled:${value}`);
+    },
+    setSymbolHalted: (symbol, halted) => {
+      calls.push(`${halted ? 'halt' : 'resume'}:${symbol}`);
+      return symbol === 'BTCUSDT';
+    },
+    flattenPositions: async () => {
+      calls.push('flatten');
+      return { closed: ['BTCUSDT'], failed: [{ symbol: 'ETHUSDT', error: 'rejected' }] };
+    },
+    disconnectExecution: async () => {
+      calls.push('disconnect');
+    },
+  };
+}
+
+export async function runTests() {
+  const api = await startFakeBotApi('T');
+  const calls: string[] = [];
+  let now = 0;
+  const bot = new TelegramCommandBot(fakeOrchestrator(calls), {
+    botToken: 'T',
+    apiBase: api.base,
+    allowedChatIds: ['42'],
+    pollTimeoutSec: 0,
+    confirmTimeoutMs: 30_000,
+    now: () => now,
+  });
+  const replies = async (...messages: Array<[number, string]>) => {
+    const before = api.sent.length;
+    for (const [chatId, text] of messages) api.push(chatId, text);
+    await bot.pollOnce();
+    return api.sent.slice(before).map((m) => m.text);
+  };
+
+  try {
+    let out = await replies([42, '/status@tele_codex_bot'], [42, '/positions'], [42, '/pnl'], [7, '/kill'], [42, 'hello']);
+    assert(out.length === 3 && api.sent.every((m) => m.chat_id === '42'), 'only allowlisted commands are answered');
+    assert(out[0].includes('Execution: enabled') && out[0].includes('BTCUSDT, ETHUSDT'), 'status');
+    assert(out[1] === 'BTCUSDT LONG 0.01 @ 60000 (10x)', 'positions');
+    assert(out[2].includes('Unrealized: 7.50 USDT') && out[2].includes('Today: -12.50 USDT'), 'pnl');
+
+    out = await replies([42, '/pause btcusdt'], [42, '/resume SOLUSDT'], [42, '/pause']);
+    assert(out[0] === 'BTCUSDT paused: no new entries.' && out[1] === 'SOLUSDT is not selected for execution.', 'pause / resume');
+    assert(out[2] === 'Usage: /pause SYMBOL' && calls.join() === 'halt:BTCUSDT,resume:SOLUSDT', 'usage');
+    assert(api.offsets[1] === 105, 'offset acknowledges handled updates');
+
+    calls.length = 0;
+    out = await replies([42, '/flatten']);
+    assert(out[0].includes('/confirm') && calls.length === 0, 'flatten waits for confirmation');
+    now = 31_000;
+    out = await replies([42, '/confirm']);
+    assert(out[0] === 'Nothing to confirm.' && calls.length === 0, 'confirmation expires');
+
+    out = await replies([42, '/kill'], [42, '/cancel'], [42, '/confirm']);
+    assert(out[1] === 'Cancelled.' && out[2] === 'Nothing to confirm.' && calls.length === 0, 'cancel');
+    out = await replies([42, '/kill'], [42, '/confirm']);
+    assert(out[1] === 'Closing BTCUSDT.\nFailed: ETHUSDT (rejected).\nSymbols halted; /resume SYMBOL to trade again.\nExecution disabled and disconnected.', 'kill reply lists closed and failed symbols');
+    assert(calls.join() === 'flatten,enabled:false,disconnect', 'kill flattens, disables and disconnects');
+  } finally {
+    await api.close();
+  }
+}
@@ -14,9 +14,35 @@ import * as SequenceRuleTests from './SequenceRule.test';
 import * as ReconnectTests from './ReconnectContinuity.test';
 import * as LegacyTests from './LegacyCalculator.test';
 import * as GateTests from './Gate.test';
+import * as SimulatedExecutionTests from './SimulatedExecutionConnector.test';
+import * as ProtectiveOrderTests from './ProtectiveOrders.test';
+import * as StrategyTests from './Strategy.test';
+import * as BacktesterTests from './Backtester.test';
+import * as RecorderTests from './MarketDataRecorder.test';
+import * as RiskManagerTests from './RiskManager.test';
+import * as PositionPnlTests from './PositionPnl.test';
+import * as StreamManagerTests from './StreamManager.test';
+import * as PriceLevelsTests from './PriceLevels.test';
+import * as AuditorTests from './OrderbookAuditor.test';
+import * as LiquidationTests from './LiquidationTracker.test';
+import * as RestSchedulerTests from './RestScheduler.test';
+import * as MarketContextTests from './MarketContextService.test';
+import * as ExchangeAdapterTests from './ExchangeAdapters.test';
+import * as FootprintTests from './FootprintAggregator.test';
+import * as CandleTests from './CandleAggregator.test';
+import * as HistoryTests from './MetricsHistory.test';
+import * as AlertTests from './AlertEngine.test';
+import * as NotificationTests from './NotificationHub.test';
+import * as TelegramCommandTests from './TelegramCommandBot.test';
+import * as PrometheusTests from './PrometheusRegistry.test';
+import * as AuthTests from './Auth.test';
+import * as CredentialVaultTests from './CredentialVault.test';
+import * as OrchestratorTests from './Orchestrator.test';
+import * as JsonFileStoreTests from './JsonFileStore.test';
+import * as ClientSubscriptionsTests from './ClientSubscriptions.test';
 
 // Minimal test harness: runs each runTests() and prints summary
-const testSuites: { name: string; fn: () => void }[] = [
+const testSuites: { name: string; fn: () => void | Promise<void> }[] = [
   { name: 'TimeAndSales', fn: TimeAndSalesTests.runTests },
   { name: 'CvdCalculator', fn: CvdTests.runTests },
   { name: 'AbsorptionDetector', fn: AbsorptionTests.runTests },
@@ -28,18 +54,48 @@ const testSuites: { name: string; fn: () => void }[] = [
   { name: 'ReconnectContinuity', fn: ReconnectTests.runTests },
   { name: 'LegacyCalculator', fn: LegacyTests.runTests },
   { name: 'Gate', fn: GateTests.runTests },
+  { name: 'SimulatedExecutionConnector', fn: SimulatedExecutionTests.runTests },
+  { name: 'ProtectiveOrders', fn: ProtectiveOrderTests.runTests },
+  { name: 'Strategy', fn: StrategyTests.runTests },
+  { name: 'Backtester', fn: BacktesterTests.runTests },
+  { name: 'MarketDataRecorder', fn: RecorderTests.runTests },
+  { name: 'RiskManager', fn: RiskManagerTests.runTests },
+  { name: 'PositionPnl', fn: PositionPnlTests.runTests },
+  { name: 'StreamManager', fn: StreamManagerTests.runTests },
+  { name: 'PriceLevels', fn: PriceLevelsTests.runTests },
+  { name: 'OrderbookAuditor', fn: AuditorTests.runTests },
+  { name: 'LiquidationTracker', fn: LiquidationTests.runTests },
+  { name: 'RestScheduler', fn: RestSchedulerTests.runTests },
+  { name: 'MarketContextService', fn: MarketContextTests.runTests },
+  { name: 'ExchangeAdapters', fn: ExchangeAdapterTests.runTests },
+  { name: 'FootprintAggregator', fn: FootprintTests.runTests },
+  { name: 'CandleAggregator', fn: CandleTests.runTests },
+  { name: 'MetricsHistory', fn: HistoryTests.runTests },
+  { name: 'AlertEngine', fn: AlertTests.runTests },
+  { name: 'NotificationHub', fn: NotificationTests.runTests },
+  { name: 'TelegramCommandBot', fn: TelegramCommandTests.runTests },
+  { name: 'PrometheusRegistry', fn: PrometheusTests.runTests },
+  { name: 'Auth', fn: AuthTests.runTests },
+  { name: 'CredentialVault', fn: CredentialVaultTests.runTests },
+  { name: 'Orchestrator', fn: OrchestratorTests.runTests },
+  { name: 'JsonFileStore', fn: JsonFileStoreTests.runTests },
+  { name: 'ClientSubscriptions', fn: ClientSubscriptionsTests.runTests },
 ];
 
-let total = 0;
-let passed = 0;
-for (const suite of testSuites) {
-  total++;
-  try {
-    suite.fn();
-    passed++;
-    console.log(`PASS ${suite.name}`);
-  } catch (e: any) {
-    console.error(`FAIL ${suite.name}: ${e.message}`);
+async function main() {
+  let total = 0;
+  let passed = 0;
+  for (const suite of testSuites) {
+    total++;
+    try {
+      await suite.fn();
+      passed++;
+      console.log(`PASS ${suite.name}`);
+    } catch (e: any) {
+      console.error(`FAIL ${suite.name}: ${e.message}`);
+    }
   }
+  console.log(`OK ${passed}/${total}`);
 }
-console.log(`OK ${passed}/${total}`);
+
+main();
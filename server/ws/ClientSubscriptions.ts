@@ -0,0 +1,61 @@
+import { canonicalSymbol } from '../exchanges/ExchangeAdapter';
+
+export interface ClientSocket {
+  send(data: string): void;
+}
+
+export interface ClientSubscriptionDeps<C extends ClientSocket> {
+  // Subscribed venue-qualified symbols per connected client
+  clientSubs: Map<C, Set<string>>;
+  // Brings the upstream streams in line with clientSubs after a change
+  updateStreams: () => void;
+  // Starts snapshots for newly subscribed symbols
+  seedSymbols?: (symbols: string[]) => void;
+  log?: (event: string, data: Record<string, unknown>) => void;
+}
+
+/**
+ * Control messages from dashboard clients:
+ *   { type: 'subscribe' | 'unsubscribe', symbols: string[], id? }
+ *   { type: 'list', id? }
+ * Each is answered with { type: 'subscriptions', id, symbols } or { type: 'error', id, error }.
+ */
+export function handleClientMessage<C extends ClientSocket>(client: C, raw: Buffer | string, deps: ClientSubscriptionDeps<C>) {
+  let msg: any;
+  try {
+    msg = JSON.parse(raw.toString());
+  } catch {
+    client.send(JSON.stringify({ type: 'error', id: null, error: 'invalid_json' }));
+    return;
+  }
+  const id = msg?.id ?? null;
+  const subs = deps.clientSubs.get(client);
+  if (!subs) return;
+
+  if (msg?.type === 'subscribe' || msg?.type === 'unsubscribe') {
+    const requested: string[] = Array.isArray(msg.symbols) ? msg.symbols.map((s: any) => String(s).trim().toUpperCase()) : [];
+    const invalid = requested.filter((s) => canonicalSymbol(s) === null);
+    const symbols = requested.map((s) => canonicalSymbol(s)!);
+    if (symbols.length === 0 || invalid.length > 0) {
+      client.send(JSON.stringify({ type: 'error', id, error: 'invalid_symbols', symbols: invalid }));
+      return;
+    }
+    if (msg.type === 'subscribe') {
+      symbols.forEach((s) => subs.add(s));
+      if (deps.seedSymbols) {
+        deps.seedSymbols(symbols);
+      }
+    } else {
+      symbols.forEach((s) => subs.delete(s));
+    }
+    if (deps.log) {
+      deps.log(msg.type === 'subscribe' ? 'CLIENT_SUBSCRIBE' : 'CLIENT_UNSUBSCRIBE', { symbols });
+    }
+    deps.updateStreams();
+  } else if (msg?.type !== 'list') {
+    client.send(JSON.stringify({ type: 'error', id, error: 'unknown_type' }));
+    return;
+  }
+
+  client.send(JSON.stringify({ type: 'subscriptions', id, symbols: [...subs] }));
+}
@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { AuthSession, loadSession, login, onLogout, proxyApiBase, saveSession } from '../services/auth';
+
+const AuthContext = createContext<AuthSession | null>(null);
+
+export const useAuth = (): AuthSession | null => useContext(AuthContext);
+
+/**
+ * Shows the login screen until there is a session, then its children.
+ * Servers running without auth are detected through /api/auth/me.
+ */
+export const AuthGate: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<AuthSession | null>(loadSession);
+  const [checking, setChecking] = useState(session === null);
+  const [tokenInput, setTokenInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => onLogout(() => setSession(null)), []);
+
+  useEffect(() => {
+    if (session) return;
+    const probe = async () => {
+      try {
+        const res = await fetch(`${proxyApiBase()}/api/auth/me`);
+        const data = await res.json();
+        if (res.ok && data.authEnabled === false) {
+          const open: AuthSession = { token: null, name: data.name, role: data.role, expiresAt: null };
+          saveSession(open);
+          setSession(open);
+        }
+      } catch {
+        // server unreachable: show the login screen
+      } finally {
+        setChecking(false);
+      }
+    };
+    probe();
+  }, [session]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      setSession(await login(tokenInput.trim()));
+      setTokenInput('');
+    } catch (err: any) {
+      setError(err.message === 'invalid_token' ? 'Invalid token' : err.message || 'login_failed');
+    }
+  };
+
+  if (session) {
+    return <AuthContext.Provider value={session}>{children}</AuthContext.Provider>;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#09090b] text-zinc-200 font-sans flex items-center justify-center p-6">
+      <form onSubmit={submit} className="w-full max-w-sm bg-zinc-900 border border-zinc-800 rounded-lg p-6 space-y-4">
+        <div>
+          <h1 className="text-xl font-bold text-white tracking-tight">Orderflow Matrix</h1>
+          <p className="text-zinc-500 text-xs mt-1">Sign in with an API token (npm run tokens -- create)</p>
+        </div>
+        <input
+          type="password"
+          placeholder="API token"
+          value={tokenInput}
+          onChange={(e) => setTokenInput(e.target.value)}
+          disabled={checking}
+          autoFocus
+          className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-2 text-sm"
+        />
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        <button
+          type="submit"
+          disabled={checking || !tokenInput.trim()}
+          className="w-full px-3 py-2 bg-emerald-700 hover:bg-emerald-600 disabled:opacity-50 rounded text-sm font-semibold"
+        >
+          {checking ? 'Checking server...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default AuthGate;
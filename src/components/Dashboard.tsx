@@ -1,5 +1,7 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import { useTelemetrySocket } from '../services/useTelemetrySocket';
+import { authFetch, hasRole, logout, proxyApiBase } from '../services/auth';
+import { useAuth } from './AuthGate';
 import { MetricsState, MetricsMessage } from '../types/metrics';
 import SymbolRow from './SymbolRow';
 import MobileSymbolCard from './MobileSymbolCard';
@@ -14,6 +16,7 @@ interface ExecutionStatus {
     symbols: string[];
     lastError: string | null;
   };
+  credentialProfile?: string | null;
   selectedSymbol?: string | null; // Legacy
   selectedSymbols: string[]; // New
   settings: {
@@ -42,6 +45,12 @@ interface ExecutionStatus {
   }>;
 }
 
+interface VaultStatus {
+  initialized: boolean;
+  unlocked: boolean;
+  profiles: { name: string; apiKeyHint: string }[];
+}
+
 const defaultExecutionStatus: ExecutionStatus = {
   connection: {
     state: 'DISCONNECTED',
@@ -79,6 +88,11 @@ export const Dashboard: React.FC = () => {
 
   const [apiKey, setApiKey] = useState('');
   const [apiSecret, setApiSecret] = useState('');
+  // Stored credential profile; '' means the keys typed below
+  const [profile, setProfile] = useState('');
+  const [profileNameInput, setProfileNameInput] = useState('');
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus | null>(null);
   const [connectionError, setConnectionError] = useState<string | null>(null);
 
   // Settings inputs - initialize with defaults, only update from server on first load/explicit sync
@@ -92,13 +106,16 @@ export const Dashboard: React.FC = () => {
   const activeSymbols = useMemo(() => selectedPairs, [selectedPairs]);
   const marketData: MetricsState = useTelemetrySocket(activeSymbols);
 
-  const hostname = window.location.hostname;
-  const proxyUrl = (import.meta as any).env?.VITE_PROXY_API || `http://${hostname}:8787`;
+  const proxyUrl = proxyApiBase();
+  const session = useAuth();
+  // The server enforces roles; the controls below just reflect them.
+  const canTrade = hasRole(session, 'trader');
+  const isAdmin = hasRole(session, 'admin');
 
   useEffect(() => {
     const fetchPairs = async () => {
       try {
-        const res = await fetch(`${proxyUrl}/api/testnet/exchange-info`);
+        const res = await authFetch(`${proxyUrl}/api/testnet/exchange-info`);
         const data = await res.json();
         const pairs = Array.isArray(data?.symbols) ? data.symbols : [];
         setAvailablePairs(pairs);
@@ -118,7 +135,7 @@ export const Dashboard: React.FC = () => {
   useEffect(() => {
     const pollStatus = async () => {
       try {
-        const res = await fetch(`${proxyUrl}/api/execution/status`);
+        const res = await authFetch(`${proxyUrl}/api/execution/status`);
         const data = (await res.json()) as ExecutionStatus;
         setExecutionStatus(data);
 
@@ -152,9 +169,25 @@ export const Dashboard: React.FC = () => {
   }, [proxyUrl]);
 
   useEffect(() => {
+    if (!isAdmin) return;
+    const fetchVault = async () => {
+      try {
+        const res = await authFetch(`${proxyUrl}/api/vault`);
+        if (res.ok) {
+          setVaultStatus(await res.json());
+        }
+      } catch {
+        // vault controls stay hidden
+      }
+    };
+    fetchVault();
+  }, [proxyUrl, isAdmin]);
+
+  useEffect(() => {
+    if (!canTrade) return;
     const syncSelectedSymbols = async () => {
       try {
-        await fetch(`${proxyUrl}/api/execution/symbol`, {
+        await authFetch(`${proxyUrl}/api/execution/symbol`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ symbols: selectedPairs }),
@@ -166,7 +199,7 @@ export const Dashboard: React.FC = () => {
     // Debounce slightly to avoid spamming while selecting multiple?
     const timer = setTimeout(syncSelectedSymbols, 500);
     return () => clearTimeout(timer);
-  }, [proxyUrl, selectedPairs]);
+  }, [proxyUrl, selectedPairs, canTrade]);
 
   const filteredPairs = availablePairs.filter((p) => p.includes(searchTerm.toUpperCase()));
 
@@ -178,15 +211,67 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  // Vault profiles keep the secret on the server
+  const connectBody = () => (profile ? { profile } : { apiKey, apiSecret });
+
+  const vaultRequest = async (url: string, init: RequestInit) => {
+    setConnectionError(null);
+    try {
+      const res = await authFetch(`${proxyUrl}${url}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || 'vault_request_failed');
+      }
+      return data;
+    } catch (e: any) {
+      setConnectionError(e.message || 'vault_request_failed');
+      return null;
+    }
+  };
+
+  const unlockVault = async () => {
+    const data = await vaultRequest('/api/vault/unlock', { method: 'POST', body: JSON.stringify({ passphrase: vaultPassphrase }) });
+    if (data) {
+      setVaultStatus(data);
+      setVaultPassphrase('');
+    }
+  };
+
+  const lockVault = async () => {
+    const data = await vaultRequest('/api/vault/lock', { method: 'POST' });
+    if (data) {
+      setVaultStatus(data);
+    }
+  };
+
+  const saveProfile = async () => {
+    const name = profileNameInput.trim();
+    const data = await vaultRequest(`/api/vault/profiles/${encodeURIComponent(name)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ apiKey, apiSecret }),
+    });
+    if (data) {
+      const status = await vaultRequest('/api/vault', { method: 'GET' });
+      if (status) setVaultStatus(status);
+      setApiKey('');
+      setApiSecret('');
+      setProfileNameInput('');
+      setProfile(name);
+    }
+  };
+
   const startExecution = async () => {
     setConnectionError(null);
     try {
       // 1. Connect
       if (executionStatus.connection.state !== 'CONNECTED') {
-        const res = await fetch(`${proxyUrl}/api/execution/connect`, {
+        const res = await authFetch(`${proxyUrl}/api/execution/connect`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ apiKey, apiSecret }),
+          body: JSON.stringify(connectBody()),
         });
         if (!res.ok) {
           const d = await res.json();
@@ -195,7 +280,7 @@ export const Dashboard: React.FC = () => {
       }
 
       // 2. Enable
-      const res2 = await fetch(`${proxyUrl}/api/execution/enabled`, {
+      const res2 = await authFetch(`${proxyUrl}/api/execution/enabled`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ enabled: true }),
@@ -215,14 +300,14 @@ export const Dashboard: React.FC = () => {
     setConnectionError(null);
     try {
       // 1. Disable
-      await fetch(`${proxyUrl}/api/execution/enabled`, {
+      await authFetch(`${proxyUrl}/api/execution/enabled`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ enabled: false }),
       });
 
       // 2. Disconnect (triggers cancel all)
-      const res = await fetch(`${proxyUrl}/api/execution/disconnect`, {
+      const res = await authFetch(`${proxyUrl}/api/execution/disconnect`, {
         method: 'POST'
       });
       const data = await res.json();
@@ -235,10 +320,10 @@ export const Dashboard: React.FC = () => {
   const connectTestnet = async () => {
     setConnectionError(null);
     try {
-      const res = await fetch(`${proxyUrl}/api/execution/connect`, {
+      const res = await authFetch(`${proxyUrl}/api/execution/connect`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ apiKey, apiSecret }),
+        body: JSON.stringify(connectBody()),
       });
       const data = await res.json();
       if (!res.ok) {
@@ -253,7 +338,7 @@ export const Dashboard: React.FC = () => {
   const disconnectTestnet = async () => {
     setConnectionError(null);
     try {
-      const res = await fetch(`${proxyUrl}/api/execution/disconnect`, { method: 'POST' });
+      const res = await authFetch(`${proxyUrl}/api/execution/disconnect`, { method: 'POST' });
       const data = await res.json();
       if (!res.ok) {
         throw new Error(data?.error || 'disconnect_failed');
@@ -265,7 +350,7 @@ export const Dashboard: React.FC = () => {
   };
 
   const toggleExecution = async (enabled: boolean) => {
-    const res = await fetch(`${proxyUrl}/api/execution/enabled`, {
+    const res = await authFetch(`${proxyUrl}/api/execution/enabled`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ enabled }),
@@ -277,7 +362,7 @@ export const Dashboard: React.FC = () => {
   };
 
   const saveSettings = async () => {
-    const res = await fetch(`${proxyUrl}/api/execution/settings`, {
+    const res = await authFetch(`${proxyUrl}/api/execution/settings`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
@@ -312,11 +397,19 @@ export const Dashboard: React.FC = () => {
             <h1 className="text-2xl font-bold text-white tracking-tight">Orderflow Matrix</h1>
             <p className="text-zinc-500 text-sm mt-1">DATA: MAINNET | EXECUTION: TESTNET</p>
           </div>
-          <div className="text-xs rounded border border-zinc-700 px-3 py-2 bg-zinc-900">
-            {executionStatus.connection.executionEnabled ? (
-              <span className="text-green-400">Execution ON</span>
-            ) : (
-              <span className="text-amber-300">Execution OFF (orders blocked)</span>
+          <div className="flex items-center gap-3">
+            <div className="text-xs rounded border border-zinc-700 px-3 py-2 bg-zinc-900">
+              {executionStatus.connection.executionEnabled ? (
+                <span className="text-green-400">Execution ON</span>
+              ) : (
+                <span className="text-amber-300">Execution OFF (orders blocked)</span>
+              )}
+            </div>
+            {session && (
+              <div className="text-xs text-zinc-400 flex items-center gap-2">
+                <span>{session.name} <span className="text-zinc-500">({session.role})</span></span>
+                {session.token && <button onClick={logout} className="hover:underline">Logout</button>}
+              </div>
             )}
           </div>
         </div>
@@ -324,31 +417,92 @@ export const Dashboard: React.FC = () => {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
           <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-4 space-y-3">
             <h2 className="text-sm font-semibold text-zinc-300">API & Execution</h2>
-            <input
-              type="password"
-              placeholder="Testnet API Key"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-2 text-sm"
-            />
-            <input
-              type="password"
-              placeholder="Testnet API Secret"
-              value={apiSecret}
-              onChange={(e) => setApiSecret(e.target.value)}
-              className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-2 text-sm"
-            />
+            {isAdmin && vaultStatus && (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <select
+                    value={profile}
+                    onChange={(e) => setProfile(e.target.value)}
+                    className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-2 py-2 text-sm"
+                  >
+                    <option value="">Enter keys manually</option>
+                    {vaultStatus.profiles.map((p) => (
+                      <option key={p.name} value={p.name}>{p.name} (...{p.apiKeyHint})</option>
+                    ))}
+                  </select>
+                  {vaultStatus.unlocked && (
+                    <button onClick={lockVault} className="px-3 text-xs bg-zinc-800 hover:bg-zinc-700 rounded">Lock</button>
+                  )}
+                </div>
+                {!vaultStatus.unlocked && (
+                  <div className="flex gap-2">
+                    <input
+                      type="password"
+                      placeholder={vaultStatus.initialized ? 'Vault passphrase' : 'New vault passphrase'}
+                      value={vaultPassphrase}
+                      onChange={(e) => setVaultPassphrase(e.target.value)}
+                      className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-2 py-2 text-sm"
+                    />
+                    <button
+                      onClick={unlockVault}
+                      disabled={!vaultPassphrase}
+                      className="px-3 text-xs bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 rounded"
+                    >
+                      {vaultStatus.initialized ? 'Unlock' : 'Create'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+            {!profile && (
+              <>
+                <input
+                  type="password"
+                  placeholder="Testnet API Key"
+                  value={apiKey}
+                  onChange={(e) => setApiKey(e.target.value)}
+                  disabled={!isAdmin}
+                  className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-2 text-sm"
+                />
+                <input
+                  type="password"
+                  placeholder="Testnet API Secret"
+                  value={apiSecret}
+                  onChange={(e) => setApiSecret(e.target.value)}
+                  disabled={!isAdmin}
+                  className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-2 text-sm"
+                />
+                {isAdmin && vaultStatus?.unlocked && (
+                  <div className="flex gap-2">
+                    <input
+                      placeholder="Save to vault as..."
+                      value={profileNameInput}
+                      onChange={(e) => setProfileNameInput(e.target.value)}
+                      className="flex-1 bg-zinc-950 border border-zinc-800 rounded px-2 py-2 text-sm"
+                    />
+                    <button
+                      onClick={saveProfile}
+                      disabled={!profileNameInput.trim() || !apiKey || !apiSecret}
+                      className="px-3 text-xs bg-zinc-800 hover:bg-zinc-700 disabled:opacity-50 rounded"
+                    >
+                      Save
+                    </button>
+                  </div>
+                )}
+              </>
+            )}
 
             <div className="grid grid-cols-2 gap-2">
               <button
                 onClick={startExecution}
                 className="px-3 py-3 bg-green-600 hover:bg-green-500 rounded text-sm font-bold text-white shadow-lg shadow-green-900/20 transition-all active:scale-95"
-                disabled={executionStatus.connection.executionEnabled}
+                disabled={!canTrade || executionStatus.connection.executionEnabled}
               >
                 START EXECUTION
               </button>
               <button
                 onClick={killSwitch}
+                disabled={!canTrade}
                 className="px-3 py-3 bg-red-600 hover:bg-red-500 rounded text-sm font-bold text-white shadow-lg shadow-red-900/20 transition-all active:scale-95 animate-pulse"
               >
                 KILL SWITCH
@@ -356,12 +510,13 @@ export const Dashboard: React.FC = () => {
             </div>
 
             <div className="flex gap-2 opacity-50 text-xs">
-              <button onClick={connectTestnet} className="hover:underline">Manual Connect</button>
-              <button onClick={disconnectTestnet} className="hover:underline">Manual Disconnect</button>
+              <button onClick={connectTestnet} disabled={!isAdmin} className="hover:underline">Manual Connect</button>
+              <button onClick={disconnectTestnet} disabled={!canTrade} className="hover:underline">Manual Disconnect</button>
             </div>
 
             <div className="text-xs">
               Status: <span className={statusColor} title={executionStatus.connection.lastError || ''}>{executionStatus.connection.state}</span>
+              {executionStatus.credentialProfile && <span className="text-zinc-500"> ({executionStatus.credentialProfile})</span>}
             </div>
             {connectionError && <div className="text-xs text-red-400">{connectionError}</div>}
             <label className="flex items-center justify-between text-xs pt-2 border-t border-zinc-800">
@@ -370,6 +525,7 @@ export const Dashboard: React.FC = () => {
                 type="checkbox"
                 checked={executionStatus.connection.executionEnabled}
                 onChange={(e) => toggleExecution(e.target.checked)}
+                disabled={!canTrade}
                 className="accent-green-500"
               />
             </label>
@@ -449,7 +605,7 @@ export const Dashboard: React.FC = () => {
               onChange={(e) => setLeverageInput(e.target.value)}
               className="w-full bg-zinc-950 border border-zinc-800 rounded px-2 py-2 text-sm"
             />
-            <button onClick={saveSettings} className="w-full px-3 py-2 bg-emerald-700 hover:bg-emerald-600 rounded text-xs font-semibold">Apply Settings</button>
+            <button onClick={saveSettings} disabled={!canTrade} className="w-full px-3 py-2 bg-emerald-700 hover:bg-emerald-600 rounded text-xs font-semibold">Apply Settings</button>
           </div>
         </div>
 
@@ -12,12 +12,12 @@ export interface RightStatsPanelProps {
 /**
  * Right stats panel containing a mixture of legacy and telemetry metrics. It
  * displays rolling deltas, session CVD, slopes, a bid/ask pressure bar,
- * trade summary bars, multi‑timeframe CVD and the futures context (open
- * interest and funding). At the bottom it shows the absorption flag and
- * connection state.
+ * trade summary bars, multi‑timeframe CVD, the futures context (open
+ * interest and funding) and liquidations. At the bottom it shows the
+ * absorption flag and connection state.
  */
 const RightStatsPanel: React.FC<RightStatsPanelProps> = ({ metrics, showLatency = false }) => {
-  const { timeAndSales, cvd, openInterest, funding, absorption, legacyMetrics, state } = metrics;
+  const { timeAndSales, cvd, openInterest, funding, markPrice, premiumPct, liquidations, absorption, legacyMetrics, state } = metrics;
   const lm: LegacyMetrics | undefined = legacyMetrics;
   const posNegClass = (n: number) => (n > 0 ? 'text-green-400' : n < 0 ? 'text-red-400' : 'text-zinc-300');
   // Bid/ask pressure ratio mapping to bar widths: ratio > 1 indicates more bid pressure
@@ -37,6 +37,7 @@ const RightStatsPanel: React.FC<RightStatsPanelProps> = ({ metrics, showLatency
   const sellPct = 100 - buyPct;
   // Format helpers
   const formatNum = (n: number, d = 2) => n.toLocaleString(undefined, { minimumFractionDigits: d, maximumFractionDigits: d });
+  const formatUsd = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(2)}M` : n >= 1_000 ? `${(n / 1_000).toFixed(1)}K` : n.toFixed(0);
   const formatTime = (ms: number) => {
     const secs = Math.floor(ms / 1000);
     const mins = Math.floor(secs / 60);
@@ -223,8 +224,47 @@ const RightStatsPanel: React.FC<RightStatsPanelProps> = ({ metrics, showLatency
             <div className="text-zinc-500">-</div>
           )}
         </div>
+        {/* Mark / premium */}
+        {typeof markPrice === 'number' && (
+          <div className="bg-zinc-800/50 p-2 rounded col-span-2 flex justify-between">
+            <span className="font-semibold text-zinc-400 text-[10px] uppercase">Mark</span>
+            <span className="font-mono text-zinc-200">{formatNum(markPrice, 2)}</span>
+            <span className={`font-mono ${posNegClass(premiumPct ?? 0)}`}>
+              {typeof premiumPct === 'number' ? `${premiumPct >= 0 ? '+' : ''}${premiumPct.toFixed(3)}%` : '-'}
+            </span>
+          </div>
+        )}
       </div>
 
+      {/* Liquidations */}
+      {liquidations && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-zinc-500">
+            <span>Liq 1m (L/S)</span>
+            <span className="font-mono">
+              <span className="text-red-400">{formatUsd(liquidations.longNotional1m)}</span>
+              {' / '}
+              <span className="text-green-400">{formatUsd(liquidations.shortNotional1m)}</span>
+            </span>
+          </div>
+          <div className="flex justify-between text-zinc-500">
+            <span>Liq 5m (L/S)</span>
+            <span className="font-mono">{formatUsd(liquidations.longNotional5m)} / {formatUsd(liquidations.shortNotional5m)}</span>
+          </div>
+          {liquidations.cascade.active ? (
+            <div className="px-2 py-1.5 bg-red-900/30 border-l-2 border-red-500 rounded-r">
+              <span className="text-[10px] text-red-400 font-bold">⚠️ {liquidations.cascade.side?.toUpperCase()} CASCADE</span>
+              <span className="text-[9px] text-red-300/70 ml-2">{liquidations.cascade.events} liqs / {formatUsd(liquidations.cascade.notional)}</span>
+            </div>
+          ) : liquidations.burst.active && (
+            <div className="px-2 py-1.5 bg-orange-900/30 border-l-2 border-orange-500 rounded-r">
+              <span className="text-[10px] text-orange-400 font-bold">{liquidations.burst.side?.toUpperCase()} LIQ BURST</span>
+              <span className="text-[9px] text-orange-300/70 ml-2">{liquidations.burst.count} liqs / {formatUsd(liquidations.burst.notional)}</span>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Absorption and state */}
       <div className="flex justify-between items-center mt-1">
         <div className="text-zinc-500">Absorption: {absorption && absorption > 0 ? <span className="text-yellow-300">Detected</span> : <span className="text-zinc-500">None</span>}</div>
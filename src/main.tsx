@@ -2,9 +2,12 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import './index.css';
 import Dashboard from './components/Dashboard';
+import AuthGate from './components/AuthGate';
 
 ReactDOM.createRoot(document.getElementById('root') as HTMLElement).render(
   <React.StrictMode>
-    <Dashboard />
+    <AuthGate>
+      <Dashboard />
+    </AuthGate>
   </React.StrictMode>
 );
\ No newline at end of file
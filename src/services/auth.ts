@@ -0,0 +1,95 @@
+/**
+ * Dashboard login state.  The API token entered on the login screen is
+ * exchanged for a session token at POST /api/auth/login; only the
+ * session is kept (sessionStorage) and sent as a bearer token, and as
+ * ``?token=`` on the WebSocket.  A 401 from any call ends the session.
+ */
+export type Role = 'viewer' | 'trader' | 'admin';
+
+export interface AuthSession {
+  // null when the server runs with AUTH_ENABLED=false
+  token: string | null;
+  name: string;
+  role: Role;
+  expiresAt: number | null;
+}
+
+const STORAGE_KEY = 'telecodex.session';
+const LOGOUT_EVENT = 'telecodex:logout';
+const ROLES: Role[] = ['viewer', 'trader', 'admin'];
+
+export function proxyApiBase(): string {
+  return (import.meta as any).env?.VITE_PROXY_API || `http://${window.location.hostname}:8787`;
+}
+
+export function loadSession(): AuthSession | null {
+  try {
+    const session = JSON.parse(sessionStorage.getItem(STORAGE_KEY) || 'null') as AuthSession | null;
+    if (!session || (session.expiresAt !== null && session.expiresAt <= Date.now())) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+export function saveSession(session: AuthSession) {
+  sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+}
+
+export function clearSession() {
+  sessionStorage.removeItem(STORAGE_KEY);
+  window.dispatchEvent(new Event(LOGOUT_EVENT));
+}
+
+export function onLogout(listener: () => void): () => void {
+  window.addEventListener(LOGOUT_EVENT, listener);
+  return () => window.removeEventListener(LOGOUT_EVENT, listener);
+}
+
+export function hasRole(session: AuthSession | null, required: Role): boolean {
+  return !!session && ROLES.indexOf(session.role) >= ROLES.indexOf(required);
+}
+
+/**
+ * fetch() with the session's bearer token.
+ */
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const token = loadSession()?.token;
+  const headers = new Headers(init.headers);
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+  const res = await fetch(url, { ...init, headers });
+  if (res.status === 401) {
+    clearSession();
+  }
+  return res;
+}
+
+/**
+ * Exchanges an API token for a session; throws with the server's error.
+ */
+export async function login(apiToken: string): Promise<AuthSession> {
+  const res = await fetch(`${proxyApiBase()}/api/auth/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token: apiToken }),
+  });
+  const data = await res.json();
+  if (!res.ok) {
+    throw new Error(data?.error || 'login_failed');
+  }
+  const session: AuthSession = { token: data.session, name: data.name, role: data.role, expiresAt: data.expiresAt };
+  saveSession(session);
+  return session;
+}
+
+export async function logout() {
+  try {
+    await authFetch(`${proxyApiBase()}/api/auth/logout`, { method: 'POST' });
+  } finally {
+    clearSession();
+  }
+}
@@ -1,13 +1,14 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { MetricsMessage, MetricsState } from '../types/metrics';
+import { loadSession } from './auth';
 
 /**
  * Hook that connects to the backend telemetry WebSocket and
  * accumulates per‑symbol metrics.  The server emits both raw Binance
  * messages and separate ``metrics`` messages.  We listen only for
- * ``metrics`` messages and update local state accordingly.  A new
- * WebSocket connection is opened whenever the list of active symbols
- * changes.
+ * ``metrics`` messages and update local state accordingly.  One
+ * WebSocket connection is kept open; changes to the list of active
+ * symbols are sent as ``subscribe`` / ``unsubscribe`` control messages.
  *
  * The hook returns a map keyed by symbol.  Each entry holds the
  * latest ``MetricsMessage`` for that symbol.  The UI should treat
@@ -20,10 +21,27 @@ export function useTelemetrySocket(activeSymbols: string[]): MetricsState {
   const reconnectAttempts = useRef(0);
   const maxReconnectAttempts = 10;
   const symbolsKey = activeSymbols.join(',');
+  // Symbols the server has been asked to stream on the current socket.
+  const subscribedRef = useRef<Set<string>>(new Set());
+  const symbolsRef = useRef<string[]>(activeSymbols);
+  symbolsRef.current = activeSymbols;
+
+  const syncSubscriptions = useCallback(() => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    const wanted = new Set(symbolsRef.current);
+    const added = [...wanted].filter(s => !subscribedRef.current.has(s));
+    const removed = [...subscribedRef.current].filter(s => !wanted.has(s));
+    if (removed.length > 0) {
+      ws.send(JSON.stringify({ type: 'unsubscribe', symbols: removed }));
+    }
+    if (added.length > 0) {
+      ws.send(JSON.stringify({ type: 'subscribe', symbols: added }));
+    }
+    subscribedRef.current = wanted;
+  }, []);
 
   const connect = useCallback(() => {
-    if (!activeSymbols || activeSymbols.length === 0) return;
-
     // Close any existing socket
     if (wsRef.current) {
       wsRef.current.close();
@@ -44,17 +62,21 @@ export function useTelemetrySocket(activeSymbols: string[]): MetricsState {
     // Try to use same port for WS if we're on the Nginx proxy (port 80/443)
     const wsPort = (port === '80' || port === '443' || port === '') ? '' : ':8787';
     const proxyWs = (import.meta as any).env?.VITE_PROXY_WS || `${protocol}//${hostname}${wsPort}`;
-    const url = `${proxyWs}/ws?symbols=${activeSymbols.join(',')}`;
+    // Browsers cannot set headers on the upgrade, so the session goes in the query
+    const token = loadSession()?.token;
+    const url = token ? `${proxyWs}/ws?token=${encodeURIComponent(token)}` : `${proxyWs}/ws`;
 
-    console.log(`[Telemetry] Connecting to WS: ${url} (attempt ${reconnectAttempts.current + 1})`);
+    console.log(`[Telemetry] Connecting to WS: ${proxyWs}/ws (attempt ${reconnectAttempts.current + 1})`);
 
     try {
       const ws = new WebSocket(url);
       wsRef.current = ws;
+      subscribedRef.current = new Set();
 
       ws.onopen = () => {
         console.log('[Telemetry] WebSocket connected');
         reconnectAttempts.current = 0; // Reset on successful connection
+        syncSubscriptions();
       };
 
       ws.onmessage = (event) => {
@@ -71,6 +93,7 @@ export function useTelemetrySocket(activeSymbols: string[]): MetricsState {
 
       ws.onclose = (event) => {
         console.log(`[Telemetry] WebSocket closed (code: ${event.code})`);
+        if (wsRef.current !== ws) return;
         wsRef.current = null;
 
         // Attempt reconnect with exponential backoff
@@ -95,7 +118,11 @@ export function useTelemetrySocket(activeSymbols: string[]): MetricsState {
         reconnectTimeoutRef.current = window.setTimeout(connect, delay);
       }
     }
-  }, [symbolsKey]);
+  }, [syncSubscriptions]);
+
+  useEffect(() => {
+    syncSubscriptions();
+  }, [symbolsKey, syncSubscriptions]);
 
   useEffect(() => {
     connect();
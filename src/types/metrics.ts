@@ -95,6 +95,35 @@ export interface FundingContext {
   source: 'real' | 'mock';
 }
 
+/**
+ * Liquidation context from the ``@forceOrder`` stream.  Long
+ * liquidations are forced sells, short liquidations forced buys;
+ * notionals are in USDT.  ``burst`` flags a short window far above its
+ * recent average and ``cascade`` one side liquidating repeatedly into a
+ * moving price.
+ */
+export interface LiquidationMetrics {
+  longNotional1m: number;
+  shortNotional1m: number;
+  longNotional5m: number;
+  shortNotional5m: number;
+  count1m: number;
+  lastEventTime: number | null;
+  burst: {
+    active: boolean;
+    side: 'long' | 'short' | null;
+    notional: number;
+    count: number;
+  };
+  cascade: {
+    active: boolean;
+    side: 'long' | 'short' | null;
+    notional: number;
+    events: number;
+    startedAt: number | null;
+  };
+}
+
 /**
  * The structure of a single ``metrics`` message from the server.
  * Each message contains data for one symbol.  The UI should not
@@ -105,6 +134,13 @@ export interface MetricsMessage {
   type: 'metrics';
   symbol: string;
   state: 'LIVE' | 'STALE' | 'RESYNCING';
+  // Gap handling and latest REST audit of the server-side book.
+  integrity?: {
+    gapMode: 'strict' | 'tolerant';
+    driftScore: number | null;
+    lastAuditTs: number | null;
+    auditResyncs: number;
+  };
   timeAndSales: TimeAndSalesMetrics;
   cvd: {
     tf1m: CvdTfMetrics;
@@ -114,6 +150,11 @@ export interface MetricsMessage {
   absorption: number | null;
   openInterest: OpenInterestMetrics | null;
   funding: FundingContext | null;
+  markPrice?: number | null;
+  indexPrice?: number | null;
+  // (mark - index) / index, in percent.
+  premiumPct?: number | null;
+  liquidations?: LiquidationMetrics | null;
   legacyMetrics: LegacyMetrics;
   bids: [number, number, number][];
   asks: [number, number, number][];
@@ -121,6 +162,124 @@ export interface MetricsMessage {
   lastUpdateId?: number;
 }
 
+/**
+ * Aggressor volume at one price level.  Imbalances are diagonal: buying
+ * at this level against selling one level below, and selling against
+ * buying one level above.
+ */
+export interface FootprintLevel {
+  price: number;
+  buy: number;
+  sell: number;
+  delta: number;
+  buyImbalance: boolean;
+  sellImbalance: boolean;
+}
+
+export interface StackedImbalance {
+  side: 'buy' | 'sell';
+  fromPrice: number;
+  toPrice: number;
+  levels: number;
+}
+
+/**
+ * One candle footprint or a session / rolling volume profile.
+ * ``levels`` is left out of the profile summaries pushed over /ws.
+ */
+export interface FootprintProfile {
+  startTime: number;
+  endTime: number;
+  levelSize: number;
+  volume: number;
+  buyVolume: number;
+  sellVolume: number;
+  delta: number;
+  poc: number | null;
+  valueAreaHigh: number | null;
+  valueAreaLow: number | null;
+  stackedImbalances: StackedImbalance[];
+  levels?: FootprintLevel[];
+}
+
+/**
+ * ``footprint`` message, at most once a second per symbol: the last
+ * closed and the open candle (oldest first) with their cells.
+ */
+export interface FootprintMessage {
+  type: 'footprint';
+  symbol: string;
+  levelSize: number | null;
+  candles: FootprintProfile[];
+  session: FootprintProfile | null;
+  rolling: FootprintProfile | null;
+}
+
+export type CandleTimeframe = '1s' | '1m' | '5m' | '15m';
+
+/**
+ * OHLCV bar with volume split by aggressor side; ``delta`` is buy
+ * volume minus sell volume.
+ */
+export interface Candle {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  buyVolume: number;
+  sellVolume: number;
+  delta: number;
+  trades: number;
+}
+
+/**
+ * ``candles`` message: the last closed and the open bar per timeframe,
+ * oldest first.  History is served by ``/api/candles/:symbol``.
+ */
+export interface CandlesMessage {
+  type: 'candles';
+  symbol: string;
+  bars: Record<CandleTimeframe, Candle[]>;
+}
+
+/**
+ * ``GET /api/history/:symbol`` response.  Fields are dotted paths into
+ * the metrics message (``legacyMetrics.deltaZ``, ``cvd.tf5m.exhaustion``
+ * as 1 / 0); every series is aligned with ``t``.
+ */
+export interface MetricsHistorySeries {
+  symbol: string;
+  resolutionMs: number;
+  fields: string[];
+  t: number[];
+  series: Record<string, (number | null)[]>;
+}
+
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * A server-side alert rule firing, sent to clients subscribed to the
+ * symbol as ``{ type: 'alert', alert }``.  ``values`` holds the fields
+ * the rule's expression read when it fired.
+ */
+export interface FiredAlert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  symbol: string;
+  severity: AlertSeverity;
+  expression: string;
+  values: Record<string, unknown>;
+  firedAt: number;
+}
+
+export interface AlertMessage {
+  type: 'alert';
+  alert: FiredAlert;
+}
+
 /**
  * Per symbol state stored in the Dashboard.  Each symbol maps to
  * its latest metrics message.  We do not store derived values on